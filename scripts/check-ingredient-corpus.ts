@@ -0,0 +1,23 @@
+/**
+ * @file scripts/check-ingredient-corpus.ts
+ * @description Runs the ingredient parser over its reference corpus (`src/lib/ingredients/corpus.ts`) and exits non-zero
+ * if any line no longer parses as expected. Run it with `npm run check:ingredients` after touching the parser.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import { checkIngredientCorpus, INGREDIENT_CORPUS } from '../src/lib/ingredients/corpus';
+
+const mismatches = checkIngredientCorpus();
+
+for (const { text, expected, actual } of mismatches) {
+  console.error(`✗ ${JSON.stringify(text)}`);
+  console.error(`  expected ${JSON.stringify(expected)}`);
+  console.error(`  actual   ${JSON.stringify({ ...actual, original: undefined })}`);
+}
+
+if (mismatches.length > 0) {
+  console.error(`\n${mismatches.length} of ${INGREDIENT_CORPUS.length} corpus lines parsed differently than expected.`);
+  process.exit(1);
+}
+console.log(`All ${INGREDIENT_CORPUS.length} corpus lines parse as expected.`);
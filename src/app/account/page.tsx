@@ -0,0 +1,87 @@
+/**
+ * @file src/app/account/page.tsx
+ * @description The signed-in user's account page: who they are and the recipes they've generated.
+ * @requires next For the `Metadata` type.
+ * @requires next/link For links to the recipes.
+ * @requires react-hot-toast For the toast container used by LogoutButton.
+ * @requires @/lib/auth For requiring a session.
+ * @requires @/lib/access For the account's plan.
+ * @requires @/lib/recipes For the user's recipes.
+ * @requires ../components/LogoutButton For signing out.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import type { Metadata } from "next"; // Type definition for Next.js page metadata.
+import Link from "next/link"; // Client-side navigation.
+import { Toaster } from "react-hot-toast"; // Component for displaying toast notifications.
+import { requireUser } from "@/lib/auth"; // Sessions.
+import { getAccess } from "@/lib/access"; // Access tiers.
+import { listRecipes } from "@/lib/recipes"; // Recipe data access.
+import LogoutButton from "../components/LogoutButton"; // Sign-out button.
+
+/**
+ * @constant metadata
+ * @description Page metadata; account pages are private.
+ */
+export const metadata: Metadata = { title: "Your account | RecipeWreck", robots: { index: false } };
+
+/**
+ * @component AccountPage
+ * @description Shows the user's plan and lists their most recent recipes. Signed-out visitors are sent to `/login` and brought back here.
+ * @componentType Server
+ * @returns {Promise<JSX.Element>} The account page.
+ */
+export default async function AccountPage() {
+  const user = await requireUser("/account");
+  const [{ plan }, { recipes }] = await Promise.all([getAccess(), listRecipes({ userID: user.id, limit: 50 })]);
+
+  return (
+    <div className="min-h-screen flex flex-col items-center p-6 gap-6 bg-gradient-to-br from-purple-50 to-fuchsia-50 dark:from-gray-800 dark:to-gray-900">
+      <Toaster />
+      <h1 className="text-3xl font-bold mt-4">{user.name ? `Hi, ${user.name}` : "Your account"}</h1>
+      <div className="bg-white dark:bg-gray-800 shadow-lg rounded-lg p-6 w-full max-w-xl">
+        <div className="flex items-center justify-between gap-4 mb-6">
+          <div>
+            <p className="font-semibold">{user.email}</p>
+            <p className="text-sm text-gray-500">Member since {new Date(user.createdAt).toLocaleDateString()}</p>
+            <p className="text-sm">
+              {plan.label} plan: {plan.dailyGenerations} generations a day{plan.features.hdImages && ", HD images"}
+              {plan.tier === "free" && (
+                <>
+                  {" "}
+                  &middot;{" "}
+                  <Link href="/#preorder-section" className="text-purple-600 underline">
+                    Get lifetime access
+                  </Link>
+                </>
+              )}
+            </p>
+          </div>
+          <LogoutButton />
+        </div>
+        <h2 className="text-xl font-semibold mb-2">Your recipes</h2>
+        {recipes.length === 0 ? (
+          <p>
+            Nothing yet.{" "}
+            <Link href="/recipe-generator" className="text-purple-600 underline">
+              Wreck something
+            </Link>
+            .
+          </p>
+        ) : (
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+            {recipes.map((recipe) => (
+              <li key={recipe.id} className="flex items-center justify-between py-2">
+                <Link href={`/r/${recipe.slug}`} className="text-purple-600 underline">
+                  {recipe.title}
+                </Link>
+                <span className="text-sm text-gray-500">{new Date(recipe.createdAt).toLocaleDateString()}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
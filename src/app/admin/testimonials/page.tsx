@@ -0,0 +1,53 @@
+/**
+ * @file src/app/admin/testimonials/page.tsx
+ * @description Testimonial moderation for admins (accounts listed in `ADMIN_EMAILS`). Everyone else gets the
+ * not-found page.
+ * @requires next For the `Metadata` type.
+ * @requires next/link For the link back to the site.
+ * @requires react-hot-toast For the toast container used by the queue.
+ * @requires @/lib/auth For the admin check.
+ * @requires @/lib/testimonials For loading the queue.
+ * @requires ../../components/TestimonialModerationQueue For the queue.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import type { Metadata } from "next"; // Type definition for Next.js page metadata.
+import Link from "next/link"; // Client-side navigation.
+import { Toaster } from "react-hot-toast"; // Component for displaying toast notifications.
+import { requireAdmin } from "@/lib/auth"; // Admin check.
+import { listTestimonialsForModeration } from "@/lib/testimonials"; // Testimonial data access.
+import TestimonialModerationQueue from "../../components/TestimonialModerationQueue"; // Moderation queue.
+
+/**
+ * @constant metadata
+ * @description Page metadata; staff pages are kept out of search results.
+ */
+export const metadata: Metadata = { title: "Testimonials | RecipeWreck admin", robots: { index: false } };
+
+/**
+ * @component TestimonialsAdminPage
+ * @description Loads the pending queue, the approved testimonials and the most recently rejected ones.
+ * @componentType Server
+ * @returns {Promise<JSX.Element>} The moderation page.
+ * @throws Renders the not-found page for visitors who aren't admins.
+ */
+export default async function TestimonialsAdminPage() {
+  await requireAdmin();
+  const [pending, approved, rejected] = await Promise.all([
+    listTestimonialsForModeration("pending"),
+    listTestimonialsForModeration("approved"),
+    listTestimonialsForModeration("rejected", 20),
+  ]);
+
+  return (
+    <div className="min-h-screen flex flex-col items-center p-6 gap-6 bg-gradient-to-br from-purple-50 to-fuchsia-50 dark:from-gray-800 dark:to-gray-900">
+      <Toaster />
+      <h1 className="text-3xl font-bold mt-4">Testimonial moderation</h1>
+      <TestimonialModerationQueue initial={[...pending, ...approved, ...rejected]} />
+      <Link href="/" className="text-purple-600 underline">
+        Back to RecipeWreck
+      </Link>
+    </div>
+  );
+}
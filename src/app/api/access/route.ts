@@ -0,0 +1,24 @@
+/**
+ * @file src/app/api/access/route.ts
+ * @description API Route Handler reporting the caller's access tier and what it unlocks, so the generator UI can explain
+ * quotas and hide or explain features the caller doesn't have. The routes enforce the same plan regardless.
+ * @requires next/server For the NextResponse object.
+ * @requires @/lib/access For resolving the tier.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import { NextResponse } from "next/server"; // Next.js response helper.
+import { getAccess } from "@/lib/access"; // Access tiers.
+
+/**
+ * @async
+ * @function GET
+ * @description Returns the caller's tier.
+ * @route GET /api/access
+ * @returns {Promise<NextResponse>} 200: `{ tier, plan: TierPlan, signedIn: boolean }`.
+ */
+export async function GET() {
+  const { tier, plan, user } = await getAccess();
+  return NextResponse.json({ tier, plan, signedIn: Boolean(user) }, { headers: { "Cache-Control": "no-store" } });
+}
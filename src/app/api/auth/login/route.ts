@@ -0,0 +1,72 @@
+/**
+ * @file src/app/api/auth/login/route.ts
+ * @description API Route Handler for signing in with an email and password.
+ * @requires next/server For NextRequest and NextResponse objects to handle API requests and responses.
+ * @requires zod For validating the request body.
+ * @requires @/lib/auth For checking the password, throttling attempts and starting the session.
+ * @requires @/lib/rateLimit For the 429 response.
+ * @requires @/lib/clientIdentity For the client IP recorded on the session and the throttle key.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import { NextRequest, NextResponse } from "next/server"; // Next.js types for API route handling.
+import { z } from "zod"; // Library for schema validation.
+import {
+  authenticateWithPassword,
+  createSession,
+  PASSWORD_MAX_LENGTH,
+  setSessionCookie,
+  throttleAuth,
+} from "@/lib/auth"; // Accounts and sessions.
+import { throttledResponse } from "@/lib/rateLimit"; // 429 responses.
+import { getClientIdentity } from "@/lib/clientIdentity"; // Client IP.
+
+/**
+ * @constant LoginBodySchema
+ * @description Zod schema for the sign-in body.
+ */
+const LoginBodySchema = z.object({
+  email: z.string().trim().max(254),
+  password: z.string().min(1).max(PASSWORD_MAX_LENGTH),
+});
+
+/**
+ * @async
+ * @function POST
+ * @description Signs in with a password. Unknown emails and wrong passwords get the same answer. Attempts are throttled
+ * per IP and per email.
+ * @route POST /api/auth/login
+ * @param {NextRequest} req - The incoming request, with a JSON body `{ email, password }`.
+ * @returns {Promise<NextResponse>}
+ *   - 200: `{ user: AuthUser }`, with the session cookie set.
+ *   - 400: `{ error: "Invalid login request" }` for a malformed body.
+ *   - 401: `{ error: "Wrong email or password" }`.
+ *   - 429: `{ error: "Too many attempts, try again later", retryAfter }`.
+ *   - 500: `{ error: "Sign-in failed" }` if the database is unavailable.
+ */
+export async function POST(req: NextRequest) {
+  const parsed = LoginBodySchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid login request" }, { status: 400 });
+  }
+
+  const ip = getClientIdentity(req).ip;
+  const retryAfter = await throttleAuth("login", { ip, email: parsed.data.email.toLowerCase() });
+  if (retryAfter) return throttledResponse(retryAfter);
+
+  try {
+    const user = await authenticateWithPassword(parsed.data.email, parsed.data.password);
+    if (!user) {
+      return NextResponse.json({ error: "Wrong email or password" }, { status: 401 });
+    }
+    const session = await createSession(user.id, {
+      ip,
+      userAgent: req.headers.get("user-agent"),
+    });
+    return setSessionCookie(NextResponse.json({ user }), session);
+  } catch (err) {
+    console.error("/api/auth/login error", err);
+    return NextResponse.json({ error: "Sign-in failed" }, { status: 500 });
+  }
+}
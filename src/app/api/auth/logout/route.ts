@@ -0,0 +1,29 @@
+/**
+ * @file src/app/api/auth/logout/route.ts
+ * @description API Route Handler for signing out.
+ * @requires next/server For the NextResponse object.
+ * @requires @/lib/auth For ending the session.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import { NextResponse } from "next/server"; // Next.js response helper.
+import { endSession } from "@/lib/auth"; // Sessions.
+
+/**
+ * @async
+ * @function POST
+ * @description Ends the current session and clears its cookie. Succeeds even when already signed out.
+ * @route POST /api/auth/logout
+ * @returns {Promise<NextResponse>}
+ *   - 204: Signed out.
+ *   - 500: `{ error: "Sign-out failed" }` if the session couldn't be deleted.
+ */
+export async function POST() {
+  try {
+    return await endSession(new NextResponse(null, { status: 204 }));
+  } catch (err) {
+    console.error("/api/auth/logout error", err);
+    return NextResponse.json({ error: "Sign-out failed" }, { status: 500 });
+  }
+}
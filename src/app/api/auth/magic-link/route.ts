@@ -0,0 +1,59 @@
+/**
+ * @file src/app/api/auth/magic-link/route.ts
+ * @description API Route Handler for requesting a sign-in link by email.
+ * @requires next/server For NextRequest and NextResponse objects to handle API requests and responses.
+ * @requires zod For validating the request body.
+ * @requires @/lib/auth For sending the link and throttling requests.
+ * @requires @/lib/rateLimit For the 429 response.
+ * @requires @/lib/clientIdentity For the client IP the throttle is keyed by.
+ * @requires @/lib/siteUrl For the origin of the links it builds.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import { NextRequest, NextResponse } from "next/server"; // Next.js types for API route handling.
+import { z } from "zod"; // Library for schema validation.
+import { sendMagicLink, throttleAuth } from "@/lib/auth"; // Magic links.
+import { throttledResponse } from "@/lib/rateLimit"; // 429 responses.
+import { getClientIdentity } from "@/lib/clientIdentity"; // Client IP.
+import { getSiteOrigin } from "@/lib/siteUrl"; // Public origin for absolute links.
+
+/**
+ * @constant MagicLinkBodySchema
+ * @description Zod schema for the request body: the email, and where to go after signing in.
+ */
+const MagicLinkBodySchema = z.object({
+  email: z.string().trim().toLowerCase().email().max(254),
+  next: z.string().max(500).optional(),
+});
+
+/**
+ * @async
+ * @function POST
+ * @description Emails a single-use sign-in link. Works for new and existing emails alike; a new email gets an account
+ * when the link is followed.
+ * @route POST /api/auth/magic-link
+ * @param {NextRequest} req - The incoming request, with a JSON body `{ email, next? }`.
+ * @returns {Promise<NextResponse>}
+ *   - 202: `{ sent: true }`.
+ *   - 400: `{ error: "Enter a valid email" }`.
+ *   - 429: `{ error: "Too many attempts, try again later", retryAfter }`.
+ *   - 500: `{ error: "Could not send the sign-in link" }` if the database or mail transport fails.
+ */
+export async function POST(req: NextRequest) {
+  const parsed = MagicLinkBodySchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Enter a valid email" }, { status: 400 });
+  }
+
+  const retryAfter = await throttleAuth("magicLink", { ip: getClientIdentity(req).ip, email: parsed.data.email });
+  if (retryAfter) return throttledResponse(retryAfter);
+
+  try {
+    await sendMagicLink({ ...parsed.data, origin: getSiteOrigin() });
+    return NextResponse.json({ sent: true }, { status: 202 });
+  } catch (err) {
+    console.error("/api/auth/magic-link error", err);
+    return NextResponse.json({ error: "Could not send the sign-in link" }, { status: 500 });
+  }
+}
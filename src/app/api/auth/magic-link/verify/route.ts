@@ -0,0 +1,43 @@
+/**
+ * @file src/app/api/auth/magic-link/verify/route.ts
+ * @description API Route Handler for the link in sign-in emails. Redeems the token, signs in and redirects.
+ * @requires next/server For NextRequest and NextResponse objects to handle API requests and responses.
+ * @requires @/lib/auth For redeeming the link and starting the session.
+ * @requires @/lib/clientIdentity For the client IP recorded on the session.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import { NextRequest, NextResponse } from "next/server"; // Next.js types for API route handling.
+import { createSession, redeemMagicLink, setSessionCookie } from "@/lib/auth"; // Magic links and sessions.
+import { getClientIdentity } from "@/lib/clientIdentity"; // Client IP.
+
+/**
+ * @async
+ * @function GET
+ * @description Signs in from an emailed link. Failures go back to the login page with an error code rather than a JSON
+ * error, since this is opened from an email client.
+ * @route GET /api/auth/magic-link/verify?token=<token>
+ * @param {NextRequest} req - The incoming request.
+ * @returns {Promise<NextResponse>}
+ *   - 303: To the link's destination, with the session cookie set.
+ *   - 303: To `/login?error=link-expired` for unknown, used or expired links.
+ *   - 303: To `/login?error=server` if the database is unavailable.
+ */
+export async function GET(req: NextRequest) {
+  const token = req.nextUrl.searchParams.get("token") ?? "";
+  try {
+    const redeemed = token ? await redeemMagicLink(token) : null;
+    if (!redeemed) {
+      return NextResponse.redirect(new URL("/login?error=link-expired", req.nextUrl.origin), 303);
+    }
+    const session = await createSession(redeemed.user.id, {
+      ip: getClientIdentity(req).ip,
+      userAgent: req.headers.get("user-agent"),
+    });
+    return setSessionCookie(NextResponse.redirect(new URL(redeemed.next, req.nextUrl.origin), 303), session);
+  } catch (err) {
+    console.error("/api/auth/magic-link/verify error", err);
+    return NextResponse.redirect(new URL("/login?error=server", req.nextUrl.origin), 303);
+  }
+}
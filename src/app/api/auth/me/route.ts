@@ -0,0 +1,22 @@
+/**
+ * @file src/app/api/auth/me/route.ts
+ * @description API Route Handler reporting who is signed in, for client components that show account state.
+ * @requires next/server For the NextResponse object.
+ * @requires @/lib/auth For the session helper.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import { NextResponse } from "next/server"; // Next.js response helper.
+import { getSessionUser } from "@/lib/auth"; // Sessions.
+
+/**
+ * @async
+ * @function GET
+ * @description Returns the signed-in user.
+ * @route GET /api/auth/me
+ * @returns {Promise<NextResponse>} 200: `{ user: AuthUser | null }`.
+ */
+export async function GET() {
+  return NextResponse.json({ user: await getSessionUser() }, { headers: { "Cache-Control": "no-store" } });
+}
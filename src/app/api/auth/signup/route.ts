@@ -0,0 +1,65 @@
+/**
+ * @file src/app/api/auth/signup/route.ts
+ * @description API Route Handler for creating an account with an email and password.
+ * @requires next/server For NextRequest and NextResponse objects to handle API requests and responses.
+ * @requires zod For validating the request body.
+ * @requires @/lib/auth For starting the sign-up and throttling it.
+ * @requires @/lib/rateLimit For the 429 response.
+ * @requires @/lib/clientIdentity For the client IP the throttle is keyed by.
+ * @requires @/lib/siteUrl For the origin of the links it builds.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import { NextRequest, NextResponse } from "next/server"; // Next.js types for API route handling.
+import { z } from "zod"; // Library for schema validation.
+import { PASSWORD_MAX_LENGTH, PASSWORD_MIN_LENGTH, requestSignup, throttleAuth } from "@/lib/auth"; // Accounts.
+import { throttledResponse } from "@/lib/rateLimit"; // 429 responses.
+import { getClientIdentity } from "@/lib/clientIdentity"; // Client IP.
+import { getSiteOrigin } from "@/lib/siteUrl"; // Public origin for absolute links.
+
+/**
+ * @constant SignupBodySchema
+ * @description Zod schema for the sign-up body, including where to go once the account is confirmed.
+ */
+const SignupBodySchema = z.object({
+  email: z.string().trim().toLowerCase().email().max(254),
+  password: z.string().min(PASSWORD_MIN_LENGTH).max(PASSWORD_MAX_LENGTH),
+  name: z.string().trim().min(1).max(80).optional(),
+  next: z.string().max(500).optional(),
+});
+
+/**
+ * @async
+ * @function POST
+ * @description Starts a sign-up by emailing a confirmation link; the account is created when it's followed. The answer
+ * is the same whether or not the email is already registered (its owner is emailed a sign-in link instead), so the
+ * form can't be used to find out who has an account.
+ * @route POST /api/auth/signup
+ * @param {NextRequest} req - The incoming request, with a JSON body `{ email, password, name?, next? }`.
+ * @returns {Promise<NextResponse>}
+ *   - 202: `{ sent: true }`.
+ *   - 400: `{ error: "Enter a valid email and a password of at least 8 characters" }`.
+ *   - 429: `{ error: "Too many attempts, try again later", retryAfter }`.
+ *   - 500: `{ error: "Sign-up failed" }` if the database or mail transport fails.
+ */
+export async function POST(req: NextRequest) {
+  const parsed = SignupBodySchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: `Enter a valid email and a password of at least ${PASSWORD_MIN_LENGTH} characters` },
+      { status: 400 }
+    );
+  }
+
+  const retryAfter = await throttleAuth("signup", { ip: getClientIdentity(req).ip, email: parsed.data.email });
+  if (retryAfter) return throttledResponse(retryAfter);
+
+  try {
+    await requestSignup({ ...parsed.data, origin: getSiteOrigin() });
+    return NextResponse.json({ sent: true }, { status: 202 });
+  } catch (err) {
+    console.error("/api/auth/signup error", err);
+    return NextResponse.json({ error: "Sign-up failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * @file src/app/api/checkout/route.ts
+ * @description API Route Handler that starts a Stripe Checkout session for lifetime access.
+ * @requires next/server For NextRequest and NextResponse objects to handle API requests and responses.
+ * @requires zod For validating the request body.
+ * @requires @/lib/billing For creating the session.
+ * @requires @/lib/auth For tying the purchase to the signed-in account.
+ * @requires @/lib/siteUrl For the origin of the links it builds.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import { NextRequest, NextResponse } from "next/server"; // Next.js types for API route handling.
+import { z } from "zod"; // Library for schema validation.
+import { BillingConfigError, createLifetimeCheckoutSession, hasEntitlement, isStripeError } from "@/lib/billing"; // Payments.
+import { getSessionUser } from "@/lib/auth"; // Sessions.
+import { getSiteOrigin } from "@/lib/siteUrl"; // Public origin for absolute links.
+
+/**
+ * @constant CheckoutBodySchema
+ * @description Zod schema for the request body. The email is optional: signed-in buyers use their account's, and
+ * anyone else is asked for one by Checkout.
+ */
+const CheckoutBodySchema = z.object({
+  email: z.string().trim().toLowerCase().email().max(254).optional(),
+});
+
+/**
+ * @async
+ * @function POST
+ * @description Creates a Checkout session and returns its URL for the browser to redirect to. Signed-in buyers are tied
+ * to their account; everyone else to the email they give here or in Checkout. Nothing is recorded until Stripe calls
+ * the webhook.
+ * @route POST /api/checkout
+ * @param {NextRequest} req - The incoming request, with an optional JSON body `{ email? }`.
+ * @returns {Promise<NextResponse>}
+ *   - 200: `{ id, url }`.
+ *   - 400: `{ error: "Enter a valid email" }`.
+ *   - 409: `{ error: "You already have lifetime access" }` for signed-in buyers who already paid.
+ *   - 500: `{ error }` if Stripe isn't configured or the account check fails.
+ *   - 502: `{ error: "Checkout is unavailable right now" }` if Stripe rejects the request.
+ */
+export async function POST(req: NextRequest) {
+  const parsed = CheckoutBodySchema.safeParse(await req.json().catch(() => ({})));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Enter a valid email" }, { status: 400 });
+  }
+
+  try {
+    const user = await getSessionUser();
+    if (user && (await hasEntitlement(user, "lifetime"))) {
+      return NextResponse.json({ error: "You already have lifetime access" }, { status: 409 });
+    }
+    const session = await createLifetimeCheckoutSession({
+      origin: getSiteOrigin(),
+      email: user?.email ?? parsed.data.email ?? null,
+      userID: user?.id ?? null,
+    });
+    return NextResponse.json(session);
+  } catch (err) {
+    console.error("/api/checkout error", err);
+    if (err instanceof BillingConfigError) {
+      return NextResponse.json({ error: err.message }, { status: 500 });
+    }
+    if (isStripeError(err)) {
+      return NextResponse.json({ error: "Checkout is unavailable right now" }, { status: 502 });
+    }
+    return NextResponse.json({ error: "Checkout failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * @file src/app/api/generate/quota/route.ts
+ * @description API Route Handler reporting the caller's remaining generation quota, so `PromptInput` can show how many
+ * generations are left and whether the caller is cooling down before they submit.
+ * @requires next/server For NextRequest and NextResponse objects to handle API requests and responses.
+ * @requires @/lib/rateLimit For reading the limiter state.
+ * @requires @/lib/clientIdentity For the anonymous device cookie and client IP.
+ * @requires @/lib/access For the caller's tier, which sets their daily quota and features.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import { NextRequest, NextResponse } from "next/server"; // Next.js types for API route handling.
+import { getRateLimitStatus, rateLimitHeaders } from "@/lib/rateLimit"; // Generation limits.
+import { getClientIdentity, persistDeviceId } from "@/lib/clientIdentity"; // Device cookie and IP.
+import { getAccess } from "@/lib/access"; // Access tiers.
+
+/**
+ * @async
+ * @function GET
+ * @description Returns the caller's quota, under their tier's daily cap, without consuming any of it. Also issues the device cookie on a first visit,
+ * so the first generation is already counted against a stable device id.
+ * @route GET /api/generate/quota
+ * @param {NextRequest} req - The incoming request.
+ * @returns {Promise<NextResponse>}
+ *   - 200: The `RateLimitStatus` `{ allowed, reason, limit, remaining, retryAfter, resetAt }`.
+ *   - 500: `{ error: "Failed to load quota" }` if the rate limit store is unavailable.
+ */
+export async function GET(req: NextRequest) {
+  const client = getClientIdentity(req);
+  const access = await getAccess();
+  try {
+    const status = await getRateLimitStatus({
+      userID: access.user?.id ?? null,
+      deviceId: client.deviceId,
+      ip: client.ip,
+      dailyMax: access.plan.dailyGenerations,
+    });
+    return persistDeviceId(
+      NextResponse.json(status, { headers: { ...rateLimitHeaders(status), "Cache-Control": "no-store" } }),
+      client
+    );
+  } catch (err) {
+    console.error("/api/generate/quota error", err);
+    return NextResponse.json({ error: "Failed to load quota" }, { status: 500 });
+  }
+}
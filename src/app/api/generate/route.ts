@@ -1,171 +1,105 @@
 /**
  * @file src/app/api/generate/route.ts
- * @description API Route Handler for generating recipes using Google GenAI. It processes user prompts to create recipe text and an accompanying image.
+ * @description API Route Handler for generating recipes. It processes user prompts to create recipe text and an accompanying image
+ * through the configured generation providers (Gemini/Imagen in production, the offline fake provider in development), and stores
+ * each successful generation in MongoDB, owned by the signed-in user if there is one. Images are written to the image store and
+ * returned as a URL.
  * @requires next/server For NextRequest and NextResponse objects to handle API requests and responses.
- * @requires @google/genai For interacting with Google's Generative AI models (text and image).
- * @requires zod For validating the request body schema.
+ * @requires @/lib/generation For request validation and the pluggable text/image providers.
+ * @requires @/lib/generation/pipeline For text and image generation, output validation and persistence.
+ * @requires @/lib/rateLimit For per-device and per-IP generation limits.
+ * @requires @/lib/clientIdentity For the anonymous device cookie and client IP.
+ * @requires @/lib/access For the caller's tier, which sets their daily quota and features.
+ * @requires @/lib/moderation For checking the prompt and the generated recipe.
+ * @see ./stream/route.ts The Server-Sent Events variant that streams the recipe as it is generated.
  * @author Cascade
  * @date 2025-06-12
  */
 
 import { NextRequest, NextResponse } from "next/server"; // Next.js types for API route handling.
-import { GoogleGenAI } from "@google/genai"; // Google Generative AI SDK.
-import { z } from "zod"; // Library for schema validation.
-
-// ---------- helpers ----------
-/**
- * @constant BodySchema
- * @description Zod schema for validating the request body for the recipe generation endpoint.
- * Requires a 'prompt' field which must be a string between 1 and 500 characters.
- * @type {z.ZodObject<{ prompt: z.ZodString }>}
- */
-const BodySchema = z.object({
-  prompt: z.string().min(1).max(500),
-});
-
-/**
- * @function parseRecipe
- * @description Parses the raw text output from the language model to extract the recipe's title, ingredients, and steps.
- * It handles variations in formatting, such as Markdown, and organizes the content into a structured object.
- * Expects the text block to contain "Title:", "Ingredients:", and "Steps:" sections.
- * @param {string} raw - The raw string output from the language model.
- * @returns {{ title: string, ingredients: string[], steps: string[] }} An object containing the parsed recipe details.
- */
-const parseRecipe = (raw: string) => {
-  let title = "Untitled Wreck";
-  const ingredients: string[] = [];
-  const steps: string[] = [];
-
-  // Split the response into lines, keep non-empty ones
-  const lines = raw.split("\n").map((l) => l.trim()).filter(Boolean);
-  let mode: "none" | "ingredients" | "steps" = "none";
-
-  // Iterate through each line, stripping common Markdown decorations first so
-  // that headings like "**Title:**" are recognised the same as "Title:"
-  for (const line of lines) {
-    const clean = line.replace(/[*_`]/g, "").trim();
-    const lower = clean.toLowerCase();
-    if (lower.startsWith("title:")) {
-      title = clean.slice(6).trim();
-      mode = "none";
-      continue;
-    }
-    if (lower.startsWith("ingredients")) {
-      mode = "ingredients";
-      continue;
-    }
-    if (lower.startsWith("steps")) {
-      mode = "steps";
-      continue;
-    }
-
-    if (mode === "ingredients") {
-      ingredients.push(clean.replace(/^[-*]\s*/, ""));
-    } else if (mode === "steps") {
-      steps.push(clean.replace(/^\d+\.\s*/, ""));
-    }
-  }
-
-  return { title, ingredients, steps };
-};
+import { GenerateBodySchema, GenerationConfigError, getImageProvider, getTextProvider } from "@/lib/generation"; // Provider layer.
+import { runRecipeGeneration } from "@/lib/generation/pipeline"; // Shared generation pipeline.
+import { buildRecipeRequest } from "@/lib/generation/prompts"; // Shared prompt templates.
+import { rateLimitExceededResponse, rateLimitHeaders, tryConsumeRateLimit } from "@/lib/rateLimit"; // Generation limits.
+import { getClientIdentity, persistDeviceId } from "@/lib/clientIdentity"; // Device cookie and IP.
+import { getAccess } from "@/lib/access"; // Access tiers.
+import { moderatePrompt, moderationRejectedResponse } from "@/lib/moderation"; // Moderation pipeline.
 
 // ---------- route handler ----------
 /**
  * @async
  * @function POST
- * @description API route handler for POST requests to `/api/generate`. It takes a user prompt from the request body,
- * uses Google GenAI to generate recipe text and an image, parses the recipe text, and returns the structured recipe data.
+ * @description API route handler for POST requests to `/api/generate`. It takes a user prompt from the request body, checks
+ * the rate limit for the caller's tier and prompt moderation, then runs the shared generation pipeline: a schema-constrained JSON recipe from the text
+ * provider, validated with zod (falling back to the free-text parser if the model returns anything else) and against the recipe
+ * contract (retrying up to `GENERATION_MAX_ATTEMPTS` times), output moderation, an image from the image provider (HD for tiers
+ * with `hdImages`), and storage.
+ * It returns the full recipe record with its id and permalink slug. Persistence is best-effort: if the database is unavailable
+ * the recipe is still returned, with `id` and `slug` set to null. Likewise, if the image store fails the recipe is returned
+ * without an image.
  * @route POST /api/generate
- * @param {NextRequest} req - The incoming Next.js request object. Expected to have a JSON body matching `BodySchema` (i.e., { prompt: string }).
+ * @param {NextRequest} req - The incoming Next.js request object. Expected to have a JSON body matching `GenerateBodySchema` (i.e., { prompt: string, mealType?, cuisine?, servings?, wreckLevel? }).
  * @returns {Promise<NextResponse>} A promise resolving to a NextResponse object.
- *   - On success (200): Returns JSON data `{ title, ingredients, steps, imageBase64 }`.
+ *   - On success (200): Returns the `GenerationResult` `{ id, slug, parentId, remixDirection, title, description, mealType, calories, servings, associatedDiseases, tags, ingredients, steps, imageUrl }`.
  *   - On validation error (implicitly 400 via Zod, caught as 500): Returns JSON `{ error: "Generation failed" }`.
- *   - On missing API key (500): Returns JSON `{ error: "Missing API key" }`.
+ *   - When the prompt or the generated recipe is blocked by moderation (422): Returns JSON `{ error, rejection: { stage, category, reason } }`.
+ *   - When the caller is over its sliding-window or daily limit (429): Returns JSON `{ error, reason, retryAfter, limit, remaining }` with a `Retry-After` header.
+ *   - When every attempt breaks the recipe contract (502): Returns JSON `{ error: "Generated recipe failed validation" }`.
+ *   - On provider misconfiguration, e.g. a missing API key (500): Returns JSON `{ error: "Missing API key" }`.
  *   - On other server errors (500): Returns JSON `{ error: "Generation failed" }`.
- * @throws Catches errors from Zod validation, GenAI API calls, or internal processing, logs them, and returns a 500 status with an error message.
+ *   Successful and rate-limited responses carry `X-RateLimit-Limit`, `X-RateLimit-Remaining` and `X-RateLimit-Reset` headers.
+ * @throws Catches errors from Zod validation, provider calls, or internal processing, logs them, and returns a 500 status with an error message.
  */
 export async function POST(req: NextRequest) {
+  const client = getClientIdentity(req);
+  const access = await getAccess();
   try {
     const body = await req.json();
-    const { prompt } = BodySchema.parse(body);
-
-    const apiKey = process.env.GOOGLE_GENAI_API_KEY;
-    if (!apiKey) {
-      return NextResponse.json({ error: "Missing API key" }, { status: 500 });
-    }
-
-    const ai = new GoogleGenAI({ apiKey: apiKey });
-    const textModelName = process.env.GENAI_TEXT_MODEL || "gemini-1.5-flash-latest";
-    // We could set responseMimeType here but will inline below. Removed unused var to avoid lint.
+    const { prompt, ...options } = GenerateBodySchema.parse(body);
 
-    const textPrompt = `Generate an OUTRAGEOUSLY unhealthy recipe in the following format:\n\n
-                        Title: <creative title>\n\n
-                        Ingredients:\n
-                        - <ingredient 1>\n
-                        - <ingredient 2>\n\n
-                        Steps:\n
-                        1. <step 1>\n
-                        2. <step 2>\n\n
-                        Prompt subject: ${prompt}`;
-    console.log("Text prompt:", textPrompt);
-    const requestContents = [{ role: 'user', parts: [{ text: textPrompt }] }];
+    const textProvider = getTextProvider();
+    const imageProvider = getImageProvider();
 
-    // Disable thinking by setting thinkingBudget: 0 (allowed for 2.5 Flash), -1 = dynmaic thinking budget
-    const textRes = await ai.models.generateContent({
-      model: textModelName,
-      contents: requestContents,
-      config: {
-        thinkingConfig: { thinkingBudget: -1, includeThoughts: true },
-      },
+    // Checked after validation and provider setup so malformed or misconfigured requests don't use up quota.
+    const quota = await tryConsumeRateLimit({
+      userID: access.user?.id ?? null,
+      deviceId: client.deviceId,
+      ip: client.ip,
+      dailyMax: access.plan.dailyGenerations,
     });
-
-    // Accessing text as a property, or via candidates as a fallback
-    console.log("Text API Response:", JSON.stringify(textRes, null, 2)); // Log textRes
-
-    let rawText = "";
-    if (textRes.candidates?.[0]?.content?.parts) {
-      for (const part of textRes.candidates[0].content.parts) {
-        if (part.thought) {
-          console.log("Gemini Thought Summary:", part.text);
-        } else if (part.text) {
-          rawText += part.text;
-        }
-      }
+    if (quota && !quota.allowed) {
+      return persistDeviceId(rateLimitExceededResponse(quota), client);
     }
 
-    // Fallback for simpler responses
-    if (!rawText) {
-      rawText = textRes.text ?? "";
+    const moderationContext = { userID: access.user?.id ?? null, deviceId: client.deviceId, ip: client.ip };
+    // The cuisine is free text too, so it is checked together with the prompt.
+    const promptCheck = await moderatePrompt([prompt, options.cuisine].filter(Boolean).join("\n"), moderationContext);
+    if (!promptCheck.allowed) {
+      return persistDeviceId(moderationRejectedResponse(promptCheck), client);
     }
 
-    console.log(`rawText is: ${rawText}`);
-    const { title, ingredients, steps } = parseRecipe(rawText);
-    console.log(`Title is: ${title}`)
-    console.log(`Ingredients is: ${ingredients}`)
-    console.log(`Steps is: ${steps}`)
-
-    // Image generation
-    const imageModelName = process.env.GENAI_IMAGE_MODEL || "imagen-3.0-generate-002"; // Changed from imagen-3 due to 404 error on v1beta
-    // Request a 16×9 aspect ratio so the generated image fits our card (see docs for Imagen 3)
-    const imageGenerationConfig = {
-      responseMimeType: "image/png",
-      generationConfig: {
-        aspectRatio: "16:9",
-      },
-    }; // cast as any until SDK types include aspectRatio
-
-    const imgRes = await ai.models.generateImages({
-      model: imageModelName,
-      prompt: `High resolution food photography of ${title}${ingredients.length ? ` featuring ${ingredients.slice(0, 5).join(', ')}` : ''}`,
-      ...imageGenerationConfig,
+    const outcome = await runRecipeGeneration({
+      textProvider,
+      imageProvider,
+      textRequest: buildRecipeRequest(prompt, options),
+      userPrompt: prompt,
+      moderationContext,
+      hdImages: access.plan.features.hdImages,
     });
-    const imageBase64 = imgRes.generatedImages?.[0]?.image?.imageBytes ?? ""; // Based on official SDK example for Imagen 3
+    if (outcome.status === "invalid") {
+      return persistDeviceId(NextResponse.json({ error: "Generated recipe failed validation" }, { status: 502 }), client);
+    }
+    if (outcome.status === "rejected") {
+      return persistDeviceId(moderationRejectedResponse(outcome.decision), client);
+    }
 
-    const jsonData = { title, ingredients, steps, imageBase64 };
-    console.log('Final JSON Data to be sent (image data omitted for brevity):', JSON.stringify({ ...jsonData, imageBase64: jsonData.imageBase64 ? '[IMAGE_DATA_PRESENT]' : '[NO_IMAGE_DATA]' }, null, 2));
-    return NextResponse.json(jsonData);
-  } catch (err: any) {
+    console.log('Final JSON Data to be sent:', JSON.stringify(outcome.result, null, 2));
+    return persistDeviceId(NextResponse.json(outcome.result, { headers: quota ? rateLimitHeaders(quota) : undefined }), client);
+  } catch (err: unknown) {
     console.error("/api/generate error", err);
+    if (err instanceof GenerationConfigError) {
+      return NextResponse.json({ error: err.message }, { status: 500 });
+    }
     return NextResponse.json({ error: "Generation failed" }, { status: 500 });
   }
 }
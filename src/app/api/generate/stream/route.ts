@@ -0,0 +1,183 @@
+/**
+ * @file src/app/api/generate/stream/route.ts
+ * @description Streaming variant of `/api/generate`. Instead of blocking until both the recipe text and the image are
+ * finished, it streams the recipe over Server-Sent Events: the title, metadata, each ingredient and each step are sent
+ * as soon as the text provider produces them, followed by an `image` event once the image provider finishes. This keeps
+ * time-to-first-content well inside the 10-second target from `docs/specs/core_feature_spec.md` even when image
+ * generation is slow.
+ *
+ * Streamed lines are provisional until the `recipe` event: the recipe contract and output moderation can only judge the
+ * finished text, so a failure is sent as `reset`, `rejected` or `error` and the client retracts what it has shown.
+ * @requires next/server For the NextRequest type.
+ * @requires @/lib/generation For request validation and the pluggable text/image providers.
+ * @requires @/lib/recipe For the incremental recipe parser.
+ * @requires @/lib/recipes For persisting the finished recipe.
+ * @requires @/lib/images For storing the generated image.
+ * @requires @/lib/rateLimit For per-device and per-IP generation limits.
+ * @requires @/lib/clientIdentity For the anonymous device cookie and client IP.
+ * @requires @/lib/access For the caller's tier, which sets their daily quota and features.
+ * @requires @/lib/moderation For checking the prompt and the generated recipe.
+ * @requires @/lib/sse For encoding SSE frames.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import { NextRequest, NextResponse } from "next/server"; // Next.js types for API route handling.
+import {
+  GenerateBodySchema,
+  GenerationConfigError,
+  getImageProvider,
+  getMaxGenerationAttempts,
+  getTextProvider,
+  type ImageGenerationProvider,
+  type TextGenerationProvider,
+} from "@/lib/generation"; // Provider layer.
+import { buildImagePrompt, buildStreamRecipeRequest } from "@/lib/generation/prompts"; // Shared prompt templates.
+import { createRecipeStreamParser, validateRecipeContract, type GeneratedRecipe } from "@/lib/recipe"; // Line-oriented recipe parser and contract.
+import { saveRecipe } from "@/lib/recipes"; // Recipe persistence.
+import { imageUrl, storeGeneratedImage, type StoredImage } from "@/lib/images"; // Image storage.
+import { rateLimitExceededResponse, rateLimitHeaders, tryConsumeRateLimit } from "@/lib/rateLimit"; // Generation limits.
+import { getClientIdentity, persistDeviceId } from "@/lib/clientIdentity"; // Device cookie and IP.
+import { getAccess } from "@/lib/access"; // Access tiers.
+import { moderatePrompt, moderateRecipe, moderationRejectedResponse } from "@/lib/moderation"; // Moderation pipeline.
+import { encodeSseEvent, SSE_HEADERS } from "@/lib/sse"; // SSE frame encoding.
+
+/**
+ * @async
+ * @function POST
+ * @description API route handler for POST requests to `/api/generate/stream`.
+ * Validates the prompt, then returns a `text/event-stream` response that emits, in order:
+ * - `title` `{ title }` when the title line arrives.
+ * - `details` `{ description? | mealType? | calories? | servings? | associatedDiseases? | tags? }` for each metadata line.
+ * - `ingredient` `{ index, text }` and `step` `{ index, text }` as each line completes.
+ * - `reset` `{ attempt }` if the finished text broke the recipe contract and is being regenerated; the client should
+ *   discard everything received so far. After `GENERATION_MAX_ATTEMPTS` failed attempts the stream ends with `error`.
+ * - `recipe` with the complete recipe text once the model is done and the recipe has passed output moderation.
+ * - `rejected` `{ error, rejection: { stage, category, reason } }` instead, if output moderation blocks the recipe. The stream
+ *   ends there: no image is generated and nothing is stored, and the client should discard what it has shown.
+ * - `image` `{ imageUrl }` once the image is generated and stored (an empty string if either step failed, so the card can still be shown).
+ *   Tiers with the `hdImages` feature get a full-quality image.
+ * - `saved` `{ id, slug }` once the recipe is stored (both null if the database is unavailable).
+ * - `done` `{}` to mark the end of the stream, or `error` `{ error }` if text generation fails.
+ *
+ * Validation and configuration errors are returned as regular JSON responses before the stream starts, as are a 422
+ * `{ error, rejection }` when the prompt is blocked by moderation and a 429
+ * `{ error, reason, retryAfter, limit, remaining }` (with `Retry-After`) when the caller is over its tier's generation limit.
+ * The stream response carries `X-RateLimit-*` headers so the client can show the remaining quota.
+ * @route POST /api/generate/stream
+ * @param {NextRequest} req - The incoming request. Expected to have a JSON body matching `GenerateBodySchema`.
+ * @returns {Promise<Response>} The SSE response, or a JSON error response.
+ * @example
+ * const res = await fetch("/api/generate/stream", { method: "POST", body: JSON.stringify({ prompt: "fried lasagna" }) });
+ * await readSseStream(res.body!, ({ event, data }) => console.log(event, JSON.parse(data)));
+ */
+export async function POST(req: NextRequest) {
+  const parsed = GenerateBodySchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid prompt" }, { status: 400 });
+  }
+  const { prompt, ...options } = parsed.data;
+
+  let textProvider: TextGenerationProvider;
+  let imageProvider: ImageGenerationProvider;
+  try {
+    textProvider = getTextProvider();
+    imageProvider = getImageProvider();
+  } catch (err) {
+    if (err instanceof GenerationConfigError) {
+      return NextResponse.json({ error: err.message }, { status: 500 });
+    }
+    throw err;
+  }
+
+  const client = getClientIdentity(req);
+
+  const access = await getAccess();
+  const quota = await tryConsumeRateLimit({
+    userID: access.user?.id ?? null,
+    deviceId: client.deviceId,
+    ip: client.ip,
+    dailyMax: access.plan.dailyGenerations,
+  });
+  if (quota && !quota.allowed) {
+    return persistDeviceId(rateLimitExceededResponse(quota), client);
+  }
+
+  const moderationContext = { userID: access.user?.id ?? null, deviceId: client.deviceId, ip: client.ip };
+  // The cuisine is free text too, so it is checked together with the prompt.
+  const promptCheck = await moderatePrompt([prompt, options.cuisine].filter(Boolean).join("\n"), moderationContext);
+  if (!promptCheck.allowed) {
+    return persistDeviceId(moderationRejectedResponse(promptCheck), client);
+  }
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => controller.enqueue(encodeSseEvent(event, data));
+
+      try {
+        const textRequest = buildStreamRecipeRequest(prompt, options);
+        const maxAttempts = getMaxGenerationAttempts();
+        let recipe: GeneratedRecipe | null = null;
+        for (let attempt = 1; attempt <= maxAttempts && !recipe; attempt++) {
+          if (attempt > 1) send("reset", { attempt });
+          const parser = createRecipeStreamParser(({ type, ...payload }) => send(type, payload));
+          for await (const chunk of textProvider.streamRecipeText(textRequest)) {
+            parser.push(chunk);
+          }
+          const candidate = parser.finish();
+          const issues = validateRecipeContract(candidate);
+          if (issues.length === 0) {
+            recipe = candidate;
+          } else {
+            console.warn(`/api/generate/stream attempt ${attempt} broke the recipe contract:`, issues);
+          }
+        }
+        if (!recipe) {
+          send("error", { error: "Generated recipe failed validation" });
+          return;
+        }
+
+        const outputCheck = await moderateRecipe(recipe, moderationContext);
+        if (!outputCheck.allowed) {
+          send("rejected", { error: outputCheck.rejection?.reason, rejection: outputCheck.rejection });
+          return;
+        }
+        send("recipe", recipe);
+
+        let image: StoredImage | null = null;
+        try {
+          const generated = await imageProvider.generateImage({
+            title: recipe.title,
+            prompt: buildImagePrompt(recipe),
+            hd: access.plan.features.hdImages,
+          });
+          image = generated ? await storeGeneratedImage(generated) : null;
+        } catch (imageErr) {
+          // The recipe text is already on screen; degrade to a card without a photo rather than failing it.
+          console.error("/api/generate/stream image error", imageErr);
+        }
+        send("image", { imageUrl: image ? imageUrl(image.id) : "" });
+
+        let saved: { id: string | null; slug: string | null } = { id: null, slug: null };
+        try {
+          const { id, slug } = await saveRecipe({ userPrompt: prompt, recipe, image, userID: access.user?.id ?? null });
+          saved = { id, slug };
+        } catch (saveErr) {
+          console.error("/api/generate/stream failed to save recipe", saveErr);
+        }
+        send("saved", saved);
+        send("done", {});
+      } catch (err) {
+        console.error("/api/generate/stream error", err);
+        send("error", { error: "Generation failed" });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return persistDeviceId(
+    new NextResponse(stream, { headers: { ...SSE_HEADERS, ...(quota ? rateLimitHeaders(quota) : {}) } }),
+    client
+  );
+}
@@ -0,0 +1,72 @@
+/**
+ * @file src/app/api/images/[id]/route.ts
+ * @description API Route Handler serving stored recipe images. Ids are content hashes, so a response for a given id never
+ * changes and can be cached by browsers and CDNs indefinitely.
+ * @requires next/server For NextRequest and NextResponse objects to handle API requests and responses.
+ * @requires @/lib/images For image storage.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import { NextRequest, NextResponse } from "next/server"; // Next.js types for API route handling.
+import { getImageStore, isValidImageId } from "@/lib/images"; // Image storage.
+
+/**
+ * @typedef {object} RouteContext
+ * @description The dynamic route segment. In Next.js 15, `params` is a promise.
+ */
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * @constant CACHE_CONTROL
+ * @description One year, immutable: the bytes behind an id can never change.
+ */
+const CACHE_CONTROL = "public, max-age=31536000, immutable";
+
+/**
+ * @async
+ * @function GET
+ * @description Streams a stored image. The ETag is the content hash, so revalidation requests are answered with 304.
+ * Every image gets a locked-down CSP so an SVG (the offline provider's placeholders) cannot run scripts if opened directly.
+ * @route GET /api/images/[id]
+ * @param {NextRequest} req - The incoming request.
+ * @param {RouteContext} context - Holds the image id.
+ * @returns {Promise<NextResponse>}
+ *   - 200: The image bytes.
+ *   - 304: Not modified, if `If-None-Match` matches.
+ *   - 404: `{ error: "Image not found" }`.
+ *   - 500: `{ error: "Failed to load image" }` if the storage backend fails.
+ */
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  if (!isValidImageId(id)) {
+    return NextResponse.json({ error: "Image not found" }, { status: 404 });
+  }
+
+  const etag = `"${id.slice(0, id.indexOf("."))}"`;
+  if (req.headers.get("if-none-match") === etag) {
+    return new NextResponse(null, { status: 304, headers: { ETag: etag, "Cache-Control": CACHE_CONTROL } });
+  }
+
+  try {
+    const image = await getImageStore().get(id);
+    if (!image) {
+      return NextResponse.json({ error: "Image not found" }, { status: 404 });
+    }
+    return new NextResponse(new Uint8Array(image.data), {
+      headers: {
+        "Content-Type": image.mimeType,
+        "Content-Length": String(image.data.length),
+        "Cache-Control": CACHE_CONTROL,
+        ETag: etag,
+        "X-Content-Type-Options": "nosniff",
+        "Content-Security-Policy": "default-src 'none'; style-src 'unsafe-inline'",
+      },
+    });
+  } catch (err) {
+    console.error(`/api/images/${id} GET error`, err);
+    return NextResponse.json({ error: "Failed to load image" }, { status: 500 });
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * @file src/app/api/meal-plans/ics/route.ts
+ * @description API Route Handler for downloading the caller's week as an iCalendar file.
+ * @requires next/server For NextRequest and NextResponse objects to handle API requests and responses.
+ * @requires @/lib/mealPlans For meal plan data access.
+ * @requires @/lib/mealPlan For week validation and the iCalendar export.
+ * @requires @/lib/clientIdentity For the anonymous device cookie.
+ * @requires @/lib/auth For the signed-in user, if any.
+ * @requires @/lib/siteUrl For the origin of the links it builds.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import { NextRequest, NextResponse } from "next/server"; // Next.js types for API route handling.
+import { getMealPlan } from "@/lib/mealPlans"; // Meal plan data access.
+import { isWeekStart, mealPlanToIcs } from "@/lib/mealPlan"; // Week ids and iCalendar export.
+import { getClientIdentity } from "@/lib/clientIdentity"; // Device cookie.
+import { getSessionUser } from "@/lib/auth"; // Sessions.
+import { getSiteOrigin } from "@/lib/siteUrl"; // Public origin for absolute links.
+
+/**
+ * @async
+ * @function GET
+ * @description Downloads a week of the caller's plan as an `.ics` file, one event per filled slot.
+ * @route GET /api/meal-plans/ics?week=YYYY-MM-DD
+ * @param {NextRequest} req - The incoming request.
+ * @returns {Promise<NextResponse>}
+ *   - 200: The `text/calendar` attachment.
+ *   - 400: `{ error: "Invalid week" }` unless `week` is a Monday.
+ *   - 500: `{ error: "Failed to export meal plan" }` if the database is unavailable.
+ */
+export async function GET(req: NextRequest) {
+  const client = getClientIdentity(req);
+  const user = await getSessionUser();
+  const week = req.nextUrl.searchParams.get("week") ?? "";
+  if (!isWeekStart(week)) {
+    return NextResponse.json({ error: "Invalid week" }, { status: 400 });
+  }
+
+  try {
+    const plan = await getMealPlan({ userID: user?.id ?? null, deviceId: client.deviceId }, week);
+    return new NextResponse(mealPlanToIcs(plan, { origin: getSiteOrigin() }), {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": `attachment; filename="recipewreck-week-${week}.ics"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (err) {
+    console.error("/api/meal-plans/ics error", err);
+    return NextResponse.json({ error: "Failed to export meal plan" }, { status: 500 });
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * @file src/app/api/meal-plans/route.ts
+ * @description API Route Handler for the caller's weekly meal plan: reading a week and filling or clearing its slots.
+ * Plans belong to the caller's device cookie (or account, once signed in), so there is no plan id in the URL.
+ * @requires next/server For NextRequest and NextResponse objects to handle API requests and responses.
+ * @requires zod For validating the query string and request body.
+ * @requires @/lib/mealPlans For meal plan data access.
+ * @requires @/lib/mealPlan For the meal slots and week validation.
+ * @requires @/lib/clientIdentity For the anonymous device cookie.
+ * @requires @/lib/auth For the signed-in user, if any.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import { NextRequest, NextResponse } from "next/server"; // Next.js types for API route handling.
+import { z } from "zod"; // Library for schema validation.
+import { getMealPlan, setMealPlanSlot } from "@/lib/mealPlans"; // Meal plan data access.
+import { isWeekStart, PLAN_MEALS } from "@/lib/mealPlan"; // Slot grid and week ids.
+import { getClientIdentity, persistDeviceId } from "@/lib/clientIdentity"; // Device cookie.
+import { getSessionUser } from "@/lib/auth"; // Sessions.
+
+/**
+ * @constant WeekSchema
+ * @description A week id: a Monday as `YYYY-MM-DD`.
+ */
+const WeekSchema = z.string().refine(isWeekStart, { message: "Weeks start on a Monday (YYYY-MM-DD)" });
+
+/**
+ * @constant SlotBodySchema
+ * @description Zod schema for the PATCH body: the slot to change and the recipe to put in it, or null to clear it.
+ */
+const SlotBodySchema = z.object({
+  week: WeekSchema,
+  day: z.number().int().min(0).max(6),
+  meal: z.enum(PLAN_MEALS),
+  recipeId: z.string().nullable(),
+});
+
+/**
+ * @async
+ * @function GET
+ * @description Returns the caller's plan for a week.
+ * @route GET /api/meal-plans?week=YYYY-MM-DD
+ * @param {NextRequest} req - The incoming request.
+ * @returns {Promise<NextResponse>}
+ *   - 200: The `MealPlan`; empty if the week hasn't been planned.
+ *   - 400: `{ error: "Invalid week" }` unless `week` is a Monday.
+ *   - 500: `{ error: "Failed to load meal plan" }` if the database is unavailable.
+ */
+export async function GET(req: NextRequest) {
+  const client = getClientIdentity(req);
+  const user = await getSessionUser();
+  const week = WeekSchema.safeParse(req.nextUrl.searchParams.get("week"));
+  if (!week.success) {
+    return NextResponse.json({ error: "Invalid week" }, { status: 400 });
+  }
+
+  try {
+    const plan = await getMealPlan({ userID: user?.id ?? null, deviceId: client.deviceId }, week.data);
+    return persistDeviceId(NextResponse.json(plan, { headers: { "Cache-Control": "no-store" } }), client);
+  } catch (err) {
+    console.error("/api/meal-plans GET error", err);
+    return NextResponse.json({ error: "Failed to load meal plan" }, { status: 500 });
+  }
+}
+
+/**
+ * @async
+ * @function PATCH
+ * @description Fills a slot with a stored recipe, or clears it.
+ * @route PATCH /api/meal-plans
+ * @param {NextRequest} req - The incoming request, with a JSON body `{ week, day, meal, recipeId }`.
+ * @returns {Promise<NextResponse>}
+ *   - 200: The updated `MealPlan`.
+ *   - 400: `{ error: "Invalid meal plan update" }` for a malformed body.
+ *   - 404: `{ error: "Recipe not found" }` if the recipe id is unknown.
+ *   - 500: `{ error: "Failed to update meal plan" }` if the database is unavailable.
+ */
+export async function PATCH(req: NextRequest) {
+  const client = getClientIdentity(req);
+  const user = await getSessionUser();
+  const parsed = SlotBodySchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid meal plan update" }, { status: 400 });
+  }
+
+  try {
+    const { week, ...slot } = parsed.data;
+    const plan = await setMealPlanSlot({ userID: user?.id ?? null, deviceId: client.deviceId }, { weekStart: week, ...slot });
+    if (!plan) {
+      return NextResponse.json({ error: "Recipe not found" }, { status: 404 });
+    }
+    return persistDeviceId(NextResponse.json(plan), client);
+  } catch (err) {
+    console.error("/api/meal-plans PATCH error", err);
+    return NextResponse.json({ error: "Failed to update meal plan" }, { status: 500 });
+  }
+}
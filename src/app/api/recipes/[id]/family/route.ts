@@ -0,0 +1,45 @@
+/**
+ * @file src/app/api/recipes/[id]/family/route.ts
+ * @description API Route Handler returning the remix family tree a recipe belongs to.
+ * @requires next/server For NextRequest and NextResponse objects to handle API requests and responses.
+ * @requires @/lib/recipes For recipe data access.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import { NextRequest, NextResponse } from "next/server"; // Next.js types for API route handling.
+import { getRecipeFamily } from "@/lib/recipes"; // Recipe data access.
+
+/**
+ * @typedef {object} RouteContext
+ * @description The dynamic route segment. In Next.js 15, `params` is a promise.
+ */
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * @async
+ * @function GET
+ * @description Returns the family tree containing a recipe, from the original down through every remix.
+ * @route GET /api/recipes/[id]/family
+ * @param {NextRequest} _req - The incoming request (unused).
+ * @param {RouteContext} context - Holds the recipe id.
+ * @returns {Promise<NextResponse>}
+ *   - 200: `{ root: RecipeFamilyNode }`.
+ *   - 404: `{ error: "Recipe not found" }`.
+ *   - 500: `{ error: "Failed to load recipe family" }` if the database is unavailable.
+ */
+export async function GET(_req: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  try {
+    const root = await getRecipeFamily(id);
+    if (!root) {
+      return NextResponse.json({ error: "Recipe not found" }, { status: 404 });
+    }
+    return NextResponse.json({ root });
+  } catch (err) {
+    console.error(`/api/recipes/${id}/family GET error`, err);
+    return NextResponse.json({ error: "Failed to load recipe family" }, { status: 500 });
+  }
+}
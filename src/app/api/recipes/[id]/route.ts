@@ -0,0 +1,96 @@
+/**
+ * @file src/app/api/recipes/[id]/route.ts
+ * @description API Route Handler for reading and deleting a single stored recipe. Only the owner (or an admin) sees
+ * the owner-only fields or may delete it.
+ * @requires next/server For NextRequest and NextResponse objects to handle API requests and responses.
+ * @requires @/lib/recipes For recipe data access.
+ * @requires @/lib/auth For the signed-in user and the admin check.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import { NextRequest, NextResponse } from "next/server"; // Next.js types for API route handling.
+import { deleteRecipe, getRecipe, toPublicRecipe, type StoredRecipe } from "@/lib/recipes"; // Recipe data access.
+import { getSessionUser, isAdmin, unauthorizedResponse, type AuthUser } from "@/lib/auth"; // Sessions and admins.
+
+/**
+ * @typedef {object} RouteContext
+ * @description The dynamic route segment. In Next.js 15, `params` is a promise.
+ */
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Checks whether a user may see a recipe's owner-only fields and delete it.
+ * @param {StoredRecipe} recipe - The recipe.
+ * @param {AuthUser | null} user - The signed-in user, if any.
+ * @returns {boolean} True for the recipe's owner and for admins.
+ */
+const canManage = (recipe: StoredRecipe, user: AuthUser | null): boolean =>
+  (user !== null && recipe.userID === user.id) || isAdmin(user);
+
+/**
+ * @async
+ * @function GET
+ * @description Returns a stored recipe.
+ * @route GET /api/recipes/[id]
+ * @param {NextRequest} _req - The incoming request (unused).
+ * @param {RouteContext} context - Holds the recipe id.
+ * @returns {Promise<NextResponse>}
+ *   - 200: The `StoredRecipe` for its owner or an admin, otherwise the `PublicRecipe`.
+ *   - 404: `{ error: "Recipe not found" }`.
+ *   - 500: `{ error: "Failed to load recipe" }` if the database is unavailable.
+ */
+export async function GET(_req: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  try {
+    const recipe = await getRecipe(id);
+    if (!recipe) {
+      return NextResponse.json({ error: "Recipe not found" }, { status: 404 });
+    }
+    const user = await getSessionUser();
+    return NextResponse.json(canManage(recipe, user) ? recipe : toPublicRecipe(recipe));
+  } catch (err) {
+    console.error(`/api/recipes/${id} GET error`, err);
+    return NextResponse.json({ error: "Failed to load recipe" }, { status: 500 });
+  }
+}
+
+/**
+ * @async
+ * @function DELETE
+ * @description Deletes a stored recipe. Only its owner or an admin may; anonymous generations can only be deleted by
+ * an admin.
+ * @route DELETE /api/recipes/[id]
+ * @param {NextRequest} _req - The incoming request (unused).
+ * @param {RouteContext} context - Holds the recipe id.
+ * @returns {Promise<NextResponse>}
+ *   - 204: Deleted.
+ *   - 401: `{ error: "Sign in required" }`.
+ *   - 403: `{ error: "You can only delete your own recipes" }`.
+ *   - 404: `{ error: "Recipe not found" }`.
+ *   - 500: `{ error: "Failed to delete recipe" }` if the database is unavailable.
+ */
+export async function DELETE(_req: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  try {
+    const user = await getSessionUser();
+    if (!user) return unauthorizedResponse();
+
+    const recipe = await getRecipe(id);
+    if (!recipe) {
+      return NextResponse.json({ error: "Recipe not found" }, { status: 404 });
+    }
+    if (!canManage(recipe, user)) {
+      return NextResponse.json({ error: "You can only delete your own recipes" }, { status: 403 });
+    }
+    if (!(await deleteRecipe(id))) {
+      return NextResponse.json({ error: "Recipe not found" }, { status: 404 });
+    }
+    return new NextResponse(null, { status: 204 });
+  } catch (err) {
+    console.error(`/api/recipes/${id} DELETE error`, err);
+    return NextResponse.json({ error: "Failed to delete recipe" }, { status: 500 });
+  }
+}
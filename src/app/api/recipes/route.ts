@@ -0,0 +1,49 @@
+/**
+ * @file src/app/api/recipes/route.ts
+ * @description API Route Handler for listing stored recipes, newest first, with cursor pagination. The listing is
+ * public, so it leaves out who owns each recipe and the prompt it was generated from.
+ * @requires next/server For NextRequest and NextResponse objects to handle API requests and responses.
+ * @requires zod For validating the query parameters.
+ * @requires @/lib/recipes For recipe data access.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import { NextRequest, NextResponse } from "next/server"; // Next.js types for API route handling.
+import { z } from "zod"; // Library for schema validation.
+import { listRecipes, toPublicRecipe } from "@/lib/recipes"; // Recipe data access.
+
+/**
+ * @constant QuerySchema
+ * @description Zod schema for the list query string: an optional page size (1–50) and an optional `before` cursor.
+ */
+const QuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(50).optional(),
+  before: z.string().optional(),
+});
+
+/**
+ * @async
+ * @function GET
+ * @description Lists stored recipes.
+ * @route GET /api/recipes?limit=20&before=<id>
+ * @param {NextRequest} req - The incoming request.
+ * @returns {Promise<NextResponse>}
+ *   - 200: `{ recipes: PublicRecipe[], nextCursor: string | null }`.
+ *   - 400: `{ error: "Invalid query" }` for malformed parameters.
+ *   - 500: `{ error: "Failed to list recipes" }` if the database is unavailable.
+ */
+export async function GET(req: NextRequest) {
+  const parsed = QuerySchema.safeParse(Object.fromEntries(req.nextUrl.searchParams));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid query" }, { status: 400 });
+  }
+
+  try {
+    const { recipes, nextCursor } = await listRecipes(parsed.data);
+    return NextResponse.json({ recipes: recipes.map(toPublicRecipe), nextCursor });
+  } catch (err) {
+    console.error("/api/recipes error", err);
+    return NextResponse.json({ error: "Failed to list recipes" }, { status: 500 });
+  }
+}
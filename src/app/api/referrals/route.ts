@@ -0,0 +1,44 @@
+/**
+ * @file src/app/api/referrals/route.ts
+ * @description API Route Handler for the current browser's waitlist place and referral link, identified by the waitlist
+ * cookie set when the subscriber confirmed their email.
+ * @requires next/server For NextResponse objects to handle API responses.
+ * @requires @/lib/access For the waitlist cookie.
+ * @requires @/lib/referrals For the queue place.
+ * @requires @/lib/siteUrl For the origin of the links it builds.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import { NextResponse } from "next/server"; // Next.js types for API route handling.
+import { getWaitlistEmail } from "@/lib/access"; // Waitlist cookie.
+import { getReferralSummary } from "@/lib/referrals"; // Waitlist queue and referrals.
+import { getSiteOrigin } from "@/lib/siteUrl"; // Public origin for absolute links.
+
+/**
+ * @async
+ * @function GET
+ * @description Returns the referral panel's data for returning subscribers.
+ * @route GET /api/referrals
+ * @returns {Promise<NextResponse>}
+ *   - 200: `{ referral: { code, link, position, referrals } }`.
+ *   - 404: `{ error: "Not on the waitlist" }` without a waitlist cookie, or if the queue has no place for it.
+ *   - 500: `{ error: "Could not load your referral status" }` if the database is unavailable.
+ */
+export async function GET() {
+  const email = await getWaitlistEmail();
+  if (!email) {
+    return NextResponse.json({ error: "Not on the waitlist" }, { status: 404 });
+  }
+
+  try {
+    const referral = await getReferralSummary(email, getSiteOrigin());
+    if (!referral) {
+      return NextResponse.json({ error: "Not on the waitlist" }, { status: 404 });
+    }
+    return NextResponse.json({ referral });
+  } catch (err) {
+    console.error("/api/referrals error", err);
+    return NextResponse.json({ error: "Could not load your referral status" }, { status: 500 });
+  }
+}
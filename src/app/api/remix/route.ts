@@ -0,0 +1,120 @@
+/**
+ * @file src/app/api/remix/route.ts
+ * @description API Route Handler for remixing an existing recipe in a given direction ("more deep-fried", "breakfast
+ * version", "make it worse", ...). Remixes go through the same generation pipeline as `/api/generate` and are stored
+ * with a link to their parent, so every recipe's family tree can be shown on its permalink page.
+ * @requires next/server For NextRequest and NextResponse objects to handle API requests and responses.
+ * @requires @/lib/generation For request validation and the pluggable text/image providers.
+ * @requires @/lib/generation/pipeline For text and image generation, output validation and persistence.
+ * @requires @/lib/recipes For loading the parent recipe.
+ * @requires @/lib/rateLimit For per-device and per-IP generation limits.
+ * @requires @/lib/clientIdentity For the anonymous device cookie and client IP.
+ * @requires @/lib/access For the caller's tier, which sets their daily quota and whether they may remix.
+ * @requires @/lib/moderation For checking the remix direction.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import { NextRequest, NextResponse } from "next/server"; // Next.js types for API route handling.
+import { GenerationConfigError, getImageProvider, getTextProvider, RemixBodySchema } from "@/lib/generation"; // Provider layer.
+import { runRecipeGeneration } from "@/lib/generation/pipeline"; // Shared generation pipeline.
+import { buildRemixRequest } from "@/lib/generation/prompts"; // Shared prompt templates.
+import { getRecipe, type StoredRecipe } from "@/lib/recipes"; // Recipe data access.
+import { rateLimitExceededResponse, rateLimitHeaders, tryConsumeRateLimit } from "@/lib/rateLimit"; // Generation limits.
+import { getClientIdentity, persistDeviceId } from "@/lib/clientIdentity"; // Device cookie and IP.
+import { featureUnavailableResponse, getAccess } from "@/lib/access"; // Access tiers.
+import { moderatePrompt, moderationRejectedResponse } from "@/lib/moderation"; // Moderation pipeline.
+
+/**
+ * @async
+ * @function POST
+ * @description Generates a remix of a recipe.
+ * The parent is looked up by `parentId` when given; its stored text is used rather than anything the client sends, and
+ * the remix is linked to it. A recipe that was never saved can be remixed by sending it inline, but the remix then has
+ * no parent to link back to. The direction (and any inline recipe, which is user-controlled) is moderated as a prompt.
+ * Remixing is a tier feature: guests get a 403 pointing them at the tier that unlocks it.
+ * @route POST /api/remix
+ * @param {NextRequest} req - The incoming request. Expected to have a JSON body matching `RemixBodySchema`.
+ * @returns {Promise<NextResponse>}
+ *   - 200: The `GenerationResult`, with `parentId` and `remixDirection` set.
+ *   - 400: `{ error: "Invalid remix request" }`.
+ *   - 403: `{ error, feature: "remix", tier, requiredTier }` if the caller's tier can't remix.
+ *   - 404: `{ error: "Recipe not found" }` if `parentId` is unknown and no inline recipe was sent.
+ *   - 422: `{ error, rejection }` if moderation blocks the direction or the remix.
+ *   - 429: `{ error, reason, retryAfter, limit, remaining }` with `Retry-After`, when over the generation limit.
+ *   - 502: `{ error: "Generated recipe failed validation" }` when every attempt breaks the recipe contract.
+ *   - 500: `{ error: "Remix failed" }`, or the configuration error message, on server errors.
+ */
+export async function POST(req: NextRequest) {
+  const parsed = RemixBodySchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid remix request" }, { status: 400 });
+  }
+  const { parentId, recipe: inline, direction } = parsed.data;
+  const client = getClientIdentity(req);
+  const access = await getAccess();
+  if (!access.plan.features.remix) {
+    return persistDeviceId(featureUnavailableResponse("remix", access), client);
+  }
+
+  try {
+    const textProvider = getTextProvider();
+    const imageProvider = getImageProvider();
+
+    let parent: StoredRecipe | null = null;
+    if (parentId) {
+      try {
+        parent = await getRecipe(parentId);
+      } catch (err) {
+        // Without the database we can still remix an inline recipe; we just can't record lineage.
+        if (!inline) throw err;
+        console.error("/api/remix parent lookup failed, using inline recipe", err);
+      }
+    }
+    const source = parent ?? inline;
+    if (!source) {
+      return NextResponse.json({ error: "Recipe not found" }, { status: 404 });
+    }
+
+    const quota = await tryConsumeRateLimit({
+      userID: access.user?.id ?? null,
+      deviceId: client.deviceId,
+      ip: client.ip,
+      dailyMax: access.plan.dailyGenerations,
+    });
+    if (quota && !quota.allowed) {
+      return persistDeviceId(rateLimitExceededResponse(quota), client);
+    }
+
+    const moderationContext = { userID: access.user?.id ?? null, deviceId: client.deviceId, ip: client.ip };
+    const moderatedText = parent ? direction : [direction, source.title, ...source.ingredients, ...source.steps].join("\n");
+    const promptCheck = await moderatePrompt(moderatedText, moderationContext);
+    if (!promptCheck.allowed) {
+      return persistDeviceId(moderationRejectedResponse(promptCheck), client);
+    }
+
+    const outcome = await runRecipeGeneration({
+      textProvider,
+      imageProvider,
+      textRequest: buildRemixRequest(source, direction),
+      userPrompt: `Remix of "${source.title}": ${direction}`.slice(0, 500),
+      moderationContext,
+      parentId: parent?.id ?? null,
+      remixDirection: direction,
+      hdImages: access.plan.features.hdImages,
+    });
+    if (outcome.status === "invalid") {
+      return persistDeviceId(NextResponse.json({ error: "Generated recipe failed validation" }, { status: 502 }), client);
+    }
+    if (outcome.status === "rejected") {
+      return persistDeviceId(moderationRejectedResponse(outcome.decision), client);
+    }
+    return persistDeviceId(NextResponse.json(outcome.result, { headers: quota ? rateLimitHeaders(quota) : undefined }), client);
+  } catch (err) {
+    console.error("/api/remix error", err);
+    if (err instanceof GenerationConfigError) {
+      return NextResponse.json({ error: err.message }, { status: 500 });
+    }
+    return NextResponse.json({ error: "Remix failed" }, { status: 500 });
+  }
+}
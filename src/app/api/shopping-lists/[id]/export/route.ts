@@ -0,0 +1,72 @@
+/**
+ * @file src/app/api/shopping-lists/[id]/export/route.ts
+ * @description API Route Handler for downloading a shopping list as plain text or CSV.
+ * @requires next/server For NextRequest and NextResponse objects to handle API requests and responses.
+ * @requires zod For validating the query string.
+ * @requires @/lib/shoppingLists For shopping list data access.
+ * @requires @/lib/shoppingList For the export formats.
+ * @requires @/lib/slug For the download file name.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import { NextRequest, NextResponse } from "next/server"; // Next.js types for API route handling.
+import { z } from "zod"; // Library for schema validation.
+import { getShoppingList } from "@/lib/shoppingLists"; // Shopping list data access.
+import { EXPORT_FORMATS, shoppingListToCsv, shoppingListToText } from "@/lib/shoppingList"; // Text and CSV exports.
+import { slugify } from "@/lib/slug"; // File-name-safe title.
+
+/**
+ * @typedef {object} RouteContext
+ * @description The dynamic route segment. In Next.js 15, `params` is a promise.
+ */
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * @constant QuerySchema
+ * @description Zod schema for the query string: the export format, plain text by default.
+ */
+const QuerySchema = z.object({
+  format: z.enum(["txt", "csv"]).default("txt"),
+});
+
+/**
+ * @async
+ * @function GET
+ * @description Downloads a shopping list.
+ * @route GET /api/shopping-lists/[id]/export?format=txt|csv
+ * @param {NextRequest} req - The incoming request.
+ * @param {RouteContext} context - Holds the list id.
+ * @returns {Promise<NextResponse>}
+ *   - 200: The list as a `text/plain` or `text/csv` attachment.
+ *   - 400: `{ error: "Invalid export format" }`.
+ *   - 404: `{ error: "Shopping list not found" }`.
+ *   - 500: `{ error: "Failed to export shopping list" }` if the database is unavailable.
+ */
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const parsed = QuerySchema.safeParse(Object.fromEntries(req.nextUrl.searchParams));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid export format" }, { status: 400 });
+  }
+
+  try {
+    const list = await getShoppingList(id);
+    if (!list) {
+      return NextResponse.json({ error: "Shopping list not found" }, { status: 404 });
+    }
+    const { format } = parsed.data;
+    const body = format === "csv" ? shoppingListToCsv(list) : shoppingListToText(list);
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type": EXPORT_FORMATS[format].mimeType,
+        "Content-Disposition": `attachment; filename="${slugify(list.title)}-${list.id}.${EXPORT_FORMATS[format].extension}"`,
+      },
+    });
+  } catch (err) {
+    console.error(`/api/shopping-lists/${id}/export error`, err);
+    return NextResponse.json({ error: "Failed to export shopping list" }, { status: 500 });
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * @file src/app/api/shopping-lists/[id]/route.ts
+ * @description API Route Handler for reading a shopping list and checking its items off.
+ * @requires next/server For NextRequest and NextResponse objects to handle API requests and responses.
+ * @requires zod For validating the request body.
+ * @requires @/lib/shoppingLists For shopping list data access.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import { NextRequest, NextResponse } from "next/server"; // Next.js types for API route handling.
+import { z } from "zod"; // Library for schema validation.
+import { getShoppingList, setShoppingListItemChecked } from "@/lib/shoppingLists"; // Shopping list data access.
+
+/**
+ * @typedef {object} RouteContext
+ * @description The dynamic route segment. In Next.js 15, `params` is a promise.
+ */
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * @constant CheckBodySchema
+ * @description Zod schema for the PATCH body: which item to update and its new state.
+ */
+const CheckBodySchema = z.object({
+  itemId: z.string().min(1).max(200),
+  checked: z.boolean(),
+});
+
+/**
+ * @async
+ * @function GET
+ * @description Returns a shopping list.
+ * @route GET /api/shopping-lists/[id]
+ * @param {NextRequest} _req - The incoming request (unused).
+ * @param {RouteContext} context - Holds the list id.
+ * @returns {Promise<NextResponse>}
+ *   - 200: The `ShoppingList`.
+ *   - 404: `{ error: "Shopping list not found" }`.
+ *   - 500: `{ error: "Failed to load shopping list" }` if the database is unavailable.
+ */
+export async function GET(_req: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  try {
+    const list = await getShoppingList(id);
+    if (!list) {
+      return NextResponse.json({ error: "Shopping list not found" }, { status: 404 });
+    }
+    return NextResponse.json(list);
+  } catch (err) {
+    console.error(`/api/shopping-lists/${id} GET error`, err);
+    return NextResponse.json({ error: "Failed to load shopping list" }, { status: 500 });
+  }
+}
+
+/**
+ * @async
+ * @function PATCH
+ * @description Checks an item off, or un-checks it. Anyone with the link can do this, as with a paper list on the fridge.
+ * @route PATCH /api/shopping-lists/[id]
+ * @param {NextRequest} req - The incoming request, with a JSON body `{ itemId: string, checked: boolean }`.
+ * @param {RouteContext} context - Holds the list id.
+ * @returns {Promise<NextResponse>}
+ *   - 200: The updated `ShoppingList`.
+ *   - 400: `{ error: "Invalid item update" }` for a malformed body.
+ *   - 404: `{ error: "Shopping list item not found" }` if the list or item doesn't exist.
+ *   - 500: `{ error: "Failed to update shopping list" }` if the database is unavailable.
+ */
+export async function PATCH(req: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const parsed = CheckBodySchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid item update" }, { status: 400 });
+  }
+
+  try {
+    const list = await setShoppingListItemChecked(id, parsed.data.itemId, parsed.data.checked);
+    if (!list) {
+      return NextResponse.json({ error: "Shopping list item not found" }, { status: 404 });
+    }
+    return NextResponse.json(list);
+  } catch (err) {
+    console.error(`/api/shopping-lists/${id} PATCH error`, err);
+    return NextResponse.json({ error: "Failed to update shopping list" }, { status: 500 });
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * @file src/app/api/shopping-lists/route.ts
+ * @description API Route Handler for creating shopping lists from stored recipes.
+ * @requires next/server For NextRequest and NextResponse objects to handle API requests and responses.
+ * @requires zod For validating the request body.
+ * @requires @/lib/shoppingLists For shopping list data access.
+ * @requires @/lib/auth For the signed-in user, if any.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import { NextRequest, NextResponse } from "next/server"; // Next.js types for API route handling.
+import { z } from "zod"; // Library for schema validation.
+import { createShoppingList, MAX_SHOPPING_LIST_RECIPES } from "@/lib/shoppingLists"; // Shopping list data access.
+import { getSessionUser } from "@/lib/auth"; // Sessions.
+
+/**
+ * @constant CreateBodySchema
+ * @description Zod schema for the request body: the recipes to shop for, plus an optional title and unit system.
+ */
+const CreateBodySchema = z.object({
+  recipeIds: z.array(z.string()).min(1).max(MAX_SHOPPING_LIST_RECIPES),
+  title: z.string().trim().min(1).max(100).optional(),
+  system: z.enum(["metric", "imperial"]).nullish(),
+});
+
+/**
+ * @async
+ * @function POST
+ * @description Merges the ingredients of the given recipes into a new shopping list and stores it, owned by the signed-in
+ * user if there is one.
+ * @route POST /api/shopping-lists
+ * @param {NextRequest} req - The incoming request, with a JSON body `{ recipeIds: string[], title?, system? }`.
+ * @returns {Promise<NextResponse>}
+ *   - 201: The `ShoppingList`; it is shared at `/shopping-list/<id>`.
+ *   - 400: `{ error: "Invalid shopping list request" }` for a malformed body.
+ *   - 404: `{ error: "Recipe not found" }` if any recipe id is unknown.
+ *   - 500: `{ error: "Failed to create shopping list" }` if the database is unavailable.
+ */
+export async function POST(req: NextRequest) {
+  const parsed = CreateBodySchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid shopping list request" }, { status: 400 });
+  }
+
+  try {
+    const user = await getSessionUser();
+    const list = await createShoppingList({ ...parsed.data, userID: user?.id ?? null });
+    if (!list) {
+      return NextResponse.json({ error: "Recipe not found" }, { status: 404 });
+    }
+    return NextResponse.json(list, { status: 201 });
+  } catch (err) {
+    console.error("/api/shopping-lists error", err);
+    return NextResponse.json({ error: "Failed to create shopping list" }, { status: 500 });
+  }
+}
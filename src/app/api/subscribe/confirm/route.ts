@@ -0,0 +1,62 @@
+/**
+ * @file src/app/api/subscribe/confirm/route.ts
+ * @description API Route Handler for confirming a waitlist subscription. The link in confirmation emails opens
+ * `/email-preferences/confirm`, whose button POSTs here; this activates the subscription, credits the referrer if there
+ * was one, sets the waitlist cookie and lands on the preferences page.
+ * @requires next/server For NextRequest and NextResponse objects to handle API requests and responses.
+ * @requires @/lib/access For the waitlist cookie, which moves the browser up to the waitlist access tier.
+ * @requires @/lib/waitlist For confirming the subscription.
+ * @requires @/lib/referrals For confirming the queue place and crediting the referrer.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import { NextRequest, NextResponse } from "next/server"; // Next.js types for API route handling.
+import { setWaitlistCookie } from "@/lib/access"; // Waitlist access tier cookie.
+import { confirmSubscription, createManageToken } from "@/lib/waitlist"; // Waitlist subscriptions.
+import { confirmMember } from "@/lib/referrals"; // Waitlist queue and referrals.
+
+/**
+ * @async
+ * @function POST
+ * @description Confirms a subscription. This is a plain form post from the confirm page, so failures redirect with an
+ * error code rather than returning JSON.
+ * @route POST /api/subscribe/confirm?token=<token>
+ * @param {NextRequest} req - The incoming request.
+ * @returns {Promise<NextResponse>}
+ *   - 303: To `/email-preferences?token=<manage token>&confirmed=1`, with the waitlist cookie set.
+ *   - 303: To `/email-preferences?error=link-expired` for invalid or expired links.
+ *   - 303: To `/email-preferences?error=server` if the email-list provider fails.
+ */
+export async function POST(req: NextRequest) {
+  const token = req.nextUrl.searchParams.get("token") ?? "";
+  try {
+    const subscriber = token ? await confirmSubscription(token) : null;
+    if (!subscriber) {
+      return NextResponse.redirect(new URL("/email-preferences?error=link-expired", req.nextUrl.origin), 303);
+    }
+    // The subscription is what matters; a queue hiccup shouldn't send the subscriber to an error page.
+    await confirmMember(subscriber.email).catch((err) => console.error("/api/subscribe/confirm failed to confirm member", err));
+    const destination = new URL("/email-preferences", req.nextUrl.origin);
+    destination.searchParams.set("token", createManageToken(subscriber.email));
+    destination.searchParams.set("confirmed", "1");
+    return setWaitlistCookie(NextResponse.redirect(destination, 303), subscriber.email);
+  } catch (err) {
+    console.error("/api/subscribe/confirm error", err);
+    return NextResponse.redirect(new URL("/email-preferences?error=server", req.nextUrl.origin), 303);
+  }
+}
+
+/**
+ * @function GET
+ * @description Sends a browser that opened a confirmation link from an older email to the confirm page. Nothing changes
+ * on GET, since link scanners and prefetchers follow links in emails without the recipient asking.
+ * @route GET /api/subscribe/confirm?token=<token>
+ * @param {NextRequest} req - The incoming request.
+ * @returns {NextResponse} 303 to `/email-preferences/confirm?token=<token>`.
+ */
+export function GET(req: NextRequest) {
+  const destination = new URL("/email-preferences/confirm", req.nextUrl.origin);
+  destination.searchParams.set("token", req.nextUrl.searchParams.get("token") ?? "");
+  return NextResponse.redirect(destination, 303);
+}
@@ -0,0 +1,51 @@
+/**
+ * @file src/app/api/subscribe/preferences/route.ts
+ * @description API Route Handler for saving waitlist topic preferences from the preferences page.
+ * @requires next/server For NextRequest and NextResponse objects to handle API requests and responses.
+ * @requires zod For validating the request body.
+ * @requires @/lib/waitlist For saving the preferences.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import { NextRequest, NextResponse } from "next/server"; // Next.js types for API route handling.
+import { z } from "zod"; // Library for schema validation.
+import { updatePreferences, WAITLIST_TOPICS } from "@/lib/waitlist"; // Waitlist subscriptions.
+
+/**
+ * @constant PreferencesBodySchema
+ * @description Zod schema for the request body: the manage token and the topics to keep (none unsubscribes).
+ */
+const PreferencesBodySchema = z.object({
+  token: z.string().min(1).max(1000),
+  topics: z.array(z.enum(WAITLIST_TOPICS)).max(WAITLIST_TOPICS.length),
+});
+
+/**
+ * @async
+ * @function PUT
+ * @description Replaces the subscriber's topics.
+ * @route PUT /api/subscribe/preferences
+ * @param {NextRequest} req - The incoming request, with a JSON body `{ token, topics }`.
+ * @returns {Promise<NextResponse>}
+ *   - 200: `{ subscriber }` with the saved status and topics.
+ *   - 400: `{ error: "Invalid preferences" }` or `{ error: "This link is invalid or has expired" }`.
+ *   - 500: `{ error: "Could not save your preferences" }` if the email-list provider fails.
+ */
+export async function PUT(req: NextRequest) {
+  const parsed = PreferencesBodySchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid preferences" }, { status: 400 });
+  }
+
+  try {
+    const subscriber = await updatePreferences(parsed.data.token, [...new Set(parsed.data.topics)]);
+    if (!subscriber) {
+      return NextResponse.json({ error: "This link is invalid or has expired" }, { status: 400 });
+    }
+    return NextResponse.json({ subscriber });
+  } catch (err) {
+    console.error("/api/subscribe/preferences error", err);
+    return NextResponse.json({ error: "Could not save your preferences" }, { status: 500 });
+  }
+}
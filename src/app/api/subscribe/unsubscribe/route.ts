@@ -0,0 +1,53 @@
+/**
+ * @file src/app/api/subscribe/unsubscribe/route.ts
+ * @description API Route Handler for unsubscribing from the waitlist. This is the `List-Unsubscribe` target in every
+ * waitlist email: mail clients POST to it for one-click unsubscribe (RFC 8058), and the preferences page's
+ * "Unsubscribe from everything" button does the same.
+ * @requires next/server For NextRequest and NextResponse objects to handle API requests and responses.
+ * @requires @/lib/waitlist For unsubscribing.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import { NextRequest, NextResponse } from "next/server"; // Next.js types for API route handling.
+import { unsubscribe } from "@/lib/waitlist"; // Waitlist subscriptions.
+
+/**
+ * @async
+ * @function POST
+ * @description Unsubscribes the address in the manage token. The body is ignored; mail clients send
+ * `List-Unsubscribe=One-Click`.
+ * @route POST /api/subscribe/unsubscribe?token=<token>
+ * @param {NextRequest} req - The incoming request.
+ * @returns {Promise<NextResponse>}
+ *   - 200: `{ unsubscribed: true }`.
+ *   - 400: `{ error: "This link is invalid or has expired" }`.
+ *   - 500: `{ error: "Could not unsubscribe" }` if the email-list provider fails.
+ */
+export async function POST(req: NextRequest) {
+  const token = req.nextUrl.searchParams.get("token") ?? "";
+  try {
+    const subscriber = token ? await unsubscribe(token) : null;
+    if (!subscriber) {
+      return NextResponse.json({ error: "This link is invalid or has expired" }, { status: 400 });
+    }
+    return NextResponse.json({ unsubscribed: true });
+  } catch (err) {
+    console.error("/api/subscribe/unsubscribe error", err);
+    return NextResponse.json({ error: "Could not unsubscribe" }, { status: 500 });
+  }
+}
+
+/**
+ * @function GET
+ * @description Sends a browser that opened the unsubscribe link to the preferences page. Nothing changes on GET, since
+ * link scanners and prefetchers follow links in emails without the recipient asking.
+ * @route GET /api/subscribe/unsubscribe?token=<token>
+ * @param {NextRequest} req - The incoming request.
+ * @returns {NextResponse} 303 to `/email-preferences?token=<token>`.
+ */
+export function GET(req: NextRequest) {
+  const destination = new URL("/email-preferences", req.nextUrl.origin);
+  destination.searchParams.set("token", req.nextUrl.searchParams.get("token") ?? "");
+  return NextResponse.redirect(destination, 303);
+}
@@ -0,0 +1,71 @@
+/**
+ * @file src/app/api/testimonials/[id]/route.ts
+ * @description API Route Handler for moderating a testimonial: approving, rejecting and featuring. Admins only.
+ * @requires next/server For NextRequest and NextResponse objects to handle API requests and responses.
+ * @requires zod For validating the request body.
+ * @requires @/lib/auth For the admin check.
+ * @requires @/lib/testimonial For the statuses.
+ * @requires @/lib/testimonials For testimonial data access.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import { NextRequest, NextResponse } from "next/server"; // Next.js types for API route handling.
+import { z } from "zod"; // Library for schema validation.
+import { forbiddenResponse, getSessionUser, isAdmin } from "@/lib/auth"; // Sessions and admin check.
+import { TESTIMONIAL_STATUSES } from "@/lib/testimonial"; // Testimonial statuses.
+import { moderateTestimonial } from "@/lib/testimonials"; // Testimonial data access.
+
+/**
+ * @typedef {object} RouteContext
+ * @description The dynamic route segment. In Next.js 15, `params` is a promise.
+ */
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * @constant ModerateBodySchema
+ * @description Zod schema for the PATCH body: a new status, a featured rank (null to unfeature), or both.
+ */
+const ModerateBodySchema = z
+  .object({
+    status: z.enum(TESTIMONIAL_STATUSES).optional(),
+    featuredRank: z.number().int().min(1).max(1000).nullable().optional(),
+  })
+  .refine((body) => body.status !== undefined || body.featuredRank !== undefined);
+
+/**
+ * @async
+ * @function PATCH
+ * @description Moderates a testimonial. Featuring only sticks on approved testimonials; rejecting one clears its rank.
+ * @route PATCH /api/testimonials/[id]
+ * @param {NextRequest} req - The incoming request, with a JSON body `{ status?, featuredRank? }`.
+ * @param {RouteContext} context - Holds the testimonial id.
+ * @returns {Promise<NextResponse>}
+ *   - 200: `{ testimonial }`.
+ *   - 400: `{ error: "Invalid moderation update" }`.
+ *   - 403: `{ error: "Admins only" }`.
+ *   - 404: `{ error: "Testimonial not found" }`.
+ *   - 500: `{ error: "Failed to update testimonial" }` if the database is unavailable.
+ */
+export async function PATCH(req: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  try {
+    const user = await getSessionUser();
+    if (!isAdmin(user)) return forbiddenResponse();
+
+    const parsed = ModerateBodySchema.safeParse(await req.json().catch(() => null));
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Invalid moderation update" }, { status: 400 });
+    }
+    const testimonial = await moderateTestimonial(id, parsed.data, user.id);
+    if (!testimonial) {
+      return NextResponse.json({ error: "Testimonial not found" }, { status: 404 });
+    }
+    return NextResponse.json({ testimonial });
+  } catch (err) {
+    console.error(`/api/testimonials/${id} PATCH error`, err);
+    return NextResponse.json({ error: "Failed to update testimonial" }, { status: 500 });
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * @file src/app/api/testimonials/moderation/route.ts
+ * @description API Route Handler for the testimonial moderation queue. Admins only.
+ * @requires next/server For NextRequest and NextResponse objects to handle API requests and responses.
+ * @requires @/lib/auth For the admin check.
+ * @requires @/lib/testimonial For the statuses.
+ * @requires @/lib/testimonials For testimonial data access.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import { NextRequest, NextResponse } from "next/server"; // Next.js types for API route handling.
+import { forbiddenResponse, getSessionUser, isAdmin } from "@/lib/auth"; // Sessions and admin check.
+import { TESTIMONIAL_STATUSES, type TestimonialStatus } from "@/lib/testimonial"; // Testimonial statuses.
+import { listTestimonialsForModeration } from "@/lib/testimonials"; // Testimonial data access.
+
+/**
+ * @async
+ * @function GET
+ * @description Lists testimonials by status: the pending queue by default, oldest first.
+ * @route GET /api/testimonials/moderation?status=pending|approved|rejected
+ * @param {NextRequest} req - The incoming request.
+ * @returns {Promise<NextResponse>}
+ *   - 200: `{ testimonials: Testimonial[] }`.
+ *   - 400: `{ error: "Unknown status" }`.
+ *   - 403: `{ error: "Admins only" }`.
+ *   - 500: `{ error: "Failed to load the moderation queue" }` if the database is unavailable.
+ */
+export async function GET(req: NextRequest) {
+  const status = req.nextUrl.searchParams.get("status") ?? "pending";
+  if (!TESTIMONIAL_STATUSES.includes(status as TestimonialStatus)) {
+    return NextResponse.json({ error: "Unknown status" }, { status: 400 });
+  }
+
+  try {
+    if (!isAdmin(await getSessionUser())) return forbiddenResponse();
+    const testimonials = await listTestimonialsForModeration(status as TestimonialStatus);
+    return NextResponse.json({ testimonials }, { headers: { "Cache-Control": "no-store" } });
+  } catch (err) {
+    console.error("/api/testimonials/moderation error", err);
+    return NextResponse.json({ error: "Failed to load the moderation queue" }, { status: 500 });
+  }
+}
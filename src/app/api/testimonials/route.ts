@@ -0,0 +1,126 @@
+/**
+ * @file src/app/api/testimonials/route.ts
+ * @description API Route Handler for the approved testimonials shown on the landing page, and for submitting new ones
+ * to the moderation queue.
+ * @requires next/server For NextRequest and NextResponse objects to handle API requests and responses.
+ * @requires zod For validating the request body.
+ * @requires @/lib/auth For the signed-in user.
+ * @requires @/lib/recipes For the recipe being reviewed.
+ * @requires @/lib/testimonial For handle and avatar validation.
+ * @requires @/lib/testimonials For testimonial data access.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import { NextRequest, NextResponse } from "next/server"; // Next.js types for API route handling.
+import { z } from "zod"; // Library for schema validation.
+import { getSessionUser, unauthorizedResponse } from "@/lib/auth"; // Sessions.
+import { getRecipe } from "@/lib/recipes"; // Recipe data access.
+import {
+  normalizeAvatarUrl,
+  normalizeHandle,
+  TESTIMONIAL_AUTHOR_MAX_LENGTH,
+  TESTIMONIAL_QUOTE_MAX_LENGTH,
+} from "@/lib/testimonial"; // Testimonial validation.
+import { createTestimonial, listApprovedTestimonials, MAX_TESTIMONIALS_PAGE } from "@/lib/testimonials"; // Testimonial data access.
+
+/**
+ * @constant SubmitBodySchema
+ * @description Zod schema for a submission. Empty handle and avatar fields count as not given; non-empty ones must
+ * pass `normalizeHandle` and `normalizeAvatarUrl`, and are replaced by their normalised form.
+ */
+const SubmitBodySchema = z.object({
+  recipeId: z.string().min(1).max(100),
+  quote: z.string().trim().min(1, "Say something!").max(TESTIMONIAL_QUOTE_MAX_LENGTH, "That's more of an essay"),
+  author: z.string().trim().max(TESTIMONIAL_AUTHOR_MAX_LENGTH, "That name is too long").optional(),
+  handle: z
+    .string()
+    .max(100)
+    .optional()
+    .transform((value, ctx) => {
+      if (!value?.trim()) return null;
+      const handle = normalizeHandle(value);
+      if (!handle) ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Handles are 1–30 letters, digits or underscores" });
+      return handle;
+    }),
+  avatarUrl: z
+    .string()
+    .max(1000)
+    .optional()
+    .transform((value, ctx) => {
+      if (!value?.trim()) return null;
+      const url = normalizeAvatarUrl(value);
+      if (!url) ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Avatars must be https links from Gravatar, GitHub, X or Imgur" });
+      return url;
+    }),
+});
+
+/**
+ * @async
+ * @function GET
+ * @description Lists approved testimonials, featured first.
+ * @route GET /api/testimonials?limit=<n>
+ * @param {NextRequest} req - The incoming request.
+ * @returns {Promise<NextResponse>}
+ *   - 200: `{ testimonials: Testimonial[] }`.
+ *   - 500: `{ error: "Failed to load testimonials" }` if the database is unavailable.
+ */
+export async function GET(req: NextRequest) {
+  const limit = Number(req.nextUrl.searchParams.get("limit")) || 12;
+  try {
+    const testimonials = await listApprovedTestimonials(Math.min(limit, MAX_TESTIMONIALS_PAGE));
+    return NextResponse.json({ testimonials });
+  } catch (err) {
+    console.error("/api/testimonials GET error", err);
+    return NextResponse.json({ error: "Failed to load testimonials" }, { status: 500 });
+  }
+}
+
+/**
+ * @async
+ * @function POST
+ * @description Submits a testimonial about a recipe. It waits in the moderation queue until an admin approves it.
+ * The author defaults to the account's name, then the handle.
+ * @route POST /api/testimonials
+ * @param {NextRequest} req - The incoming request, with a JSON body `{ recipeId, quote, author?, handle?, avatarUrl? }`.
+ * @returns {Promise<NextResponse>}
+ *   - 201: `{ testimonial }`, with status `pending`.
+ *   - 400: `{ error }` describing the first invalid field.
+ *   - 401: `{ error: "Sign in required" }`.
+ *   - 404: `{ error: "Recipe not found" }`.
+ *   - 409: `{ error: "You've already reviewed this recipe" }`.
+ *   - 500: `{ error: "Failed to submit testimonial" }` if the database is unavailable.
+ */
+export async function POST(req: NextRequest) {
+  const parsed = SubmitBodySchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.issues[0]?.message ?? "Invalid testimonial" }, { status: 400 });
+  }
+
+  try {
+    const user = await getSessionUser();
+    if (!user) return unauthorizedResponse();
+
+    const recipe = await getRecipe(parsed.data.recipeId);
+    if (!recipe) {
+      return NextResponse.json({ error: "Recipe not found" }, { status: 404 });
+    }
+
+    const { quote, author, handle, avatarUrl } = parsed.data;
+    const testimonial = await createTestimonial({
+      recipe,
+      userID: user.id,
+      quote,
+      author: author || user.name || handle || "Anonymous wrecker",
+      handle,
+      avatarUrl,
+    });
+    if (!testimonial) {
+      return NextResponse.json({ error: "You've already reviewed this recipe" }, { status: 409 });
+    }
+    return NextResponse.json({ testimonial }, { status: 201 });
+  } catch (err) {
+    console.error("/api/testimonials POST error", err);
+    return NextResponse.json({ error: "Failed to submit testimonial" }, { status: 500 });
+  }
+}
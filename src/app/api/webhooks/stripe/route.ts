@@ -0,0 +1,54 @@
+/**
+ * @file src/app/api/webhooks/stripe/route.ts
+ * @description API Route Handler for Stripe webhooks. Verifies the signature against the raw body, then records
+ * purchases and grants entitlements.
+ * @requires next/server For NextRequest and NextResponse objects to handle API requests and responses.
+ * @requires @/lib/billing For verifying and applying events.
+ * @see src/lib/billing/index.ts For testing with fixture events.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import { NextRequest, NextResponse } from "next/server"; // Next.js types for API route handling.
+import { BillingConfigError, handleStripeEvent, verifyWebhookEvent } from "@/lib/billing"; // Payments.
+
+/**
+ * @async
+ * @function POST
+ * @description Receives a Stripe event. Unsigned or tampered requests are refused; events we don't act on are still
+ * acknowledged so Stripe stops sending them. Applying an event twice is harmless, so Stripe's retries are too.
+ * @route POST /api/webhooks/stripe
+ * @param {NextRequest} req - The incoming request, with the event as its raw body and a `Stripe-Signature` header.
+ * @returns {Promise<NextResponse>}
+ *   - 200: `{ received: true, applied: boolean }`.
+ *   - 400: `{ error: "Invalid signature" }`.
+ *   - 500: `{ error }` if the webhook secret is missing, or `{ error: "Webhook processing failed" }` if the database
+ *     is unavailable (Stripe retries).
+ */
+export async function POST(req: NextRequest) {
+  const signature = req.headers.get("stripe-signature");
+  const payload = await req.text();
+  if (!signature) {
+    return NextResponse.json({ error: "Invalid signature" }, { status: 400 });
+  }
+
+  let event;
+  try {
+    event = verifyWebhookEvent(payload, signature);
+  } catch (err) {
+    if (err instanceof BillingConfigError) {
+      console.error("/api/webhooks/stripe error", err);
+      return NextResponse.json({ error: err.message }, { status: 500 });
+    }
+    console.warn("/api/webhooks/stripe rejected a request:", (err as Error).message);
+    return NextResponse.json({ error: "Invalid signature" }, { status: 400 });
+  }
+
+  try {
+    const applied = await handleStripeEvent(event);
+    return NextResponse.json({ received: true, applied });
+  } catch (err) {
+    console.error(`/api/webhooks/stripe failed to apply ${event.type} ${event.id}`, err);
+    return NextResponse.json({ error: "Webhook processing failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * @file src/app/components/EmailPreferencesForm.tsx
+ * @description Topic checkboxes and an unsubscribe button for a waitlist subscriber, authorised by the manage token
+ * from their email.
+ * @requires react For the form state.
+ * @requires react-hot-toast For displaying results and errors.
+ * @requires @/lib/waitlist/types For the topics.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+"use client";
+
+import { useState, type FormEvent } from "react"; // React hooks and event types.
+import toast from "react-hot-toast"; // Toast notifications.
+import { TOPIC_LABELS, WAITLIST_TOPICS, type Subscriber, type WaitlistTopic } from "@/lib/waitlist/types"; // Waitlist topics.
+
+/**
+ * @typedef {object} Props
+ * @description Props for the EmailPreferencesForm component.
+ * @property {string} token - The manage token from the email link.
+ * @property {Subscriber} subscriber - The subscriber's current state.
+ */
+interface Props {
+  token: string;
+  subscriber: Subscriber;
+}
+
+/**
+ * @component EmailPreferencesForm
+ * @description Saves topics with `PUT /api/subscribe/preferences` and unsubscribes with
+ * `POST /api/subscribe/unsubscribe`.
+ * @componentType Client
+ * @param {Props} props - The props for the component.
+ * @returns {JSX.Element} The form.
+ */
+export default function EmailPreferencesForm({ token, subscriber }: Props) {
+  const [status, setStatus] = useState(subscriber.status);
+  const [topics, setTopics] = useState<WaitlistTopic[]>(subscriber.topics);
+  const [submitting, setSubmitting] = useState(false);
+
+  /**
+   * @function toggleTopic
+   * @description Ticks or unticks a topic.
+   * @param {WaitlistTopic} topic - The topic.
+   */
+  const toggleTopic = (topic: WaitlistTopic) =>
+    setTopics((current) => (current.includes(topic) ? current.filter((t) => t !== topic) : [...current, topic]));
+
+  /**
+   * @async
+   * @function send
+   * @description Calls one of the waitlist routes and applies the resulting status.
+   * @param {string} url - The route.
+   * @param {RequestInit} init - The request.
+   * @param {string} success - The toast to show when it works.
+   */
+  const send = async (url: string, init: RequestInit, success: string) => {
+    setSubmitting(true);
+    try {
+      const res = await fetch(url, { ...init, headers: { "Content-Type": "application/json" } });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Something went wrong");
+      setStatus(data.subscriber?.status ?? "unsubscribed");
+      toast.success(success);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Something went wrong");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  /**
+   * @async
+   * @function handleSubmit
+   * @description Saves the ticked topics.
+   * @param {FormEvent} event - The submit event.
+   */
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    await send(
+      "/api/subscribe/preferences",
+      { method: "PUT", body: JSON.stringify({ token, topics }) },
+      topics.length ? "Preferences saved" : "You've been unsubscribed"
+    );
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white dark:bg-gray-800 shadow-lg rounded-lg p-6 w-full max-w-md flex flex-col gap-4">
+      <p className="text-sm text-gray-600 dark:text-gray-300">
+        Emails for <strong>{subscriber.email}</strong>
+        {status === "pending" && " (not confirmed yet; saving confirms it)"}
+        {status === "unsubscribed" && " (unsubscribed; tick a topic to come back)"}
+      </p>
+      {WAITLIST_TOPICS.map((topic) => (
+        <label key={topic} className="flex items-start gap-3">
+          <input
+            type="checkbox"
+            checked={topics.includes(topic)}
+            onChange={() => toggleTopic(topic)}
+            className="mt-1 accent-purple-600"
+          />
+          <span>
+            <span className="font-semibold">{TOPIC_LABELS[topic].label}</span>
+            <span className="block text-sm text-gray-500">{TOPIC_LABELS[topic].description}</span>
+          </span>
+        </label>
+      ))}
+      <button type="submit" disabled={submitting} className="py-2 bg-purple-600 text-white rounded-md disabled:opacity-50">
+        {submitting ? "Please wait..." : "Save preferences"}
+      </button>
+      {status !== "unsubscribed" && (
+        <button
+          type="button"
+          disabled={submitting}
+          onClick={() =>
+            send(`/api/subscribe/unsubscribe?token=${encodeURIComponent(token)}`, { method: "POST" }, "You've been unsubscribed")
+          }
+          className="text-sm text-gray-500 underline disabled:opacity-50"
+        >
+          Unsubscribe from everything
+        </button>
+      )}
+    </form>
+  );
+}
@@ -0,0 +1,36 @@
+/**
+ * @file src/app/components/IngredientLine.tsx
+ * @description Renders one parsed ingredient with its amount emphasised and any preparation note subdued, e.g.
+ * **1/2 cup** brown sugar (packed). Shared by `RecipeCard` and `StaticRecipeCard`.
+ * @requires @/lib/ingredients For the parsed ingredient type and amount formatting.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import { formatAmountWithUnit, type ParsedIngredient } from "@/lib/ingredients"; // Structured ingredients.
+
+/**
+ * @typedef {object} Props
+ * @description Props for the IngredientLine component.
+ * @property {ParsedIngredient} ingredient - The parsed ingredient to display.
+ */
+interface Props {
+  ingredient: ParsedIngredient;
+}
+
+/**
+ * @component IngredientLine
+ * @description Displays a parsed ingredient inline. Lines the parser couldn't find an amount in are shown as written.
+ * @param {Props} props - The props for the component.
+ * @returns {JSX.Element} The ingredient text.
+ */
+export default function IngredientLine({ ingredient }: Props) {
+  const amount = formatAmountWithUnit(ingredient);
+  return (
+    <span title={ingredient.original}>
+      {amount && <span className="font-semibold">{amount} </span>}
+      {ingredient.item}
+      {ingredient.note && <span className="opacity-70"> ({ingredient.note})</span>}
+    </span>
+  );
+}
@@ -0,0 +1,167 @@
+/**
+ * @file src/app/components/LoginForm.tsx
+ * @description Sign-in form with three modes: password sign-in, sign-up, and an emailed sign-in link.
+ * @requires react For the form state.
+ * @requires next/navigation For leaving the page once signed in.
+ * @requires react-hot-toast For displaying errors.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+"use client";
+
+import { useState, type FormEvent } from "react"; // React hooks and event types.
+import { useRouter } from "next/navigation"; // Navigation after sign-in.
+import toast from "react-hot-toast"; // Toast notifications.
+
+/**
+ * @typedef {"login" | "signup" | "magic"} Mode
+ * @description Which form is showing.
+ */
+type Mode = "login" | "signup" | "magic";
+
+/**
+ * @constant MODES
+ * @description Tab labels for each mode.
+ */
+const MODES: { mode: Mode; label: string }[] = [
+  { mode: "login", label: "Sign in" },
+  { mode: "signup", label: "Create account" },
+  { mode: "magic", label: "Email me a link" },
+];
+
+/**
+ * @typedef {object} Props
+ * @description Props for the LoginForm component.
+ * @property {string} next - Where to go after signing in; already checked to be a local path.
+ */
+interface Props {
+  next: string;
+}
+
+/**
+ * @component LoginForm
+ * @description Posts to `/api/auth/login`, `/api/auth/signup` or `/api/auth/magic-link`. Password sign-in navigates
+ * to `next` once the session cookie is set; the other two email a link.
+ * @componentType Client
+ * @param {Props} props - The props for the component.
+ * @returns {JSX.Element} The form.
+ */
+export default function LoginForm({ next }: Props) {
+  const router = useRouter();
+  const [mode, setMode] = useState<Mode>("login");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [name, setName] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [linkSent, setLinkSent] = useState(false);
+
+  /**
+   * @async
+   * @function handleSubmit
+   * @description Submits the current mode's form.
+   * @param {FormEvent} event - The submit event.
+   */
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    setSubmitting(true);
+    try {
+      const [url, body] =
+        mode === "magic"
+          ? ["/api/auth/magic-link", { email, next }]
+          : mode === "signup"
+            ? ["/api/auth/signup", { email, password, name: name.trim() || undefined, next }]
+            : ["/api/auth/login", { email, password }];
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Something went wrong");
+
+      if (mode !== "login") {
+        setLinkSent(true);
+      } else {
+        router.replace(next);
+        router.refresh();
+      }
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Something went wrong");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 shadow-lg rounded-lg p-6 w-full max-w-sm">
+      <div className="flex mb-4 border-b border-gray-200 dark:border-gray-700" role="tablist">
+        {MODES.map((tab) => (
+          <button
+            key={tab.mode}
+            role="tab"
+            aria-selected={mode === tab.mode}
+            onClick={() => {
+              setMode(tab.mode);
+              setLinkSent(false);
+            }}
+            className={`flex-1 pb-2 text-sm ${
+              mode === tab.mode ? "border-b-2 border-purple-600 font-semibold" : "text-gray-500"
+            }`}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+
+      {linkSent ? (
+        <p className="text-center">
+          Check <strong>{email}</strong> for a {mode === "signup" ? "link to confirm your account" : "sign-in link"}. It
+          works once and expires in 15 minutes.
+        </p>
+      ) : (
+        <form onSubmit={handleSubmit} className="flex flex-col gap-3">
+          {mode === "signup" && (
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Name (optional)"
+              autoComplete="name"
+              maxLength={80}
+              className="px-3 py-2 border rounded-md"
+            />
+          )}
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="Email"
+            autoComplete="email"
+            required
+            className="px-3 py-2 border rounded-md"
+          />
+          {mode !== "magic" && (
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="Password"
+              autoComplete={mode === "signup" ? "new-password" : "current-password"}
+              minLength={mode === "signup" ? 8 : 1}
+              required
+              className="px-3 py-2 border rounded-md"
+            />
+          )}
+          <button
+            type="submit"
+            disabled={submitting}
+            className="py-2 bg-purple-600 text-white rounded-md disabled:opacity-50"
+          >
+            {submitting ? "Please wait..." : MODES.find((tab) => tab.mode === mode)?.label}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
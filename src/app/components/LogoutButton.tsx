@@ -0,0 +1,54 @@
+/**
+ * @file src/app/components/LogoutButton.tsx
+ * @description Button that signs out and returns to the generator.
+ * @requires react For the pending state.
+ * @requires next/navigation For leaving the page after signing out.
+ * @requires react-hot-toast For displaying errors.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+"use client";
+
+import { useState } from "react"; // React hook for the pending state.
+import { useRouter } from "next/navigation"; // Navigation after sign-out.
+import toast from "react-hot-toast"; // Toast notifications.
+
+/**
+ * @component LogoutButton
+ * @description Posts to `/api/auth/logout`, then sends the visitor to the generator.
+ * @componentType Client
+ * @returns {JSX.Element} The button.
+ */
+export default function LogoutButton() {
+  const router = useRouter();
+  const [pending, setPending] = useState(false);
+
+  /**
+   * @async
+   * @function handleLogout
+   * @description Ends the session.
+   */
+  const handleLogout = async () => {
+    setPending(true);
+    try {
+      const res = await fetch("/api/auth/logout", { method: "POST" });
+      if (!res.ok) throw new Error("Sign-out failed");
+      router.replace("/recipe-generator");
+      router.refresh();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Sign-out failed");
+      setPending(false);
+    }
+  };
+
+  return (
+    <button
+      onClick={handleLogout}
+      disabled={pending}
+      className="px-4 py-2 border border-purple-600 text-purple-600 rounded-md disabled:opacity-50"
+    >
+      {pending ? "Signing out..." : "Sign out"}
+    </button>
+  );
+}
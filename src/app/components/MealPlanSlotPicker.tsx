@@ -0,0 +1,118 @@
+/**
+ * @file src/app/components/MealPlanSlotPicker.tsx
+ * @description The panel for filling a meal planner slot: pick one of the saved recipes, or generate a new one on the
+ * spot with the slot's meal type.
+ * @requires react For the recipe list and form state.
+ * @requires @/lib/mealPlan For the slot types and day names.
+ * @requires @/lib/recipes For the PublicRecipe type.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+"use client";
+
+import { useEffect, useState } from "react"; // React hooks for the recipe list and form state.
+import { DAY_NAMES, type PlanMeal } from "@/lib/mealPlan"; // Slot grid.
+import type { PublicRecipe } from "@/lib/recipes"; // Saved recipe shape.
+
+/**
+ * @typedef {object} Props
+ * @description Props for the MealPlanSlotPicker component.
+ * @property {number} day - The slot's day, 0 (Monday) to 6.
+ * @property {PlanMeal} meal - The slot's meal.
+ * @property {boolean} busy - True while the slot is being saved or generated; disables the actions.
+ * @property {(recipeId: string) => void} onPick - Called with a saved recipe's id.
+ * @property {(prompt: string) => void} onGenerate - Called with the prompt to generate a recipe from.
+ * @property {() => void} onClose - Called when the panel is dismissed.
+ */
+interface Props {
+  day: number;
+  meal: PlanMeal;
+  busy: boolean;
+  onPick: (recipeId: string) => void;
+  onGenerate: (prompt: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * @component MealPlanSlotPicker
+ * @description Loads the newest saved recipes once, listing those of the slot's meal type first, with a title filter.
+ * @param {Props} props - The props for the component.
+ * @returns {JSX.Element} The picker panel.
+ */
+export default function MealPlanSlotPicker({ day, meal, busy, onPick, onGenerate, onClose }: Props) {
+  const [recipes, setRecipes] = useState<PublicRecipe[] | null>(null);
+  const [filter, setFilter] = useState("");
+  const [prompt, setPrompt] = useState("");
+
+  useEffect(() => {
+    fetch("/api/recipes?limit=50")
+      .then((res) => (res.ok ? res.json() : { recipes: [] }))
+      .then((data: { recipes: PublicRecipe[] }) => setRecipes(data.recipes))
+      .catch(() => setRecipes([]));
+  }, []);
+
+  const query = filter.trim().toLowerCase();
+  const matches = (recipes ?? [])
+    .filter((recipe) => !query || recipe.title.toLowerCase().includes(query))
+    .sort((a, b) => Number(b.mealType === meal) - Number(a.mealType === meal));
+
+  return (
+    <section className="bg-white dark:bg-gray-800 shadow-lg rounded-lg p-6 w-full max-w-3xl" aria-label="Fill slot">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-xl font-semibold capitalize">
+          {DAY_NAMES[day]} {meal}
+        </h2>
+        <button onClick={onClose} className="text-sm text-gray-500 hover:text-purple-600">
+          Close
+        </button>
+      </div>
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          onGenerate(prompt.trim() || `a chef's-choice ${meal}`);
+        }}
+        className="flex gap-2 mb-4"
+      >
+        <input
+          type="text"
+          placeholder={`Generate a ${meal}, e.g. ${meal === "breakfast" ? "pancakes" : "nachos"}`}
+          value={prompt}
+          maxLength={500}
+          onChange={(e) => setPrompt(e.target.value)}
+          className="flex-1 px-3 py-2 border rounded-md"
+        />
+        <button type="submit" disabled={busy} className="px-4 py-2 bg-purple-600 text-white rounded-md disabled:opacity-50">
+          {busy ? "Working…" : "Generate"}
+        </button>
+      </form>
+      <input
+        type="search"
+        placeholder="Or pick a saved recipe…"
+        value={filter}
+        onChange={(e) => setFilter(e.target.value)}
+        className="w-full px-3 py-2 border rounded-md mb-2"
+      />
+      {recipes === null ? (
+        <p className="text-sm text-gray-500">Loading saved recipes…</p>
+      ) : matches.length === 0 ? (
+        <p className="text-sm text-gray-500">No saved recipes match.</p>
+      ) : (
+        <ul className="max-h-64 overflow-y-auto divide-y divide-gray-200 dark:divide-gray-700">
+          {matches.map((recipe) => (
+            <li key={recipe.id}>
+              <button
+                onClick={() => onPick(recipe.id)}
+                disabled={busy}
+                className="w-full text-left py-2 hover:text-purple-600 disabled:opacity-50"
+              >
+                {recipe.title}
+                {recipe.mealType && <span className="ml-2 text-xs text-gray-500 capitalize">{recipe.mealType}</span>}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,105 @@
+/**
+ * @file src/app/components/NutritionLabel.tsx
+ * @description A parody of the FDA "Nutrition Facts" panel for generated recipes, with percent-daily-value bars drawn
+ * on a 0–500% scale so that the usual RecipeWreck result blows straight past the 100% mark.
+ * @requires @/lib/nutrition For the estimate type and daily value percentages.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import { percentDailyValue, type Nutrient, type NutritionEstimate } from "@/lib/nutrition"; // Offline nutrition estimator.
+
+/**
+ * @typedef {object} Props
+ * @description Props for the NutritionLabel component.
+ * @property {NutritionEstimate} estimate - The recipe's estimated nutrition.
+ */
+interface Props {
+  estimate: NutritionEstimate;
+}
+
+/**
+ * @constant BAR_SCALE_MAX
+ * @description The percentage at the right edge of each bar; 100% sits a fifth of the way along.
+ */
+const BAR_SCALE_MAX = 500;
+
+/**
+ * @constant ROWS
+ * @description The label rows below the calorie line, in FDA order.
+ */
+const ROWS: { nutrient: Exclude<Nutrient, "calories">; label: string; unit: string }[] = [
+  { nutrient: "fat", label: "Total Fat", unit: "g" },
+  { nutrient: "sodium", label: "Sodium", unit: "mg" },
+  { nutrient: "sugar", label: "Total Sugars", unit: "g" },
+];
+
+/**
+ * @component DailyValueBar
+ * @description A bar for one percentage, red once it passes 100%, with an arrow when it runs off the end of the scale.
+ * @param {object} props - Component props.
+ * @param {number} props.percent - The percent daily value.
+ * @returns {JSX.Element} The bar.
+ */
+function DailyValueBar({ percent }: { percent: number }) {
+  return (
+    <div className="relative h-2 mt-0.5 bg-gray-200" aria-hidden="true">
+      <div
+        className={`h-full ${percent > 100 ? "bg-red-600" : "bg-black"}`}
+        style={{ width: `${(Math.min(percent, BAR_SCALE_MAX) / BAR_SCALE_MAX) * 100}%` }}
+      />
+      <div className="absolute top-[-2px] bottom-[-2px] border-l-2 border-dashed border-black" style={{ left: `${(100 / BAR_SCALE_MAX) * 100}%` }} />
+      {percent > BAR_SCALE_MAX && <span className="absolute right-0 -top-1.5 text-[10px] leading-none text-red-600">▶</span>}
+    </div>
+  );
+}
+
+/**
+ * @component NutritionLabel
+ * @description Renders the estimate as a black-and-white nutrition facts panel. Ingredients the estimator couldn't
+ * match are listed in the footnote rather than silently counted as zero.
+ * @param {Props} props - The props for the component.
+ * @returns {JSX.Element} The label.
+ */
+export default function NutritionLabel({ estimate }: Props) {
+  const { perServing, servings, unestimated } = estimate;
+  const caloriePercent = percentDailyValue("calories", perServing.calories);
+
+  return (
+    <section className="border-2 border-black bg-white text-black p-2 font-sans text-sm" aria-label="Nutrition facts">
+      <h3 className="text-3xl font-black leading-none">Nutrition Facts</h3>
+      <p className="border-b border-black pb-1">
+        {servings} serving{servings === 1 ? "" : "s"} per recipe
+      </p>
+      <div className="border-b-8 border-black py-1">
+        <p className="text-xs font-bold">Amount per serving</p>
+        <div className="flex items-end justify-between">
+          <span className="text-2xl font-black">Calories</span>
+          <span className="text-3xl font-black">{perServing.calories.toLocaleString()}</span>
+        </div>
+        <DailyValueBar percent={caloriePercent} />
+      </div>
+      <p className="text-right text-xs font-bold border-b border-black py-0.5">% Daily Value*</p>
+      {ROWS.map(({ nutrient, label, unit }) => {
+        const percent = percentDailyValue(nutrient, perServing[nutrient]);
+        return (
+          <div key={nutrient} className="border-b border-black py-1">
+            <div className="flex justify-between">
+              <span>
+                <span className="font-bold">{label}</span> {perServing[nutrient].toLocaleString()}
+                {unit}
+              </span>
+              <span className={`font-bold ${percent > 100 ? "text-red-600" : ""}`}>{percent.toLocaleString()}%</span>
+            </div>
+            <DailyValueBar percent={percent} />
+          </div>
+        );
+      })}
+      <p className="text-[11px] leading-snug pt-1 border-t-4 border-black mt-1">
+        * The % Daily Value tells you how much a nutrient in a serving contributes to a daily diet. 2,000 calories a day is
+        used for general nutrition advice. You are, to be clear, not receiving any here. Estimated for comedic effect.
+        {unestimated.length > 0 && ` Not counted: ${unestimated.join("; ")}.`}
+      </p>
+    </section>
+  );
+}
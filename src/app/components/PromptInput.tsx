@@ -1,112 +1,455 @@
 /**
  * @file src/app/components/PromptInput.tsx
  * @description Defines a client component that allows users to input prompts for AI recipe generation and handles the API request.
- * @requires react For component state management (useState).
+ * The recipe is streamed from `/api/generate/stream` and reported to the parent progressively, so the card fills in as the
+ * model writes it instead of waiting on a spinner. It also shows how many generations the visitor has left today on their access
+ * tier, with a hint at what the next tier adds, and, when they hit the rate limit, a cooldown countdown instead of letting them submit into a 429. Prompts or recipes blocked by moderation
+ * are explained inline with the reason returned by the API. An advanced-options panel sets the optional meal type, cuisine,
+ * servings and wreck level; the choices are kept in localStorage so they carry over between generations and visits.
+ * @requires react For component state management (useState, useEffect, useCallback).
  * @requires react-hot-toast For displaying notifications.
+ * @requires @/lib/recipe For the shared GeneratedRecipe type.
+ * @requires @/lib/sse For reading the Server-Sent Events response.
+ * @requires @/lib/rateLimit/types For the quota returned by `/api/generate/quota`.
+ * @requires @/lib/moderation/types For the structured moderation rejection.
+ * @requires @/lib/generation/options For the generation controls and their validation.
+ * @requires next/link For the upgrade links under the quota.
+ * @requires @/lib/tiers For the next tier's quota and features.
+ * @requires ./useAccess For the visitor's access tier.
  * @author Cascade
  * @date 2025-06-12
  */
 
 "use client";
 
-import { useState } from "react"; // React hook for managing component-level state.
+import { useCallback, useEffect, useState } from "react"; // React hooks for state, effects and memoised callbacks.
 import toast from "react-hot-toast"; // Library for displaying toast notifications.
+import { MAX_SERVINGS, MEAL_TYPES, type GeneratedRecipe, type MealType } from "@/lib/recipe"; // Recipe fields shared with the generation API.
+import { readSseStream } from "@/lib/sse"; // Reads the streamed recipe events.
+import type { RateLimitStatus } from "@/lib/rateLimit/types"; // Quota shape shared with the API.
+import type { ModerationRejection } from "@/lib/moderation/types"; // Moderation rejection shape shared with the API.
+import { DEFAULT_WRECK_LEVEL, GenerationOptionsSchema, WRECK_LEVELS, type GenerationOptions } from "@/lib/generation/options"; // Advanced options.
+import Link from "next/link"; // Client-side navigation.
+import { TIER_PLANS, type Tier } from "@/lib/tiers"; // Tier quotas and features.
+import useAccess, { type ClientAccess } from "./useAccess"; // Visitor's access tier.
 
 /**
  * @typedef {object} PromptResult
  * @description Represents the structure of a successfully generated recipe from the AI.
  * This type is used by both PromptInput (for receiving data) and RecipeCard (for displaying data).
  * @property {string} title - The title of the generated recipe.
+ * @property {string} description - A short blurb describing the dish (empty if the model did not return one).
+ * @property {MealType | null} mealType - The meal category, or null when it could not be determined.
+ * @property {number | null} calories - Estimated calories per serving, or null when unknown.
+ * @property {number | null} servings - How many servings the ingredient quantities make, or null when unknown.
+ * @property {string[]} associatedDiseases - Health conditions the dish is (comedically) associated with.
+ * @property {string[]} tags - Short lowercase tags describing the recipe.
  * @property {string[]} ingredients - An array of strings, each representing an ingredient.
  * @property {string[]} steps - An array of strings, each representing a step in the recipe instructions.
- * @property {string} imageBase64 - A base64 encoded string representing the AI-generated image for the recipe.
+ * @property {string} imageUrl - The URL of the stored AI-generated image (`/api/images/<id>`), or an empty string until it is ready.
+ * @property {string} [id] - The stored recipe id, once the recipe has been saved.
+ * @property {string | null} [slug] - The permalink slug (`/r/<slug>`), once the recipe has been saved.
+ * @property {string | null} [parentId] - For remixes, the id of the recipe it was remixed from.
+ * @property {string | null} [remixDirection] - For remixes, the direction it was remixed in, e.g. "make it worse".
  */
-export interface PromptResult {
-  title: string;
-  ingredients: string[];
-  steps: string[];
-  imageBase64: string;
+export interface PromptResult extends GeneratedRecipe {
+  imageUrl: string;
+  id?: string;
+  slug?: string | null;
+  parentId?: string | null;
+  remixDirection?: string | null;
 }
 
+/**
+ * @constant EMPTY_RESULT
+ * @description The starting point for a streamed recipe: every field empty until its event arrives.
+ * @type {PromptResult}
+ */
+const EMPTY_RESULT: PromptResult = {
+  title: "",
+  description: "",
+  mealType: null,
+  calories: null,
+  servings: null,
+  associatedDiseases: [],
+  tags: [],
+  ingredients: [],
+  steps: [],
+  imageUrl: "",
+};
+
+/**
+ * @constant OPTIONS_STORAGE_KEY
+ * @description localStorage key for the advanced options.
+ */
+const OPTIONS_STORAGE_KEY = "recipewreck:generation-options";
+
+/**
+ * @function loadStoredOptions
+ * @description Reads the saved advanced options, discarding anything that no longer validates.
+ * @returns {GenerationOptions} The saved options, or none.
+ */
+const loadStoredOptions = (): GenerationOptions => {
+  try {
+    const parsed = GenerationOptionsSchema.safeParse(JSON.parse(localStorage.getItem(OPTIONS_STORAGE_KEY) ?? "{}"));
+    return parsed.success ? parsed.data : {};
+  } catch {
+    return {};
+  }
+};
+
 /**
  * @typedef {object} Props
  * @description Props for the PromptInput component.
- * @property {(recipe: PromptResult) => void} onResult - Callback function invoked when a recipe is successfully generated, passing the recipe data.
+ * @property {(recipe: PromptResult, done: boolean) => void} onResult - Callback invoked every time more of the recipe arrives,
+ * passing the recipe so far. `done` is true once the stream has finished (image received and recipe saved).
+ * @property {() => void} [onError] - Optional callback invoked when generation fails, so the parent can discard a partial recipe.
  */
 interface Props {
-  onResult: (recipe: PromptResult) => void;
+  onResult: (recipe: PromptResult, done: boolean) => void;
+  onError?: () => void;
+}
+
+/**
+ * @function formatCooldown
+ * @description Formats a cooldown for display, e.g. `42s`, `3:05` or `7h 12m`.
+ * @param {number} seconds - Seconds remaining.
+ * @returns {string} The formatted duration.
+ */
+const formatCooldown = (seconds: number): string => {
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+  return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`;
+};
+
+/**
+ * @constant UPGRADES
+ * @description The next step up from each tier, and where to take it.
+ */
+const UPGRADES: Partial<Record<Tier, { href: string; action: string }>> = {
+  anonymous: { href: "/login?next=/recipe-generator", action: "Sign in" },
+  waitlist: { href: "/login?next=/recipe-generator", action: "Sign in" },
+  free: { href: "/#preorder-section", action: "Get lifetime access" },
+};
+
+/**
+ * @component UpgradeHint
+ * @description One line under the quota saying what the next tier adds, e.g. "Sign in for 20 a day and remixes".
+ * Lifetime users see nothing.
+ * @param {object} props - Component props.
+ * @param {ClientAccess} props.access - The visitor's access.
+ * @returns {JSX.Element | null} The hint.
+ */
+function UpgradeHint({ access }: { access: ClientAccess }) {
+  const upgrade = UPGRADES[access.tier];
+  if (!upgrade) return null;
+  const next = TIER_PLANS[access.tier === "free" ? "lifetime" : "free"];
+  const extras = [
+    !access.plan.features.remix && next.features.remix && "remixes",
+    !access.plan.features.hdImages && next.features.hdImages && "HD images",
+  ].filter(Boolean);
+  return (
+    <p className="text-xs text-gray-500 dark:text-gray-400">
+      <Link href={upgrade.href} className="text-purple-600 underline">
+        {upgrade.action}
+      </Link>{" "}
+      for {next.dailyGenerations} a day{extras.length > 0 && ` and ${extras.join(" and ")}`}.
+    </p>
+  );
 }
 
 /**
  * @component PromptInput
  * @description A client component that provides a form with a text input for users to submit recipe generation prompts.
- * It handles the submission, communicates with the `/api/generate` endpoint, manages loading states, and calls the `onResult` prop with the generated recipe data.
+ * It handles the submission, streams the recipe from the `/api/generate/stream` endpoint, manages loading states, and calls the
+ * `onResult` prop with the partially generated recipe after every event.
  * @componentType Client
  * @param {Props} props - The props for the component.
- * @param {function(PromptResult): void} props.onResult - Callback function to be invoked with the generated recipe data.
+ * @param {function(PromptResult, boolean): void} props.onResult - Callback function to be invoked with the recipe generated so far.
+ * @param {function(): void} [props.onError] - Callback function to be invoked when generation fails.
  * @returns {JSX.Element} The JSX for the prompt input form.
  * @example
- * const handleRecipeGenerated = (recipe) => {
- *   console.log("New recipe:", recipe);
+ * const handleRecipeGenerated = (recipe, done) => {
+ *   console.log(done ? "Finished recipe:" : "Partial recipe:", recipe);
  * };
  * <PromptInput onResult={handleRecipeGenerated} />
  */
-export default function PromptInput({ onResult }: Props) {
+export default function PromptInput({ onResult, onError }: Props) {
     const [prompt, setPrompt] = useState(""); // State for the current value of the text input.
     const [loading, setLoading] = useState(false); // State to indicate if a recipe generation request is in progress.
+    const [quota, setQuota] = useState<RateLimitStatus | null>(null); // Remaining generations, null until loaded.
+    const [cooldownUntil, setCooldownUntil] = useState(0); // Epoch ms until which the rate limiter blocks generation.
+    const [now, setNow] = useState(() => Date.now()); // Ticks every second during a cooldown to drive the countdown.
+    const [rejection, setRejection] = useState<ModerationRejection | null>(null); // Why the last request was blocked, if it was.
+    const [options, setOptions] = useState<GenerationOptions>({}); // Advanced options sent with every prompt.
+    const [optionsLoaded, setOptionsLoaded] = useState(false); // True once saved options have been read, so they aren't overwritten.
+    const [showOptions, setShowOptions] = useState(false); // Whether the advanced-options panel is open.
+    const access = useAccess(); // The visitor's tier, for the plan name and upgrade hint.
+
+    const cooldownSeconds = Math.max(0, Math.ceil((cooldownUntil - now) / 1000));
+
+    /**
+   * @async
+   * @function refreshQuota
+   * @description Loads the visitor's quota from `/api/generate/quota` and starts a cooldown if they are currently blocked.
+   * Failures are ignored: the quota display is informational and the server enforces the limit regardless.
+   */
+  const refreshQuota = useCallback(async () => {
+    try {
+      const res = await fetch("/api/generate/quota");
+      if (!res.ok) return;
+      const status: RateLimitStatus = await res.json();
+      setQuota(status);
+      setCooldownUntil(status.allowed ? 0 : Date.now() + status.retryAfter * 1000);
+    } catch (err) {
+      console.error("Failed to load generation quota", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshQuota();
+  }, [refreshQuota]);
+
+  // localStorage only exists in the browser, so saved options are read after the first render.
+  useEffect(() => {
+    setOptions(loadStoredOptions());
+    setOptionsLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (optionsLoaded) localStorage.setItem(OPTIONS_STORAGE_KEY, JSON.stringify(options));
+  }, [options, optionsLoaded]);
+
+    /**
+   * @function updateOption
+   * @description Sets or clears one advanced option.
+   * @param {K} key - The option to change.
+   * @param {GenerationOptions[K]} value - The new value, or undefined to clear it.
+   */
+  const updateOption = <K extends keyof GenerationOptions>(key: K, value: GenerationOptions[K]) => {
+    setOptions((prev) => ({ ...prev, [key]: value }));
+  };
+
+  useEffect(() => {
+    if (cooldownUntil <= Date.now()) return;
+    const timer = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= cooldownUntil) {
+        clearInterval(timer);
+        refreshQuota();
+      }
+    }, 1000);
+    setNow(Date.now());
+    return () => clearInterval(timer);
+  }, [cooldownUntil, refreshQuota]);
 
     /**
    * @async
    * @function handleSubmit
    * @description Handles the form submission event. It prevents the default form submission, sends the user's prompt
-   * to the `/api/generate` endpoint, and then calls the `onResult` callback with the AI-generated recipe.
-   * Manages loading state and displays error toasts if the API call fails.
+   * to the `/api/generate/stream` endpoint, and folds each Server-Sent Event into the recipe passed to `onResult`.
+   * Manages loading state and displays error toasts if the API call fails. A 429 starts the cooldown instead of an error.
+   * The quota is refreshed afterwards so the remaining count and any new cooldown show up straight away.
    * @param {React.FormEvent} e - The form submission event object.
-   * @throws Will catch errors from the fetch request or if the response is not ok, displaying a toast notification.
+   * @throws Will catch errors from the fetch request, a non-ok response or an `error` event, displaying a toast notification.
    */
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!prompt.trim()) return;
+    if (!prompt.trim() || cooldownSeconds > 0) return;
 
     setLoading(true);
+    setRejection(null);
     try {
-      const res = await fetch("/api/generate", {
+      const res = await fetch("/api/generate/stream", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({ prompt }),
+        body: JSON.stringify({ prompt, ...options, cuisine: options.cuisine?.trim() || undefined }),
+      });
+      if (res.status === 422) {
+        const blocked = await res.json();
+        setRejection(blocked.rejection);
+        return;
+      }
+      if (res.status === 429) {
+        const limited = await res.json();
+        setQuota((prev) => (prev ? { ...prev, ...limited, allowed: false } : prev));
+        setCooldownUntil(Date.now() + limited.retryAfter * 1000);
+        toast.error(limited.error);
+        return;
+      }
+      if (!res.ok || !res.body) throw new Error(await res.text());
+      const remaining = res.headers.get("X-RateLimit-Remaining");
+      if (remaining !== null) {
+        setQuota((prev) => (prev ? { ...prev, remaining: Number(remaining) } : prev));
+      }
+
+      let recipe: PromptResult = { ...EMPTY_RESULT };
+      let done = false;
+      let rejected = false;
+      onResult(recipe, done);
+      await readSseStream(res.body, ({ event, data }) => {
+        const payload = JSON.parse(data);
+        switch (event) {
+          case "reset":
+            // The server rejected malformed output and is regenerating; start the card over.
+            recipe = { ...EMPTY_RESULT };
+            break;
+          case "title":
+            recipe = { ...recipe, title: payload.title };
+            break;
+          case "details":
+            recipe = { ...recipe, ...payload.details };
+            break;
+          case "recipe":
+            recipe = { ...recipe, ...payload };
+            break;
+          case "ingredient":
+            recipe = { ...recipe, ingredients: [...recipe.ingredients, payload.text] };
+            break;
+          case "step":
+            recipe = { ...recipe, steps: [...recipe.steps, payload.text] };
+            break;
+          case "image":
+            recipe = { ...recipe, imageUrl: payload.imageUrl };
+            break;
+          case "saved":
+            recipe = { ...recipe, id: payload.id ?? undefined, slug: payload.slug ?? undefined };
+            break;
+          case "done":
+            done = true;
+            break;
+          case "rejected":
+            rejected = true;
+            setRejection(payload.rejection);
+            onError?.();
+            return;
+          case "error":
+            throw new Error(payload.error);
+          default:
+            return;
+        }
+        onResult(recipe, done);
       });
-      if (!res.ok) throw new Error(await res.text());
-      const data: PromptResult = await res.json();
-      onResult(data);
+      if (!done && !rejected) throw new Error("Stream ended before the recipe was complete");
     } catch (err: any) {
       console.error(err);
       toast.error("Recipe generation failed, please try again.");
+      onError?.();
     } finally {
       setLoading(false);
+      refreshQuota();
     }
   };
 
   return (
-    <form
-      onSubmit={handleSubmit}
-      className="w-full flex flex-col sm:flex-row gap-4 text-white"
-    >
-      <input
-        type="text"
-        placeholder="e.g., Deep-fried chocolate salad"
-        value={prompt}
-        onChange={(e) => setPrompt(e.target.value)}
-        className="flex-1 px-4 py-2 border rounded-md text-white"
-      />
+    <div className="w-full flex flex-col gap-2">
+      <form
+        onSubmit={handleSubmit}
+        className="w-full flex flex-col sm:flex-row gap-4 text-white"
+      >
+        <input
+          type="text"
+          placeholder="e.g., Deep-fried chocolate salad"
+          value={prompt}
+          onChange={(e) => setPrompt(e.target.value)}
+          className="flex-1 px-4 py-2 border rounded-md text-white"
+        />
+        <button
+          type="submit"
+          disabled={loading || cooldownSeconds > 0}
+          className="px-4 py-2 bg-purple-600 text-white rounded-md disabled:opacity-50"
+        >
+          {loading ? "Generating…" : cooldownSeconds > 0 ? "Cooling down…" : "Generate"}
+        </button>
+      </form>
       <button
-        type="submit"
-        disabled={loading}
-        className="px-4 py-2 bg-purple-600 text-white rounded-md disabled:opacity-50"
+        type="button"
+        onClick={() => setShowOptions((open) => !open)}
+        aria-expanded={showOptions}
+        className="self-start text-sm text-purple-700 dark:text-purple-300 hover:underline"
       >
-        {loading ? "Generating…" : "Generate"}
+        {showOptions ? "Hide advanced options" : "Advanced options"}
       </button>
-    </form>
+      {showOptions && (
+        <fieldset className="grid grid-cols-1 sm:grid-cols-2 gap-4 rounded-md border border-gray-300 dark:border-gray-600 p-4 text-sm">
+          <label className="flex flex-col gap-1">
+            Meal type
+            <select
+              value={options.mealType ?? ""}
+              onChange={(e) => updateOption("mealType", (e.target.value || undefined) as MealType | undefined)}
+              className="px-2 py-1 border rounded-md bg-transparent capitalize"
+            >
+              <option value="">Any</option>
+              {MEAL_TYPES.map((mealType) => (
+                <option key={mealType} value={mealType}>
+                  {mealType}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">
+            Cuisine
+            <input
+              type="text"
+              placeholder="e.g., Tex-Mex"
+              maxLength={40}
+              value={options.cuisine ?? ""}
+              onChange={(e) => updateOption("cuisine", e.target.value || undefined)}
+              className="px-2 py-1 border rounded-md bg-transparent"
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            Servings
+            <input
+              type="number"
+              min={1}
+              max={MAX_SERVINGS}
+              placeholder="Any"
+              value={options.servings ?? ""}
+              onChange={(e) => {
+                const servings = Number.parseInt(e.target.value, 10);
+                updateOption("servings", servings >= 1 ? Math.min(servings, MAX_SERVINGS) : undefined);
+              }}
+              className="px-2 py-1 border rounded-md bg-transparent"
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            Wreck level: {WRECK_LEVELS[(options.wreckLevel ?? DEFAULT_WRECK_LEVEL) - 1].label}
+            <input
+              type="range"
+              min={1}
+              max={WRECK_LEVELS.length}
+              value={options.wreckLevel ?? DEFAULT_WRECK_LEVEL}
+              onChange={(e) => updateOption("wreckLevel", Number(e.target.value))}
+              className="accent-purple-600"
+            />
+          </label>
+        </fieldset>
+      )}
+      {rejection && (
+        <div role="alert" className="rounded-md border border-red-300 bg-red-50 px-4 py-3 text-sm text-red-800 dark:border-red-700 dark:bg-red-950 dark:text-red-200">
+          <p className="font-semibold">
+            {rejection.stage === "prompt" ? "We can't wreck that prompt." : "That recipe came out too wrong, even for us."}
+          </p>
+          <p>{rejection.reason}</p>
+        </div>
+      )}
+      {cooldownSeconds > 0 ? (
+        <p className="text-sm text-red-600 dark:text-red-400" aria-live="polite">
+          {quota?.reason === "daily"
+            ? `You've used all ${quota.limit} generations for today. More in ${formatCooldown(cooldownSeconds)}.`
+            : `Easy, chef. You can generate again in ${formatCooldown(cooldownSeconds)}.`}
+        </p>
+      ) : (
+        quota && (
+          <p className="text-sm text-gray-600 dark:text-gray-300">
+            {quota.remaining} of {quota.limit} generations left today{access && ` on the ${access.plan.label} plan`}
+          </p>
+        )
+      )}
+      {access && <UpgradeHint access={access} />}
+    </div>
   );
 }
@@ -1,9 +1,23 @@
 /**
  * @file src/app/components/RecipeCard.tsx
- * @description Defines a reusable client component for displaying generated recipe details, including title, image, ingredients, instructions, and a shareable link.
+ * @description Defines a reusable client component for displaying generated recipe details, including title, description,
+ * meal type, calories, associated diseases, tags, image, ingredients, instructions, a shareable link, a Remix action, an
+ * "Add to shopping list" toggle, and servings and unit controls.
+ * @requires react For the remix panel, servings and unit system state.
  * @requires next/image For optimized image rendering.
- * @requires uuid For generating unique IDs for shareable links.
+ * @requires next/navigation For opening a remix on its permalink page.
+ * @requires next/link For the sign-in link shown to tiers that can't remix.
  * @requires react-hot-toast For displaying notifications (e.g., link copied).
+ * @requires @/lib/recipe For the suggested remix directions and the servings limit.
+ * @requires @/lib/ingredients For parsing, scaling and converting ingredient lines.
+ * @requires @mui/material/Tooltip For the Wreck Score breakdown.
+ * @requires @/lib/nutrition For the estimated nutrition facts.
+ * @requires @/lib/wreckScore For the recipe's star rating and its breakdown.
+ * @requires ./IngredientLine For rendering parsed ingredients.
+ * @requires ./NutritionLabel For the parody nutrition facts panel.
+ * @requires ./StarRating For the Wreck Score stars.
+ * @requires ./ShoppingListToggle For picking stored recipes for a shopping list.
+ * @requires ./useAccess For whether the visitor's tier can remix.
  * @requires ./PromptInput For the PromptResult type definition.
  * @author Cascade
  * @date 2025-06-12
@@ -11,72 +25,274 @@
 
 "use client";
 
+import { useEffect, useState } from "react"; // React hooks for component state and resetting it per recipe.
 import Image from "next/image"; // Next.js component for optimizing images.
+import { usePathname, useRouter } from "next/navigation"; // Client-side navigation to a remix's permalink.
+import Link from "next/link"; // Client-side navigation.
 import { PromptResult } from "./PromptInput"; // Type definition for the structure of a generated recipe.
-import { v4 as uuidv4 } from "uuid"; // Function to generate version 4 UUIDs.
 import toast from "react-hot-toast"; // Library for showing toast notifications.
+import { MAX_SERVINGS, REMIX_DIRECTIONS } from "@/lib/recipe"; // Remix suggestions and servings limit.
+import { adjustIngredient, parseIngredient, type UnitSystem } from "@/lib/ingredients"; // Structured ingredients.
+import Tooltip from "@mui/material/Tooltip"; // Hover/focus popup for the score breakdown.
+import { estimateNutrition } from "@/lib/nutrition"; // Offline nutrition estimator.
+import { computeWreckScore } from "@/lib/wreckScore"; // Explainable star rating.
+import IngredientLine from "./IngredientLine"; // Renders a parsed ingredient.
+import NutritionLabel from "./NutritionLabel"; // Parody nutrition facts panel.
+import StarRating from "./StarRating"; // Star display.
+import ShoppingListToggle from "./ShoppingListToggle"; // Shopping list selection.
+import useAccess from "./useAccess"; // Visitor's access tier.
 
 /**
  * @typedef {object} Props
  * @description Props for the RecipeCard component.
  * @property {PromptResult} recipe - The generated recipe data to display.
+ * @property {boolean} [loading] - True while the recipe is still streaming in; empty sections render as placeholders.
+ * @property {(remix: PromptResult) => void} [onRemix] - Called with a finished remix. Without it, the card navigates to the
+ * remix's permalink instead.
  */
 interface Props {
   recipe: PromptResult;
+  loading?: boolean;
+  onRemix?: (remix: PromptResult) => void;
+}
+
+/**
+ * @component WreckScoreBadge
+ * @description The recipe's Wreck Score as stars and a caption. Hovering or focusing it shows the per-factor breakdown.
+ * @param {object} props - Component props.
+ * @param {PromptResult} props.recipe - The recipe to score.
+ * @returns {JSX.Element} The badge.
+ */
+function WreckScoreBadge({ recipe }: { recipe: PromptResult }) {
+  const wreck = computeWreckScore(recipe);
+  const breakdown = (
+    <div className="text-xs">
+      <p className="font-semibold mb-1">
+        Wreck Score {wreck.score.toFixed(1)} / 5: {wreck.description}
+      </p>
+      <ul className="space-y-0.5">
+        {wreck.factors.map((factor) => (
+          <li key={factor.id}>
+            +{factor.points.toFixed(2)} {factor.label}: {factor.detail}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+  return (
+    <Tooltip title={breakdown} arrow>
+      <div tabIndex={0} className="flex flex-col items-center mb-2 cursor-help">
+        <StarRating rating={wreck.stars} />
+        <p className="text-sm text-gray-500 dark:text-gray-400">{wreck.label}</p>
+      </div>
+    </Tooltip>
+  );
 }
 
 /**
  * @component RecipeCard
  * @description A client component that displays a generated recipe's details, including its title, an AI-generated image,
- * ingredients, and instructions. It also provides a button to copy a shareable link to the recipe.
+ * a short description, meal type and calorie badges, tags, ingredients, instructions, and the diseases it is likely to cause.
+ * Optional fields are hidden when the generator could not provide them. While `loading` is true the card renders progressively,
+ * showing placeholders for the title, image and lists until their content arrives. Once the recipe has been saved it also
+ * provides a button to copy its permalink. Finished recipes can be remixed in a suggested or custom direction through
+ * `/api/remix` (visitors whose tier can't remix get a sign-in link instead), and a servings stepper and US/metric toggle rescale the ingredient list; lines without an amount, like
+ * "A generous handful of sprinkles", are shown unchanged. Once complete, the recipe's estimated nutrition is shown as a
+ * parody nutrition facts label, and its Wreck Score as stars whose tooltip breaks the score down factor by factor.
  * @componentType Client
  * @param {Props} props - The props for the component.
  * @param {PromptResult} props.recipe - The recipe object containing details to be displayed.
+ * @param {boolean} [props.loading] - Whether the recipe is still being generated.
+ * @param {function(PromptResult): void} [props.onRemix] - Callback invoked with a finished remix.
  * @returns {JSX.Element} The JSX representation of the recipe card.
  * @example
  * const recipeData = {
  *   title: "Spicy Chocolate Chicken",
+ *   description: "Dessert and dinner, fused against their will.",
+ *   mealType: "dinner",
+ *   calories: 2400,
+ *   servings: 4,
+ *   associatedDiseases: ["Heartburn"],
+ *   tags: ["chocolate", "fried"],
  *   ingredients: ["Chicken", "Chocolate", "Chili Powder"],
- *   instructions: ["Melt chocolate.", "Coat chicken.", "Sprinkle with chili."],
- *   imageBase64: "some-base64-string"
+ *   steps: ["Melt chocolate.", "Coat chicken.", "Sprinkle with chili."],
+ *   imageUrl: "/api/images/3fa9c1.png"
  * };
  * <RecipeCard recipe={recipeData} />
  */
-export default function RecipeCard({ recipe }: Props) {
+export default function RecipeCard({ recipe, loading = false, onRemix }: Props) {
+    const router = useRouter();
+    const pathname = usePathname();
+    const access = useAccess(); // Null until loaded; remixing stays available meanwhile and the API has the final say.
+    const [remixOpen, setRemixOpen] = useState(false); // Whether the remix direction picker is shown.
+    const [customDirection, setCustomDirection] = useState(""); // A direction typed by the user.
+    const [remixing, setRemixing] = useState<string | null>(null); // The direction currently being remixed, if any.
+    const [servingsOverride, setServingsOverride] = useState<number | null>(null); // Servings chosen with the stepper, if changed.
+    const [unitSystem, setUnitSystem] = useState<UnitSystem | null>(null); // Units to show ingredients in; null keeps them as written.
+
+    // A different recipe (e.g. after a remix) starts again at its own servings.
+    useEffect(() => {
+      setServingsOverride(null);
+    }, [recipe.id, recipe.title]);
+
+    // Recipes without a servings count are scaled in whole batches instead.
+    const baseServings = recipe.servings ?? 1;
+    const servings = servingsOverride ?? baseServings;
+    const scale = { factor: servings / baseServings, system: unitSystem };
+
     /**
    * @function handleCopy
    * @description Handles the click event for the copy link button.
-   * It generates a unique link using the current window origin and a UUID, copies it to the clipboard,
+   * It builds the recipe's `/r/<slug>` permalink from the current window origin, copies it to the clipboard,
    * and displays a success toast notification.
    */
-  const handleCopy = () => {
-    const link = `${window.location.origin}/#${uuidv4()}`;
-    navigator.clipboard.writeText(link);
-    toast.success("Link copied to clipboard!");
+  const handleCopy = async () => {
+    const link = `${window.location.origin}/r/${recipe.slug}`;
+    try {
+      await navigator.clipboard.writeText(link);
+      toast.success("Link copied to clipboard!");
+    } catch {
+      toast.error("Couldn't copy the link. Here it is: " + link);
+    }
+  };
+
+    /**
+   * @async
+   * @function handleRemix
+   * @description Sends the recipe to `/api/remix` in the given direction. Saved recipes are referenced by id so the remix is
+   * linked into their family tree; the recipe text is sent too, so unsaved recipes can still be remixed.
+   * On success the remix is handed to `onRemix`, or opened on its permalink page. Moderation rejections and rate limits
+   * are shown as toasts with the server's explanation.
+   * @param {string} direction - The remix direction, e.g. "make it worse".
+   */
+  const handleRemix = async (direction: string) => {
+    if (!direction.trim() || remixing) return;
+    setRemixing(direction);
+    try {
+      const res = await fetch("/api/remix", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          parentId: recipe.id ?? null,
+          recipe: { title: recipe.title, ingredients: recipe.ingredients, steps: recipe.steps },
+          direction: direction.trim(),
+        }),
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) {
+        toast.error(data?.rejection?.reason ?? data?.error ?? "Remix failed, please try again.");
+        return;
+      }
+      const remix: PromptResult = data;
+      setRemixOpen(false);
+      setCustomDirection("");
+      if (onRemix) {
+        onRemix(remix);
+      } else if (remix.slug) {
+        router.push(`/r/${remix.slug}`);
+      } else {
+        toast.error("The remix was generated but couldn't be saved.");
+      }
+    } catch (err) {
+      console.error(err);
+      toast.error("Remix failed, please try again.");
+    } finally {
+      setRemixing(null);
+    }
   };
 
   return (
     <article className="w-full max-w-xl border rounded-lg shadow-md p-4 bg-white dark:bg-gray-900">
-      <h2 className="text-2xl font-bold mb-2 text-center">{recipe.title}</h2>
-      {recipe.imageBase64 && (
+      {recipe.remixDirection && (
+        <p className="mb-1 text-center text-xs uppercase tracking-wide text-purple-600">Remix: {recipe.remixDirection}</p>
+      )}
+      {recipe.title ? (
+        <h2 className="text-2xl font-bold mb-2 text-center">{recipe.title}</h2>
+      ) : (
+        <div className="h-8 w-2/3 mx-auto mb-2 rounded bg-gray-200 dark:bg-gray-700 animate-pulse" />
+      )}
+      {(recipe.mealType || recipe.calories !== null || recipe.servings !== null) && (
+        <div className="flex justify-center gap-2 mb-2 text-sm">
+          {recipe.mealType && (
+            <span className="px-2 py-0.5 rounded-full bg-purple-100 text-purple-800 capitalize">{recipe.mealType}</span>
+          )}
+          {recipe.calories !== null && (
+            <span className="px-2 py-0.5 rounded-full bg-red-100 text-red-800">{recipe.calories.toLocaleString()} kcal / serving</span>
+          )}
+          {recipe.servings !== null && (
+            <span className="px-2 py-0.5 rounded-full bg-gray-200 text-gray-800">Serves {recipe.servings}</span>
+          )}
+        </div>
+      )}
+      {!loading && recipe.ingredients.length > 0 && <WreckScoreBadge recipe={recipe} />}
+      {recipe.description && (
+        <p className="mb-4 text-center italic text-gray-600 dark:text-gray-300">{recipe.description}</p>
+      )}
+      {loading && !recipe.imageUrl && (
+        <div className="w-full h-72 mb-4 rounded-md bg-gray-200 dark:bg-gray-700 animate-pulse flex items-center justify-center text-gray-500">
+          Plating your disaster…
+        </div>
+      )}
+      {recipe.imageUrl && (
         <div className="relative w-full h-72 mb-4 overflow-hidden rounded-md"> {/* Added fixed height (h-72), overflow-hidden, and rounded-md */}
           <Image
-            src={`data:image/png;base64,${recipe.imageBase64}`}
+            src={recipe.imageUrl}
             alt={recipe.title}
             width={1024} // Actual intrinsic width of the source image
             height={1024} // Actual intrinsic height of the source image
             className="w-full h-full" // Image fills the container
             style={{ objectFit: "cover" }} // Cover the area, cropping if necessary
-            priority
           />
         </div>
       )}
       <section className="mb-4">
-        <h3 className="font-semibold mb-1">Ingredients</h3>
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-1">
+          <h3 className="font-semibold">Ingredients</h3>
+          {!loading && recipe.ingredients.length > 0 && (
+            <div className="flex items-center gap-3 text-sm">
+              <div className="flex items-center gap-1" role="group" aria-label="Servings">
+                <button
+                  onClick={() => setServingsOverride(Math.max(1, servings - 1))}
+                  disabled={servings <= 1}
+                  aria-label="Fewer servings"
+                  className="w-7 h-7 rounded-full border disabled:opacity-40"
+                >
+                  −
+                </button>
+                <span className="min-w-20 text-center" aria-live="polite">
+                  {recipe.servings !== null ? `${servings} serving${servings === 1 ? "" : "s"}` : `${servings}× batch`}
+                </span>
+                <button
+                  onClick={() => setServingsOverride(Math.min(MAX_SERVINGS, servings + 1))}
+                  disabled={servings >= MAX_SERVINGS}
+                  aria-label="More servings"
+                  className="w-7 h-7 rounded-full border disabled:opacity-40"
+                >
+                  +
+                </button>
+              </div>
+              <div className="flex rounded-md border overflow-hidden" role="group" aria-label="Units">
+                {([null, "imperial", "metric"] as const).map((system) => (
+                  <button
+                    key={system ?? "original"}
+                    onClick={() => setUnitSystem(system)}
+                    aria-pressed={unitSystem === system}
+                    className={`px-2 py-0.5 ${unitSystem === system ? "bg-purple-600 text-white" : ""}`}
+                  >
+                    {system === null ? "As written" : system === "imperial" ? "US" : "Metric"}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
         <ul className="list-disc list-inside space-y-1">
           {recipe.ingredients.map((ing, idx) => (
-            <li key={idx}>{ing}</li>
+            <li key={idx}>
+              <IngredientLine ingredient={adjustIngredient(parseIngredient(ing), scale)} />
+            </li>
           ))}
+          {loading && recipe.steps.length === 0 && <li className="text-gray-400 animate-pulse">…</li>}
         </ul>
       </section>
       <section className="mb-4">
@@ -85,14 +301,102 @@ export default function RecipeCard({ recipe }: Props) {
           {recipe.steps.map((step, idx) => (
             <li key={idx}>{step}</li>
           ))}
+          {loading && !recipe.imageUrl && recipe.ingredients.length > 0 && (
+            <li className="text-gray-400 animate-pulse list-none">…</li>
+          )}
         </ol>
       </section>
-      {/* <button
-        onClick={handleCopy}
-        className="w-full py-2 bg-purple-600 text-white rounded-md"
-      >
-        Copy link
-      </button> */}
+      {!loading && recipe.ingredients.length > 0 && (
+        <div className="mb-4">
+          <NutritionLabel estimate={estimateNutrition(recipe.ingredients, recipe.servings)} />
+        </div>
+      )}
+      {recipe.associatedDiseases.length > 0 && (
+        <section className="mb-4">
+          <h3 className="font-semibold mb-1">Possible Side Effects</h3>
+          <ul className="list-disc list-inside space-y-1 text-red-700 dark:text-red-400">
+            {recipe.associatedDiseases.map((disease, idx) => (
+              <li key={idx}>{disease}</li>
+            ))}
+          </ul>
+        </section>
+      )}
+      {recipe.tags.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-4">
+          {recipe.tags.map((tag) => (
+            <span key={tag} className="px-2 py-0.5 rounded bg-gray-200 dark:bg-gray-700 text-xs">#{tag}</span>
+          ))}
+        </div>
+      )}
+      {recipe.slug && (
+        <button
+          onClick={handleCopy}
+          className="w-full py-2 bg-purple-600 text-white rounded-md"
+        >
+          Copy link
+        </button>
+      )}
+      {!loading && recipe.id && (
+        <ShoppingListToggle recipe={{ id: recipe.id, title: recipe.title, slug: recipe.slug ?? null }} />
+      )}
+      {!loading && recipe.title && access && !access.plan.features.remix && (
+        <Link
+          href={`/login?next=${encodeURIComponent(pathname)}`}
+          className="mt-2 block w-full py-2 border border-dashed border-purple-400 text-center text-purple-600 rounded-md"
+        >
+          Sign in to remix
+        </Link>
+      )}
+      {!loading && recipe.title && access?.plan.features.remix !== false && (
+        <div className="mt-2">
+          <button
+            onClick={() => setRemixOpen((open) => !open)}
+            aria-expanded={remixOpen}
+            className="w-full py-2 border border-purple-600 text-purple-600 rounded-md"
+          >
+            {remixing ? `Remixing: ${remixing}…` : "Remix"}
+          </button>
+          {remixOpen && (
+            <div className="mt-2 flex flex-col gap-2">
+              <div className="flex flex-wrap gap-2">
+                {REMIX_DIRECTIONS.map((direction) => (
+                  <button
+                    key={direction}
+                    onClick={() => handleRemix(direction)}
+                    disabled={remixing !== null}
+                    className="px-3 py-1 rounded-full bg-purple-100 text-purple-800 text-sm disabled:opacity-50"
+                  >
+                    {direction}
+                  </button>
+                ))}
+              </div>
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  handleRemix(customDirection);
+                }}
+                className="flex gap-2"
+              >
+                <input
+                  type="text"
+                  placeholder="Or your own, e.g. airline food edition"
+                  value={customDirection}
+                  maxLength={100}
+                  onChange={(e) => setCustomDirection(e.target.value)}
+                  className="flex-1 px-3 py-1 border rounded-md text-sm"
+                />
+                <button
+                  type="submit"
+                  disabled={remixing !== null || !customDirection.trim()}
+                  className="px-3 py-1 bg-purple-600 text-white rounded-md text-sm disabled:opacity-50"
+                >
+                  Remix
+                </button>
+              </form>
+            </div>
+          )}
+        </div>
+      )}
     </article>
   );
 }
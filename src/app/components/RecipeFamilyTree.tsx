@@ -0,0 +1,73 @@
+/**
+ * @file src/app/components/RecipeFamilyTree.tsx
+ * @description Renders a recipe's remix family tree: the original at the top and every remix nested under the recipe it
+ * was remixed from, each linking to its permalink.
+ * @requires next/link For client-side navigation between family members.
+ * @requires @/lib/recipes For the RecipeFamilyNode type.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import Link from "next/link"; // For client-side navigation.
+import type { RecipeFamilyNode } from "@/lib/recipes"; // Family tree shape.
+
+/**
+ * @typedef {object} Props
+ * @description Props for the RecipeFamilyTree component.
+ * @property {RecipeFamilyNode} root - The original recipe of the family.
+ * @property {string} currentId - The recipe being viewed, which is highlighted instead of linked.
+ */
+interface Props {
+  root: RecipeFamilyNode;
+  currentId: string;
+}
+
+/**
+ * @component FamilyBranch
+ * @description One recipe and, nested beneath it, its remixes.
+ * @param {object} props - Component props.
+ * @param {RecipeFamilyNode} props.node - The recipe.
+ * @param {string} props.currentId - The recipe being viewed.
+ * @returns {JSX.Element} The list item.
+ */
+function FamilyBranch({ node, currentId }: { node: RecipeFamilyNode; currentId: string }) {
+  return (
+    <li>
+      {node.remixDirection && <span className="text-xs text-gray-500 mr-1">{node.remixDirection} →</span>}
+      {node.id === currentId || !node.slug ? (
+        <span className={node.id === currentId ? "font-semibold text-purple-700 dark:text-purple-300" : undefined}>
+          {node.title}
+        </span>
+      ) : (
+        <Link href={`/r/${node.slug}`} className="text-purple-600 hover:underline">
+          {node.title}
+        </Link>
+      )}
+      {node.children.length > 0 && (
+        <ul className="ml-4 mt-1 pl-3 border-l border-gray-300 dark:border-gray-600 space-y-1">
+          {node.children.map((child) => (
+            <FamilyBranch key={child.id} node={child} currentId={currentId} />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+/**
+ * @component RecipeFamilyTree
+ * @description Shows where a recipe sits among its remixes. Only rendered when the family has more than one recipe.
+ * @componentType Server
+ * @param {Props} props - The props for the component.
+ * @returns {JSX.Element} The family tree.
+ */
+export default function RecipeFamilyTree({ root, currentId }: Props) {
+  return (
+    <section className="w-full max-w-xl border rounded-lg p-4 bg-white dark:bg-gray-900">
+      <h2 className="font-semibold mb-2">Remix family</h2>
+      <ul className="space-y-1 text-sm">
+        <FamilyBranch node={root} currentId={currentId} />
+      </ul>
+    </section>
+  );
+}
@@ -0,0 +1,80 @@
+/**
+ * @file src/app/components/ReferralPanel.tsx
+ * @description The waitlist's "you're #123" panel: the subscriber's queue position, their referral link with a copy
+ * button, and how many friends have joined through it.
+ * @requires react For the copied state.
+ * @requires @/lib/referrals For the summary type.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+"use client";
+
+import { useState } from "react"; // React hook for the copied state.
+import type { ReferralSummary } from "@/lib/referrals"; // Referral summary type.
+
+/**
+ * @typedef {object} Props
+ * @description Props for the ReferralPanel component.
+ * @property {ReferralSummary} referral - The subscriber's place and link.
+ */
+interface Props {
+  referral: ReferralSummary;
+}
+
+/**
+ * @component ReferralPanel
+ * @description Shows the queue position and referral link.
+ * @componentType Client
+ * @param {Props} props - The props for the component.
+ * @returns {JSX.Element} The panel.
+ */
+export default function ReferralPanel({ referral }: Props) {
+  const [copied, setCopied] = useState(false);
+
+  /**
+   * @async
+   * @function handleCopy
+   * @description Copies the referral link, falling back to selecting it where the clipboard API is unavailable.
+   */
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(referral.link);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      (document.getElementById("referral-link") as HTMLInputElement | null)?.select();
+    }
+  };
+
+  return (
+    <div className="max-w-md mx-auto mt-8 p-6 rounded-lg bg-gray-900 border border-purple-500 text-left">
+      <p className="text-2xl font-bold text-yellow-400">
+        You&apos;re #{referral.position.toLocaleString()} &mdash; invite 3 friends to jump ahead
+      </p>
+      <p className="text-gray-400 mt-2 mb-4">
+        Every friend who joins with your link and confirms their email moves you up the queue.
+        {referral.referrals > 0 &&
+          ` ${referral.referrals} ${referral.referrals === 1 ? "friend has" : "friends have"} joined so far.`}
+      </p>
+      <div className="flex gap-2">
+        <input
+          id="referral-link"
+          type="text"
+          readOnly
+          value={referral.link}
+          onFocus={(e) => e.target.select()}
+          aria-label="Your referral link"
+          className="flex-grow px-3 py-2 rounded-lg bg-gray-700 text-white border border-gray-600 text-sm"
+        />
+        <button
+          type="button"
+          onClick={handleCopy}
+          className="px-4 py-2 bg-purple-600 hover:bg-purple-700 rounded-lg font-semibold transition-colors"
+        >
+          {copied ? "Copied!" : "Copy"}
+        </button>
+      </div>
+    </div>
+  );
+}
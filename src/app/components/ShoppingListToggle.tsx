@@ -0,0 +1,104 @@
+/**
+ * @file src/app/components/ShoppingListToggle.tsx
+ * @description A button that adds a stored recipe to, or removes it from, the visitor's shopping list selection. The
+ * selection lives in localStorage until it is turned into a list on `/shopping-list`.
+ * @requires react For the selection state.
+ * @requires next/link For the link to the shopping list builder.
+ * @requires @/lib/shoppingList For the ShoppingListRecipe type.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+"use client";
+
+import { useEffect, useState } from "react"; // React hooks for the selection state.
+import Link from "next/link"; // Client-side navigation to the list builder.
+import type { ShoppingListRecipe } from "@/lib/shoppingList"; // Selected recipe shape.
+
+/**
+ * @constant SELECTION_STORAGE_KEY
+ * @description localStorage key for the recipes picked for the next shopping list.
+ */
+const SELECTION_STORAGE_KEY = "recipewreck:shopping-list-selection";
+
+/**
+ * @constant SELECTION_EVENT
+ * @description Window event fired when the selection changes, so every toggle on the page stays in sync.
+ */
+const SELECTION_EVENT = "recipewreck:shopping-list-selection";
+
+/**
+ * @function loadShoppingSelection
+ * @description Reads the selected recipes from localStorage, ignoring anything malformed.
+ * @returns {ShoppingListRecipe[]} The selection, oldest first.
+ */
+export function loadShoppingSelection(): ShoppingListRecipe[] {
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(SELECTION_STORAGE_KEY) ?? "[]");
+    return Array.isArray(stored)
+      ? stored.filter((recipe) => typeof recipe?.id === "string" && typeof recipe?.title === "string")
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * @function saveShoppingSelection
+ * @description Stores the selected recipes and notifies other toggles.
+ * @param {ShoppingListRecipe[]} selection - The new selection.
+ */
+export function saveShoppingSelection(selection: ShoppingListRecipe[]) {
+  window.localStorage.setItem(SELECTION_STORAGE_KEY, JSON.stringify(selection));
+  window.dispatchEvent(new Event(SELECTION_EVENT));
+}
+
+/**
+ * @component ShoppingListToggle
+ * @description Adds the recipe to the shopping list selection, or removes it, and links to the builder once anything is
+ * selected.
+ * @param {object} props - Component props.
+ * @param {ShoppingListRecipe} props.recipe - The stored recipe.
+ * @returns {JSX.Element} The toggle.
+ */
+export default function ShoppingListToggle({ recipe }: { recipe: ShoppingListRecipe }) {
+  const [selection, setSelection] = useState<ShoppingListRecipe[]>([]);
+
+  useEffect(() => {
+    const sync = () => setSelection(loadShoppingSelection());
+    sync();
+    window.addEventListener(SELECTION_EVENT, sync);
+    window.addEventListener("storage", sync);
+    return () => {
+      window.removeEventListener(SELECTION_EVENT, sync);
+      window.removeEventListener("storage", sync);
+    };
+  }, []);
+
+  const selected = selection.some((item) => item.id === recipe.id);
+
+  /**
+   * @function handleToggle
+   * @description Adds or removes this recipe from the stored selection.
+   */
+  const handleToggle = () => {
+    saveShoppingSelection(selected ? selection.filter((item) => item.id !== recipe.id) : [...selection, recipe]);
+  };
+
+  return (
+    <div className="mt-2 flex items-center gap-2">
+      <button
+        onClick={handleToggle}
+        aria-pressed={selected}
+        className="flex-1 py-2 border border-purple-600 text-purple-600 rounded-md"
+      >
+        {selected ? "Remove from shopping list" : "Add to shopping list"}
+      </button>
+      {selection.length > 0 && (
+        <Link href="/shopping-list" className="text-sm text-purple-600 underline whitespace-nowrap">
+          View list ({selection.length})
+        </Link>
+      )}
+    </div>
+  );
+}
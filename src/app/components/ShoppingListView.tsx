@@ -0,0 +1,140 @@
+/**
+ * @file src/app/components/ShoppingListView.tsx
+ * @description Interactive shopping list: items grouped by aisle with checkboxes, the recipes it was built from, a copyable
+ * link and plain-text/CSV downloads. Checking an item off is saved straight away, so everyone with the link sees it.
+ * @requires react For the item state.
+ * @requires next/link For links to the source recipes.
+ * @requires react-hot-toast For displaying notifications.
+ * @requires @/lib/shoppingList For the list types, aisle order and amount formatting.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+"use client";
+
+import { useState } from "react"; // React hook for the item state.
+import Link from "next/link"; // Client-side navigation.
+import toast from "react-hot-toast"; // Library for showing toast notifications.
+import { AISLES, formatItemAmount, type ShoppingList } from "@/lib/shoppingList"; // Shopping list helpers.
+
+/**
+ * @component ShoppingListView
+ * @description Renders a stored shopping list. Ticks are applied optimistically and rolled back if saving fails.
+ * @param {object} props - Component props.
+ * @param {ShoppingList} props.list - The list, as loaded on the server.
+ * @returns {JSX.Element} The list card.
+ */
+export default function ShoppingListView({ list }: { list: ShoppingList }) {
+  const [items, setItems] = useState(list.items);
+  const checkedCount = items.filter((item) => item.checked).length;
+
+  /**
+   * @async
+   * @function handleCheck
+   * @description Checks an item off, or un-checks it, and saves the change.
+   * @param {string} itemId - The item id.
+   * @param {boolean} checked - The new state.
+   */
+  const handleCheck = async (itemId: string, checked: boolean) => {
+    const setChecked = (value: boolean) =>
+      setItems((current) => current.map((item) => (item.id === itemId ? { ...item, checked: value } : item)));
+    setChecked(checked);
+    try {
+      const res = await fetch(`/api/shopping-lists/${list.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ itemId, checked }),
+      });
+      if (!res.ok) throw new Error(`Status ${res.status}`);
+    } catch (err) {
+      console.error("Failed to update shopping list item", err);
+      setChecked(!checked);
+      toast.error("Could not save that, please try again.");
+    }
+  };
+
+  /**
+   * @async
+   * @function handleCopy
+   * @description Copies the list's link to the clipboard.
+   */
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}/shopping-list/${list.id}`);
+      toast.success("Link copied!");
+    } catch (err) {
+      console.error("Failed to copy link", err);
+      toast.error("Could not copy the link.");
+    }
+  };
+
+  return (
+    <article className="bg-white dark:bg-gray-800 shadow-lg rounded-lg p-6 w-full max-w-xl">
+      <h2 className="text-2xl font-bold mb-1 text-center">{list.title}</h2>
+      <p className="mb-4 text-center text-sm text-gray-500 dark:text-gray-400">
+        {checkedCount} of {items.length} items checked off
+      </p>
+      <p className="mb-4 text-sm">
+        For:{" "}
+        {list.recipes.map((recipe, i) => (
+          <span key={recipe.id}>
+            {i > 0 && ", "}
+            {recipe.slug ? (
+              <Link href={`/r/${recipe.slug}`} className="text-purple-600 underline">
+                {recipe.title}
+              </Link>
+            ) : (
+              recipe.title
+            )}
+          </span>
+        ))}
+      </p>
+      {AISLES.map((aisle) => {
+        const aisleItems = items.filter((item) => item.aisle === aisle);
+        if (!aisleItems.length) return null;
+        return (
+          <section key={aisle} className="mb-4">
+            <h3 className="text-sm font-semibold uppercase tracking-wide text-purple-600 mb-1">{aisle}</h3>
+            <ul>
+              {aisleItems.map((item) => (
+                <li key={item.id}>
+                  <label className="flex items-start gap-2 py-1 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={item.checked}
+                      onChange={(e) => handleCheck(item.id, e.target.checked)}
+                      className="mt-1"
+                    />
+                    <span className={item.checked ? "line-through opacity-50" : undefined}>
+                      <span className="font-semibold">{item.name}</span>: {formatItemAmount(item)}
+                      {list.recipes.length > 1 && (
+                        <span className="block text-xs opacity-70">{item.recipes.join(", ")}</span>
+                      )}
+                    </span>
+                  </label>
+                </li>
+              ))}
+            </ul>
+          </section>
+        );
+      })}
+      <div className="flex flex-col sm:flex-row gap-2 mt-2">
+        <button onClick={handleCopy} className="flex-1 py-2 bg-purple-600 text-white rounded-md">
+          Copy link
+        </button>
+        <a
+          href={`/api/shopping-lists/${list.id}/export?format=txt`}
+          className="flex-1 py-2 border border-purple-600 text-purple-600 rounded-md text-center"
+        >
+          Download .txt
+        </a>
+        <a
+          href={`/api/shopping-lists/${list.id}/export?format=csv`}
+          className="flex-1 py-2 border border-purple-600 text-purple-600 rounded-md text-center"
+        >
+          Download .csv
+        </a>
+      </div>
+    </article>
+  );
+}
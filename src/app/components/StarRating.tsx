@@ -0,0 +1,24 @@
+/**
+ * @file src/app/components/StarRating.tsx
+ * @description Star display for recipe ratings, shared by the landing page showcase and generated recipe cards.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+/**
+ * A simple component to display a star rating based on a numeric value.
+ * @component
+ * @param {object} props - The props for the component.
+ * @param {number} props.rating - The rating value (0-5). Fractional ratings are rounded to whole stars.
+ * @param {string} [props.className] - Optional classes, e.g. to change the size.
+ * @returns {JSX.Element} A div containing star characters.
+ */
+export default function StarRating({ rating, className = "text-lg" }: { rating: number; className?: string }) {
+  const stars = Math.min(5, Math.max(0, Math.round(rating)));
+  return (
+    <div className={`text-yellow-400 ${className}`} aria-label={`${stars} out of 5 stars`}>
+      {"★".repeat(stars)}
+      {"☆".repeat(5 - stars)}
+    </div>
+  );
+}
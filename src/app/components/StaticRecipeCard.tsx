@@ -2,6 +2,8 @@
  * @file src/app/components/StaticRecipeCard.tsx
  * @description Defines a reusable client component for displaying static recipe details, intended for use in landing pages or marketing materials.
  * @requires next/image For optimized image rendering.
+ * @requires @/lib/ingredients For parsing the ingredient lines.
+ * @requires ./IngredientLine For rendering parsed ingredients.
  * @author Cascade
  * @date 2025-06-12
  */
@@ -9,6 +11,8 @@
 "use client";
 
 import Image from "next/image";
+import { parseIngredient, splitIngredientLines } from "@/lib/ingredients";
+import IngredientLine from "./IngredientLine";
 
 /**
  * @typedef {object} StaticRecipeCardProps
@@ -16,7 +20,7 @@ import Image from "next/image";
  * @property {string} title - The title of the recipe.
  * @property {string} imageSrc - The source URL or path for the recipe image.
  * @property {string} imageAlt - The alt text for the recipe image.
- * @property {string} ingredientsText - A block of text detailing the ingredients (e.g., separated by newlines or as a single paragraph).
+ * @property {string} ingredientsText - A block of text detailing the ingredients, one per line. Each line is parsed so amounts can be highlighted.
  * @property {string} instructionsText - A block of text detailing the instructions (e.g., separated by newlines or as a single paragraph).
  * @property {string} [className] - Optional additional CSS classes for custom styling.
  */
@@ -85,9 +89,13 @@ export default function StaticRecipeCard({
 
         <div className="mb-6">
           <h3 className="text-xl font-semibold mb-2 text-orange-400">Ingredients:</h3>
-          <div className="text-gray-300 space-y-1 whitespace-pre-line">
-            {renderTextWithLineBreaks(ingredientsText)}
-          </div>
+          <ul className="text-gray-300 space-y-1">
+            {splitIngredientLines(ingredientsText).map((line, index) => (
+              <li key={index}>
+                <IngredientLine ingredient={parseIngredient(line)} />
+              </li>
+            ))}
+          </ul>
         </div>
 
         <div>
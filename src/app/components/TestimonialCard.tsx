@@ -1,32 +1,61 @@
 "use client";
 
 import React from 'react';
+import Link from 'next/link'; // For linking to the reviewed recipe.
 
 /**
  * @typedef {object} TestimonialCardProps
  * @property {string} quote - The testimonial quote.
  * @property {string} author - The author's handle or name.
+ * @property {string | null} [handle] - The author's social handle, shown under the name when it differs from it.
+ * @property {string | null} [avatarUrl] - The author's avatar, already checked against the allowed hosts.
+ * @property {{ title: string, slug: string | null }} [recipe] - The recipe the testimonial is about.
  * @property {string} [className] - Optional additional CSS classes for styling.
  */
 export interface TestimonialCardProps {
   quote: string;
   author: string;
+  handle?: string | null;
+  avatarUrl?: string | null;
+  recipe?: { title: string; slug: string | null };
   className?: string;
 }
 
 /**
  * TestimonialCard component
  *
- * Displays a single user testimonial with a quote and author.
+ * Displays a single user testimonial with a quote and author, plus the author's avatar and the recipe it's about
+ * when known.
  *
  * @param {TestimonialCardProps} props - The props for the component.
  * @returns {JSX.Element} The rendered testimonial card.
  */
-const TestimonialCard: React.FC<TestimonialCardProps> = ({ quote, author, className }) => {
+const TestimonialCard: React.FC<TestimonialCardProps> = ({ quote, author, handle, avatarUrl, recipe, className }) => {
   return (
     <div className={`bg-gray-800 p-6 rounded-lg shadow-lg ${className || ''}`}>
-      <p className="text-lg italic text-gray-300 mb-4">"{quote}"</p>
-      <p className="text-right font-semibold text-purple-400">- {author}</p>
+      <p className="text-lg italic text-gray-300 mb-4">&ldquo;{quote}&rdquo;</p>
+      <div className="flex items-center justify-end gap-3">
+        {avatarUrl && (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img src={avatarUrl} alt="" className="w-10 h-10 rounded-full object-cover" referrerPolicy="no-referrer" />
+        )}
+        <div className="text-right">
+          <p className="font-semibold text-purple-400">- {author}</p>
+          {handle && handle !== author && <p className="text-sm text-gray-500">{handle}</p>}
+        </div>
+      </div>
+      {recipe && (
+        <p className="text-right text-sm text-gray-500 mt-2">
+          on{' '}
+          {recipe.slug ? (
+            <Link href={`/r/${recipe.slug}`} className="underline hover:text-purple-300">
+              {recipe.title}
+            </Link>
+          ) : (
+            recipe.title
+          )}
+        </p>
+      )}
     </div>
   );
 };
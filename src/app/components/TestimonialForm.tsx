@@ -0,0 +1,121 @@
+/**
+ * @file src/app/components/TestimonialForm.tsx
+ * @description Form for signed-in users to leave a testimonial about a recipe. Submissions go to the moderation queue.
+ * @requires react For the form state.
+ * @requires react-hot-toast For displaying errors.
+ * @requires @/lib/testimonial For the length limits.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+"use client";
+
+import { useState, type FormEvent } from "react"; // React hooks and event types.
+import toast from "react-hot-toast"; // Toast notifications.
+import { TESTIMONIAL_AUTHOR_MAX_LENGTH, TESTIMONIAL_QUOTE_MAX_LENGTH } from "@/lib/testimonial"; // Testimonial limits.
+
+/**
+ * @typedef {object} Props
+ * @description Props for the TestimonialForm component.
+ * @property {string} recipeId - The recipe being reviewed.
+ * @property {string} defaultAuthor - The display name to start with, usually the account name.
+ */
+interface Props {
+  recipeId: string;
+  defaultAuthor: string;
+}
+
+/**
+ * @component TestimonialForm
+ * @description Posts to `/api/testimonials`. Handle and avatar are optional; the server validates both.
+ * @componentType Client
+ * @param {Props} props - The props for the component.
+ * @returns {JSX.Element} The form, or a thank-you note once submitted.
+ */
+export default function TestimonialForm({ recipeId, defaultAuthor }: Props) {
+  const [quote, setQuote] = useState("");
+  const [author, setAuthor] = useState(defaultAuthor);
+  const [handle, setHandle] = useState("");
+  const [avatarUrl, setAvatarUrl] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [submitted, setSubmitted] = useState(false);
+
+  /**
+   * @async
+   * @function handleSubmit
+   * @description Submits the testimonial.
+   * @param {FormEvent} event - The submit event.
+   */
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    setSubmitting(true);
+    try {
+      const res = await fetch("/api/testimonials", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ recipeId, quote, author, handle, avatarUrl }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Something went wrong");
+      setSubmitted(true);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Something went wrong");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (submitted) {
+    return (
+      <p className="w-full max-w-2xl text-center">
+        Thanks for surviving! Your testimonial will appear once a moderator has recovered from reading it.
+      </p>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white dark:bg-gray-800 shadow-lg rounded-lg p-6 w-full max-w-2xl flex flex-col gap-3">
+      <h2 className="text-xl font-semibold">Made it? Lived? Tell everyone.</h2>
+      <textarea
+        value={quote}
+        onChange={(e) => setQuote(e.target.value)}
+        placeholder="My smoke alarm now sings opera..."
+        maxLength={TESTIMONIAL_QUOTE_MAX_LENGTH}
+        required
+        rows={3}
+        className="px-3 py-2 border rounded-md"
+      />
+      <p className="text-xs text-gray-500 text-right">
+        {quote.length}/{TESTIMONIAL_QUOTE_MAX_LENGTH}
+      </p>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <input
+          type="text"
+          value={author}
+          onChange={(e) => setAuthor(e.target.value)}
+          placeholder="Name (optional)"
+          maxLength={TESTIMONIAL_AUTHOR_MAX_LENGTH}
+          className="px-3 py-2 border rounded-md"
+        />
+        <input
+          type="text"
+          value={handle}
+          onChange={(e) => setHandle(e.target.value)}
+          placeholder="@handle (optional)"
+          maxLength={31}
+          className="px-3 py-2 border rounded-md"
+        />
+      </div>
+      <input
+        type="url"
+        value={avatarUrl}
+        onChange={(e) => setAvatarUrl(e.target.value)}
+        placeholder="Avatar URL from Gravatar, GitHub, X or Imgur (optional)"
+        className="px-3 py-2 border rounded-md"
+      />
+      <button type="submit" disabled={submitting} className="py-2 bg-purple-600 text-white rounded-md disabled:opacity-50">
+        {submitting ? "Please wait..." : "Submit testimonial"}
+      </button>
+    </form>
+  );
+}
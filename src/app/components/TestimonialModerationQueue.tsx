@@ -0,0 +1,165 @@
+/**
+ * @file src/app/components/TestimonialModerationQueue.tsx
+ * @description The admin moderation queue for testimonials: approve or reject pending submissions, and feature approved
+ * ones in a chosen order.
+ * @requires react For the queue state.
+ * @requires react-hot-toast For displaying errors.
+ * @requires @/lib/testimonial For the testimonial type.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+"use client";
+
+import { useState } from "react"; // React hook for the queue state.
+import toast from "react-hot-toast"; // Toast notifications.
+import type { Testimonial, TestimonialStatus } from "@/lib/testimonial"; // Testimonial types.
+
+/**
+ * @typedef {object} Props
+ * @description Props for the TestimonialModerationQueue component.
+ * @property {Testimonial[]} initial - Testimonials loaded by the page: pending, approved and recently rejected.
+ */
+interface Props {
+  initial: Testimonial[];
+}
+
+/**
+ * @constant SECTIONS
+ * @description The queue's sections, in display order.
+ */
+const SECTIONS: { status: TestimonialStatus; title: string }[] = [
+  { status: "pending", title: "Waiting for review" },
+  { status: "approved", title: "Approved" },
+  { status: "rejected", title: "Rejected" },
+];
+
+/**
+ * Orders approved testimonials the way the landing page shows them: featured by rank, then newest first.
+ * @param {Testimonial} a - One testimonial.
+ * @param {Testimonial} b - Another.
+ * @returns {number} The comparison.
+ */
+const byDisplayOrder = (a: Testimonial, b: Testimonial): number =>
+  (a.featuredRank ?? Infinity) - (b.featuredRank ?? Infinity) || b.createdAt.localeCompare(a.createdAt);
+
+/**
+ * @component TestimonialModerationQueue
+ * @description Renders each section and sends moderation changes to `PATCH /api/testimonials/[id]`.
+ * @componentType Client
+ * @param {Props} props - The props for the component.
+ * @returns {JSX.Element} The queue.
+ */
+export default function TestimonialModerationQueue({ initial }: Props) {
+  const [testimonials, setTestimonials] = useState(initial);
+  const [ranks, setRanks] = useState<Record<string, string>>(() =>
+    Object.fromEntries(initial.map((t) => [t.id, t.featuredRank?.toString() ?? ""]))
+  );
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  /**
+   * @async
+   * @function update
+   * @description Applies a moderation change and replaces the testimonial with the server's copy.
+   * @param {string} id - The testimonial id.
+   * @param {{ status?: TestimonialStatus, featuredRank?: number | null }} changes - What to change.
+   */
+  const update = async (id: string, changes: { status?: TestimonialStatus; featuredRank?: number | null }) => {
+    setBusyId(id);
+    try {
+      const res = await fetch(`/api/testimonials/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(changes),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Something went wrong");
+      const updated: Testimonial = data.testimonial;
+      setTestimonials((current) => current.map((t) => (t.id === id ? updated : t)));
+      setRanks((current) => ({ ...current, [id]: updated.featuredRank?.toString() ?? "" }));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Something went wrong");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="w-full max-w-3xl flex flex-col gap-8">
+      {SECTIONS.map(({ status, title }) => {
+        const items = testimonials.filter((t) => t.status === status);
+        if (status === "approved") items.sort(byDisplayOrder);
+        return (
+          <section key={status}>
+            <h2 className="text-xl font-semibold mb-3">
+              {title} ({items.length})
+            </h2>
+            {items.length === 0 && <p className="text-gray-500">Nothing here.</p>}
+            <ul className="flex flex-col gap-3">
+              {items.map((t) => (
+                <li key={t.id} className="bg-white dark:bg-gray-800 shadow rounded-lg p-4 flex flex-col gap-2">
+                  <p className="italic">&ldquo;{t.quote}&rdquo;</p>
+                  <p className="text-sm text-gray-500">
+                    {t.author}
+                    {t.handle && ` (${t.handle})`} on {t.recipe.title}
+                    {t.avatarUrl && (
+                      <>
+                        {" · "}
+                        <a href={t.avatarUrl} target="_blank" rel="noopener noreferrer" className="underline">
+                          avatar
+                        </a>
+                      </>
+                    )}
+                  </p>
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    {status !== "approved" && (
+                      <button
+                        disabled={busyId === t.id}
+                        onClick={() => update(t.id, { status: "approved" })}
+                        className="px-3 py-1 bg-green-600 text-white rounded-md disabled:opacity-50"
+                      >
+                        Approve
+                      </button>
+                    )}
+                    {status !== "rejected" && (
+                      <button
+                        disabled={busyId === t.id}
+                        onClick={() => update(t.id, { status: "rejected" })}
+                        className="px-3 py-1 bg-red-600 text-white rounded-md disabled:opacity-50"
+                      >
+                        Reject
+                      </button>
+                    )}
+                    {status === "approved" && (
+                      <>
+                        <label className="ml-2">
+                          Featured rank{" "}
+                          <input
+                            type="number"
+                            min={1}
+                            max={1000}
+                            value={ranks[t.id] ?? ""}
+                            onChange={(e) => setRanks((current) => ({ ...current, [t.id]: e.target.value }))}
+                            placeholder="—"
+                            className="w-20 px-2 py-1 border rounded-md"
+                          />
+                        </label>
+                        <button
+                          disabled={busyId === t.id}
+                          onClick={() => update(t.id, { featuredRank: ranks[t.id] ? Number(ranks[t.id]) : null })}
+                          className="px-3 py-1 bg-purple-600 text-white rounded-md disabled:opacity-50"
+                        >
+                          {ranks[t.id] ? "Save rank" : "Unfeature"}
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </section>
+        );
+      })}
+    </div>
+  );
+}
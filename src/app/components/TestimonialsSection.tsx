@@ -1,9 +1,14 @@
 "use client";
 
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import TestimonialCard, { TestimonialCardProps } from './TestimonialCard';
+import type { Testimonial } from '@/lib/testimonial';
 
-const mockTestimonials: TestimonialCardProps[] = [
+/**
+ * Placeholder testimonials, shown until the first real ones are approved (or if they can't be loaded), so the landing
+ * page never has an empty section.
+ */
+const placeholderTestimonials: TestimonialCardProps[] = [
   {
     quote: "After trying the AI’s recipes, my doctor blocked my number. 10/10.",
     author: "@darkhumorchef"
@@ -34,18 +39,31 @@ const mockTestimonials: TestimonialCardProps[] = [
  * TestimonialsSection component
  *
  * Displays a section with a heading and a list of user testimonials.
- * Uses the TestimonialCard component to render each testimonial.
+ * Approved testimonials are loaded from `/api/testimonials`, featured ones first, and rendered with TestimonialCard.
  *
  * @returns {JSX.Element} The rendered testimonials section.
  */
 const TestimonialsSection: React.FC = () => {
+  const [testimonials, setTestimonials] = useState<Testimonial[] | null>(null);
+
+  useEffect(() => {
+    fetch('/api/testimonials?limit=6')
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => setTestimonials(data?.testimonials ?? []))
+      .catch(() => setTestimonials([]));
+  }, []);
+
+  const cards: TestimonialCardProps[] = testimonials?.length
+    ? testimonials.map(({ quote, author, handle, avatarUrl, recipe }) => ({ quote, author, handle, avatarUrl, recipe }))
+    : placeholderTestimonials;
+
   return (
     <section className="py-16 md:py-24 bg-gray-850">
       <div className="container mx-auto px-6">
         <h2 className="text-3xl md:text-4xl font-bold text-center mb-12 text-purple-400">What Our Users Are Saying</h2>
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
-          {mockTestimonials.map((testimonial, index) => (
-            <TestimonialCard key={index} quote={testimonial.quote} author={testimonial.author} />
+        <div className={`grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8 transition-opacity ${testimonials ? '' : 'opacity-0'}`}>
+          {cards.map((testimonial, index) => (
+            <TestimonialCard key={index} {...testimonial} />
           ))}
         </div>
       </div>
@@ -0,0 +1,92 @@
+/**
+ * @file src/app/components/WeeklyNutritionSummary.tsx
+ * @description The meal planner's weekly nutrition roll-up: totals, daily averages and how many weeks' worth of each
+ * daily value the plan packs into seven days, with a verdict to match.
+ * @requires @/lib/mealPlan For the weekly roll-up type and day names.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import { DAY_NAMES, type WeeklyNutrition } from "@/lib/mealPlan"; // Weekly roll-up.
+
+/**
+ * @constant ROWS
+ * @description The nutrients shown, in label order.
+ */
+const ROWS: { nutrient: keyof WeeklyNutrition["total"]; label: string; unit: string }[] = [
+  { nutrient: "calories", label: "Calories", unit: "kcal" },
+  { nutrient: "fat", label: "Total Fat", unit: "g" },
+  { nutrient: "sodium", label: "Sodium", unit: "mg" },
+  { nutrient: "sugar", label: "Total Sugars", unit: "g" },
+];
+
+/**
+ * @constant VERDICTS
+ * @description Verdicts by the worst nutrient's weeks of daily value, highest threshold first.
+ */
+const VERDICTS: { min: number; text: string }[] = [
+  { min: 4, text: "This is not a meal plan. It is a dare." },
+  { min: 2.5, text: "Your arteries have filed a formal complaint." },
+  { min: 1.5, text: "Bold. Sticky. Medically inadvisable." },
+  { min: 1, text: "A week of mild self-sabotage." },
+  { min: 0, text: "Suspiciously survivable. Add more slots." },
+];
+
+/**
+ * @component WeeklyNutritionSummary
+ * @description Renders the roll-up as a compact table. Shows a prompt to fill some slots when the week is empty.
+ * @param {object} props - Component props.
+ * @param {WeeklyNutrition} props.nutrition - The week's roll-up.
+ * @param {number} props.filledSlots - How many slots are filled.
+ * @returns {JSX.Element} The summary card.
+ */
+export default function WeeklyNutritionSummary({ nutrition, filledSlots }: { nutrition: WeeklyNutrition; filledSlots: number }) {
+  if (filledSlots === 0) {
+    return <p className="text-center text-sm text-gray-500 dark:text-gray-400">Fill some slots to see the damage.</p>;
+  }
+
+  const worst = Math.max(...Object.values(nutrition.weeksOfDailyValue));
+  const verdict = VERDICTS.find(({ min }) => worst >= min) ?? VERDICTS[VERDICTS.length - 1];
+
+  return (
+    <section className="bg-white dark:bg-gray-800 shadow-lg rounded-lg p-6 w-full max-w-3xl" aria-label="Weekly nutrition">
+      <h2 className="text-xl font-semibold mb-1">The Weekly Damage</h2>
+      <p className="mb-3 italic">{verdict.text}</p>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left border-b border-gray-300 dark:border-gray-600">
+            <th className="py-1">Nutrient</th>
+            <th className="py-1 text-right">Week</th>
+            <th className="py-1 text-right">Per day</th>
+            <th className="py-1 text-right">Weeks of daily value</th>
+          </tr>
+        </thead>
+        <tbody>
+          {ROWS.map(({ nutrient, label, unit }) => {
+            const weeks = nutrition.weeksOfDailyValue[nutrient];
+            return (
+              <tr key={nutrient} className="border-b border-gray-200 dark:border-gray-700">
+                <td className="py-1">{label}</td>
+                <td className="py-1 text-right">
+                  {Math.round(nutrition.total[nutrient]).toLocaleString()} {unit}
+                </td>
+                <td className="py-1 text-right">
+                  {Math.round(nutrition.dailyAverage[nutrient]).toLocaleString()} {unit}
+                </td>
+                <td className={`py-1 text-right font-semibold ${weeks > 1 ? "text-red-600" : ""}`}>{weeks}×</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      <p className="mt-3 text-xs text-gray-500 dark:text-gray-400">
+        One serving per slot. Worst day: {DAY_NAMES[nutrition.worstDay]} at{" "}
+        {Math.round(nutrition.days[nutrition.worstDay].calories).toLocaleString()} kcal.
+        {nutrition.unestimated > 0 &&
+          ` ${nutrition.unestimated} ingredient line${nutrition.unestimated === 1 ? "" : "s"} couldn't be estimated and ${
+            nutrition.unestimated === 1 ? "isn't" : "aren't"
+          } counted, so reality is worse.`}
+      </p>
+    </section>
+  );
+}
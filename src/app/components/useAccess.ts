@@ -0,0 +1,51 @@
+/**
+ * @file src/app/components/useAccess.ts
+ * @description Client hook for the visitor's access tier, loaded from `/api/access`.
+ * @requires react For the fetched state.
+ * @requires @/lib/tiers For the tier types.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+"use client";
+
+import { useEffect, useState } from "react"; // React hooks for the fetched state.
+import type { Tier, TierPlan } from "@/lib/tiers"; // Tier shapes shared with the API.
+
+/**
+ * The visitor's access, as reported by `/api/access`.
+ * @interface ClientAccess
+ * @property {Tier} tier - Their tier.
+ * @property {TierPlan} plan - What it gets.
+ * @property {boolean} signedIn - Whether they are signed in.
+ */
+export interface ClientAccess {
+  tier: Tier;
+  plan: TierPlan;
+  signedIn: boolean;
+}
+
+/**
+ * @function useAccess
+ * @description Loads the visitor's tier once per mount. Failures leave it null: the UI then shows everything and lets
+ * the API explain any refusal, since the server enforces the plan either way.
+ * @returns {ClientAccess | null} The access, or null until loaded.
+ */
+export default function useAccess(): ClientAccess | null {
+  const [access, setAccess] = useState<ClientAccess | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch("/api/access")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data: ClientAccess | null) => {
+        if (!cancelled && data) setAccess(data);
+      })
+      .catch((err) => console.error("Failed to load access tier", err));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return access;
+}
@@ -0,0 +1,63 @@
+/**
+ * @file src/app/email-preferences/confirm/page.tsx
+ * @description Landing page for the link in waitlist confirmation emails, e.g. `/email-preferences/confirm?token=...`.
+ * Opening the link changes nothing: the subscriber confirms with the button, which POSTs to `/api/subscribe/confirm`.
+ * Mail-security scanners prefetch links in emails, so confirming on GET would sign up addresses nobody opted in.
+ * @requires next For the `Metadata` type.
+ * @requires next/link For the link back to the site.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import type { Metadata } from "next"; // Type definition for Next.js page metadata.
+import Link from "next/link"; // Client-side navigation.
+
+/**
+ * @constant metadata
+ * @description Page metadata; confirmation pages are per-subscriber and kept out of search results.
+ */
+export const metadata: Metadata = { title: "Confirm your email | RecipeWreck", robots: { index: false } };
+
+/**
+ * @typedef {object} Props
+ * @description Props for the confirm page. In Next.js 15, `searchParams` is a promise.
+ */
+interface Props {
+  searchParams: Promise<{ token?: string }>;
+}
+
+/**
+ * @component ConfirmSubscriptionPage
+ * @description Shows the confirm button for the token in the link. The token is checked when the form is posted.
+ * @componentType Server
+ * @param {Props} props - The query string.
+ * @returns {Promise<JSX.Element>} The confirm page.
+ */
+export default async function ConfirmSubscriptionPage({ searchParams }: Props) {
+  const { token } = await searchParams;
+
+  return (
+    <div className="min-h-screen flex flex-col items-center p-6 gap-6 bg-gradient-to-br from-purple-50 to-fuchsia-50 dark:from-gray-800 dark:to-gray-900">
+      <h1 className="text-3xl font-bold mt-4">Confirm your spot</h1>
+      {token ? (
+        <form
+          method="post"
+          action={`/api/subscribe/confirm?token=${encodeURIComponent(token)}`}
+          className="flex flex-col items-center gap-4"
+        >
+          <p className="max-w-md text-center">Confirm you want RecipeWreck emails and we&apos;ll save your place on the waitlist.</p>
+          <button type="submit" className="px-4 py-2 bg-purple-600 text-white rounded-md">
+            Confirm my spot
+          </button>
+        </form>
+      ) : (
+        <p role="alert" className="max-w-md text-center text-red-600">
+          That link is invalid. Use the link in the confirmation email we sent you.
+        </p>
+      )}
+      <Link href="/" className="text-purple-600 underline">
+        Back to RecipeWreck
+      </Link>
+    </div>
+  );
+}
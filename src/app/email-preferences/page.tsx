@@ -0,0 +1,103 @@
+/**
+ * @file src/app/email-preferences/page.tsx
+ * @description Waitlist email preferences, e.g. `/email-preferences?token=...`. Reached from the link in every waitlist
+ * email, and after confirming a subscription (`&confirmed=1`). The signed token identifies the subscriber, so no
+ * sign-in is needed. Confirmed subscribers also see their queue place and referral link here.
+ * @requires next For the `Metadata` type.
+ * @requires next/link For the link back to the site.
+ * @requires react-hot-toast For the toast container used by EmailPreferencesForm.
+ * @requires @/lib/waitlist For loading the subscriber.
+ * @requires @/lib/referrals For the queue place and referral link.
+ * @requires @/lib/siteUrl For the referral link's origin.
+ * @requires ../components/EmailPreferencesForm For the form.
+ * @requires ../components/ReferralPanel For the queue place and referral link.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import type { Metadata } from "next"; // Type definition for Next.js page metadata.
+import Link from "next/link"; // Client-side navigation.
+import { Toaster } from "react-hot-toast"; // Component for displaying toast notifications.
+import { getSubscription, type Subscriber } from "@/lib/waitlist"; // Waitlist subscriptions.
+import { getReferralSummary, type ReferralSummary } from "@/lib/referrals"; // Waitlist queue and referrals.
+import { getSiteOrigin } from "@/lib/siteUrl"; // Public origin for absolute links.
+import EmailPreferencesForm from "../components/EmailPreferencesForm"; // Preferences form.
+import ReferralPanel from "../components/ReferralPanel"; // Queue position and referral link.
+
+/**
+ * @constant metadata
+ * @description Page metadata; preference pages are per-subscriber and kept out of search results.
+ */
+export const metadata: Metadata = { title: "Email preferences | RecipeWreck", robots: { index: false } };
+
+/**
+ * @constant LINK_ERRORS
+ * @description Messages for the `error` codes the confirm route redirects with, plus `invalid` for bad manage links.
+ */
+const LINK_ERRORS: Record<string, string> = {
+  "link-expired": "That confirmation link has expired or is no longer valid. Join the waitlist again for a fresh one.",
+  invalid: "That link is invalid or has expired. Use the link in a more recent email from us.",
+  server: "We couldn't load your preferences just now. Please try again.",
+};
+
+/**
+ * @typedef {object} Props
+ * @description Props for the preferences page. In Next.js 15, `searchParams` is a promise.
+ */
+interface Props {
+  searchParams: Promise<{ token?: string; confirmed?: string; error?: string }>;
+}
+
+/**
+ * @component EmailPreferencesPage
+ * @description Shows the preferences form for the token's subscriber, or explains why it can't.
+ * @componentType Server
+ * @param {Props} props - The query string.
+ * @returns {Promise<JSX.Element>} The preferences page.
+ */
+export default async function EmailPreferencesPage({ searchParams }: Props) {
+  const { token, confirmed, error: linkError } = await searchParams;
+
+  let subscriber: Subscriber | null = null;
+  let referral: ReferralSummary | null = null;
+  let error = linkError;
+  if (!error) {
+    try {
+      subscriber = token ? await getSubscription(token) : null;
+      if (!subscriber) error = "invalid";
+    } catch (err) {
+      console.error("/email-preferences failed to load subscriber", err);
+      error = "server";
+    }
+  }
+  if (subscriber?.status === "active") {
+    // The panel is a bonus; the preferences still work without it.
+    referral = await getReferralSummary(subscriber.email, getSiteOrigin()).catch((err) => {
+      console.error("/email-preferences failed to load referral summary", err);
+      return null;
+    });
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col items-center p-6 gap-6 bg-gradient-to-br from-purple-50 to-fuchsia-50 dark:from-gray-800 dark:to-gray-900">
+      <Toaster />
+      <h1 className="text-3xl font-bold mt-4">Email preferences</h1>
+      {confirmed && subscriber && (
+        <p role="status" className="max-w-md text-center text-green-700 dark:text-green-400">
+          You&apos;re confirmed! Welcome to the waitlist. Choose what you&apos;d like to hear about below.
+        </p>
+      )}
+      {referral && <ReferralPanel referral={referral} />}
+      {subscriber && token ? (
+        <EmailPreferencesForm token={token} subscriber={subscriber} />
+      ) : (
+        <p role="alert" className="max-w-md text-center text-red-600">
+          {(error && LINK_ERRORS[error]) || LINK_ERRORS.invalid}
+        </p>
+      )}
+      <Link href="/" className="text-purple-600 underline">
+        Back to RecipeWreck
+      </Link>
+    </div>
+  );
+}
@@ -1,54 +1,226 @@
-// src/app/funding-success/page.tsx
-import Head from 'next/head';
+/**
+ * @file src/app/funding-success/page.tsx
+ * @description Where Stripe Checkout sends buyers back to, e.g. `/funding-success?session_id=cs_test_...`. The session is
+ * verified with Stripe on the server, so the page shows the real buyer email, amount and receipt, and only celebrates
+ * payments that actually went through. Pending, failed, unfinished and unknown payments get their own messages.
+ * @requires next For the `Metadata` type.
+ * @requires react For `cache`, to share one Stripe lookup between `generateMetadata` and the page.
+ * @requires next/link For links back to the site.
+ * @requires @/lib/billing For verifying the Checkout session.
+ * @author Cascade
+ * @date 2026-10-19
+ */
 
-export default function FundingSuccessPage() {
-  return (
-    <>
-      <Head>
-        <title>RecipeWreck - Funding Confirmed! Prepare for Impact.</title>
-        <meta name="description" content="Your generous (and slightly unhinged) contribution to RecipeWreck has been confirmed!" />
-      </Head>
+import type { Metadata } from "next"; // Type definition for Next.js page metadata.
+import { cache } from "react"; // Request-scoped memoisation.
+import Link from "next/link"; // Client-side navigation.
+import { formatMoney, getCheckoutConfirmation, type CheckoutConfirmation, type CheckoutState } from "@/lib/billing"; // Payments.
+
+/**
+ * @typedef {object} Props
+ * @description Props for the confirmation page. In Next.js 15, `searchParams` is a promise.
+ */
+interface Props {
+  searchParams: Promise<{ session_id?: string }>;
+}
+
+/**
+ * @typedef {Exclude<CheckoutState, "paid"> | "unknown" | "unavailable"} NoticeState
+ * @description The non-celebratory outcomes: the Checkout states short of paid, plus `unknown` for a missing or
+ * unrecognised session and `unavailable` when Stripe couldn't be asked.
+ */
+type NoticeState = Exclude<CheckoutState, "paid"> | "unknown" | "unavailable";
+
+/**
+ * @typedef {object} Notice
+ * @description The message for one outcome.
+ * @property {string} title - The heading.
+ * @property {Function} body - Builds the explanation, given whatever Stripe told us about the session.
+ * @property {{ href: string, label: string }} cta - Where to go next.
+ */
+interface Notice {
+  title: string;
+  body: (confirmation: CheckoutConfirmation | null) => string;
+  cta: { href: string; label: string };
+}
+
+/**
+ * @constant NOTICES
+ * @description What to say for each outcome other than a completed payment.
+ */
+const NOTICES: Record<NoticeState, Notice> = {
+  pending: {
+    title: "Payment Processing. Your Arteries Are on Hold.",
+    body: (c) =>
+      `Your bank is still deciding whether to allow this. We'll email ${c?.email ?? "you"} once the ${c ? formatMoney(c.amountTotal, c.currency) : "payment"} clears, and lifetime access unlocks the moment it does.`,
+    cta: { href: "/", label: "Back to the Scene of the (Future) Crime" },
+  },
+  failed: {
+    title: "Payment Failed. Your Arteries Got a Reprieve.",
+    body: () => "Your bank declined to fund the absurdity. Nothing was charged. Try another payment method if you still dare.",
+    cta: { href: "/#preorder-section", label: "Try Again" },
+  },
+  open: {
+    title: "You Didn't Quite Finish Checking Out",
+    body: () => "Cold feet? Understandable. Nothing has been charged. Pick up where you left off whenever you're ready.",
+    cta: { href: "/#preorder-section", label: "Back to Checkout" },
+  },
+  expired: {
+    title: "That Checkout Expired",
+    body: () => "The checkout timed out before any money changed hands. Start a new one if you still want in.",
+    cta: { href: "/#preorder-section", label: "Start Again" },
+  },
+  unknown: {
+    title: "We Couldn't Find That Payment",
+    body: () =>
+      "This link doesn't match a RecipeWreck checkout. If you did pay, Stripe has emailed you a receipt, and your access is tied to that email.",
+    cta: { href: "/", label: "Return to RecipeWreck" },
+  },
+  unavailable: {
+    title: "We Couldn't Confirm Your Payment Just Now",
+    body: () =>
+      "Our payment provider isn't answering. If you paid, you're covered: Stripe has emailed you a receipt. Refresh this page in a minute to see the details.",
+    cta: { href: "/", label: "Return to RecipeWreck" },
+  },
+};
+
+/**
+ * @async
+ * @function verifyConfirmation
+ * @description Verifies the session, folding lookup failures into the page's states.
+ * @param {string | undefined} sessionId - The `session_id` query parameter.
+ * @returns {Promise<{ state: CheckoutState | "unknown" | "unavailable", confirmation: CheckoutConfirmation | null }>}
+ */
+async function verifyConfirmation(sessionId: string | undefined) {
+  if (!sessionId) return { state: "unknown" as const, confirmation: null };
+  try {
+    const confirmation = await getCheckoutConfirmation(sessionId);
+    return confirmation ? { state: confirmation.state, confirmation } : { state: "unknown" as const, confirmation: null };
+  } catch (err) {
+    console.error("/funding-success failed to verify checkout session", err);
+    return { state: "unavailable" as const, confirmation: null };
+  }
+}
+
+/**
+ * @function loadConfirmation
+ * @description Verifies a session, memoised per request so metadata and page rendering ask Stripe once.
+ */
+const loadConfirmation = cache(verifyConfirmation);
+
+/**
+ * @async
+ * @function generateMetadata
+ * @description Titles the page after the verified outcome, so only a completed payment is announced as confirmed.
+ * Confirmation pages are per-buyer, so they are kept out of search results.
+ * @param {Props} props - The query string.
+ * @returns {Promise<Metadata>} The page metadata.
+ */
+export async function generateMetadata({ searchParams }: Props): Promise<Metadata> {
+  const { session_id: sessionId } = await searchParams;
+  const { state, confirmation } = await loadConfirmation(sessionId);
+  if (state === "paid" && confirmation) {
+    return {
+      title: "RecipeWreck - Funding Confirmed! Prepare for Impact.",
+      description: "Your generous (and slightly unhinged) contribution to RecipeWreck has been confirmed!",
+      robots: { index: false },
+    };
+  }
+  return { title: `${NOTICES[state === "paid" ? "unknown" : state].title} | RecipeWreck`, robots: { index: false } };
+}
+
+/**
+ * @component FundingSuccessPage
+ * @description Renders the confirmation for a paid session, or a notice explaining where the payment stands.
+ * @componentType Server
+ * @param {Props} props - The query string.
+ * @returns {Promise<JSX.Element>} The confirmation page.
+ */
+export default async function FundingSuccessPage({ searchParams }: Props) {
+  const { session_id: sessionId } = await searchParams;
+  const { state, confirmation } = await loadConfirmation(sessionId);
 
+  if (state !== "paid" || !confirmation) {
+    const notice = NOTICES[state === "paid" ? "unknown" : state];
+    return (
       <div className="min-h-screen bg-gray-900 text-white flex flex-col items-center justify-center font-sans p-6">
         <div className="text-center max-w-2xl">
-          <h1 className="text-5xl font-bold text-green-400 mb-8">
-            Success! You're Officially a Culinary Daredevil!
-          </h1>
-          <p className="text-xl text-gray-300 mb-6">
-            Thank you for your payment, you glorious culinary heathen. Your $50 has been bravely sacrificed to the altar of RecipeWreck.
-            We're not sure whether to congratulate you or offer our condolences. Probably both.
-          </p>
-          <p className="text-lg text-gray-400 mb-4">
-            You'll get an email (to the address you dared to provide to Stripe) when the app is finally ready for you to wreck your health, one gloriously ill-advised meal at a time.
-          </p>
-          <p className="text-lg text-gray-400 mb-8">
-            Until then, try not to think too hard about what you've just done. Or do. We're not your conscience.
-          </p>
-          <div className="mb-10">
-            <img 
-              src="/images/RecipeWreck_Kitchen_Chaos_01.jpg" // Replace with a suitably chaotic/funny image
-              alt="A visual representation of culinary chaos" 
-              className="mx-auto rounded-lg shadow-xl w-full max-w-md h-auto object-cover"
-              // Consider a funny placeholder, like a picture of a burnt kitchen or a confused chef
-            />
-            <p className="text-xs text-gray-500 mt-2">
-              (Actual footage of our development process. Or your future kitchen. Who can say?)
-            </p>
-          </div>
-          <p className="text-md text-gray-500 mb-6">
-            In the meantime, feel free to ponder the existential implications of AI-generated recipes that might just be sentient... and slightly malevolent.
-          </p>
-          <a
-            href="/" // Link back to the main landing page
+          <h1 className="text-4xl font-bold text-yellow-400 mb-8">{notice.title}</h1>
+          <p className="text-xl text-gray-300 mb-10">{notice.body(confirmation)}</p>
+          <Link
+            href={notice.cta.href}
             className="inline-block bg-purple-600 hover:bg-purple-700 text-white font-bold py-3 px-8 rounded-lg text-lg transition-colors duration-300 shadow-lg"
           >
-            Return to the Scene of the (Future) Crime
-          </a>
-          <p className="mt-12 text-sm text-gray-600">
-            RecipeWreck: Endangering taste buds since... well, soon.
+            {notice.cta.label}
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const amount = formatMoney(confirmation.amountTotal, confirmation.currency);
+  return (
+    <div className="min-h-screen bg-gray-900 text-white flex flex-col items-center justify-center font-sans p-6">
+      <div className="text-center max-w-2xl">
+        <h1 className="text-5xl font-bold text-green-400 mb-8">
+          Success! You&apos;re Officially a Culinary Daredevil!
+        </h1>
+        <p className="text-xl text-gray-300 mb-6">
+          Thank you for your payment, you glorious culinary heathen. Your {amount} has been bravely sacrificed to the altar of RecipeWreck.
+          We&apos;re not sure whether to congratulate you or offer our condolences. Probably both.
+        </p>
+        <div className="bg-gray-800 rounded-lg p-6 mb-8 text-left">
+          <dl className="grid grid-cols-[auto_1fr] gap-x-6 gap-y-2 text-gray-300">
+            <dt className="text-gray-500">Paid</dt>
+            <dd className="font-semibold">{amount}</dd>
+            {confirmation.email && (
+              <>
+                <dt className="text-gray-500">Email</dt>
+                <dd className="font-semibold break-all">{confirmation.email}</dd>
+              </>
+            )}
+            <dt className="text-gray-500">Access</dt>
+            <dd className="font-semibold">Lifetime</dd>
+          </dl>
+          {confirmation.receiptUrl && (
+            <a
+              href={confirmation.receiptUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-block mt-4 text-purple-400 underline"
+            >
+              View your receipt
+            </a>
+          )}
+        </div>
+        <p className="text-lg text-gray-400 mb-8">
+          Your lifetime access is tied to {confirmation.email ?? "the email you gave Stripe"}.{" "}
+          <Link href="/login?next=/account" className="text-purple-400 underline">
+            Sign in with that email
+          </Link>{" "}
+          to start wrecking your health, one gloriously ill-advised meal at a time.
+        </p>
+        <div className="mb-10">
+          {/* eslint-disable-next-line @next/next/no-img-element */}
+          <img
+            src="/images/RecipeWreck_Kitchen_Chaos_01.jpg"
+            alt="A visual representation of culinary chaos"
+            className="mx-auto rounded-lg shadow-xl w-full max-w-md h-auto object-cover"
+          />
+          <p className="text-xs text-gray-500 mt-2">
+            (Actual footage of our development process. Or your future kitchen. Who can say?)
           </p>
         </div>
+        <Link
+          href="/"
+          className="inline-block bg-purple-600 hover:bg-purple-700 text-white font-bold py-3 px-8 rounded-lg text-lg transition-colors duration-300 shadow-lg"
+        >
+          Return to the Scene of the (Future) Crime
+        </Link>
+        <p className="mt-12 text-sm text-gray-600">
+          RecipeWreck: Endangering taste buds since... well, soon.
+        </p>
       </div>
-    </>
+    </div>
   );
 }
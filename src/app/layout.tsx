@@ -41,8 +41,10 @@ const geistMono = Geist_Mono({
  * @type {Metadata}
  * @property {string} title - The default title for pages.
  * @property {string} description - The default description for pages.
+ * @property {URL} metadataBase - Resolves relative Open Graph and canonical URLs against the public site URL.
  */
 export const metadata: Metadata = {
+  metadataBase: new URL(process.env.NEXT_PUBLIC_SITE_URL || "http://localhost:3000"),
   title: "RecipeWreck - Wreck your health, one meal at a time",
   description: "AI-generated recipes so unhealthy, they're a health hazard. Sign up for early access!",
 };
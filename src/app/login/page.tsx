@@ -0,0 +1,71 @@
+/**
+ * @file src/app/login/page.tsx
+ * @description Sign-in page, e.g. `/login?next=/account`. Protected pages send signed-out visitors here.
+ * @requires next For the `Metadata` type.
+ * @requires next/link For the link back to the generator.
+ * @requires next/navigation For skipping the page when already signed in.
+ * @requires react-hot-toast For the toast container used by LoginForm.
+ * @requires @/lib/auth For the session and the post-sign-in destination check.
+ * @requires ../components/LoginForm For the form.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import type { Metadata } from "next"; // Type definition for Next.js page metadata.
+import Link from "next/link"; // Client-side navigation.
+import { redirect } from "next/navigation"; // Next.js routing helpers.
+import { Toaster } from "react-hot-toast"; // Component for displaying toast notifications.
+import { getSessionUser, safeNextPath } from "@/lib/auth"; // Sessions.
+import LoginForm from "../components/LoginForm"; // Sign-in form.
+
+/**
+ * @constant metadata
+ * @description Page metadata; the sign-in page has nothing worth indexing.
+ */
+export const metadata: Metadata = { title: "Sign in | RecipeWreck", robots: { index: false } };
+
+/**
+ * @constant LINK_ERRORS
+ * @description Messages for the `error` codes the magic-link verify route redirects with.
+ */
+const LINK_ERRORS: Record<string, string> = {
+  "link-expired": "That sign-in link has expired or was already used. Request a new one below.",
+  server: "We couldn't sign you in just now. Please try again.",
+};
+
+/**
+ * @typedef {object} Props
+ * @description Props for the sign-in page. In Next.js 15, `searchParams` is a promise.
+ */
+interface Props {
+  searchParams: Promise<{ next?: string; error?: string }>;
+}
+
+/**
+ * @component LoginPage
+ * @description Shows the sign-in form, or goes straight to `next` for visitors who are already signed in.
+ * @componentType Server
+ * @param {Props} props - The query string.
+ * @returns {Promise<JSX.Element>} The sign-in page.
+ */
+export default async function LoginPage({ searchParams }: Props) {
+  const { next, error } = await searchParams;
+  const destination = safeNextPath(next);
+  if (await getSessionUser()) redirect(destination);
+
+  return (
+    <div className="min-h-screen flex flex-col items-center p-6 gap-6 bg-gradient-to-br from-purple-50 to-fuchsia-50 dark:from-gray-800 dark:to-gray-900">
+      <Toaster />
+      <h1 className="text-3xl font-bold mt-4">Sign in to RecipeWreck</h1>
+      {error && LINK_ERRORS[error] && (
+        <p role="alert" className="max-w-sm text-center text-red-600">
+          {LINK_ERRORS[error]}
+        </p>
+      )}
+      <LoginForm next={destination} />
+      <Link href="/recipe-generator" className="text-purple-600 underline">
+        Back to the generator
+      </Link>
+    </div>
+  );
+}
@@ -0,0 +1,254 @@
+/**
+ * @file src/app/meal-planner/page.tsx
+ * @description The weekly meal planner: a 7-day grid of breakfast, lunch, dinner and snack slots, filled from saved
+ * recipes or generated on the spot, with the week's nutrition rolled up below and an iCalendar download.
+ * @requires react For the plan, week and slot state.
+ * @requires next/link For links to planned recipes.
+ * @requires react-hot-toast For displaying notifications.
+ * @requires @/lib/mealPlan For the slot grid, week arithmetic and nutrition roll-up.
+ * @requires ../components/MealPlanSlotPicker For filling a slot.
+ * @requires ../components/WeeklyNutritionSummary For the nutrition roll-up.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+"use client";
+
+import { useEffect, useState } from "react"; // React hooks for the plan, week and slot state.
+import Link from "next/link"; // Client-side navigation.
+import toast, { Toaster } from "react-hot-toast"; // Toast notifications.
+import {
+  addDays,
+  DAY_NAMES,
+  PLAN_MEALS,
+  summarizeWeekNutrition,
+  weekStartOf,
+  type MealPlan,
+  type PlanMeal,
+} from "@/lib/mealPlan"; // Meal plan helpers.
+import MealPlanSlotPicker from "../components/MealPlanSlotPicker"; // Slot filling panel.
+import WeeklyNutritionSummary from "../components/WeeklyNutritionSummary"; // Nutrition roll-up.
+
+/**
+ * @component MealPlannerPage
+ * @description Loads the visitor's plan for the selected week and saves every slot change straight away. Generating
+ * for a slot goes through `/api/generate` with the slot's meal type, so it counts against the normal generation quota
+ * and moderation; the stored recipe then fills the slot.
+ * @componentType Client
+ * @returns {JSX.Element} The planner page.
+ */
+export default function MealPlannerPage() {
+  const [weekStart, setWeekStart] = useState(() => weekStartOf());
+  const [plan, setPlan] = useState<MealPlan | null>(null);
+  const [activeSlot, setActiveSlot] = useState<{ day: number; meal: PlanMeal } | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setPlan(null);
+    fetch(`/api/meal-plans?week=${weekStart}`)
+      .then(async (res) => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data?.error ?? `Status ${res.status}`);
+        if (!cancelled) setPlan(data);
+      })
+      .catch((err) => {
+        console.error("Failed to load meal plan", err);
+        if (!cancelled) {
+          setPlan({ weekStart, slots: [], updatedAt: null });
+          toast.error("Could not load your meal plan.");
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [weekStart]);
+
+  /**
+   * @async
+   * @function saveSlot
+   * @description Puts a recipe in a slot, or clears it.
+   * @param {number} day - The slot's day.
+   * @param {PlanMeal} meal - The slot's meal.
+   * @param {string | null} recipeId - The recipe, or null to clear the slot.
+   * @returns {Promise<boolean>} Whether the change was saved.
+   */
+  const saveSlot = async (day: number, meal: PlanMeal, recipeId: string | null): Promise<boolean> => {
+    const res = await fetch("/api/meal-plans", {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ week: weekStart, day, meal, recipeId }),
+    });
+    const data = await res.json().catch(() => null);
+    if (!res.ok) {
+      toast.error(data?.error ?? "Could not update the plan.");
+      return false;
+    }
+    setPlan(data);
+    return true;
+  };
+
+  /**
+   * @async
+   * @function handlePick
+   * @description Fills the active slot with a saved recipe.
+   * @param {string} recipeId - The recipe id.
+   */
+  const handlePick = async (recipeId: string) => {
+    if (!activeSlot) return;
+    setBusy(true);
+    try {
+      if (await saveSlot(activeSlot.day, activeSlot.meal, recipeId)) setActiveSlot(null);
+    } catch (err) {
+      console.error("Failed to fill slot", err);
+      toast.error("Could not update the plan.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  /**
+   * @async
+   * @function handleGenerate
+   * @description Generates a recipe with the active slot's meal type and fills the slot with it.
+   * @param {string} prompt - What to generate.
+   */
+  const handleGenerate = async (prompt: string) => {
+    if (!activeSlot) return;
+    setBusy(true);
+    try {
+      const res = await fetch("/api/generate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ prompt, mealType: activeSlot.meal }),
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) {
+        toast.error(data?.rejection?.reason ?? data?.error ?? "Generation failed, please try again.");
+        return;
+      }
+      if (!data.id) {
+        toast.error("The recipe was generated but couldn't be saved, so it can't be planned.");
+        return;
+      }
+      if (await saveSlot(activeSlot.day, activeSlot.meal, data.id)) {
+        toast.success(`Planned: ${data.title}`);
+        setActiveSlot(null);
+      }
+    } catch (err) {
+      console.error("Failed to generate for slot", err);
+      toast.error("Generation failed, please try again.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  /**
+   * @async
+   * @function handleClear
+   * @description Empties a slot.
+   * @param {number} day - The slot's day.
+   * @param {PlanMeal} meal - The slot's meal.
+   */
+  const handleClear = async (day: number, meal: PlanMeal) => {
+    try {
+      await saveSlot(day, meal, null);
+    } catch (err) {
+      console.error("Failed to clear slot", err);
+      toast.error("Could not update the plan.");
+    }
+  };
+
+  const nutrition = summarizeWeekNutrition(plan ?? { slots: [] });
+
+  return (
+    <div className="min-h-screen flex flex-col items-center p-6 gap-6 bg-gradient-to-br from-purple-50 to-fuchsia-50 dark:from-gray-800 dark:to-gray-900">
+      <h1 className="text-3xl font-bold mt-4">RecipeWreck - Meal Planner</h1>
+      <div className="flex items-center gap-4">
+        <button onClick={() => setWeekStart(addDays(weekStart, -7))} className="px-3 py-1 border rounded-md" aria-label="Previous week">
+          ←
+        </button>
+        <span className="font-semibold">
+          Week of {new Date(`${weekStart}T00:00:00`).toLocaleDateString(undefined, { month: "long", day: "numeric", year: "numeric" })}
+        </span>
+        <button onClick={() => setWeekStart(addDays(weekStart, 7))} className="px-3 py-1 border rounded-md" aria-label="Next week">
+          →
+        </button>
+        <a href={`/api/meal-plans/ics?week=${weekStart}`} className="px-3 py-1 bg-purple-600 text-white rounded-md text-sm">
+          Download .ics
+        </a>
+      </div>
+      <div className="w-full max-w-6xl overflow-x-auto">
+        <table className="w-full min-w-[720px] table-fixed bg-white dark:bg-gray-800 shadow-lg rounded-lg text-sm">
+          <thead>
+            <tr>
+              <th className="w-24" />
+              {DAY_NAMES.map((name) => (
+                <th key={name} className="p-2 text-left">
+                  {name.slice(0, 3)}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {PLAN_MEALS.map((meal) => (
+              <tr key={meal} className="border-t border-gray-200 dark:border-gray-700 align-top">
+                <th className="p-2 text-left capitalize">{meal}</th>
+                {DAY_NAMES.map((_, day) => {
+                  const slot = plan?.slots.find((s) => s.day === day && s.meal === meal);
+                  const active = activeSlot?.day === day && activeSlot.meal === meal;
+                  return (
+                    <td key={day} className={`p-2 h-20 ${active ? "bg-purple-100 dark:bg-purple-900" : ""}`}>
+                      {slot ? (
+                        <div className="flex items-start justify-between gap-1">
+                          {slot.recipe.slug ? (
+                            <Link href={`/r/${slot.recipe.slug}`} className="text-purple-600 underline line-clamp-3">
+                              {slot.recipe.title}
+                            </Link>
+                          ) : (
+                            <span className="line-clamp-3">{slot.recipe.title}</span>
+                          )}
+                          <button
+                            onClick={() => handleClear(day, meal)}
+                            className="text-gray-400 hover:text-red-600"
+                            aria-label={`Clear ${DAY_NAMES[day]} ${meal}`}
+                          >
+                            ×
+                          </button>
+                        </div>
+                      ) : (
+                        <button
+                          onClick={() => setActiveSlot({ day, meal })}
+                          disabled={plan === null}
+                          className="w-full h-full text-gray-400 hover:text-purple-600 disabled:opacity-50"
+                          aria-label={`Fill ${DAY_NAMES[day]} ${meal}`}
+                        >
+                          +
+                        </button>
+                      )}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {activeSlot && (
+        <MealPlanSlotPicker
+          day={activeSlot.day}
+          meal={activeSlot.meal}
+          busy={busy}
+          onPick={handlePick}
+          onGenerate={handleGenerate}
+          onClose={() => setActiveSlot(null)}
+        />
+      )}
+      <WeeklyNutritionSummary nutrition={nutrition} filledSlots={plan?.slots.length ?? 0} />
+      <Link href="/recipe-generator" className="text-purple-600 underline">
+        Back to the generator
+      </Link>
+      <Toaster position="top-right" />
+    </div>
+  );
+}
@@ -2,12 +2,14 @@
  * @file src/app/page.tsx
  * @description The main landing page for RecipeWreck. This page introduces the application,
  *              showcases mock recipes, includes testimonials, and provides forms for users
- *              to join a waitlist or pre-order (mock functionality).
+ *              to join a waitlist or pre-order lifetime access through Stripe Checkout.
  *              It utilizes client-side interactivity for form submissions and dynamic content.
  * @requires react - For building the user interface with components, state, and hooks.
  * @requires next/head - (Legacy) For managing document head elements like title and meta tags. For App Router, Metadata API is preferred.
  * @requires posthog-js - For product analytics, tracking events like waitlist joins and pre-order clicks.
  * @requires @/app/components/TestimonialsSection - Internal component for displaying testimonials.
+ * @requires ./components/StarRating - Star display for the showcase ratings.
+ * @requires ./components/ReferralPanel - Queue position and referral link shown to confirmed subscribers.
  * @author Cascade
  * @date 2025-06-13
  */
@@ -20,22 +22,11 @@ import TestimonialsSection from '@/app/components/TestimonialsSection'; // Compo
 import posthog from 'posthog-js'; // Client-side library for PostHog product analytics.
 import Button from '@mui/material/Button';
 import Link from 'next/link'; // For client-side navigation.
+import StarRating from './components/StarRating'; // Star display for the showcase ratings.
+import ReferralPanel from './components/ReferralPanel'; // Queue position and referral link.
+import type { ReferralSummary } from '@/lib/referrals'; // Referral summary type.
 
 // Mockup Recipe Data - Replace with actual pre-generated recipe images and details
-// Helper function to generate stars
-/**
- * A simple component to display a star rating based on a numeric value.
- * @component
- * @param {object} props - The props for the component.
- * @param {number} props.rating - The rating value (0-5).
- * @returns {JSX.Element} A div containing star characters.
- */
-const StarRating = ({ rating }: { rating: number }) => (
-  <div className="text-yellow-400 text-lg">
-    {'★'.repeat(rating)}{'☆'.repeat(5 - rating)}
-  </div>
-);
-
 const mockRecipes = [
   {
     id: 1,
@@ -98,7 +89,7 @@ const mockRecipes = [
 /**
  * The main landing page component for RecipeWreck.
  * It showcases the product's value proposition, displays mock recipes, testimonials,
- * and includes forms for waitlist sign-up and mock pre-orders.
+ * and includes forms for waitlist sign-up and pre-orders.
  * This component handles its own state for form inputs, submission status, and dynamic button text.
  *
  * @component LandingPage
@@ -112,6 +103,9 @@ export default function LandingPage() {
   const [submitButtonText, setSubmitButtonText] = useState(''); // State for the dynamic text of the waitlist submit button.
   const [isLoading, setIsLoading] = useState(false); // State to manage the loading status of the waitlist form submission.
   const [apiError, setApiError] = useState<string | null>(null); // State to store and display API error messages from the waitlist submission.
+  const [isCheckingOut, setIsCheckingOut] = useState(false); // State to manage the loading status of the pre-order button.
+  const [preorderError, setPreorderError] = useState<string | null>(null); // State to store and display Checkout errors.
+  const [referral, setReferral] = useState<ReferralSummary | null>(null); // Queue position and referral link, once confirmed.
 
   const buttonTextOptions = [
     "Join the Mayhem",
@@ -132,10 +126,22 @@ export default function LandingPage() {
     setSubmitButtonText(buttonTextOptions[randomIndex]);
   }, []); // Empty dependency array ensures this runs only on mount
 
+  /**
+   * Effect hook to load the referral panel for returning subscribers, who carry the waitlist cookie.
+   * A 404 just means this browser hasn't confirmed a subscription.
+   */
+  useEffect(() => {
+    fetch('/api/referrals')
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => data?.referral && setReferral(data.referral))
+      .catch(() => {});
+  }, []);
+
   /**
    * Handles the submission of the waitlist form.
    * It prevents the default form submission, validates the email (client-side basic check),
-   * sends a POST request to the `/api/subscribe` endpoint, and updates UI based on the response.
+   * sends a POST request to the `/api/subscribe` endpoint, and updates UI based on the response. The subscription is
+   * double opt-in, so success means a confirmation email is on its way.
    * Tracks events using PostHog for form submission, success, and failure.
    *
    * @param {React.FormEvent} e - The form submission event.
@@ -159,7 +165,8 @@ export default function LandingPage() {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ email: waitlistEmail }),
+        // Pass along the referral code from the link the visitor arrived by, if any.
+        body: JSON.stringify({ email: waitlistEmail, ref: new URLSearchParams(window.location.search).get('ref') ?? undefined }),
       });
 
       const result = await response.json();
@@ -168,8 +175,8 @@ export default function LandingPage() {
         setWaitlistSubmitted(true);
         posthog.capture('waitlist_join_success', { email: waitlistEmail, api_response: result });
       } else {
-        setApiError(result.message || 'An unexpected error occurred. Please try again.');
-        posthog.capture('waitlist_join_failed', { email: waitlistEmail, error: result.message, status_code: response.status });
+        setApiError(result.error || 'An unexpected error occurred. Please try again.');
+        posthog.capture('waitlist_join_failed', { email: waitlistEmail, error: result.error, status_code: response.status });
       }
     } catch (error) {
       console.error('Waitlist submission error:', error);
@@ -182,13 +189,37 @@ export default function LandingPage() {
 
   /**
    * Handles the click event for the pre-order button.
-   * Redirects to the Stripe test payment link for the $50 lifetime access.
-   * Replace the placeholder URL below with your actual link from the Stripe dashboard.
+   * Asks `/api/checkout` for a Stripe Checkout session for the $50 lifetime access and redirects to it. The waitlist email,
+   * if one was entered, is prefilled so the purchase lands on the same address; signed-in visitors are tied to their
+   * account by the server. Access is granted by the Stripe webhook, not by this redirect.
    */
-  const handlePreorderClick = () => {
+  const handlePreorderClick = async () => {
     posthog.capture('preorder_cta_clicked');
-    // window.location.href = 'https://buy.stripe.com/test_dRm6oH9Uxe4Cc0R004cs802'; // Test link
-    window.location.href = 'https://buy.stripe.com/9B6fZh4AdbWu6GxdQUcs807'; // Live link
+    setPreorderError(null);
+    setIsCheckingOut(true);
+
+    try {
+      const response = await fetch('/api/checkout', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(waitlistEmail.includes('@') ? { email: waitlistEmail } : {}),
+      });
+      const result = await response.json();
+
+      if (response.ok && result.url) {
+        window.location.href = result.url;
+        return;
+      }
+      setPreorderError(result.error || 'Checkout is unavailable right now. Please try again.');
+      posthog.capture('preorder_checkout_failed', { error: result.error, status_code: response.status });
+    } catch (error) {
+      console.error('Checkout error:', error);
+      setPreorderError('Failed to connect. Please check your internet connection and try again.');
+    }
+
+    setIsCheckingOut(false);
   };
 
   return (
@@ -350,9 +381,10 @@ export default function LandingPage() {
               </form>
             ) : (
               <p className="text-xl text-green-400 font-semibold">
-                Thanks! Your arteries quiver with anticipation. We'll be in touch (if the AI doesn't achieve sentience first).
+                Almost there! Check your inbox and click the link to confirm. Your arteries quiver with anticipation.
               </p>
             )}
+            {referral && <ReferralPanel referral={referral} />}
           </div>
         </section>
 
@@ -366,10 +398,12 @@ export default function LandingPage() {
             </p>
             <button
               onClick={handlePreorderClick}
-              className="px-12 py-5 bg-yellow-500 hover:bg-yellow-600 text-gray-900 rounded-lg text-2xl font-bold transition-colors shadow-2xl transform hover:scale-105"
+              disabled={isCheckingOut}
+              className="px-12 py-5 bg-yellow-500 hover:bg-yellow-600 text-gray-900 rounded-lg text-2xl font-bold transition-colors shadow-2xl transform hover:scale-105 disabled:opacity-60"
             >
-              Fund the Absurdity!
+              {isCheckingOut ? 'Summoning Stripe...' : 'Fund the Absurdity!'}
             </button>
+            {preorderError && <p className="mt-4 text-red-400">{preorderError}</p>}
           </div>
         </section>
 
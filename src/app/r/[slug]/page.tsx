@@ -0,0 +1,117 @@
+/**
+ * @file src/app/r/[slug]/page.tsx
+ * @description Permalink page for a stored recipe, e.g. `/r/deep-fried-mayonnaise-mayhem-k3x9q2ab`. This is the link copied
+ * by the "Copy link" button on `RecipeCard`, so it must work for anyone who receives it.
+ * @requires next For the `Metadata` type.
+ * @requires react For `cache`, to share one database lookup between `generateMetadata` and the page.
+ * @requires next/navigation For `notFound` and `permanentRedirect`.
+ * @requires next/link For client-side navigation back to the generator.
+ * @requires react-hot-toast For the toast container used by RecipeCard.
+ * @requires @/lib/recipes For loading the recipe by slug and its remix family.
+ * @requires @/lib/auth For the signed-in user, who can leave a testimonial.
+ * @requires ../../components/RecipeCard For rendering the recipe.
+ * @requires ../../components/RecipeFamilyTree For showing the recipe's remixes and the recipe it was remixed from.
+ * @requires ../../components/TestimonialForm For submitting a testimonial about the recipe.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import type { Metadata } from "next"; // Type definition for Next.js page metadata.
+import Link from "next/link"; // For client-side navigation.
+import { cache } from "react"; // Request-scoped memoisation.
+import { notFound, permanentRedirect } from "next/navigation"; // Next.js routing helpers.
+import { Toaster } from "react-hot-toast"; // Component for displaying toast notifications.
+import { getRecipeBySlug, getRecipeFamily, type RecipeFamilyNode } from "@/lib/recipes"; // Recipe data access.
+import { getSessionUser } from "@/lib/auth"; // Sessions.
+import RecipeCard from "../../components/RecipeCard"; // Component for displaying the recipe details.
+import RecipeFamilyTree from "../../components/RecipeFamilyTree"; // Component for displaying the remix lineage.
+import TestimonialForm from "../../components/TestimonialForm"; // Testimonial submission form.
+
+/**
+ * @typedef {object} Props
+ * @description Props for the permalink page. In Next.js 15, `params` is a promise.
+ */
+interface Props {
+  params: Promise<{ slug: string }>;
+}
+
+/**
+ * @function loadRecipe
+ * @description Loads a recipe by slug, memoised per request so metadata and page rendering hit the database once.
+ */
+const loadRecipe = cache(getRecipeBySlug);
+
+/**
+ * @async
+ * @function generateMetadata
+ * @description Per-recipe title, description and social card metadata, so shared links unfurl with the recipe instead of
+ * the generic site title. The card images themselves come from the sibling `opengraph-image.tsx` and `twitter-image.tsx`.
+ * @param {Props} props - The route params.
+ * @returns {Promise<Metadata>} The page metadata; empty for unknown slugs, which render the not-found page anyway.
+ */
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { slug } = await params;
+  const recipe = await loadRecipe(slug);
+  if (!recipe) return {};
+
+  const title = `${recipe.title} | RecipeWreck`;
+  const url = `/r/${recipe.slug ?? slug}`;
+  return {
+    title,
+    description: recipe.description,
+    alternates: { canonical: url },
+    openGraph: { type: "article", siteName: "RecipeWreck", title, description: recipe.description, url },
+    twitter: { card: "summary_large_image", title, description: recipe.description },
+  };
+}
+
+/**
+ * @component RecipePermalinkPage
+ * @description Server-rendered recipe page. This is a Server Component so the recipe is read straight from MongoDB and the
+ * full card is present in the initial HTML, which is what link previews and first-time visitors see.
+ * Only the short id at the end of the slug is used for the lookup; if the title part of the requested slug is out of
+ * date or mangled, the visitor is permanently redirected to the canonical slug. If the recipe has been remixed, or is itself
+ * a remix, its family tree is shown below the card; a failure to load the tree just hides it. Signed-in visitors get a
+ * form to leave a testimonial; everyone else gets a link to sign in first.
+ * @componentType Server
+ * @param {Props} props - The route params.
+ * @returns {Promise<JSX.Element>} The recipe page.
+ * @throws Renders the not-found page for unknown or malformed slugs.
+ */
+export default async function RecipePermalinkPage({ params }: Props) {
+  const { slug } = await params;
+  const recipe = await loadRecipe(slug);
+  if (!recipe) {
+    notFound();
+  }
+  if (recipe.slug && recipe.slug !== slug) {
+    permanentRedirect(`/r/${recipe.slug}`);
+  }
+
+  let family: RecipeFamilyNode | null = null;
+  try {
+    family = await getRecipeFamily(recipe.id);
+  } catch (err) {
+    console.error(`Failed to load the remix family of ${recipe.id}`, err);
+  }
+  const user = await getSessionUser();
+
+  return (
+    <div className="min-h-screen flex flex-col items-center p-6 gap-8 bg-gradient-to-br from-purple-50 to-fuchsia-50 dark:from-gray-800 dark:to-gray-900">
+      <h1 className="text-3xl font-bold mt-4">RecipeWreck</h1>
+      <RecipeCard recipe={recipe} />
+      {family && family.children.length > 0 && <RecipeFamilyTree root={family} currentId={recipe.id} />}
+      {user ? (
+        <TestimonialForm recipeId={recipe.id} defaultAuthor={user.name ?? ""} />
+      ) : (
+        <Link href={`/login?next=${encodeURIComponent(`/r/${recipe.slug ?? slug}`)}`} className="text-purple-600 underline">
+          Sign in to leave a testimonial
+        </Link>
+      )}
+      <Link href="/recipe-generator" className="px-4 py-2 bg-purple-600 text-white rounded-md">
+        Create Your Own Abomination
+      </Link>
+      <Toaster position="top-right" />
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+/**
+ * @file src/app/r/[slug]/twitter-image.tsx
+ * @description Twitter card image for a recipe permalink. Next.js adds the matching meta tags automatically; the card itself
+ * is rendered by `renderRecipeShareImage` and is identical to the one in `opengraph-image.tsx`.
+ * @requires @/lib/shareImage For rendering the card.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import { renderRecipeShareImage, SHARE_IMAGE_ALT, SHARE_IMAGE_SIZE } from "@/lib/shareImage"; // Social card renderer.
+
+export const alt = SHARE_IMAGE_ALT;
+export const size = SHARE_IMAGE_SIZE;
+export const contentType = "image/png";
+
+/**
+ * @async
+ * @function Image
+ * @description Renders the Twitter card image for the recipe.
+ * @param {object} props - The route params. In Next.js 15, `params` is a promise.
+ * @returns {Promise<ImageResponse>} The PNG.
+ */
+export default async function Image({ params }: { params: Promise<{ slug: string }> }) {
+  const { slug } = await params;
+  return renderRecipeShareImage(slug);
+}
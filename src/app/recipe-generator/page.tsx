@@ -5,6 +5,7 @@
  * @requires ../components/PromptInput For the recipe prompt input component.
  * @requires ../components/RecipeCard For displaying the generated recipe.
  * @requires react-hot-toast For displaying notifications.
+ * @requires next/link For links to the meal planner, shopping list and account.
  * @author Cascade
  * @date 2025-06-12
  */
@@ -15,22 +16,60 @@ import { useState } from "react"; // React hook for managing component state.
 import PromptInput, { PromptResult } from "../components/PromptInput"; // Component for user input and AI prompt submission. PromptResult is the type for the recipe data.
 import RecipeCard from "../components/RecipeCard"; // Component for displaying the generated recipe details.
 import { Toaster } from "react-hot-toast"; // Component for displaying toast notifications.
+import Link from "next/link"; // Client-side navigation.
 
 /**
  * @component RecipeGeneratorPage
  * @description The recipe generation page for the RecipeWreck application. It renders the prompt input field
- * and the recipe card once a recipe is generated. It manages the state of the current recipe.
+ * and the recipe card as soon as the first streamed content arrives. It manages the state of the current recipe and whether
+ * it is still being generated.
  * @componentType Client
  * @returns {JSX.Element} The JSX for the recipe generator page.
  */
 export default function RecipeGeneratorPage() {
     const [recipe, setRecipe] = useState<PromptResult | null>(null); // State to hold the generated recipe data. It's null initially.
+    const [generating, setGenerating] = useState(false); // True while the recipe is still streaming in.
+
+  /**
+   * @function handleResult
+   * @description Receives each progressive update from PromptInput and tracks whether generation has finished.
+   * @param {PromptResult} next - The recipe generated so far.
+   * @param {boolean} done - Whether the final event has been received.
+   */
+  const handleResult = (next: PromptResult, done: boolean) => {
+    setRecipe(next);
+    setGenerating(!done);
+  };
+
+  /**
+   * @function handleError
+   * @description Discards a partially streamed recipe when generation fails.
+   */
+  const handleError = () => {
+    setRecipe(null);
+    setGenerating(false);
+  };
+
+  /**
+   * @function handleRemix
+   * @description Replaces the current recipe with a finished remix of it.
+   * @param {PromptResult} remix - The remixed recipe.
+   */
+  const handleRemix = (remix: PromptResult) => {
+    setRecipe(remix);
+    setGenerating(false);
+  };
 
   return (
     <div className="min-h-screen flex flex-col items-center p-6 gap-8 bg-gradient-to-br from-purple-50 to-fuchsia-50 dark:from-gray-800 dark:to-gray-900">
       <h1 className="text-3xl font-bold mt-4">RecipeWreck - Generator</h1>
-      <PromptInput onResult={setRecipe} />
-      {recipe && <RecipeCard recipe={recipe} />}
+      <nav className="flex gap-4 text-sm">
+        <Link href="/meal-planner" className="text-purple-600 underline">Meal planner</Link>
+        <Link href="/shopping-list" className="text-purple-600 underline">Shopping list</Link>
+        <Link href="/account" className="text-purple-600 underline">Account</Link>
+      </nav>
+      <PromptInput onResult={handleResult} onError={handleError} />
+      {recipe && <RecipeCard recipe={recipe} loading={generating} onRemix={handleRemix} />}
       <Toaster position="top-right" />
     </div>
   );
@@ -0,0 +1,71 @@
+/**
+ * @file src/app/shopping-list/[id]/page.tsx
+ * @description Shareable page for a stored shopping list, e.g. `/shopping-list/k3x9q2ab`.
+ * @requires next For the `Metadata` type.
+ * @requires react For `cache`, to share one database lookup between `generateMetadata` and the page.
+ * @requires next/navigation For `notFound`.
+ * @requires react-hot-toast For the toast container used by ShoppingListView.
+ * @requires @/lib/shoppingLists For loading the list.
+ * @requires ../../components/ShoppingListView For rendering the list.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import type { Metadata } from "next"; // Type definition for Next.js page metadata.
+import { cache } from "react"; // Request-scoped memoisation.
+import { notFound } from "next/navigation"; // Next.js routing helpers.
+import { Toaster } from "react-hot-toast"; // Component for displaying toast notifications.
+import { getShoppingList } from "@/lib/shoppingLists"; // Shopping list data access.
+import ShoppingListView from "../../components/ShoppingListView"; // Interactive list.
+
+/**
+ * @typedef {object} Props
+ * @description Props for the list page. In Next.js 15, `params` is a promise.
+ */
+interface Props {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * @function loadList
+ * @description Loads a list by id, memoised per request so metadata and page rendering hit the database once.
+ */
+const loadList = cache(getShoppingList);
+
+/**
+ * @async
+ * @function generateMetadata
+ * @description Titles the page after the list. Lists are private-ish links, so they are kept out of search results.
+ * @param {Props} props - The route params.
+ * @returns {Promise<Metadata>} The page metadata.
+ */
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { id } = await params;
+  const list = await loadList(id);
+  return { title: list ? `${list.title} | RecipeWreck` : "RecipeWreck", robots: { index: false } };
+}
+
+/**
+ * @component ShoppingListPage
+ * @description Server-rendered shopping list, so a shared link shows the list straight away; checking items off happens
+ * in `ShoppingListView`.
+ * @componentType Server
+ * @param {Props} props - The route params.
+ * @returns {Promise<JSX.Element>} The list page.
+ * @throws Renders the not-found page for unknown or malformed ids.
+ */
+export default async function ShoppingListPage({ params }: Props) {
+  const { id } = await params;
+  const list = await loadList(id);
+  if (!list) {
+    notFound();
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col items-center p-6 gap-6 bg-gradient-to-br from-purple-50 to-fuchsia-50 dark:from-gray-800 dark:to-gray-900">
+      <h1 className="text-3xl font-bold mt-4">RecipeWreck</h1>
+      <ShoppingListView list={list} />
+      <Toaster position="top-right" />
+    </div>
+  );
+}
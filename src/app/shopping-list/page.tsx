@@ -0,0 +1,149 @@
+/**
+ * @file src/app/shopping-list/page.tsx
+ * @description Builds a shopping list from the recipes the visitor picked with "Add to shopping list". The merged list is
+ * stored and opened on its own shareable page.
+ * @requires react For the selection and form state.
+ * @requires next/link For links to the recipes and the generator.
+ * @requires next/navigation For opening the new list.
+ * @requires react-hot-toast For displaying errors.
+ * @requires @/lib/shoppingList For the ShoppingListRecipe type.
+ * @requires ../components/ShoppingListToggle For the stored selection.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+"use client";
+
+import { useEffect, useState } from "react"; // React hooks for the selection and form state.
+import Link from "next/link"; // Client-side navigation.
+import { useRouter } from "next/navigation"; // Navigation to the new list.
+import toast, { Toaster } from "react-hot-toast"; // Toast notifications.
+import type { ShoppingListRecipe } from "@/lib/shoppingList"; // Selected recipe shape.
+import { loadShoppingSelection, saveShoppingSelection } from "../components/ShoppingListToggle"; // Stored selection.
+
+/**
+ * @component ShoppingListBuilderPage
+ * @description Lists the selected recipes, lets the visitor drop some and name the list, then creates it through
+ * `POST /api/shopping-lists`. The selection is cleared once the list exists.
+ * @componentType Client
+ * @returns {JSX.Element} The builder page.
+ */
+export default function ShoppingListBuilderPage() {
+  const router = useRouter();
+  const [selection, setSelection] = useState<ShoppingListRecipe[]>([]);
+  const [title, setTitle] = useState("");
+  const [system, setSystem] = useState<"" | "imperial" | "metric">("");
+  const [creating, setCreating] = useState(false);
+
+  useEffect(() => {
+    setSelection(loadShoppingSelection());
+  }, []);
+
+  /**
+   * @function handleRemove
+   * @description Drops a recipe from the selection.
+   * @param {string} id - The recipe id.
+   */
+  const handleRemove = (id: string) => {
+    const next = selection.filter((recipe) => recipe.id !== id);
+    saveShoppingSelection(next);
+    setSelection(next);
+  };
+
+  /**
+   * @async
+   * @function handleCreate
+   * @description Creates the list and opens it.
+   */
+  const handleCreate = async () => {
+    setCreating(true);
+    try {
+      const res = await fetch("/api/shopping-lists", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          recipeIds: selection.map((recipe) => recipe.id),
+          title: title.trim() || undefined,
+          system: system || null,
+        }),
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) {
+        toast.error(data?.error ?? "Could not create the shopping list.");
+        return;
+      }
+      saveShoppingSelection([]);
+      router.push(`/shopping-list/${data.id}`);
+    } catch (err) {
+      console.error("Failed to create shopping list", err);
+      toast.error("Could not create the shopping list.");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col items-center p-6 gap-6 bg-gradient-to-br from-purple-50 to-fuchsia-50 dark:from-gray-800 dark:to-gray-900">
+      <h1 className="text-3xl font-bold mt-4">Shopping List</h1>
+      <div className="bg-white dark:bg-gray-800 shadow-lg rounded-lg p-6 w-full max-w-xl">
+        {selection.length === 0 ? (
+          <p className="text-center">
+            Nothing picked yet. Use &quot;Add to shopping list&quot; on any saved recipe, then come back here.
+          </p>
+        ) : (
+          <>
+            <h2 className="text-xl font-semibold mb-2">Recipes</h2>
+            <ul className="mb-4 divide-y divide-gray-200 dark:divide-gray-700">
+              {selection.map((recipe) => (
+                <li key={recipe.id} className="flex items-center justify-between py-2">
+                  {recipe.slug ? (
+                    <Link href={`/r/${recipe.slug}`} className="text-purple-600 underline">
+                      {recipe.title}
+                    </Link>
+                  ) : (
+                    <span>{recipe.title}</span>
+                  )}
+                  <button onClick={() => handleRemove(recipe.id)} className="text-sm text-gray-500 hover:text-red-600">
+                    Remove
+                  </button>
+                </li>
+              ))}
+            </ul>
+            <div className="flex flex-col sm:flex-row gap-2 mb-4">
+              <input
+                type="text"
+                placeholder="Shopping list"
+                value={title}
+                maxLength={100}
+                onChange={(e) => setTitle(e.target.value)}
+                className="flex-1 px-3 py-2 border rounded-md"
+                aria-label="List title"
+              />
+              <select
+                value={system}
+                onChange={(e) => setSystem(e.target.value as "" | "imperial" | "metric")}
+                className="px-3 py-2 border rounded-md"
+                aria-label="Units"
+              >
+                <option value="">Units as written</option>
+                <option value="imperial">US units</option>
+                <option value="metric">Metric</option>
+              </select>
+            </div>
+            <button
+              onClick={handleCreate}
+              disabled={creating}
+              className="w-full py-2 bg-purple-600 text-white rounded-md disabled:opacity-50"
+            >
+              {creating ? "Merging…" : `Build list from ${selection.length} recipe${selection.length === 1 ? "" : "s"}`}
+            </button>
+          </>
+        )}
+      </div>
+      <Link href="/recipe-generator" className="text-purple-600 underline">
+        Back to the generator
+      </Link>
+      <Toaster position="top-right" />
+    </div>
+  );
+}
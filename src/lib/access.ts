@@ -0,0 +1,111 @@
+/**
+ * @file src/lib/access.ts
+ * @description Works out a visitor's access tier from their session, their paid entitlements and the waitlist cookie,
+ * for routes and server components that enforce the plans in `@/lib/tiers`.
+ * @requires next/headers For reading the waitlist cookie.
+ * @requires next/server For the response types.
+ * @requires @/lib/auth For the signed-in user.
+ * @requires @/lib/billing For paid entitlements.
+ * @requires @/lib/signing For the signed waitlist cookie.
+ * @requires @/lib/tiers For the plans.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import { cookies } from 'next/headers';
+import { NextResponse } from 'next/server';
+import { getSessionUser, type AuthUser } from '@/lib/auth';
+import { hasEntitlement } from '@/lib/billing';
+import { signPayload, verifySignedPayload } from '@/lib/signing';
+import { FEATURE_LABELS, requiredTierFor, TIER_PLANS, type Tier, type TierFeature, type TierPlan } from '@/lib/tiers';
+
+/**
+ * @constant WAITLIST_COOKIE
+ * @description Name of the cookie that marks a browser as having joined the waitlist.
+ */
+export const WAITLIST_COOKIE = 'rw_waitlist';
+
+/**
+ * @constant WAITLIST_COOKIE_TTL_MS
+ * @description How long the waitlist cookie (and its signature) lasts: one year.
+ */
+const WAITLIST_COOKIE_TTL_MS = 365 * 24 * 60 * 60 * 1000;
+
+/**
+ * A visitor's access.
+ * @interface Access
+ * @property {Tier} tier - Their tier.
+ * @property {TierPlan} plan - What it gets.
+ * @property {AuthUser | null} user - The signed-in user, if any.
+ */
+export interface Access {
+  tier: Tier;
+  plan: TierPlan;
+  user: AuthUser | null;
+}
+
+/**
+ * Resolves the current request's tier. Never throws: if entitlements can't be loaded a signed-in user is treated as
+ * `free`, so a database hiccup costs paying users some quota rather than failing their request.
+ * @async
+ * @returns {Promise<Access>} The visitor's access.
+ */
+export async function getAccess(): Promise<Access> {
+  const user = await getSessionUser();
+  let tier: Tier;
+  if (user) {
+    const paid = await hasEntitlement(user, 'lifetime').catch((err) => {
+      console.error('Failed to load entitlements', err);
+      return false;
+    });
+    tier = paid ? 'lifetime' : 'free';
+  } else {
+    tier = (await getWaitlistEmail()) ? 'waitlist' : 'anonymous';
+  }
+  return { tier, plan: TIER_PLANS[tier], user };
+}
+
+/**
+ * Reads the email from the current request's waitlist cookie.
+ * @async
+ * @returns {Promise<string | null>} The email the browser confirmed, or null without a valid cookie.
+ */
+export async function getWaitlistEmail(): Promise<string | null> {
+  return verifySignedPayload<{ email: string }>((await cookies()).get(WAITLIST_COOKIE)?.value)?.email ?? null;
+}
+
+/**
+ * Marks the browser as on the waitlist.
+ * @param {NextResponse} res - The outgoing response.
+ * @param {string} email - The email that joined.
+ * @returns {NextResponse} The same response, for chaining.
+ */
+export function setWaitlistCookie<T extends NextResponse>(res: T, email: string): T {
+  res.cookies.set(WAITLIST_COOKIE, signPayload({ email }, WAITLIST_COOKIE_TTL_MS), {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: WAITLIST_COOKIE_TTL_MS / 1000,
+  });
+  return res;
+}
+
+/**
+ * Builds the 403 response for a feature the visitor's tier doesn't include.
+ * @param {TierFeature} feature - The feature.
+ * @param {Access} access - The visitor's access.
+ * @returns {NextResponse} `{ error, feature, tier, requiredTier }`.
+ */
+export function featureUnavailableResponse(feature: TierFeature, access: Access): NextResponse {
+  const requiredTier = requiredTierFor(feature);
+  return NextResponse.json(
+    {
+      error: `${FEATURE_LABELS[feature]} needs the ${TIER_PLANS[requiredTier].label} plan or better`,
+      feature,
+      tier: access.tier,
+      requiredTier,
+    },
+    { status: 403 }
+  );
+}
@@ -0,0 +1,47 @@
+/**
+ * @file src/lib/auth/admin.ts
+ * @description Staff access for moderation tools. Admins are the accounts whose emails are listed in `ADMIN_EMAILS`
+ * (comma-separated); the email must be verified, so listing an address doesn't hand it to whoever signs up with it
+ * first.
+ * @requires next/navigation For hiding admin pages from everyone else.
+ * @requires next/server For the response types.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import { notFound } from 'next/navigation';
+import { NextResponse } from 'next/server';
+import { getSessionUser } from './session';
+import type { AuthUser } from './types';
+
+/**
+ * Checks whether a user is an admin.
+ * @param {AuthUser | null} user - The user.
+ * @returns {boolean} True for a verified email listed in `ADMIN_EMAILS`.
+ */
+export function isAdmin(user: AuthUser | null): user is AuthUser {
+  if (!user?.emailVerified) return false;
+  const admins = (process.env.ADMIN_EMAILS ?? '').split(',').map((email) => email.trim().toLowerCase());
+  return admins.includes(user.email.toLowerCase());
+}
+
+/**
+ * Returns the signed-in admin for an admin page. Anyone else gets the not-found page, so the page's existence isn't
+ * advertised.
+ * @async
+ * @returns {Promise<AuthUser>} The admin.
+ * @throws Renders the not-found page for visitors who aren't admins.
+ */
+export async function requireAdmin(): Promise<AuthUser> {
+  const user = await getSessionUser();
+  if (!isAdmin(user)) notFound();
+  return user;
+}
+
+/**
+ * Builds the 403 response for an API route only admins may use.
+ * @returns {NextResponse} `{ error: "Admins only" }`.
+ */
+export function forbiddenResponse(): NextResponse {
+  return NextResponse.json({ error: 'Admins only' }, { status: 403 });
+}
@@ -0,0 +1,25 @@
+/**
+ * @file src/lib/auth/index.ts
+ * @description Entry point for accounts and sign-in: email+password and magic-link authentication, and the cookie
+ * session helpers routes and pages use to find the signed-in user, throttles for the sign-in forms, and the admin
+ * check for staff tools. Server-only.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+export type { AuthUser } from './types';
+export { PASSWORD_MAX_LENGTH, PASSWORD_MIN_LENGTH } from './password';
+export { authenticateWithPassword, getUserById } from './users';
+export {
+  createSession,
+  endSession,
+  getSessionUser,
+  requireUser,
+  SESSION_COOKIE,
+  setSessionCookie,
+  unauthorizedResponse,
+  type NewSession,
+} from './session';
+export { redeemMagicLink, requestSignup, safeNextPath, sendMagicLink } from './magicLink';
+export { throttleAuth, type AuthAction } from './throttle';
+export { forbiddenResponse, isAdmin, requireAdmin } from './admin';
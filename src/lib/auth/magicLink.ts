@@ -0,0 +1,178 @@
+/**
+ * @file src/lib/auth/magicLink.ts
+ * @description Passwordless sign-in. A short-lived, single-use link is emailed; following it proves the address and
+ * signs in, creating the account on first use. Password sign-ups are confirmed the same way.
+ * @requires @/lib/mongodb Database connection utility
+ * @requires @/models/LoginToken LoginToken Mongoose model
+ * @requires @/lib/mail For sending the link.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import dbConnect from '@/lib/mongodb';
+import LoginToken from '@/models/LoginToken';
+import { sendMail } from '@/lib/mail';
+import { hashPassword } from './password';
+import { generateToken, hashToken } from './tokens';
+import type { AuthUser } from './types';
+import { findOrCreateVerifiedUser, isEmailRegistered } from './users';
+
+/**
+ * @constant MAGIC_LINK_TTL_MS
+ * @description How long a link works: 15 minutes.
+ */
+const MAGIC_LINK_TTL_MS = 15 * 60 * 1000;
+
+/**
+ * Checks that a post-sign-in destination is a path on this site, so links can't redirect to another origin.
+ * @param {string | null | undefined} next - The requested destination.
+ * @returns {string} The destination, or `/` if it isn't a local path.
+ */
+export const safeNextPath = (next: string | null | undefined): string =>
+  next && next.startsWith('/') && !next.startsWith('//') && !next.startsWith('/\\') ? next : '/';
+
+/**
+ * Stores a single-use login token and returns the link that redeems it.
+ * @async
+ * @param {object} input - The token.
+ * @param {string} input.email - The address the link will be sent to.
+ * @param {string} input.origin - The site origin the link points at.
+ * @param {string} [input.next] - Where to go after signing in.
+ * @param {string | null} [input.passwordHash] - For sign-up confirmations, the chosen password's hash.
+ * @param {string | null} [input.name] - For sign-up confirmations, the display name.
+ * @returns {Promise<string>} The link.
+ * @throws {Error} If the database is unavailable.
+ */
+async function createLoginLink({
+  email,
+  origin,
+  next,
+  passwordHash = null,
+  name = null,
+}: {
+  email: string;
+  origin: string;
+  next?: string;
+  passwordHash?: string | null;
+  name?: string | null;
+}): Promise<string> {
+  await dbConnect();
+  const token = generateToken();
+  await LoginToken.create({
+    tokenHash: hashToken(token),
+    email,
+    next: safeNextPath(next),
+    passwordHash,
+    name,
+    expiresAt: new Date(Date.now() + MAGIC_LINK_TTL_MS),
+  });
+  return `${origin}/api/auth/magic-link/verify?token=${token}`;
+}
+
+/**
+ * Emails a sign-in link.
+ * @async
+ * @param {object} input - The request.
+ * @param {string} input.email - Where to send the link.
+ * @param {string} input.origin - The site origin the link points at, e.g. `https://recipewreck.com`.
+ * @param {string} [input.next] - Where to go after signing in.
+ * @returns {Promise<void>}
+ * @throws {Error} If the database or the mail transport fails.
+ */
+export async function sendMagicLink({ email, origin, next }: { email: string; origin: string; next?: string }): Promise<void> {
+  const link = await createLoginLink({ email, origin, next });
+  await sendMail({
+    to: email,
+    subject: 'Your RecipeWreck sign-in link',
+    text: [
+      'Click the link below to sign in to RecipeWreck. It works once and expires in 15 minutes.',
+      '',
+      link,
+      '',
+      "If you didn't ask for this, you can ignore this email.",
+    ].join('\n'),
+    html: `<p>Click the link below to sign in to RecipeWreck. It works once and expires in 15 minutes.</p><p><a href="${link}">Sign in to RecipeWreck</a></p><p>If you didn't ask for this, you can ignore this email.</p>`,
+  });
+}
+
+/**
+ * Starts a password sign-up. Nothing is created until the email is proven: a new address is sent a confirmation link
+ * that creates the account with the chosen password, and an address that already has an account is told so and sent
+ * a sign-in link instead. The caller can't tell the two apart, so sign-up doesn't reveal which emails are registered.
+ * @async
+ * @param {object} input - The sign-up.
+ * @param {string} input.email - The email, lowercased.
+ * @param {string} input.password - The password; length limits are enforced by the route.
+ * @param {string | null} [input.name] - An optional display name.
+ * @param {string} input.origin - The site origin the link points at.
+ * @param {string} [input.next] - Where to go after signing in.
+ * @returns {Promise<void>}
+ * @throws {Error} If the database or the mail transport fails.
+ */
+export async function requestSignup({
+  email,
+  password,
+  name = null,
+  origin,
+  next,
+}: {
+  email: string;
+  password: string;
+  name?: string | null;
+  origin: string;
+  next?: string;
+}): Promise<void> {
+  // Hash either way, so both outcomes take as long.
+  const passwordHash = await hashPassword(password);
+  if (await isEmailRegistered(email)) {
+    const link = await createLoginLink({ email, origin, next });
+    await sendMail({
+      to: email,
+      subject: 'You already have a RecipeWreck account',
+      text: [
+        'Someone tried to create a RecipeWreck account with this email, but you already have one. Click the link below to sign in instead. It works once and expires in 15 minutes.',
+        '',
+        link,
+        '',
+        "If it wasn't you, you can ignore this email; your account hasn't changed.",
+      ].join('\n'),
+      html: `<p>Someone tried to create a RecipeWreck account with this email, but you already have one. Click the link below to sign in instead. It works once and expires in 15 minutes.</p><p><a href="${link}">Sign in to RecipeWreck</a></p><p>If it wasn't you, you can ignore this email; your account hasn't changed.</p>`,
+    });
+    return;
+  }
+
+  const link = await createLoginLink({ email, origin, next, passwordHash, name });
+  await sendMail({
+    to: email,
+    subject: 'Confirm your RecipeWreck account',
+    text: [
+      'Click the link below to confirm your email and finish creating your RecipeWreck account. It works once and expires in 15 minutes.',
+      '',
+      link,
+      '',
+      "If you didn't sign up, don't click it; no account is created unless you do.",
+    ].join('\n'),
+    html: `<p>Click the link below to confirm your email and finish creating your RecipeWreck account. It works once and expires in 15 minutes.</p><p><a href="${link}">Confirm my account</a></p><p>If you didn't sign up, don't click it; no account is created unless you do.</p>`,
+  });
+}
+
+/**
+ * Redeems a sign-in link, creating the account from a pending sign-up if the link confirms one. The token is marked used atomically, so a link can't be used twice even by racing requests.
+ * @async
+ * @param {string} token - The token from the link.
+ * @returns {Promise<{ user: AuthUser, next: string } | null>} The signed-in user and where to send them, or null if the
+ * link is unknown, used or expired.
+ * @throws {Error} If the database is unavailable.
+ */
+export async function redeemMagicLink(token: string): Promise<{ user: AuthUser; next: string } | null> {
+  await dbConnect();
+  const now = new Date();
+  const login = await LoginToken.findOneAndUpdate(
+    { tokenHash: hashToken(token), usedAt: null, expiresAt: { $gt: now } },
+    { $set: { usedAt: now } },
+    { new: true }
+  );
+  if (!login) return null;
+  const user = await findOrCreateVerifiedUser(login.email, { passwordHash: login.passwordHash, name: login.name });
+  return { user, next: safeNextPath(login.next) };
+}
@@ -0,0 +1,76 @@
+/**
+ * @file src/lib/auth/password.ts
+ * @description Password hashing with Node's built-in scrypt. Hashes are self-describing
+ * (`scrypt$<N>$<r>$<p>$<salt>$<hash>`), so the cost parameters can be raised later without breaking existing accounts.
+ * @requires crypto - Node's crypto module, for scrypt and constant-time comparison.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+
+/**
+ * @constant PASSWORD_MIN_LENGTH
+ * @description The shortest password accepted at sign-up.
+ */
+export const PASSWORD_MIN_LENGTH = 8;
+
+/**
+ * @constant PASSWORD_MAX_LENGTH
+ * @description The longest password accepted, so hashing can't be used to burn CPU.
+ */
+export const PASSWORD_MAX_LENGTH = 200;
+
+/**
+ * @constant SCRYPT_PARAMS
+ * @description Cost parameters for new hashes (the OWASP-recommended minimum) and the derived key length.
+ */
+const SCRYPT_PARAMS = { N: 2 ** 15, r: 8, p: 1, keyLength: 64 };
+
+/**
+ * Promise wrapper around `crypto.scrypt`.
+ * @param {string} password - The password.
+ * @param {Buffer} salt - The salt.
+ * @param {number} keyLength - Bytes to derive.
+ * @param {{ N: number, r: number, p: number }} options - Cost parameters.
+ * @returns {Promise<Buffer>} The derived key.
+ */
+const deriveKey = (password: string, salt: Buffer, keyLength: number, options: { N: number; r: number; p: number }): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    // maxmem must cover 128 * N * r bytes, which the default 32 MiB does not at N = 2^15.
+    scrypt(password, salt, keyLength, { ...options, maxmem: 256 * options.N * options.r }, (err, key) =>
+      err ? reject(err) : resolve(key)
+    );
+  });
+
+/**
+ * Hashes a password for storage.
+ * @async
+ * @param {string} password - The plain-text password.
+ * @returns {Promise<string>} The encoded hash.
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const { N, r, p, keyLength } = SCRYPT_PARAMS;
+  const salt = randomBytes(16);
+  const key = await deriveKey(password, salt, keyLength, { N, r, p });
+  return ['scrypt', N, r, p, salt.toString('base64'), key.toString('base64')].join('$');
+}
+
+/**
+ * Checks a password against a stored hash in constant time.
+ * @async
+ * @param {string} password - The plain-text password.
+ * @param {string} stored - The encoded hash from {@link hashPassword}.
+ * @returns {Promise<boolean>} Whether the password matches. Malformed hashes never match.
+ */
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, N, r, p, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'base64');
+  const key = await deriveKey(password, Buffer.from(salt, 'base64'), expected.length, {
+    N: Number(N),
+    r: Number(r),
+    p: Number(p),
+  });
+  return timingSafeEqual(key, expected);
+}
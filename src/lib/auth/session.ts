@@ -0,0 +1,140 @@
+/**
+ * @file src/lib/auth/session.ts
+ * @description Cookie sessions. Signing in stores a Session document and sets an httpOnly cookie holding its token;
+ * {@link getSessionUser} resolves that cookie to the signed-in user in any route handler, server component or server
+ * action, via `next/headers`.
+ * @requires next/headers For reading the session cookie.
+ * @requires next/navigation For redirecting signed-out visitors from protected pages.
+ * @requires next/server For the response types.
+ * @requires @/lib/mongodb Database connection utility
+ * @requires @/models/Session Session Mongoose model
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import { cookies } from 'next/headers';
+import { redirect } from 'next/navigation';
+import { NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import Session from '@/models/Session';
+import { generateToken, hashToken } from './tokens';
+import type { AuthUser } from './types';
+import { getUserById } from './users';
+
+/**
+ * @constant SESSION_COOKIE
+ * @description Name of the session cookie.
+ */
+export const SESSION_COOKIE = 'rw_session';
+
+/**
+ * @constant SESSION_TTL_MS
+ * @description How long a session lasts: 30 days.
+ */
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * A freshly created session, to be set as a cookie with {@link setSessionCookie}.
+ * @interface NewSession
+ * @property {string} token - The session token.
+ * @property {Date} expiresAt - When it expires.
+ */
+export interface NewSession {
+  token: string;
+  expiresAt: Date;
+}
+
+/**
+ * Starts a session for a user.
+ * @async
+ * @param {string} userID - The user.
+ * @param {object} [client] - Where the sign-in came from, kept for the account's session list.
+ * @param {string | null} [client.ip] - The client IP.
+ * @param {string | null} [client.userAgent] - The browser's user agent.
+ * @returns {Promise<NewSession>} The session.
+ * @throws {Error} If the database is unavailable.
+ */
+export async function createSession(
+  userID: string,
+  { ip = null, userAgent = null }: { ip?: string | null; userAgent?: string | null } = {}
+): Promise<NewSession> {
+  await dbConnect();
+  const token = generateToken();
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+  await Session.create({ tokenHash: hashToken(token), userID, expiresAt, ip, userAgent: userAgent?.slice(0, 500) ?? null });
+  return { token, expiresAt };
+}
+
+/**
+ * Sets the session cookie on a response.
+ * @param {NextResponse} res - The outgoing response.
+ * @param {NewSession} session - The session from {@link createSession}.
+ * @returns {NextResponse} The same response, for chaining.
+ */
+export function setSessionCookie<T extends NextResponse>(res: T, session: NewSession): T {
+  res.cookies.set(SESSION_COOKIE, session.token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    expires: session.expiresAt,
+  });
+  return res;
+}
+
+/**
+ * Ends the current session, if any, and clears its cookie.
+ * @async
+ * @param {NextResponse} res - The outgoing response.
+ * @returns {Promise<NextResponse>} The same response, for chaining.
+ * @throws {Error} If the database is unavailable.
+ */
+export async function endSession<T extends NextResponse>(res: T): Promise<T> {
+  const token = (await cookies()).get(SESSION_COOKIE)?.value;
+  if (token) {
+    await dbConnect();
+    await Session.deleteOne({ tokenHash: hashToken(token) });
+  }
+  res.cookies.delete(SESSION_COOKIE);
+  return res;
+}
+
+/**
+ * Returns the signed-in user for the current request. A missing, expired or revoked session, or a database outage,
+ * all count as signed out, so anonymous features keep working when sessions can't be checked.
+ * @async
+ * @returns {Promise<AuthUser | null>} The user, or null if signed out.
+ */
+export async function getSessionUser(): Promise<AuthUser | null> {
+  const token = (await cookies()).get(SESSION_COOKIE)?.value;
+  if (!token) return null;
+  try {
+    await dbConnect();
+    const session = await Session.findOne({ tokenHash: hashToken(token), expiresAt: { $gt: new Date() } });
+    return session ? await getUserById(session.userID) : null;
+  } catch (err) {
+    console.error('Failed to load session', err);
+    return null;
+  }
+}
+
+/**
+ * Returns the signed-in user for a protected page, redirecting signed-out visitors to the login page and back.
+ * @async
+ * @param {string} returnTo - The page's path, to come back to after signing in.
+ * @returns {Promise<AuthUser>} The user.
+ * @throws Redirects to `/login?next=<returnTo>` when signed out.
+ */
+export async function requireUser(returnTo: string): Promise<AuthUser> {
+  const user = await getSessionUser();
+  if (!user) redirect(`/login?next=${encodeURIComponent(returnTo)}`);
+  return user;
+}
+
+/**
+ * Builds the 401 response for an API route that needs a signed-in user.
+ * @returns {NextResponse} `{ error: "Sign in required" }`.
+ */
+export function unauthorizedResponse(): NextResponse {
+  return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+}
@@ -0,0 +1,47 @@
+/**
+ * @file src/lib/auth/throttle.ts
+ * @description Throttles for the sign-in forms. Password attempts are limited per IP and per email, so a password
+ * can't be brute-forced from one address or spread across many; sign-up and link requests send email, so they are
+ * limited the same way to keep the mailer from being used to flood an inbox.
+ * @requires @/lib/rateLimit For the shared throttle store.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import { consumeThrottle } from '@/lib/rateLimit';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+/**
+ * @constant AUTH_THROTTLES
+ * @description Attempts allowed per window, per client IP and per email, for each form.
+ */
+const AUTH_THROTTLES = {
+  login: { windowMs: 15 * MINUTE_MS, perIp: 30, perEmail: 10 },
+  signup: { windowMs: HOUR_MS, perIp: 10, perEmail: 3 },
+  magicLink: { windowMs: HOUR_MS, perIp: 20, perEmail: 5 },
+} as const;
+
+/**
+ * @typedef {'login' | 'signup' | 'magicLink'} AuthAction
+ * @description A throttled form.
+ */
+export type AuthAction = keyof typeof AUTH_THROTTLES;
+
+/**
+ * Counts an attempt at a sign-in form.
+ * @async
+ * @param {AuthAction} action - The form.
+ * @param {object} client - Who is attempting it.
+ * @param {string} client.ip - The client IP, from `@/lib/clientIdentity`.
+ * @param {string} client.email - The email entered, lowercased.
+ * @returns {Promise<number>} Seconds until another attempt is allowed, or 0 if this one was allowed.
+ */
+export async function throttleAuth(action: AuthAction, { ip, email }: { ip: string; email: string }): Promise<number> {
+  const { windowMs, perIp, perEmail } = AUTH_THROTTLES[action];
+  return consumeThrottle([
+    { key: `${action}:ip:${ip}`, max: perIp, windowMs },
+    { key: `${action}:email:${email}`, max: perEmail, windowMs },
+  ]);
+}
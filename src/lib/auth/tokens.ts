@@ -0,0 +1,23 @@
+/**
+ * @file src/lib/auth/tokens.ts
+ * @description Random bearer tokens for sessions and magic links. Tokens are given to the browser; only their SHA-256
+ * hashes are stored.
+ * @requires crypto - Node's crypto module, for random bytes and hashing.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import { createHash, randomBytes } from 'crypto';
+
+/**
+ * Generates a URL-safe random token with 256 bits of entropy.
+ * @returns {string} The token, base64url.
+ */
+export const generateToken = (): string => randomBytes(32).toString('base64url');
+
+/**
+ * Hashes a token for storage and lookup.
+ * @param {string} token - The token.
+ * @returns {string} SHA-256, hex.
+ */
+export const hashToken = (token: string): string => createHash('sha256').update(token).digest('hex');
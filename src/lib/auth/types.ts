@@ -0,0 +1,25 @@
+/**
+ * @file src/lib/auth/types.ts
+ * @description Shared shapes for accounts and sign-in.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+/**
+ * The signed-in user, as exposed to routes and pages. Never includes the password hash.
+ * @interface AuthUser
+ * @property {string} id - The user id; this is the `userID` recipes, plans and limits are attributed to.
+ * @property {string} email - The sign-in email.
+ * @property {string | null} name - The display name, if set.
+ * @property {boolean} emailVerified - Whether the email has been proven by following a magic link.
+ * @property {boolean} hasPassword - Whether the account can sign in with a password.
+ * @property {string} createdAt - ISO creation timestamp.
+ */
+export interface AuthUser {
+  id: string;
+  email: string;
+  name: string | null;
+  emailVerified: boolean;
+  hasPassword: boolean;
+  createdAt: string;
+}
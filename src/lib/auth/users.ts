@@ -0,0 +1,126 @@
+/**
+ * @file src/lib/auth/users.ts
+ * @description Data access for user accounts: password sign-in and the lookups sessions and magic links need. Accounts
+ * are only created once their email is proven, by {@link findOrCreateVerifiedUser}.
+ * Emails are compared lowercased.
+ * @requires mongoose - For ObjectId validation.
+ * @requires @/lib/mongodb Database connection utility
+ * @requires @/models/User User Mongoose model
+ * @requires @/models/Session Session Mongoose model
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import { isValidObjectId } from 'mongoose';
+import dbConnect from '@/lib/mongodb';
+import User, { type IUser } from '@/models/User';
+import Session from '@/models/Session';
+import { hashPassword, verifyPassword } from './password';
+import type { AuthUser } from './types';
+
+/**
+ * Maps a User document to the shape exposed to routes and pages.
+ * @param {IUser} doc - The document.
+ * @returns {AuthUser} The user, without the password hash.
+ */
+export const toAuthUser = (doc: IUser): AuthUser => ({
+  id: String(doc._id),
+  email: doc.email,
+  name: doc.name ?? null,
+  emailVerified: Boolean(doc.emailVerifiedAt),
+  hasPassword: Boolean(doc.passwordHash),
+  createdAt: doc.createdAt.toISOString(),
+});
+
+/**
+ * A hash checked against when the email is unknown, so a failed sign-in takes as long either way and response times
+ * don't reveal which emails have accounts. Computed on first use.
+ */
+let dummyHash: Promise<string> | null = null;
+
+/**
+ * Checks whether an email has an account.
+ * @async
+ * @param {string} email - The email.
+ * @returns {Promise<boolean>} True if it is registered.
+ * @throws {Error} If the database is unavailable.
+ */
+export async function isEmailRegistered(email: string): Promise<boolean> {
+  await dbConnect();
+  return Boolean(await User.exists({ email: email.trim().toLowerCase() }));
+}
+
+/**
+ * Checks an email and password.
+ * @async
+ * @param {string} email - The email.
+ * @param {string} password - The password.
+ * @returns {Promise<AuthUser | null>} The user, or null if the email is unknown, has no password, or the password is wrong.
+ * @throws {Error} If the database is unavailable.
+ */
+export async function authenticateWithPassword(email: string, password: string): Promise<AuthUser | null> {
+  await dbConnect();
+  const doc = await User.findOne({ email: email.trim().toLowerCase() });
+  if (!doc?.passwordHash) {
+    dummyHash ??= hashPassword('not-a-real-password');
+    await verifyPassword(password, await dummyHash);
+    return null;
+  }
+  if (!(await verifyPassword(password, doc.passwordHash))) return null;
+  doc.lastLoginAt = new Date();
+  await doc.save();
+  return toAuthUser(doc);
+}
+
+/**
+ * Finds the account for a proven email, creating it if needed, and marks the email verified. Used by magic links,
+ * which double as sign-up; a sign-up confirmation passes the password and name chosen at sign-up, which are only used
+ * if the account is created here.
+ *
+ * Anyone can sign up with a password for an email they don't own, so the first time an existing account's email is
+ * proven, its password is cleared and its sessions are revoked. Whoever registered it before then loses access.
+ * @async
+ * @param {string} email - The email the link was sent to.
+ * @param {object} [signup] - The pending sign-up the link confirms, if any.
+ * @param {string | null} [signup.passwordHash] - The password hash.
+ * @param {string | null} [signup.name] - The display name.
+ * @returns {Promise<AuthUser>} The user.
+ * @throws {Error} If the database is unavailable.
+ */
+export async function findOrCreateVerifiedUser(
+  email: string,
+  { passwordHash = null, name = null }: { passwordHash?: string | null; name?: string | null } = {}
+): Promise<AuthUser> {
+  await dbConnect();
+  const now = new Date();
+  const normalized = email.trim().toLowerCase();
+  const claimed = await User.findOneAndUpdate(
+    { email: normalized, emailVerifiedAt: null },
+    { $set: { lastLoginAt: now, emailVerifiedAt: now, passwordHash: null } },
+    { new: true }
+  );
+  if (claimed) {
+    await Session.deleteMany({ userID: String(claimed._id) });
+    return toAuthUser(claimed);
+  }
+
+  const doc = await User.findOneAndUpdate(
+    { email: normalized },
+    { $set: { lastLoginAt: now }, $min: { emailVerifiedAt: now }, $setOnInsert: { passwordHash, name } },
+    { upsert: true, new: true }
+  );
+  return toAuthUser(doc);
+}
+
+/**
+ * Fetches a user by id.
+ * @async
+ * @param {string} id - The user id.
+ * @returns {Promise<AuthUser | null>} The user, or null if the id is malformed or unknown.
+ */
+export async function getUserById(id: string): Promise<AuthUser | null> {
+  if (!isValidObjectId(id)) return null;
+  await dbConnect();
+  const doc = await User.findById(id);
+  return doc ? toAuthUser(doc) : null;
+}
@@ -0,0 +1,74 @@
+/**
+ * @file src/lib/billing/checkout.ts
+ * @description Creates Stripe Checkout sessions for lifetime access. The buyer's email and account travel in the
+ * session's metadata, so the webhook can attach the purchase to the right person without trusting the success redirect.
+ * @requires stripe For the session parameter types.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import type Stripe from 'stripe';
+import { getStripe } from './stripe';
+
+/**
+ * @constant LIFETIME_PRICE_CENTS
+ * @description The lifetime price in US cents, used when no `STRIPE_LIFETIME_PRICE_ID` is configured.
+ */
+export const LIFETIME_PRICE_CENTS = 5000;
+
+/**
+ * Builds the line item for lifetime access: the configured Stripe Price if there is one, otherwise an inline $50 price
+ * (which also works against stripe-mock and fresh test accounts).
+ * @returns {Stripe.Checkout.SessionCreateParams.LineItem} The line item.
+ */
+function lifetimeLineItem(): Stripe.Checkout.SessionCreateParams.LineItem {
+  const price = process.env.STRIPE_LIFETIME_PRICE_ID;
+  if (price) return { price, quantity: 1 };
+  return {
+    quantity: 1,
+    price_data: {
+      currency: 'usd',
+      unit_amount: LIFETIME_PRICE_CENTS,
+      product_data: { name: 'RecipeWreck lifetime access', description: 'One payment. Unlimited culinary regret.' },
+    },
+  };
+}
+
+/**
+ * Starts a Checkout session for lifetime access.
+ * @async
+ * @param {object} input - The buyer.
+ * @param {string} input.origin - The site origin to return to, e.g. `https://recipewreck.com`.
+ * @param {string | null} [input.email] - The buyer's email. Prefilled and locked in Checkout; when omitted, Checkout
+ *   asks for it.
+ * @param {string | null} [input.userID] - The buyer's account, if signed in.
+ * @returns {Promise<{ id: string, url: string }>} The session id and the hosted Checkout URL to redirect to.
+ * @throws {BillingConfigError} If Stripe isn't configured.
+ * @throws {Stripe.errors.StripeError} If Stripe rejects the request.
+ */
+export async function createLifetimeCheckoutSession({
+  origin,
+  email = null,
+  userID = null,
+}: {
+  origin: string;
+  email?: string | null;
+  userID?: string | null;
+}): Promise<{ id: string; url: string }> {
+  const metadata: Record<string, string> = { product: 'lifetime' };
+  if (userID) metadata.userID = userID;
+  if (email) metadata.email = email;
+
+  const session = await getStripe().checkout.sessions.create({
+    mode: 'payment',
+    line_items: [lifetimeLineItem()],
+    customer_email: email ?? undefined,
+    client_reference_id: userID ?? undefined,
+    metadata,
+    payment_intent_data: { metadata },
+    success_url: `${origin}/funding-success?session_id={CHECKOUT_SESSION_ID}`,
+    cancel_url: `${origin}/#preorder-section`,
+  });
+  if (!session.url) throw new Error(`Checkout session ${session.id} has no URL`);
+  return { id: session.id, url: session.url };
+}
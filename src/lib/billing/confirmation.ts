@@ -0,0 +1,120 @@
+/**
+ * @file src/lib/billing/confirmation.ts
+ * @description Looks up a Checkout session for the page buyers land on after paying. The session is fetched from Stripe
+ * rather than trusted from the URL, so the page only ever shows what Stripe says happened.
+ * @requires stripe For the session and charge types.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import type Stripe from 'stripe';
+import { getStripe } from './stripe';
+import { BILLING_PRODUCTS, type BillingProduct } from './types';
+
+/**
+ * @constant SESSION_ID_PATTERN
+ * @description Shape of a Checkout session id, checked before calling Stripe with anything from the query string.
+ */
+const SESSION_ID_PATTERN = /^cs_(test|live)_[A-Za-z0-9]{10,200}$/;
+
+/**
+ * @typedef {'paid' | 'pending' | 'failed' | 'open' | 'expired'} CheckoutState
+ * @description Where a Checkout session stands:
+ * - `paid`: the money is in.
+ * - `pending`: completed with a delayed payment method that hasn't cleared.
+ * - `failed`: completed, but the delayed payment bounced.
+ * - `open`: the buyer hasn't finished Checkout.
+ * - `expired`: Checkout timed out without payment.
+ */
+export type CheckoutState = 'paid' | 'pending' | 'failed' | 'open' | 'expired';
+
+/**
+ * A verified Checkout session, as shown to the buyer.
+ * @interface CheckoutConfirmation
+ * @property {string} sessionId - The session id.
+ * @property {CheckoutState} state - Where the payment stands.
+ * @property {BillingProduct} product - What was bought.
+ * @property {string | null} email - The buyer's email.
+ * @property {number} amountTotal - The amount, in the currency's minor unit.
+ * @property {string} currency - The ISO currency code, lowercase.
+ * @property {string | null} receiptUrl - Stripe's hosted receipt, once the charge exists.
+ */
+export interface CheckoutConfirmation {
+  sessionId: string;
+  state: CheckoutState;
+  product: BillingProduct;
+  email: string | null;
+  amountTotal: number;
+  currency: string;
+  receiptUrl: string | null;
+}
+
+/**
+ * Works out where a session stands. A completed but unpaid session is pending while its payment intent is still
+ * processing, and failed once the intent has given up or needs a new payment method.
+ * @param {Stripe.Checkout.Session} session - The session, with `payment_intent` expanded.
+ * @returns {CheckoutState} The state.
+ */
+function checkoutState(session: Stripe.Checkout.Session): CheckoutState {
+  if (session.status === 'expired') return 'expired';
+  if (session.status === 'open') return 'open';
+  if (session.payment_status !== 'unpaid') return 'paid';
+  const intent = session.payment_intent;
+  const intentStatus = typeof intent === 'object' && intent ? intent.status : null;
+  return intentStatus === 'requires_payment_method' || intentStatus === 'canceled' ? 'failed' : 'pending';
+}
+
+/**
+ * Fetches and summarises a Checkout session.
+ * @async
+ * @param {string} sessionId - The `session_id` from the success URL.
+ * @returns {Promise<CheckoutConfirmation | null>} The summary, or null if the id is malformed, unknown to Stripe, or for
+ *   a session that isn't one of ours.
+ * @throws {BillingConfigError} If Stripe isn't configured.
+ * @throws {Stripe.errors.StripeError} If Stripe can't be reached.
+ */
+export async function getCheckoutConfirmation(sessionId: string): Promise<CheckoutConfirmation | null> {
+  if (!SESSION_ID_PATTERN.test(sessionId)) return null;
+
+  let session: Stripe.Checkout.Session;
+  try {
+    session = await getStripe().checkout.sessions.retrieve(sessionId, { expand: ['payment_intent.latest_charge'] });
+  } catch (err) {
+    if ((err as { code?: string }).code === 'resource_missing') return null;
+    throw err;
+  }
+
+  const product = session.metadata?.product as BillingProduct;
+  if (!BILLING_PRODUCTS.includes(product)) return null;
+
+  const intent = typeof session.payment_intent === 'object' ? session.payment_intent : null;
+  const charge = intent && typeof intent.latest_charge === 'object' ? intent.latest_charge : null;
+  return {
+    sessionId: session.id,
+    state: checkoutState(session),
+    product,
+    email: session.customer_details?.email ?? session.customer_email ?? null,
+    amountTotal: session.amount_total ?? 0,
+    currency: session.currency ?? 'usd',
+    receiptUrl: charge?.receipt_url ?? null,
+  };
+}
+
+/**
+ * @constant ZERO_DECIMAL_CURRENCIES
+ * @description Currencies Stripe amounts are already whole units for.
+ */
+const ZERO_DECIMAL_CURRENCIES = new Set([
+  'bif', 'clp', 'djf', 'gnf', 'jpy', 'kmf', 'krw', 'mga', 'pyg', 'rwf', 'ugx', 'vnd', 'vuv', 'xaf', 'xof', 'xpf',
+]);
+
+/**
+ * Formats a Stripe amount for display.
+ * @param {number} amount - The amount in the currency's minor unit.
+ * @param {string} currency - The ISO currency code.
+ * @returns {string} e.g. `$50.00`.
+ */
+export function formatMoney(amount: number, currency: string): string {
+  const units = ZERO_DECIMAL_CURRENCIES.has(currency.toLowerCase()) ? amount : amount / 100;
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: currency.toUpperCase() }).format(units);
+}
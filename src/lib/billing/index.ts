@@ -0,0 +1,31 @@
+/**
+ * @file src/lib/billing/index.ts
+ * @description Stripe payments: Checkout sessions for lifetime access, the confirmation shown after Checkout, and the
+ * webhook that records purchases, grants entitlements and emails buyers when a delayed payment clears.
+ *
+ * Environment:
+ * - `STRIPE_SECRET_KEY`: the API key (`sk_test_...` in development; stripe-mock accepts any `sk_test_` key).
+ * - `STRIPE_WEBHOOK_SECRET`: the endpoint's signing secret (`whsec_...`).
+ * - `STRIPE_LIFETIME_PRICE_ID`: optional Price for lifetime access; without it Checkout uses an inline $50 price.
+ * - `STRIPE_API_BASE`: optional API host, e.g. `http://localhost:12111` for stripe-mock.
+ *
+ * Testing: run `stripe-mock` and set `STRIPE_API_BASE` to exercise `POST /api/checkout`. For the webhook, sign one of
+ * the events in `./fixtures` with `STRIPE_WEBHOOK_SECRET` and post it to `/api/webhooks/stripe`:
+ *
+ *     payload=$(cat src/lib/billing/fixtures/checkout.session.completed.json); t=$(date +%s)
+ *     sig=$(printf '%s' "$t.$payload" | openssl dgst -sha256 -hmac "$STRIPE_WEBHOOK_SECRET" | sed 's/^.* //')
+ *     curl -X POST localhost:3000/api/webhooks/stripe -H "Stripe-Signature: t=$t,v1=$sig" --data-binary "$payload"
+ *
+ * Or forward real test-mode events with `stripe listen --forward-to localhost:3000/api/webhooks/stripe`.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+export type { BillingProduct, EntitlementKey, PurchaseRecord, PurchaseStatus } from './types';
+export { BILLING_PRODUCTS, ENTITLEMENT_KEYS, PURCHASE_STATUSES } from './types';
+export { BillingConfigError, getStripe, isStripeError } from './stripe';
+export { createLifetimeCheckoutSession, LIFETIME_PRICE_CENTS } from './checkout';
+export type { CheckoutConfirmation, CheckoutState } from './confirmation';
+export { formatMoney, getCheckoutConfirmation } from './confirmation';
+export { getEntitlements, grantEntitlement, hasEntitlement, recordPurchase } from './purchases';
+export { handleStripeEvent, verifyWebhookEvent } from './webhook';
@@ -0,0 +1,46 @@
+/**
+ * @file src/lib/billing/notifications.ts
+ * @description Emails about payments. Card payments settle while the buyer is still on the success page, but delayed
+ * methods (bank debits) can take days, so the buyer is emailed when one clears.
+ * @requires @/lib/mail For sending the email.
+ * @requires @/lib/siteUrl For the sign-in link.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import { sendMail } from '@/lib/mail';
+import { getSiteOrigin } from '@/lib/siteUrl';
+import { formatMoney } from './confirmation';
+import { claimClearedNotice, releaseClearedNotice } from './purchases';
+
+/**
+ * Emails the buyer that their delayed payment has cleared and lifetime access is unlocked. Sent at most once per
+ * purchase; if sending fails the claim is released and the error rethrown, so the webhook answers 500 and Stripe's
+ * retry sends it.
+ * @async
+ * @param {string} stripeSessionId - The Checkout session that was paid.
+ * @returns {Promise<void>}
+ * @throws {Error} If the database or the mail transport fails.
+ */
+export async function notifyPaymentCleared(stripeSessionId: string): Promise<void> {
+  const purchase = await claimClearedNotice(stripeSessionId);
+  if (!purchase) return;
+
+  const amount = formatMoney(purchase.amountTotal, purchase.currency);
+  const signIn = `${getSiteOrigin()}/login?next=/account`;
+  try {
+    await sendMail({
+      to: purchase.email,
+      subject: 'Your RecipeWreck payment cleared',
+      text: [
+        `Your ${amount} payment has cleared and lifetime access is unlocked. Sign in with this email to start wrecking:`,
+        '',
+        signIn,
+      ].join('\n'),
+      html: `<p>Your ${amount} payment has cleared and lifetime access is unlocked. Sign in with this email to start wrecking.</p><p><a href="${signIn}">Sign in to RecipeWreck</a></p>`,
+    });
+  } catch (err) {
+    await releaseClearedNotice(stripeSessionId);
+    throw err;
+  }
+}
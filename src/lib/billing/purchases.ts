@@ -0,0 +1,197 @@
+/**
+ * @file src/lib/billing/purchases.ts
+ * @description Data access for purchases and the entitlements they grant. Every write is an upsert keyed on the Stripe
+ * session (for purchases) or the email and key (for entitlements), so replaying a webhook changes nothing.
+ * @requires @/lib/mongodb Database connection utility
+ * @requires @/models/Purchase Purchase Mongoose model
+ * @requires @/models/Entitlement Entitlement Mongoose model
+ * @requires @/lib/auth For the AuthUser type.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import dbConnect from '@/lib/mongodb';
+import PurchaseModel, { type IPurchase } from '@/models/Purchase';
+import Entitlement from '@/models/Entitlement';
+import type { AuthUser } from '@/lib/auth';
+import type { BillingProduct, EntitlementKey, PurchaseRecord, PurchaseStatus } from './types';
+
+/**
+ * MongoDB duplicate-key error code, raised when two deliveries of the same event upsert at once.
+ */
+const DUPLICATE_KEY_ERROR = 11000;
+
+/**
+ * Maps a Purchase document to its client-facing shape.
+ * @param {IPurchase} doc - The document.
+ * @returns {PurchaseRecord} The serialisable purchase.
+ */
+const toPurchaseRecord = (doc: IPurchase): PurchaseRecord => ({
+  id: String(doc._id),
+  stripeSessionId: doc.stripeSessionId,
+  email: doc.email,
+  userID: doc.userID ?? null,
+  product: doc.product,
+  amountTotal: doc.amountTotal,
+  currency: doc.currency,
+  status: doc.status,
+  createdAt: doc.createdAt.toISOString(),
+});
+
+/**
+ * Runs an upsert, retrying once if a concurrent upsert of the same key won the insert.
+ * @async
+ * @param {() => Promise<T>} upsert - The upsert.
+ * @returns {Promise<T>} Its result.
+ */
+async function withUpsertRetry<T>(upsert: () => Promise<T>): Promise<T> {
+  try {
+    return await upsert();
+  } catch (err) {
+    if ((err as { code?: number }).code !== DUPLICATE_KEY_ERROR) throw err;
+    return upsert();
+  }
+}
+
+/**
+ * Records the state of a Checkout session. A `paid` purchase is never moved back to `pending`, so events may arrive in
+ * any order.
+ * @async
+ * @param {object} input - The purchase as seen in a webhook event.
+ * @param {string} input.stripeSessionId - The Checkout session id.
+ * @param {string | null} input.stripePaymentIntentId - The payment intent id.
+ * @param {string | null} input.stripeCustomerId - The Stripe customer id.
+ * @param {string} input.email - The buyer's email.
+ * @param {string | null} input.userID - The buyer's account.
+ * @param {BillingProduct} input.product - What was bought.
+ * @param {number} input.amountTotal - The amount charged, in minor units.
+ * @param {string} input.currency - The currency code.
+ * @param {PurchaseStatus} input.status - The payment state reported by this event.
+ * @param {boolean} input.livemode - Whether it was a live payment.
+ * @param {string} input.eventId - The webhook event id.
+ * @returns {Promise<PurchaseRecord>} The stored purchase.
+ * @throws {Error} If the database is unavailable.
+ */
+export async function recordPurchase({
+  status,
+  eventId,
+  ...fields
+}: {
+  stripeSessionId: string;
+  stripePaymentIntentId: string | null;
+  stripeCustomerId: string | null;
+  email: string;
+  userID: string | null;
+  product: BillingProduct;
+  amountTotal: number;
+  currency: string;
+  status: PurchaseStatus;
+  livemode: boolean;
+  eventId: string;
+}): Promise<PurchaseRecord> {
+  await dbConnect();
+  const update =
+    status === 'pending'
+      ? { $set: { ...fields, lastEventId: eventId }, $setOnInsert: { status } }
+      : { $set: { ...fields, status, lastEventId: eventId } };
+  const doc = await withUpsertRetry(() =>
+    PurchaseModel.findOneAndUpdate({ stripeSessionId: fields.stripeSessionId }, update, { upsert: true, new: true })
+  );
+  return toPurchaseRecord(doc);
+}
+
+/**
+ * Claims the "payment cleared" email for a paid purchase, so duplicate or retried webhook deliveries send it once.
+ * @async
+ * @param {string} stripeSessionId - The Checkout session id.
+ * @returns {Promise<PurchaseRecord | null>} The purchase if this call claimed the email, or null if it was already sent
+ * or the purchase isn't paid.
+ * @throws {Error} If the database is unavailable.
+ */
+export async function claimClearedNotice(stripeSessionId: string): Promise<PurchaseRecord | null> {
+  await dbConnect();
+  const doc = await PurchaseModel.findOneAndUpdate(
+    { stripeSessionId, status: 'paid', clearedNoticeSentAt: null },
+    { $set: { clearedNoticeSentAt: new Date() } },
+    { new: true }
+  );
+  return doc ? toPurchaseRecord(doc) : null;
+}
+
+/**
+ * Releases a claim from {@link claimClearedNotice} after the email failed to send, so a retried delivery tries again.
+ * @async
+ * @param {string} stripeSessionId - The Checkout session id.
+ * @returns {Promise<void>}
+ * @throws {Error} If the database is unavailable.
+ */
+export async function releaseClearedNotice(stripeSessionId: string): Promise<void> {
+  await dbConnect();
+  await PurchaseModel.updateOne({ stripeSessionId }, { $set: { clearedNoticeSentAt: null } });
+}
+
+/**
+ * Grants an entitlement to an email (and account, if known). Granting one that already exists is a no-op apart from
+ * attaching the account if the earlier grant didn't have it.
+ * @async
+ * @param {object} input - The grant.
+ * @param {string} input.email - The buyer's email.
+ * @param {string | null} input.userID - The buyer's account.
+ * @param {EntitlementKey} input.key - What to unlock.
+ * @param {string} input.source - The Checkout session that paid for it.
+ * @returns {Promise<boolean>} True if this call created the grant.
+ * @throws {Error} If the database is unavailable.
+ */
+export async function grantEntitlement({
+  email,
+  userID,
+  key,
+  source,
+}: {
+  email: string;
+  userID: string | null;
+  key: EntitlementKey;
+  source: string;
+}): Promise<boolean> {
+  await dbConnect();
+  const normalized = email.trim().toLowerCase();
+  const result = await withUpsertRetry(() =>
+    Entitlement.updateOne(
+      { email: normalized, key },
+      { $setOnInsert: { userID, source, grantedAt: new Date() } },
+      { upsert: true }
+    )
+  );
+  if (!result.upsertedCount && userID) {
+    await Entitlement.updateOne({ email: normalized, key, userID: null }, { $set: { userID } });
+  }
+  return result.upsertedCount > 0;
+}
+
+/**
+ * Lists a user's entitlements. Grants made to their email count only once the email is verified, so signing up with
+ * someone else's address doesn't claim their purchase.
+ * @async
+ * @param {AuthUser} user - The user.
+ * @returns {Promise<EntitlementKey[]>} The unlocked keys.
+ * @throws {Error} If the database is unavailable.
+ */
+export async function getEntitlements(user: AuthUser): Promise<EntitlementKey[]> {
+  await dbConnect();
+  const owners: Record<string, string>[] = [{ userID: user.id }];
+  if (user.emailVerified) owners.push({ email: user.email });
+  const docs = await Entitlement.find({ $or: owners }, { key: 1 });
+  return [...new Set(docs.map((doc) => doc.key))];
+}
+
+/**
+ * Checks whether a user has an entitlement.
+ * @async
+ * @param {AuthUser} user - The user.
+ * @param {EntitlementKey} key - The entitlement.
+ * @returns {Promise<boolean>} Whether it is unlocked.
+ * @throws {Error} If the database is unavailable.
+ */
+export async function hasEntitlement(user: AuthUser, key: EntitlementKey): Promise<boolean> {
+  return (await getEntitlements(user)).includes(key);
+}
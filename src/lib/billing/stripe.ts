@@ -0,0 +1,72 @@
+/**
+ * @file src/lib/billing/stripe.ts
+ * @description The shared Stripe client. `STRIPE_API_BASE` points it at another API host, e.g. stripe-mock at
+ * `http://localhost:12111`, so Checkout can be exercised without a Stripe account.
+ * @requires stripe The Stripe Node SDK.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import Stripe from 'stripe';
+
+/**
+ * @class BillingConfigError
+ * @description Thrown when Stripe isn't configured (a missing secret key or webhook secret). Routes surface its message
+ * to the client as a 500 response.
+ * @extends Error
+ */
+export class BillingConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BillingConfigError';
+  }
+}
+
+/**
+ * Augment the globalThis type so the client is created once per process rather than once per route bundle.
+ */
+declare global {
+  // eslint-disable-next-line no-var
+  var stripe_client: Stripe | undefined;
+}
+
+/**
+ * Returns the Stripe client, creating it on first use.
+ * @returns {Stripe} The client.
+ * @throws {BillingConfigError} If `STRIPE_SECRET_KEY` is not set.
+ */
+export function getStripe(): Stripe {
+  if (globalThis.stripe_client) return globalThis.stripe_client;
+  const secretKey = process.env.STRIPE_SECRET_KEY;
+  if (!secretKey) throw new BillingConfigError('Missing STRIPE_SECRET_KEY');
+
+  const options: Stripe.StripeConfig = { appInfo: { name: 'RecipeWreck' } };
+  if (process.env.STRIPE_API_BASE) {
+    const base = new URL(process.env.STRIPE_API_BASE);
+    options.host = base.hostname;
+    options.port = base.port || (base.protocol === 'http:' ? 80 : 443);
+    options.protocol = base.protocol === 'http:' ? 'http' : 'https';
+  }
+  globalThis.stripe_client = new Stripe(secretKey, options);
+  return globalThis.stripe_client;
+}
+
+/**
+ * Checks whether an error came from the Stripe API (declined request, connection failure, bad signature). Compared by
+ * its `type` rather than `instanceof`, since the bundler may load the SDK's CommonJS and ESM builds side by side.
+ * @param {unknown} err - The caught error.
+ * @returns {boolean} True for Stripe SDK errors.
+ */
+export const isStripeError = (err: unknown): err is Stripe.errors.StripeError =>
+  err instanceof Error && String((err as { type?: unknown }).type).startsWith('Stripe');
+
+/**
+ * Returns the webhook signing secret.
+ * @returns {string} The secret (`whsec_...`).
+ * @throws {BillingConfigError} If `STRIPE_WEBHOOK_SECRET` is not set.
+ */
+export function getWebhookSecret(): string {
+  const secret = process.env.STRIPE_WEBHOOK_SECRET;
+  if (!secret) throw new BillingConfigError('Missing STRIPE_WEBHOOK_SECRET');
+  return secret;
+}
@@ -0,0 +1,66 @@
+/**
+ * @file src/lib/billing/types.ts
+ * @description Shared shapes for Stripe payments: what can be bought, the entitlements it grants, and the stored
+ * purchase record.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+/**
+ * @constant BILLING_PRODUCTS
+ * @description Products sold through Checkout. Sessions carry the product in `metadata.product`.
+ */
+export const BILLING_PRODUCTS = ['lifetime'] as const;
+
+/**
+ * @typedef {'lifetime'} BillingProduct
+ */
+export type BillingProduct = (typeof BILLING_PRODUCTS)[number];
+
+/**
+ * @constant ENTITLEMENT_KEYS
+ * @description What a purchase can unlock.
+ */
+export const ENTITLEMENT_KEYS = ['lifetime'] as const;
+
+/**
+ * @typedef {'lifetime'} EntitlementKey
+ */
+export type EntitlementKey = (typeof ENTITLEMENT_KEYS)[number];
+
+/**
+ * @constant PURCHASE_STATUSES
+ * @description `pending` for delayed payment methods that haven't cleared, `paid` once the money is in, `failed` if a
+ * delayed payment bounced.
+ */
+export const PURCHASE_STATUSES = ['pending', 'paid', 'failed'] as const;
+
+/**
+ * @typedef {'pending' | 'paid' | 'failed'} PurchaseStatus
+ */
+export type PurchaseStatus = (typeof PURCHASE_STATUSES)[number];
+
+/**
+ * A stored purchase.
+ * @interface PurchaseRecord
+ * @property {string} id - The purchase id.
+ * @property {string} stripeSessionId - The Checkout session id.
+ * @property {string} email - The buyer's email.
+ * @property {string | null} userID - The buyer's account, if they were signed in.
+ * @property {BillingProduct} product - What was bought.
+ * @property {number} amountTotal - The amount charged, in the currency's minor unit.
+ * @property {string} currency - The ISO currency code, lowercase.
+ * @property {PurchaseStatus} status - Whether the payment has settled.
+ * @property {string} createdAt - ISO creation timestamp.
+ */
+export interface PurchaseRecord {
+  id: string;
+  stripeSessionId: string;
+  email: string;
+  userID: string | null;
+  product: BillingProduct;
+  amountTotal: number;
+  currency: string;
+  status: PurchaseStatus;
+  createdAt: string;
+}
@@ -0,0 +1,111 @@
+/**
+ * @file src/lib/billing/webhook.ts
+ * @description Verifies and applies Stripe webhook events. Only Checkout events for our own products (those with a
+ * `metadata.product` we sell) are applied; everything else is acknowledged and ignored. When a delayed payment clears,
+ * the buyer is emailed.
+ * @requires stripe For the event types.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import type Stripe from 'stripe';
+import { getStripe, getWebhookSecret } from './stripe';
+import { notifyPaymentCleared } from './notifications';
+import { grantEntitlement, recordPurchase } from './purchases';
+import { BILLING_PRODUCTS, type BillingProduct, type EntitlementKey, type PurchaseStatus } from './types';
+
+/**
+ * @constant PRODUCT_ENTITLEMENTS
+ * @description The entitlement each product grants once paid.
+ */
+const PRODUCT_ENTITLEMENTS: Record<BillingProduct, EntitlementKey> = { lifetime: 'lifetime' };
+
+/**
+ * Checks a webhook's signature and parses it.
+ * @param {string} payload - The raw request body, exactly as received.
+ * @param {string} signature - The `Stripe-Signature` header.
+ * @returns {Stripe.Event} The event.
+ * @throws {BillingConfigError} If `STRIPE_WEBHOOK_SECRET` is not set.
+ * @throws {Stripe.errors.StripeSignatureVerificationError} If the signature doesn't match or is too old.
+ */
+export function verifyWebhookEvent(payload: string, signature: string): Stripe.Event {
+  return getStripe().webhooks.constructEvent(payload, signature, getWebhookSecret());
+}
+
+/**
+ * Reads the stable id out of a field Stripe may send expanded or as an id.
+ * @param {string | { id: string } | null} value - The field.
+ * @returns {string | null} The id.
+ */
+const idOf = (value: string | { id: string } | null): string | null =>
+  typeof value === 'string' ? value : (value?.id ?? null);
+
+/**
+ * Records a Checkout session and, once paid, grants its entitlement.
+ * @async
+ * @param {Stripe.Checkout.Session} session - The session from the event.
+ * @param {PurchaseStatus} status - The payment state the event reports.
+ * @param {string} eventId - The event id.
+ * @returns {Promise<boolean>} False if the session isn't for one of our products or has no email.
+ */
+async function applyCheckoutSession(
+  session: Stripe.Checkout.Session,
+  status: PurchaseStatus,
+  eventId: string
+): Promise<boolean> {
+  const product = session.metadata?.product;
+  if (!BILLING_PRODUCTS.includes(product as BillingProduct)) return false;
+  const email = session.metadata?.email || session.customer_details?.email || session.customer_email;
+  if (!email) {
+    console.warn(`Stripe session ${session.id} has no buyer email; not recorded`);
+    return false;
+  }
+  const userID = session.metadata?.userID || session.client_reference_id || null;
+
+  await recordPurchase({
+    stripeSessionId: session.id,
+    stripePaymentIntentId: idOf(session.payment_intent),
+    stripeCustomerId: idOf(session.customer),
+    email,
+    userID,
+    product: product as BillingProduct,
+    amountTotal: session.amount_total ?? 0,
+    currency: session.currency ?? 'usd',
+    status,
+    livemode: session.livemode,
+    eventId,
+  });
+  if (status === 'paid') {
+    await grantEntitlement({ email, userID, key: PRODUCT_ENTITLEMENTS[product as BillingProduct], source: session.id });
+  }
+  return true;
+}
+
+/**
+ * Applies a verified event. Safe to call more than once with the same event.
+ * @async
+ * @param {Stripe.Event} event - The event.
+ * @returns {Promise<boolean>} Whether the event changed anything we store.
+ * @throws {Error} If the database or the mail transport is unavailable; the route answers 500 so Stripe retries.
+ */
+export async function handleStripeEvent(event: Stripe.Event): Promise<boolean> {
+  switch (event.type) {
+    case 'checkout.session.completed': {
+      const session = event.data.object;
+      // Delayed methods (bank debits) complete before the money arrives; their outcome comes in a later event.
+      const status = session.payment_status === 'unpaid' ? 'pending' : 'paid';
+      return applyCheckoutSession(session, status, event.id);
+    }
+    case 'checkout.session.async_payment_succeeded': {
+      const session = event.data.object;
+      const applied = await applyCheckoutSession(session, 'paid', event.id);
+      // The success page told the buyer to expect this email.
+      if (applied) await notifyPaymentCleared(session.id);
+      return applied;
+    }
+    case 'checkout.session.async_payment_failed':
+      return applyCheckoutSession(event.data.object, 'failed', event.id);
+    default:
+      return false;
+  }
+}
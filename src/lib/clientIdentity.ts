@@ -0,0 +1,89 @@
+/**
+ * @file src/lib/clientIdentity.ts
+ * @description Identifies the caller of an API route for rate limiting and attribution: an anonymous device id kept in a
+ * long-lived cookie, plus the client IP address.
+ * @requires next/server For the request and response types.
+ * @requires crypto - Node's crypto module, for random device ids.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import { randomUUID } from 'crypto';
+import type { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * @constant DEVICE_COOKIE
+ * @description Name of the anonymous device id cookie.
+ */
+export const DEVICE_COOKIE = 'rw_device';
+
+const DEVICE_ID_PATTERN = /^[0-9a-f-]{36}$/;
+
+/**
+ * The caller of a request.
+ * @interface ClientIdentity
+ * @property {string} deviceId - The device id from the cookie, or a new one.
+ * @property {boolean} isNewDevice - True if the cookie was missing or invalid and must be set on the response.
+ * @property {string} ip - The client IP address, or `unknown`.
+ */
+export interface ClientIdentity {
+  deviceId: string;
+  isNewDevice: boolean;
+  ip: string;
+}
+
+/**
+ * Returns how many proxies in front of the app append to `X-Forwarded-For`, from `TRUSTED_PROXY_HOPS` (default 1, a
+ * single load balancer).
+ * @returns {number} The hop count.
+ */
+const getTrustedProxyHops = (): number => {
+  const hops = Number.parseInt(process.env.TRUSTED_PROXY_HOPS ?? '', 10);
+  return Number.isFinite(hops) && hops > 0 ? hops : 1;
+};
+
+/**
+ * Reads the client IP from the proxy headers set by the hosting platform. Each proxy appends the address it received
+ * the request from to `X-Forwarded-For`, and anything to the left of that was sent by the client and can be forged, so
+ * the address is taken from the right: the entry added by the outermost trusted proxy.
+ * @param {NextRequest} req - The incoming request.
+ * @returns {string} The client's `X-Forwarded-For` address, `X-Real-IP`, or `unknown`.
+ */
+const getClientIp = (req: NextRequest): string => {
+  const forwarded = (req.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map((address) => address.trim())
+    .filter(Boolean);
+  if (forwarded.length > 0) return forwarded[Math.max(0, forwarded.length - getTrustedProxyHops())];
+  return req.headers.get('x-real-ip')?.trim() || 'unknown';
+};
+
+/**
+ * Identifies the caller of a request.
+ * @param {NextRequest} req - The incoming request.
+ * @returns {ClientIdentity} The caller. Pass it to {@link persistDeviceId} with the response.
+ */
+export function getClientIdentity(req: NextRequest): ClientIdentity {
+  const cookie = req.cookies.get(DEVICE_COOKIE)?.value;
+  const isNewDevice = !cookie || !DEVICE_ID_PATTERN.test(cookie);
+  return { deviceId: isNewDevice ? randomUUID() : cookie, isNewDevice, ip: getClientIp(req) };
+}
+
+/**
+ * Sets the device cookie on a response if the caller did not have one yet.
+ * @param {NextResponse} res - The outgoing response.
+ * @param {ClientIdentity} client - The caller, from {@link getClientIdentity}.
+ * @returns {NextResponse} The same response, for chaining.
+ */
+export function persistDeviceId<T extends NextResponse>(res: T, client: ClientIdentity): T {
+  if (client.isNewDevice) {
+    res.cookies.set(DEVICE_COOKIE, client.deviceId, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/',
+      maxAge: 60 * 60 * 24 * 365,
+    });
+  }
+  return res;
+}
@@ -0,0 +1,215 @@
+/**
+ * @file src/lib/generation/fake.ts
+ * @description Deterministic offline implementation of the generation provider interfaces. It returns canned recipes
+ * and SVG placeholder images without any network calls, so the full prompt-to-card flow can be developed, demoed and
+ * tested without a Google GenAI API key. Select it with `GENERATION_PROVIDER=fake`.
+ *
+ * The same prompt always yields the same recipe and image. Streaming is simulated line by line with a short delay
+ * (`FAKE_PROVIDER_DELAY_MS`, default 120 ms) so progressive rendering behaves like it does against Gemini.
+ * @requires @/lib/recipe For the GeneratedRecipe type.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import type { GeneratedRecipe } from "@/lib/recipe"; // Shape of the canned recipes.
+import type { ImageGenerationProvider, TextGenerationProvider } from "./types"; // Provider contracts.
+
+/**
+ * @constant CANNED_RECIPES
+ * @description The recipes the fake provider cycles through, based on the landing page showcase.
+ * @type {GeneratedRecipe[]}
+ */
+const CANNED_RECIPES: GeneratedRecipe[] = [
+  {
+    title: "The Cardiac Carnival Burrito",
+    description: "A deep-fried funnel cake burrito that is less a dessert and more a one-way ticket to the hospital.",
+    mealType: "dessert",
+    calories: 4850,
+    servings: 2,
+    associatedDiseases: ["Type 2 diabetes", "Coronary artery disease", "Regret"],
+    tags: ["deep-fried", "dessert", "funnel cake"],
+    ingredients: [
+      "1 extra-large funnel cake",
+      "1 gallon peanut oil",
+      "1 slice New York-style cheesecake, frozen solid",
+      "3 scoops chocolate fudge brownie ice cream",
+      "1 cup bacon bits, candied in maple syrup",
+      "1/2 cup chocolate shell sauce",
+      "1 sleeve Oreos, crushed",
+      "1 can whipped cream",
+      "1 stick butter",
+    ],
+    steps: [
+      "Heat the peanut oil to 375°F and fry the funnel cake until golden.",
+      "Brush the hot funnel cake with melted butter.",
+      "Lay the frozen cheesecake, ice cream and candied bacon down the middle.",
+      "Roll it up like a burrito and drench it in chocolate shell sauce.",
+      "Coat with crushed Oreos and crown with whipped cream.",
+    ],
+  },
+  {
+    title: "Deep-Fried Mayonnaise Mayhem",
+    description: "Exactly what it sounds like. Comes with a side of existential dread.",
+    mealType: "appetizer",
+    calories: 3120,
+    servings: 4,
+    associatedDiseases: ["High cholesterol", "Gallstones"],
+    tags: ["deep-fried", "mayonnaise", "appetizer"],
+    ingredients: [
+      "1 cup full-fat mayonnaise",
+      "1 cup crushed butter crackers",
+      "1/2 cup finely shredded sharp cheddar cheese",
+      "1/4 cup crumbled bacon bits",
+      "1/2 cup all-purpose flour",
+      "2 large eggs, beaten",
+      "4 cups vegetable oil",
+    ],
+    steps: [
+      "Scoop the mayonnaise into balls and freeze until solid.",
+      "Dredge each ball in flour, then egg, then a mix of crackers, cheddar and bacon.",
+      "Freeze again for good measure.",
+      "Deep-fry at 375°F for 30 seconds, or until your doctor senses a disturbance.",
+    ],
+  },
+  {
+    title: "Sugar-Coated Spam Surprise",
+    description: "The surprise is how quickly your pancreas gives up.",
+    mealType: "dinner",
+    calories: 2980,
+    servings: 6,
+    associatedDiseases: ["Hypertension", "Type 2 diabetes"],
+    tags: ["spam", "candied", "sweet"],
+    ingredients: [
+      "1 can (12 oz) Spam",
+      "1 cup granulated white sugar",
+      "1/2 cup brown sugar, packed",
+      "1/4 cup corn syrup",
+      "1/2 stick unsalted butter, melted",
+      "1/4 cup heavy whipping cream",
+      "1 teaspoon vanilla extract",
+      "1/2 cup mini marshmallows",
+      "A generous handful of sprinkles",
+    ],
+    steps: [
+      "Slice the Spam into thick planks and fry in the butter until crisp.",
+      "Boil the sugars, corn syrup and cream into a caramel, then stir in the vanilla.",
+      "Dunk each plank in the caramel and top with marshmallows.",
+      "Torch the marshmallows and bury everything in sprinkles.",
+    ],
+  },
+];
+
+/**
+ * @constant PLACEHOLDER_COLORS
+ * @description Background/foreground colour pairs for the placeholder images.
+ */
+const PLACEHOLDER_COLORS: [string, string][] = [
+  ["#7c3aed", "#fde68a"],
+  ["#be123c", "#fef3c7"],
+  ["#c2410c", "#ede9fe"],
+  ["#1f2937", "#f472b6"],
+];
+
+/**
+ * @function hashString
+ * @description Small deterministic string hash (FNV-1a) used to map prompts to canned output.
+ * @param {string} value - The string to hash.
+ * @returns {number} An unsigned 32-bit hash.
+ */
+const hashString = (value: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * @function pickRecipe
+ * @description Chooses the canned recipe for a prompt.
+ * @param {string} subject - The user's prompt.
+ * @returns {GeneratedRecipe} A copy of the chosen recipe.
+ */
+const pickRecipe = (subject: string): GeneratedRecipe =>
+  structuredClone(CANNED_RECIPES[hashString(subject.trim().toLowerCase()) % CANNED_RECIPES.length]);
+
+/**
+ * @function escapeXml
+ * @description Escapes text for inclusion in SVG markup.
+ * @param {string} value - Raw text.
+ * @returns {string} XML-safe text.
+ */
+const escapeXml = (value: string) =>
+  value.replace(/[<>&"']/g, (c) => ({ "<": "&lt;", ">": "&gt;", "&": "&amp;", '"': "&quot;", "'": "&apos;" })[c] as string);
+
+/**
+ * @function toStreamLines
+ * @description Renders a recipe in the `STREAM_FORMAT_INSTRUCTIONS` line format.
+ * @param {GeneratedRecipe} recipe - The recipe to render.
+ * @returns {string[]} One entry per line.
+ */
+const toStreamLines = (recipe: GeneratedRecipe): string[] => [
+  `Title: ${recipe.title}`,
+  `Description: ${recipe.description}`,
+  `Meal Type: ${recipe.mealType}`,
+  `Calories: ${recipe.calories}`,
+  `Servings: ${recipe.servings}`,
+  `Associated Diseases: ${recipe.associatedDiseases.join(", ")}`,
+  `Tags: ${recipe.tags.join(", ")}`,
+  "Ingredients:",
+  ...recipe.ingredients.map((i) => `- ${i}`),
+  "Steps:",
+  ...recipe.steps.map((s, idx) => `${idx + 1}. ${s}`),
+];
+
+/**
+ * @function delay
+ * @description Resolves after the configured fake latency.
+ * @returns {Promise<void>}
+ */
+const delay = () => {
+  const ms = Number(process.env.FAKE_PROVIDER_DELAY_MS ?? 120);
+  return new Promise<void>((resolve) => setTimeout(resolve, Number.isFinite(ms) ? ms : 0));
+};
+
+/**
+ * @function createFakeTextProvider
+ * @description Creates the offline text provider.
+ * @returns {TextGenerationProvider} The provider.
+ */
+export const createFakeTextProvider = (): TextGenerationProvider => ({
+  name: "fake",
+  async generateRecipeJson({ subject }) {
+    await delay();
+    return JSON.stringify(pickRecipe(subject));
+  },
+  async *streamRecipeText({ subject }) {
+    for (const line of toStreamLines(pickRecipe(subject))) {
+      await delay();
+      yield `${line}\n`;
+    }
+  },
+});
+
+/**
+ * @function createFakeImageProvider
+ * @description Creates the offline image provider. Returns a 16×9 SVG placeholder showing the recipe title,
+ * with colours derived from the title so the same recipe always gets the same image. HD requests get a 1920×1080
+ * placeholder labelled as such, so the tier difference is visible offline.
+ * @returns {ImageGenerationProvider} The provider.
+ */
+export const createFakeImageProvider = (): ImageGenerationProvider => ({
+  name: "fake",
+  async generateImage({ title, hd = false }) {
+    await delay();
+    const [bg, fg] = PLACEHOLDER_COLORS[hashString(title) % PLACEHOLDER_COLORS.length];
+    const [width, height] = hd ? [1920, 1080] : [1280, 720];
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 1280 720">
+  <rect width="1280" height="720" fill="${bg}"/>
+  <text x="640" y="330" font-family="sans-serif" font-size="56" font-weight="bold" fill="${fg}" text-anchor="middle">${escapeXml(title)}</text>
+  <text x="640" y="410" font-family="sans-serif" font-size="32" fill="${fg}" text-anchor="middle" opacity="0.8">(${hd ? "HD " : ""}placeholder image)</text>
+</svg>`;
+    return { base64: Buffer.from(svg).toString("base64"), mimeType: "image/svg+xml" };
+  },
+});
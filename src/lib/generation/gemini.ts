@@ -0,0 +1,138 @@
+/**
+ * @file src/lib/generation/gemini.ts
+ * @description Google GenAI implementation of the generation provider interfaces: Gemini for recipe text and Imagen
+ * for the cover image. This is the production provider; it requires `GOOGLE_GENAI_API_KEY`.
+ * @requires @google/genai For interacting with Google's Generative AI models (text and image).
+ * @requires @/lib/recipe For the meal types used in the response schema.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import { GoogleGenAI, Type, type GenerateContentResponse, type Schema } from "@google/genai"; // Google Generative AI SDK.
+import { MEAL_TYPES } from "@/lib/recipe"; // Allowed meal types for the response schema enum.
+import type { ImageGenerationProvider, TextGenerationProvider } from "./types"; // Provider contracts.
+
+/**
+ * @constant RECIPE_RESPONSE_SCHEMA
+ * @description Gemini `responseSchema` mirroring `RecipeSchema` in `@/lib/recipe`. Sent together with
+ * `responseMimeType: "application/json"` so the model returns a single JSON object with every field
+ * from `Recipe Card Data.md` rather than free text.
+ * @see {@link https://ai.google.dev/gemini-api/docs/structured-output Structured output}
+ * @type {Schema}
+ */
+const RECIPE_RESPONSE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING, description: "A creative, outrageous recipe title." },
+    description: { type: Type.STRING, description: "One or two sentences selling the dish." },
+    mealType: { type: Type.STRING, enum: [...MEAL_TYPES] },
+    calories: { type: Type.INTEGER, description: "Estimated calories per serving." },
+    servings: { type: Type.INTEGER, description: "How many servings the ingredient quantities make." },
+    associatedDiseases: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: "Health conditions this dish could plausibly contribute to (for comedic effect).",
+    },
+    tags: { type: Type.ARRAY, items: { type: Type.STRING }, description: "2-6 short lowercase tags." },
+    ingredients: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: "Each ingredient with its quantity, e.g. '1 gallon peanut oil'.",
+    },
+    steps: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Ordered instructions without numbering." },
+  },
+  required: ["title", "description", "mealType", "calories", "servings", "associatedDiseases", "tags", "ingredients", "steps"],
+  propertyOrdering: ["title", "description", "mealType", "calories", "servings", "associatedDiseases", "tags", "ingredients", "steps"],
+};
+
+/**
+ * @function extractResponseText
+ * @description Concatenates the answer text of a (possibly partial) Gemini response, logging and skipping
+ * thought-summary parts produced when `includeThoughts` is enabled.
+ * @param {GenerateContentResponse} res - A full response or a single streamed chunk.
+ * @returns {string} The non-thought text, falling back to `res.text` for simple responses.
+ */
+const extractResponseText = (res: GenerateContentResponse): string => {
+  let text = "";
+  const parts = res.candidates?.[0]?.content?.parts;
+  if (parts) {
+    for (const part of parts) {
+      if (part.thought) {
+        console.log("Gemini Thought Summary:", part.text);
+      } else if (part.text) {
+        text += part.text;
+      }
+    }
+    return text;
+  }
+  return res.text ?? "";
+};
+
+/**
+ * @function createGeminiTextProvider
+ * @description Creates a text provider backed by Gemini. The model is taken from `GENAI_TEXT_MODEL`.
+ * @param {GoogleGenAI} ai - An authenticated GenAI client.
+ * @returns {TextGenerationProvider} The provider.
+ */
+export const createGeminiTextProvider = (ai: GoogleGenAI): TextGenerationProvider => {
+  const model = process.env.GENAI_TEXT_MODEL || "gemini-1.5-flash-latest";
+  // Disable thinking by setting thinkingBudget: 0 (allowed for 2.5 Flash), -1 = dynmaic thinking budget
+  const thinkingConfig = { thinkingBudget: -1, includeThoughts: true };
+
+  return {
+    name: "gemini",
+    async generateRecipeJson({ systemInstruction, prompt }) {
+      const textRes = await ai.models.generateContent({
+        model,
+        contents: [{ role: "user", parts: [{ text: prompt }] }],
+        config: {
+          systemInstruction,
+          thinkingConfig,
+          responseMimeType: "application/json",
+          responseSchema: RECIPE_RESPONSE_SCHEMA,
+        },
+      });
+      console.log("Text API Response:", JSON.stringify(textRes, null, 2));
+      return extractResponseText(textRes);
+    },
+    async *streamRecipeText({ systemInstruction, prompt }) {
+      const chunks = await ai.models.generateContentStream({
+        model,
+        contents: [{ role: "user", parts: [{ text: prompt }] }],
+        config: { systemInstruction, thinkingConfig },
+      });
+      for await (const chunk of chunks) {
+        yield extractResponseText(chunk);
+      }
+    },
+  };
+};
+
+/**
+ * @function createImagenImageProvider
+ * @description Creates an image provider backed by Imagen. The model is taken from `GENAI_IMAGE_MODEL`.
+ * Requests a 16×9 image so the generated image fits our card (see docs for Imagen 3). HD requests get a lossless PNG
+ * from `GENAI_IMAGE_HD_MODEL` (falling back to the standard model); the rest get a JPEG at quality 80.
+ * @param {GoogleGenAI} ai - An authenticated GenAI client.
+ * @returns {ImageGenerationProvider} The provider.
+ */
+export const createImagenImageProvider = (ai: GoogleGenAI): ImageGenerationProvider => {
+  const model = process.env.GENAI_IMAGE_MODEL || "imagen-3.0-generate-002"; // Changed from imagen-3 due to 404 error on v1beta
+  const hdModel = process.env.GENAI_IMAGE_HD_MODEL || model;
+
+  return {
+    name: "imagen",
+    async generateImage({ prompt, hd = false }) {
+      const imgRes = await ai.models.generateImages({
+        model: hd ? hdModel : model,
+        prompt,
+        config: hd
+          ? { aspectRatio: "16:9", outputMimeType: "image/png" }
+          : { aspectRatio: "16:9", outputMimeType: "image/jpeg", outputCompressionQuality: 80 },
+      });
+      const image = imgRes.generatedImages?.[0]?.image; // Based on official SDK example for Imagen 3
+      if (!image?.imageBytes) return null;
+      return { base64: image.imageBytes, mimeType: image.mimeType || "image/png" };
+    },
+  };
+};
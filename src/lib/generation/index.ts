@@ -0,0 +1,132 @@
+/**
+ * @file src/lib/generation/index.ts
+ * @description Entry point for the generation provider layer. Resolves the text and image providers from environment
+ * configuration and exposes the request schema shared by the generation routes.
+ *
+ * Configuration:
+ * - `GENERATION_PROVIDER`: `gemini` (default) or `fake` for the offline provider.
+ * - `GENERATION_IMAGE_PROVIDER`: optional override for images only, e.g. real Gemini text with `fake` images to save Imagen quota.
+ * - `GENERATION_MAX_ATTEMPTS`: how many times a text generation is attempted when the output breaks the recipe contract (default 2).
+ * @requires @google/genai For constructing the GenAI client used by the Gemini providers.
+ * @requires zod For validating the request body schema.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import { GoogleGenAI } from "@google/genai"; // Google Generative AI SDK.
+import { z } from "zod"; // Library for schema validation.
+import { createFakeImageProvider, createFakeTextProvider } from "./fake"; // Offline provider.
+import { GenerationOptionsSchema } from "./options"; // Optional generation controls.
+import { createGeminiTextProvider, createImagenImageProvider } from "./gemini"; // Google GenAI provider.
+import type { ImageGenerationProvider, TextGenerationProvider } from "./types"; // Provider contracts.
+
+export type { GeneratedImage, ImageGenerationProvider, TextGenerationProvider } from "./types";
+
+export type { GenerationOptions } from "./options";
+
+/**
+ * @constant GenerateBodySchema
+ * @description Zod schema for validating the request body of the recipe generation endpoints.
+ * Requires a 'prompt' field which must be a string between 1 and 500 characters, and accepts the optional
+ * `GenerationOptionsSchema` controls (mealType, cuisine, servings, wreckLevel) alongside it.
+ */
+export const GenerateBodySchema = GenerationOptionsSchema.extend({
+  prompt: z.string().min(1).max(500),
+});
+
+/**
+ * @constant RemixBodySchema
+ * @description Zod schema for the request body of `/api/remix`: a remix direction plus the recipe to remix, given
+ * either as a stored `parentId` (preferred, and required for lineage) or inline for recipes that were never saved.
+ * When `parentId` resolves, the stored recipe is used and any inline copy is ignored.
+ */
+export const RemixBodySchema = z
+  .object({
+    parentId: z.string().nullish(),
+    recipe: z
+      .object({
+        title: z.string().trim().min(1).max(200),
+        ingredients: z.array(z.string().trim().min(1).max(500)).min(1).max(60),
+        steps: z.array(z.string().trim().min(1).max(500)).min(1).max(60),
+      })
+      .optional(),
+    direction: z.string().trim().min(1).max(100),
+  })
+  .refine((body) => body.parentId || body.recipe, { message: "Either parentId or recipe is required" });
+
+/**
+ * @function getMaxGenerationAttempts
+ * @description Returns how many text generations a route may attempt before rejecting output that fails
+ * `validateRecipeContract`. Each attempt costs model quota, so this is kept low.
+ * @returns {number} The attempt limit, at least 1.
+ */
+export const getMaxGenerationAttempts = (): number => {
+  const parsed = Number.parseInt(process.env.GENERATION_MAX_ATTEMPTS ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? Math.min(parsed, 5) : 2;
+};
+
+/**
+ * @class GenerationConfigError
+ * @description Thrown when the selected provider cannot be constructed (e.g. a missing API key or an unknown provider name).
+ * Routes surface its message to the client as a 500 response.
+ * @extends Error
+ */
+export class GenerationConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GenerationConfigError";
+  }
+}
+
+type ProviderName = "gemini" | "fake";
+
+/**
+ * @function resolveProviderName
+ * @description Reads and validates a provider name from the environment.
+ * @param {string | undefined} value - The raw environment value.
+ * @returns {ProviderName} The provider name, defaulting to `gemini`.
+ * @throws {GenerationConfigError} If the value is not a known provider.
+ */
+const resolveProviderName = (value: string | undefined): ProviderName => {
+  const name = (value || "gemini").toLowerCase();
+  if (name !== "gemini" && name !== "fake") {
+    throw new GenerationConfigError(`Unknown generation provider "${value}"`);
+  }
+  return name;
+};
+
+/**
+ * @function getGenAIClient
+ * @description Creates a Google GenAI client from `GOOGLE_GENAI_API_KEY`.
+ * @returns {GoogleGenAI} The client.
+ * @throws {GenerationConfigError} If the API key is not configured.
+ */
+const getGenAIClient = (): GoogleGenAI => {
+  const apiKey = process.env.GOOGLE_GENAI_API_KEY;
+  if (!apiKey) {
+    throw new GenerationConfigError("Missing API key");
+  }
+  return new GoogleGenAI({ apiKey });
+};
+
+/**
+ * @function getTextProvider
+ * @description Returns the configured recipe text provider.
+ * @returns {TextGenerationProvider} The provider selected by `GENERATION_PROVIDER`.
+ * @throws {GenerationConfigError} If the provider is unknown or misconfigured.
+ */
+export const getTextProvider = (): TextGenerationProvider =>
+  resolveProviderName(process.env.GENERATION_PROVIDER) === "fake"
+    ? createFakeTextProvider()
+    : createGeminiTextProvider(getGenAIClient());
+
+/**
+ * @function getImageProvider
+ * @description Returns the configured recipe image provider.
+ * @returns {ImageGenerationProvider} The provider selected by `GENERATION_IMAGE_PROVIDER`, falling back to `GENERATION_PROVIDER`.
+ * @throws {GenerationConfigError} If the provider is unknown or misconfigured.
+ */
+export const getImageProvider = (): ImageGenerationProvider =>
+  resolveProviderName(process.env.GENERATION_IMAGE_PROVIDER || process.env.GENERATION_PROVIDER) === "fake"
+    ? createFakeImageProvider()
+    : createImagenImageProvider(getGenAIClient());
@@ -0,0 +1,95 @@
+/**
+ * @file src/lib/generation/options.ts
+ * @description The optional structured controls a visitor can set alongside their prompt: meal type, cuisine, servings
+ * and "wreck level" (how unhinged the recipe should be). Shared by the generation routes, which validate and fold them
+ * into the prompt, and by `PromptInput`, which renders them as an advanced-options panel.
+ *
+ * This module has no server-only dependencies so it can be imported by client components.
+ * @requires zod For validating the options.
+ * @requires @/lib/recipe For the meal types and the servings limit.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import { z } from "zod"; // Library for schema validation.
+import { MAX_SERVINGS, MEAL_TYPES } from "@/lib/recipe"; // Shared recipe contract.
+
+/**
+ * @constant WRECK_LEVELS
+ * @description The 1–5 intensity scale, from lightly indulgent to fully unhinged. `label` is shown in the UI;
+ * `instruction` is added to the model's system instruction.
+ */
+export const WRECK_LEVELS = [
+  {
+    level: 1,
+    label: "Cheat Day",
+    instruction: "Keep it recognisably edible: a familiar dish made indulgent with extra butter, cheese or sugar.",
+  },
+  {
+    level: 2,
+    label: "Questionable",
+    instruction: "Make it clearly excessive but still something a diner might serve, with one or two unhinged touches.",
+  },
+  {
+    level: 3,
+    label: "Full Wreck",
+    instruction: "Make it outrageously unhealthy, combining deep-frying, sugar and processed foods with gleeful excess.",
+  },
+  {
+    level: 4,
+    label: "Cardiologist's Nightmare",
+    instruction: "Go far over the top: stack multiple fried, candied and cheese-stuffed components into one absurd dish.",
+  },
+  {
+    level: 5,
+    label: "Absolute Abomination",
+    instruction: "Go to the comedic extreme: the most absurd, gloriously excessive creation possible, while still food.",
+  },
+] as const;
+
+/**
+ * @constant DEFAULT_WRECK_LEVEL
+ * @description The intensity used when the visitor doesn't choose one; matches the tone of the original prompt.
+ */
+export const DEFAULT_WRECK_LEVEL = 3;
+
+/**
+ * @constant GenerationOptionsSchema
+ * @description Zod schema for the optional generation controls. Every field may be omitted. The cuisine is free text,
+ * so it is treated like the prompt: moderated, and sent to the model as data rather than instructions.
+ */
+export const GenerationOptionsSchema = z.object({
+  mealType: z.enum(MEAL_TYPES).optional(),
+  cuisine: z.string().trim().max(40).optional(),
+  servings: z.number().int().min(1).max(MAX_SERVINGS).optional(),
+  wreckLevel: z.number().int().min(1).max(WRECK_LEVELS.length).optional(),
+});
+
+/**
+ * @typedef {object} GenerationOptions
+ * @description The validated generation controls.
+ */
+export type GenerationOptions = z.infer<typeof GenerationOptionsSchema>;
+
+/**
+ * @function describePreferences
+ * @description Lists the visitor's preferences as lines for the data block of a generation request.
+ * @param {GenerationOptions} options - The generation controls.
+ * @returns {string[]} One line per preference that was set, e.g. `Cuisine: Thai`.
+ */
+export const describePreferences = ({ mealType, cuisine, servings }: GenerationOptions): string[] => [
+  ...(mealType ? [`Meal type: ${mealType}`] : []),
+  ...(cuisine ? [`Cuisine: ${cuisine}`] : []),
+  ...(servings ? [`Servings: ${servings}`] : []),
+];
+
+/**
+ * @function wreckLevelInstruction
+ * @description Returns the system instruction for a wreck level.
+ * @param {number} [level=DEFAULT_WRECK_LEVEL] - The wreck level, 1 to 5.
+ * @returns {string} The instruction.
+ */
+export const wreckLevelInstruction = (level: number = DEFAULT_WRECK_LEVEL): string => {
+  const entry = WRECK_LEVELS.find((w) => w.level === level) ?? WRECK_LEVELS[DEFAULT_WRECK_LEVEL - 1];
+  return `Wreck level ${entry.level} of ${WRECK_LEVELS.length} (${entry.label}): ${entry.instruction}`;
+};
@@ -0,0 +1,144 @@
+/**
+ * @file src/lib/generation/pipeline.ts
+ * @description The non-streaming recipe generation pipeline shared by `/api/generate` and `/api/remix`: text generation
+ * with recipe-contract validation and retries, output moderation, image generation and storage, and persistence.
+ * Routes stay responsible for request validation, rate limiting and prompt moderation, which differ per endpoint.
+ * @requires @/lib/recipe For parsing and validating model output.
+ * @requires @/lib/moderation For output moderation.
+ * @requires @/lib/images For storing the generated image.
+ * @requires @/lib/recipes For persisting the recipe.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import { imageUrl, storeGeneratedImage, type StoredImage } from "@/lib/images"; // Image storage.
+import { moderateRecipe, type ModerationContext, type ModerationDecision } from "@/lib/moderation"; // Moderation pipeline.
+import { parseRecipeOutput, validateRecipeContract, type GeneratedRecipe } from "@/lib/recipe"; // Recipe contract.
+import { saveRecipe } from "@/lib/recipes"; // Recipe persistence.
+import { getMaxGenerationAttempts } from "./index"; // Retry configuration.
+import { buildImagePrompt } from "./prompts"; // Shared prompt templates.
+import type { ImageGenerationProvider, TextGenerationProvider, TextGenerationRequest } from "./types"; // Provider contracts.
+
+/**
+ * The recipe returned to the client by the JSON generation endpoints.
+ * @interface GenerationResult
+ * @extends GeneratedRecipe
+ * @property {string | null} id - The stored recipe id, or null if the database was unavailable.
+ * @property {string | null} slug - The permalink slug, or null if the database was unavailable.
+ * @property {string} imageUrl - The stored image URL, or an empty string.
+ * @property {string | null} parentId - For remixes, the parent recipe id.
+ * @property {string | null} remixDirection - For remixes, the direction used.
+ */
+export interface GenerationResult extends GeneratedRecipe {
+  id: string | null;
+  slug: string | null;
+  imageUrl: string;
+  parentId: string | null;
+  remixDirection: string | null;
+}
+
+/**
+ * The outcome of a pipeline run.
+ * - `ok`: the recipe was generated (and, best-effort, stored).
+ * - `rejected`: output moderation blocked the recipe.
+ * - `invalid`: every attempt broke the recipe contract.
+ * @typedef {object} GenerationOutcome
+ */
+export type GenerationOutcome =
+  | { status: "ok"; result: GenerationResult }
+  | { status: "rejected"; decision: ModerationDecision }
+  | { status: "invalid" };
+
+/**
+ * Runs the generation pipeline.
+ * Persistence is best-effort: if the database is unavailable the recipe is still returned, with `id` and `slug` set to
+ * null. Likewise, if the image store fails the recipe is returned without an image.
+ * @async
+ * @param {object} options - Pipeline inputs.
+ * @param {TextGenerationProvider} options.textProvider - The text provider.
+ * @param {ImageGenerationProvider} options.imageProvider - The image provider.
+ * @param {TextGenerationRequest} options.textRequest - The rendered text request.
+ * @param {string} options.userPrompt - What to store as the recipe's prompt.
+ * @param {ModerationContext} options.moderationContext - Who made the request. A signed-in `userID` also becomes the
+ *   stored recipe's owner.
+ * @param {string | null} [options.parentId] - For remixes, the parent recipe id.
+ * @param {string | null} [options.remixDirection] - For remixes, the direction.
+ * @param {boolean} [options.hdImages=false] - Whether to ask for a full-quality image (a tier feature).
+ * @returns {Promise<GenerationOutcome>} The outcome.
+ * @throws {Error} If a provider call fails.
+ */
+export async function runRecipeGeneration({
+  textProvider,
+  imageProvider,
+  textRequest,
+  userPrompt,
+  moderationContext,
+  parentId = null,
+  remixDirection = null,
+  hdImages = false,
+}: {
+  textProvider: TextGenerationProvider;
+  imageProvider: ImageGenerationProvider;
+  textRequest: TextGenerationRequest;
+  userPrompt: string;
+  moderationContext: ModerationContext;
+  parentId?: string | null;
+  remixDirection?: string | null;
+  hdImages?: boolean;
+}): Promise<GenerationOutcome> {
+  console.log(`Text prompt (${textProvider.name}):`, textRequest.prompt);
+
+  let recipe: GeneratedRecipe | null = null;
+  for (let attempt = 1; attempt <= getMaxGenerationAttempts() && !recipe; attempt++) {
+    const rawText = await textProvider.generateRecipeJson(textRequest);
+    console.log(`rawText is: ${rawText}`);
+    const parsed = parseRecipeOutput(rawText);
+    if (!parsed.structured) {
+      console.warn("Model returned non-JSON output; used the free-text fallback parser.");
+    }
+    const issues = validateRecipeContract(parsed.recipe);
+    if (issues.length === 0) {
+      recipe = parsed.recipe;
+    } else {
+      console.warn(`Attempt ${attempt} broke the recipe contract:`, issues);
+    }
+  }
+  if (!recipe) return { status: "invalid" };
+
+  const outputCheck = await moderateRecipe(recipe, moderationContext);
+  if (!outputCheck.allowed) return { status: "rejected", decision: outputCheck };
+
+  const image = await imageProvider.generateImage({
+    title: recipe.title,
+    prompt: buildImagePrompt(recipe),
+    hd: hdImages,
+  });
+  let storedImage: StoredImage | null = null;
+  try {
+    storedImage = image ? await storeGeneratedImage(image) : null;
+  } catch (storeErr) {
+    console.error("Failed to store generated image", storeErr);
+  }
+
+  let saved: Pick<GenerationResult, "id" | "slug" | "parentId" | "remixDirection"> = {
+    id: null,
+    slug: null,
+    parentId,
+    remixDirection,
+  };
+  try {
+    const stored = await saveRecipe({
+      userPrompt,
+      recipe,
+      image: storedImage,
+      parentId,
+      remixDirection,
+      userID: moderationContext.userID ?? null,
+    });
+    saved = { id: stored.id, slug: stored.slug, parentId: stored.parentId, remixDirection: stored.remixDirection };
+  } catch (saveErr) {
+    console.error("Failed to save generated recipe", saveErr);
+  }
+
+  return { status: "ok", result: { ...saved, ...recipe, imageUrl: storedImage ? imageUrl(storedImage.id) : "" } };
+}
@@ -0,0 +1,72 @@
+/**
+ * @file src/lib/generation/types.ts
+ * @description Interfaces for the pluggable generation provider layer. The API routes only talk to these interfaces,
+ * so the Gemini/Imagen implementation can be swapped for the offline fake provider (or any future backend) through
+ * environment configuration alone.
+ * @see ./index.ts For provider selection.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+/**
+ * @typedef {object} TextGenerationRequest
+ * @description Input for a recipe text generation call.
+ * @property {string} subject - The user's own prompt, used by providers that key their output on it (e.g. the fake provider).
+ * @property {string} systemInstruction - The persona, rules and output format. Sent as the model's system instruction,
+ * never mixed with user text.
+ * @property {string} prompt - The user turn: the user's prompt wrapped in data delimiters by `wrapUserData`.
+ */
+export interface TextGenerationRequest {
+  subject: string;
+  systemInstruction: string;
+  prompt: string;
+}
+
+/**
+ * @interface TextGenerationProvider
+ * @description Produces recipe text. Providers return raw model output; parsing and validation stay in `@/lib/recipe`
+ * so every provider goes through the same code path.
+ * @property {string} name - Identifier used in logs.
+ * @property {function} generateRecipeJson - Returns a single JSON object matching `RecipeSchema`.
+ * @property {function} streamRecipeText - Yields text in the `STREAM_FORMAT_INSTRUCTIONS` line format as it is produced.
+ */
+export interface TextGenerationProvider {
+  readonly name: string;
+  generateRecipeJson(request: TextGenerationRequest): Promise<string>;
+  streamRecipeText(request: TextGenerationRequest): AsyncIterable<string>;
+}
+
+/**
+ * @typedef {object} ImageGenerationRequest
+ * @description Input for a recipe image generation call.
+ * @property {string} title - The recipe title.
+ * @property {string} prompt - The fully rendered image prompt.
+ * @property {boolean} [hd] - Whether to return a full-quality image (a tier feature); otherwise providers may compress.
+ */
+export interface ImageGenerationRequest {
+  title: string;
+  prompt: string;
+  hd?: boolean;
+}
+
+/**
+ * @typedef {object} GeneratedImage
+ * @description An image returned by an image provider.
+ * @property {string} base64 - The base64-encoded image bytes.
+ * @property {string} mimeType - The image MIME type, e.g. `image/png`.
+ */
+export interface GeneratedImage {
+  base64: string;
+  mimeType: string;
+}
+
+/**
+ * @interface ImageGenerationProvider
+ * @description Produces a cover image for a recipe.
+ * @property {string} name - Identifier used in logs.
+ * @property {function} generateImage - Resolves to the image, or null when the provider returned nothing.
+ */
+export interface ImageGenerationProvider {
+  readonly name: string;
+  generateImage(request: ImageGenerationRequest): Promise<GeneratedImage | null>;
+}
@@ -0,0 +1,65 @@
+/**
+ * @file src/lib/images/gridfs.ts
+ * @description Image store backed by MongoDB GridFS, for deployments where several server instances (or ephemeral
+ * filesystems) need to share images. Files live in the `images` bucket with the content-addressed id as the filename.
+ * @requires mongoose - For the underlying MongoDB driver.
+ * @requires @/lib/mongodb Database connection utility
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import mongoose from 'mongoose';
+import dbConnect from '@/lib/mongodb';
+import type { ImageObject, ImageStore } from './types';
+
+/**
+ * @constant BUCKET_NAME
+ * @description The GridFS bucket holding generated images (`images.files` / `images.chunks`).
+ */
+const BUCKET_NAME = 'images';
+
+/**
+ * Opens the images bucket on the shared connection.
+ * @async
+ * @returns {Promise<mongoose.mongo.GridFSBucket>} The bucket.
+ * @throws {Error} If the database is unavailable.
+ */
+async function getBucket(): Promise<mongoose.mongo.GridFSBucket> {
+  const conn = await dbConnect();
+  const db = conn.connection.db;
+  if (!db) throw new Error('MongoDB connection has no database handle.');
+  return new mongoose.mongo.GridFSBucket(db, { bucketName: BUCKET_NAME });
+}
+
+/**
+ * Creates a GridFS image store.
+ * @returns {ImageStore} The store.
+ */
+export function createGridFsImageStore(): ImageStore {
+  return {
+    name: 'gridfs',
+
+    async put(id: string, image: ImageObject): Promise<void> {
+      const bucket = await getBucket();
+      if (await bucket.find({ filename: id }).limit(1).hasNext()) return;
+      await new Promise<void>((resolve, reject) => {
+        bucket
+          .openUploadStream(id, { metadata: { mimeType: image.mimeType } })
+          .on('error', reject)
+          .on('finish', () => resolve())
+          .end(image.data);
+      });
+    },
+
+    async get(id: string): Promise<ImageObject | null> {
+      const bucket = await getBucket();
+      const file = await bucket.find({ filename: id }).limit(1).next();
+      if (!file) return null;
+      const chunks: Buffer[] = [];
+      for await (const chunk of bucket.openDownloadStream(file._id)) {
+        chunks.push(chunk as Buffer);
+      }
+      return { data: Buffer.concat(chunks), mimeType: String(file.metadata?.mimeType ?? 'application/octet-stream') };
+    },
+  };
+}
@@ -0,0 +1,61 @@
+/**
+ * @file src/lib/images/ids.ts
+ * @description Content-addressed image ids: the SHA-256 of the image bytes plus an extension for its MIME type.
+ * Because an id can only ever refer to one set of bytes, images can be served with immutable cache headers.
+ * @requires crypto - Node's crypto module, for hashing.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import { createHash } from 'crypto';
+
+/**
+ * @constant EXTENSIONS
+ * @description Supported image MIME types and their file extensions.
+ */
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+};
+
+const IMAGE_ID_PATTERN = /^[a-f0-9]{64}\.(png|jpg|webp|svg)$/;
+
+/**
+ * Builds the content-addressed id for an image.
+ * @param {Buffer} data - The image bytes.
+ * @param {string} mimeType - The image MIME type.
+ * @returns {string} The id, e.g. `3fa9…c1.png`.
+ * @throws {Error} If the MIME type is not supported.
+ */
+export function imageIdFor(data: Buffer, mimeType: string): string {
+  const ext = EXTENSIONS[mimeType];
+  if (!ext) throw new Error(`Unsupported image type: ${mimeType}`);
+  return `${createHash('sha256').update(data).digest('hex')}.${ext}`;
+}
+
+/**
+ * Checks that a string is a well-formed image id. Route handlers call this before touching storage, which also rules
+ * out path traversal in the filesystem store.
+ * @param {string} id - The candidate id.
+ * @returns {boolean} True if the id is well-formed.
+ */
+export const isValidImageId = (id: string): boolean => IMAGE_ID_PATTERN.test(id);
+
+/**
+ * Recovers the MIME type from an image id's extension.
+ * @param {string} id - A valid image id.
+ * @returns {string} The MIME type, or `application/octet-stream` for unknown extensions.
+ */
+export function mimeTypeForImageId(id: string): string {
+  const ext = id.slice(id.lastIndexOf('.') + 1);
+  return Object.keys(EXTENSIONS).find((type) => EXTENSIONS[type] === ext) ?? 'application/octet-stream';
+}
+
+/**
+ * The URL an image is served from.
+ * @param {string} id - The image id.
+ * @returns {string} The site-relative URL.
+ */
+export const imageUrl = (id: string): string => `/api/images/${id}`;
@@ -0,0 +1,52 @@
+/**
+ * @file src/lib/images/index.ts
+ * @description Entry point for image storage. Selects the backend from `IMAGE_STORAGE` ("local" by default, or
+ * "gridfs") and stores generated images under content-addressed ids.
+ * @requires ./local Filesystem store.
+ * @requires ./gridfs MongoDB GridFS store.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import type { GeneratedImage } from '@/lib/generation/types';
+import { createGridFsImageStore } from './gridfs';
+import { imageIdFor } from './ids';
+import { createLocalImageStore } from './local';
+import type { ImageStore, StoredImage } from './types';
+
+export type { ImageObject, ImageStore, StoredImage } from './types';
+export { imageUrl, isValidImageId } from './ids';
+
+let store: ImageStore | null = null;
+
+/**
+ * Returns the configured image store, creating it on first use.
+ * @returns {ImageStore} The store.
+ * @throws {Error} If `IMAGE_STORAGE` names an unknown backend.
+ */
+export function getImageStore(): ImageStore {
+  if (store) return store;
+  const backend = process.env.IMAGE_STORAGE || 'local';
+  if (backend === 'local') {
+    store = createLocalImageStore();
+  } else if (backend === 'gridfs') {
+    store = createGridFsImageStore();
+  } else {
+    throw new Error(`Unknown IMAGE_STORAGE backend: ${backend}`);
+  }
+  return store;
+}
+
+/**
+ * Stores a freshly generated image.
+ * @async
+ * @param {GeneratedImage} image - The base64 image from an image provider.
+ * @returns {Promise<StoredImage>} The stored image reference.
+ * @throws {Error} If the MIME type is unsupported or the backend fails.
+ */
+export async function storeGeneratedImage(image: GeneratedImage): Promise<StoredImage> {
+  const data = Buffer.from(image.base64, 'base64');
+  const id = imageIdFor(data, image.mimeType);
+  await getImageStore().put(id, { data, mimeType: image.mimeType });
+  return { id, mimeType: image.mimeType, size: data.length };
+}
@@ -0,0 +1,45 @@
+/**
+ * @file src/lib/images/local.ts
+ * @description Image store backed by the local filesystem. The default for development and single-instance deployments;
+ * use the GridFS store when several server instances need to see the same images.
+ * @requires fs/promises For reading and writing image files.
+ * @requires path For resolving the storage directory.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import path from 'path';
+import type { ImageObject, ImageStore } from './types';
+import { mimeTypeForImageId } from './ids';
+
+/**
+ * Creates a filesystem image store. Each image is written to `<dir>/<id>`; the MIME type is recovered from the id's
+ * extension, so no metadata files are needed.
+ * @param {string} [dir] - The storage directory. Defaults to `IMAGE_STORAGE_DIR`, then `.data/images` under the working directory.
+ * @returns {ImageStore} The store.
+ */
+export function createLocalImageStore(dir = process.env.IMAGE_STORAGE_DIR || path.join(process.cwd(), '.data', 'images')): ImageStore {
+  return {
+    name: 'local',
+
+    async put(id: string, image: ImageObject): Promise<void> {
+      await mkdir(dir, { recursive: true });
+      const target = path.join(dir, id);
+      // Write to a temp file and rename so a concurrent reader never sees a half-written image.
+      const temp = `${target}.${process.pid}.${Date.now()}.tmp`;
+      await writeFile(temp, image.data);
+      await rename(temp, target);
+    },
+
+    async get(id: string): Promise<ImageObject | null> {
+      try {
+        const data = await readFile(path.join(dir, id));
+        return { data, mimeType: mimeTypeForImageId(id) };
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw err;
+      }
+    },
+  };
+}
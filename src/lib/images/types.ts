@@ -0,0 +1,54 @@
+/**
+ * @file src/lib/images/types.ts
+ * @description Shared contracts for image storage backends. Generated images are stored once, under an id derived from
+ * a hash of their bytes, and served from `/api/images/[id]` instead of being inlined into API responses as base64.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+/**
+ * Reference to a stored image, as kept on recipe documents.
+ * @interface StoredImage
+ * @property {string} id - Content-addressed id: the SHA-256 of the bytes plus a file extension, e.g. `3fa9…c1.png`.
+ * @property {string} mimeType - The image MIME type.
+ * @property {number} size - The image size in bytes.
+ */
+export interface StoredImage {
+  id: string;
+  mimeType: string;
+  size: number;
+}
+
+/**
+ * An image read back from a store.
+ * @interface ImageObject
+ * @property {Buffer} data - The image bytes.
+ * @property {string} mimeType - The image MIME type.
+ */
+export interface ImageObject {
+  data: Buffer;
+  mimeType: string;
+}
+
+/**
+ * A storage backend for images. Ids are content hashes, so `put` is idempotent: storing the same bytes twice returns the
+ * same id without writing a second copy.
+ * @interface ImageStore
+ */
+export interface ImageStore {
+  /** Backend name, used in logs. */
+  name: string;
+  /**
+   * Stores an image under the given content-addressed id. Must be a no-op if the id already exists.
+   * @param {string} id - The content-addressed id.
+   * @param {ImageObject} image - The image to store.
+   * @returns {Promise<void>}
+   */
+  put(id: string, image: ImageObject): Promise<void>;
+  /**
+   * Reads an image.
+   * @param {string} id - The content-addressed id.
+   * @returns {Promise<ImageObject | null>} The image, or null if it does not exist.
+   */
+  get(id: string): Promise<ImageObject | null>;
+}
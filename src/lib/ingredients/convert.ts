@@ -0,0 +1,166 @@
+/**
+ * @file src/lib/ingredients/convert.ts
+ * @description Servings scaling and metric/US unit conversion for parsed ingredients. Scaled amounts are rounded to
+ * what a cook would measure (eighths and thirds for US units, round numbers for metric) and moved to the most natural
+ * unit, so 48 teaspoons become 1 cup and 1500 grams become 1.5 kilograms. Lines without an amount are left untouched.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import type { IngredientQuantity, ParsedIngredient, UnitDefinition } from './types';
+import { findUnit } from './units';
+
+/**
+ * The measurement system ingredients are shown in. `imperial` means US customary units.
+ * @typedef {'metric' | 'imperial'} UnitSystem
+ */
+export type UnitSystem = 'metric' | 'imperial';
+
+/**
+ * How to adjust an ingredient.
+ * @interface AdjustOptions
+ * @property {number} [factor=1] - What to multiply amounts by, e.g. 3 to go from 4 to 12 servings.
+ * @property {UnitSystem | null} [system=null] - The system to convert to, or null to keep each line's own units.
+ */
+export interface AdjustOptions {
+  factor?: number;
+  system?: UnitSystem | null;
+}
+
+/**
+ * @constant PREFERRED_UNITS
+ * @description For each system and kind, the units amounts may be expressed in, smallest first, with the smallest amount
+ * (in that unit) before the next unit up is preferred. Pints and fluid ounces are accepted as input but never chosen.
+ */
+const PREFERRED_UNITS: Record<UnitSystem, Record<'volume' | 'mass', { unit: string; minimum: number }[]>> = {
+  imperial: {
+    volume: [
+      { unit: 'teaspoon', minimum: 0 },
+      { unit: 'tablespoon', minimum: 1 },
+      { unit: 'cup', minimum: 0.25 },
+      { unit: 'quart', minimum: 1 },
+      { unit: 'gallon', minimum: 1 },
+    ],
+    mass: [
+      { unit: 'ounce', minimum: 0 },
+      { unit: 'pound', minimum: 1 },
+    ],
+  },
+  metric: {
+    volume: [
+      { unit: 'milliliter', minimum: 0 },
+      { unit: 'liter', minimum: 1 },
+    ],
+    mass: [
+      { unit: 'gram', minimum: 0 },
+      { unit: 'kilogram', minimum: 1 },
+    ],
+  },
+};
+
+/**
+ * Rounds an amount to something measurable: the nearest eighth or third below 10 for US and count units, whole or half
+ * units above that; for metric, steps that grow with the amount (0.5 ml under 10, 5 g under 1000, ...).
+ * @param {number} value - The exact amount.
+ * @param {UnitSystem | null} system - The unit's system; null for counts and unitless amounts.
+ * @returns {number} The rounded amount, never rounded down to zero.
+ */
+export function roundAmount(value: number, system: UnitSystem | null): number {
+  if (value <= 0) return 0;
+  let rounded: number;
+  if (system === 'metric') {
+    const step = value < 10 ? 0.5 : value < 100 ? 1 : value < 1000 ? 5 : 10;
+    rounded = Math.round(value / step) * step;
+    return rounded > 0 ? rounded : step;
+  }
+  if (value >= 100) {
+    rounded = Math.round(value);
+  } else if (value >= 10) {
+    rounded = Math.round(value * 2) / 2;
+  } else {
+    const eighths = Math.round(value * 8) / 8;
+    const thirds = Math.round(value * 3) / 3;
+    rounded = Math.abs(thirds - value) < Math.abs(eighths - value) ? thirds : eighths;
+  }
+  return rounded > 0 ? rounded : value < 1 / 3 ? 1 / 8 : 1 / 3;
+}
+
+/**
+ * Picks the most natural unit of a system for an amount, e.g. 1 cup rather than 48 teaspoons.
+ * @param {number} baseAmount - The amount in millilitres or grams.
+ * @param {'volume' | 'mass'} kind - What is being measured.
+ * @param {UnitSystem} system - The target system.
+ * @returns {UnitDefinition} The chosen unit.
+ */
+function pickUnit(baseAmount: number, kind: 'volume' | 'mass', system: UnitSystem): UnitDefinition {
+  let chosen = findUnit(PREFERRED_UNITS[system][kind][0].unit) as UnitDefinition;
+  for (const { unit, minimum } of PREFERRED_UNITS[system][kind]) {
+    const definition = findUnit(unit) as UnitDefinition;
+    // 1% slack so conversions that land a hair under a threshold (1/16 cup = 0.9999 tbsp) still move up.
+    if (baseAmount / (definition.toBase as number) >= minimum * 0.99) chosen = definition;
+  }
+  return chosen;
+}
+
+/**
+ * Multiplies a quantity.
+ * @param {IngredientQuantity} quantity - The quantity.
+ * @param {number} factor - The multiplier.
+ * @returns {IngredientQuantity} The scaled quantity.
+ */
+const multiply = (quantity: IngredientQuantity, factor: number): IngredientQuantity => ({
+  min: quantity.min * factor,
+  max: quantity.max * factor,
+});
+
+/**
+ * Scales and/or converts a parsed ingredient. Volume and mass amounts are re-expressed in the most natural unit whenever
+ * they are scaled or converted; untouched lines keep the unit they were written in. Count units (cans, sticks) and
+ * unitless amounts are only scaled. The note, which may mention package sizes, is kept as written.
+ * @param {ParsedIngredient} ingredient - The parsed ingredient.
+ * @param {AdjustOptions} [options] - The scaling factor and target system.
+ * @returns {ParsedIngredient} The adjusted ingredient, or the same object when there is nothing to adjust.
+ * @example
+ * adjustIngredient(parseIngredient('1 teaspoon vanilla extract'), { factor: 48 })
+ * // { ..., quantity: { min: 1, max: 1 }, unit: 'cup', item: 'vanilla extract' }
+ */
+export function adjustIngredient(ingredient: ParsedIngredient, { factor = 1, system = null }: AdjustOptions = {}): ParsedIngredient {
+  const { quantity } = ingredient;
+  if (!quantity) return ingredient;
+  const unit = ingredient.unit ? findUnit(ingredient.unit) : null;
+
+  if (!unit || unit.kind === 'count' || unit.toBase === null || unit.system === null) {
+    if (factor === 1) return ingredient;
+    const scaled = multiply(quantity, factor);
+    return { ...ingredient, quantity: { min: roundAmount(scaled.min, null), max: roundAmount(scaled.max, null) } };
+  }
+
+  const targetSystem = system ?? unit.system;
+  if (factor === 1 && targetSystem === unit.system) return ingredient;
+
+  return { ...ingredient, ...fromBaseQuantity(multiply(quantity, factor * unit.toBase), unit.kind as 'volume' | 'mass', targetSystem) };
+}
+
+/**
+ * Expresses an amount given in millilitres or grams in the most natural unit of a system, rounded for measuring.
+ * @param {IngredientQuantity} base - The amount in millilitres (volume) or grams (mass).
+ * @param {'volume' | 'mass'} kind - What is being measured.
+ * @param {UnitSystem} system - The target system.
+ * @returns {{ quantity: IngredientQuantity, unit: string }} The amount and canonical unit name.
+ * @example
+ * fromBaseQuantity({ min: 1500, max: 1500 }, 'mass', 'metric') // { quantity: { min: 1.5, max: 1.5 }, unit: 'kilogram' }
+ */
+export function fromBaseQuantity(
+  base: IngredientQuantity,
+  kind: 'volume' | 'mass',
+  system: UnitSystem
+): { quantity: IngredientQuantity; unit: string } {
+  const target = pickUnit(base.max, kind, system);
+  const toBase = target.toBase as number;
+  // Metric amounts are rounded in millilitres or grams so litres and kilograms keep useful precision (1.25 kg).
+  const convert = (amount: number) =>
+    system === 'metric'
+      ? Math.round((roundAmount(amount, 'metric') / toBase) * 1000) / 1000
+      : roundAmount(amount / toBase, 'imperial');
+  return { quantity: { min: convert(base.min), max: convert(base.max) }, unit: target.name };
+}
@@ -0,0 +1,366 @@
+/**
+ * @file src/lib/ingredients/corpus.ts
+ * @description Reference cases for the ingredient parser. The first group is every ingredient line from the landing page
+ * showcase (`mockRecipes` in `src/app/page.tsx`), which is exactly the kind of rambling, parenthetical-heavy text the
+ * model writes; the second covers amount formats the showcase doesn't use (mixed numbers, ranges, unicode fractions).
+ * After changing the parser, run `npm run check:ingredients` (which calls {@link checkIngredientCorpus}) and fix every
+ * mismatch it reports.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import { parseIngredient } from './parse';
+import type { ParsedIngredient } from './types';
+
+/**
+ * An ingredient line and how it should parse.
+ * @interface IngredientCorpusCase
+ * @property {string} text - The line.
+ * @property {Omit<ParsedIngredient, 'original'>} expected - The expected parse.
+ */
+export interface IngredientCorpusCase {
+  text: string;
+  expected: Omit<ParsedIngredient, 'original'>;
+}
+
+/**
+ * @constant SHOWCASE_CASES
+ * @description Every ingredient line of the three `mockRecipes`, in order.
+ */
+const SHOWCASE_CASES: IngredientCorpusCase[] = [
+  {
+    text: '1 extra-large, freshly made funnel cake (this is your "tortilla," a greasy canvas for the masterpiece of poor decisions to come)',
+    expected: {
+      quantity: { min: 1, max: 1 },
+      unit: null,
+      item: 'extra-large, freshly made funnel cake',
+      note: 'this is your "tortilla," a greasy canvas for the masterpiece of poor decisions to come',
+    },
+  },
+  {
+    text: '1 gallon peanut oil',
+    expected: {
+      quantity: { min: 1, max: 1 },
+      unit: 'gallon',
+      item: 'peanut oil',
+      note: null,
+    },
+  },
+  {
+    text: '1 full slice of New York-style cheesecake, frozen solid (the dense, icy core of this caloric black hole)',
+    expected: {
+      quantity: { min: 1, max: 1 },
+      unit: 'slice',
+      item: 'New York-style cheesecake',
+      note: 'full; frozen solid; the dense, icy core of this caloric black hole',
+    },
+  },
+  {
+    text: '3 scoops of chocolate fudge brownie ice cream (to ensure immediate brain freeze and a diabetic coma chaser)',
+    expected: {
+      quantity: { min: 3, max: 3 },
+      unit: 'scoop',
+      item: 'chocolate fudge brownie ice cream',
+      note: 'to ensure immediate brain freeze and a diabetic coma chaser',
+    },
+  },
+  {
+    text: '1 cup of bacon bits, candied in maple syrup',
+    expected: {
+      quantity: { min: 1, max: 1 },
+      unit: 'cup',
+      item: 'bacon bits',
+      note: 'candied in maple syrup',
+    },
+  },
+  {
+    text: '1/2 cup Hershey\'s chocolate shell sauce (the delicious, quick-hardening cement holding this monstrosity together)',
+    expected: {
+      quantity: { min: 0.5, max: 0.5 },
+      unit: 'cup',
+      item: 'Hershey\'s chocolate shell sauce',
+      note: 'the delicious, quick-hardening cement holding this monstrosity together',
+    },
+  },
+  {
+    text: '1 sleeve of Oreos, crushed (for that delightful, gritty texture that says "I\'ve given up on my teeth")',
+    expected: {
+      quantity: { min: 1, max: 1 },
+      unit: 'sleeve',
+      item: 'Oreos',
+      note: 'crushed; for that delightful, gritty texture that says "I\'ve given up on my teeth"',
+    },
+  },
+  {
+    text: '1 can of extra-creamy whipped cream (from a can, naturally, for that authentic taste of aerosol and regret)',
+    expected: {
+      quantity: { min: 1, max: 1 },
+      unit: 'can',
+      item: 'extra-creamy whipped cream',
+      note: 'from a can, naturally, for that authentic taste of aerosol and regret',
+    },
+  },
+  {
+    text: 'A stick of butter (the unsung hero, greasing the wheels of this entire digestive disaster)',
+    expected: {
+      quantity: { min: 1, max: 1 },
+      unit: 'stick',
+      item: 'butter',
+      note: 'the unsung hero, greasing the wheels of this entire digestive disaster',
+    },
+  },
+  {
+    text: '1 cup full-fat mayonnaise (the richer, the better, ideally a whole-egg variety)',
+    expected: {
+      quantity: { min: 1, max: 1 },
+      unit: 'cup',
+      item: 'full-fat mayonnaise',
+      note: 'the richer, the better, ideally a whole-egg variety',
+    },
+  },
+  {
+    text: '1 cup crushed butter crackers (like Ritz, for that extra buttery crunch)',
+    expected: {
+      quantity: { min: 1, max: 1 },
+      unit: 'cup',
+      item: 'crushed butter crackers',
+      note: 'like Ritz, for that extra buttery crunch',
+    },
+  },
+  {
+    text: '1/2 cup finely shredded sharp cheddar cheese (because why stop at mayo?)',
+    expected: {
+      quantity: { min: 0.5, max: 0.5 },
+      unit: 'cup',
+      item: 'finely shredded sharp cheddar cheese',
+      note: 'because why stop at mayo?',
+    },
+  },
+  {
+    text: '1/4 cup crumbled bacon bits (the real kind, not the soy stuff)',
+    expected: {
+      quantity: { min: 0.25, max: 0.25 },
+      unit: 'cup',
+      item: 'crumbled bacon bits',
+      note: 'the real kind, not the soy stuff',
+    },
+  },
+  {
+    text: '1/2 cup all-purpose flour',
+    expected: {
+      quantity: { min: 0.5, max: 0.5 },
+      unit: 'cup',
+      item: 'all-purpose flour',
+      note: null,
+    },
+  },
+  {
+    text: '2 large eggs, beaten',
+    expected: {
+      quantity: { min: 2, max: 2 },
+      unit: null,
+      item: 'large eggs',
+      note: 'beaten',
+    },
+  },
+  {
+    text: '4 cups vegetable oil (or lard, if you\'re truly committed) for deep frying',
+    expected: {
+      quantity: { min: 4, max: 4 },
+      unit: 'cup',
+      item: 'vegetable oil',
+      note: 'for deep frying; or lard, if you\'re truly committed',
+    },
+  },
+  {
+    text: 'Optional: A sprinkle of powdered sugar for "balance" (don\'t ask, just do it)',
+    expected: {
+      quantity: { min: 1, max: 1 },
+      unit: 'sprinkle',
+      item: 'powdered sugar',
+      note: 'optional; for "balance"; don\'t ask, just do it',
+    },
+  },
+  {
+    text: '1 can (12 oz) Spam, preferably the "Less Sodium" kind (we need some illusion of health, right?)',
+    expected: {
+      quantity: { min: 1, max: 1 },
+      unit: 'can',
+      item: 'Spam',
+      note: 'preferably the "Less Sodium" kind; 12 oz; we need some illusion of health, right?',
+    },
+  },
+  {
+    text: '1 cup granulated white sugar',
+    expected: {
+      quantity: { min: 1, max: 1 },
+      unit: 'cup',
+      item: 'granulated white sugar',
+      note: null,
+    },
+  },
+  {
+    text: '1/2 cup brown sugar, packed',
+    expected: {
+      quantity: { min: 0.5, max: 0.5 },
+      unit: 'cup',
+      item: 'brown sugar',
+      note: 'packed',
+    },
+  },
+  {
+    text: '1/4 cup corn syrup (for that extra sticky, sugary sheen)',
+    expected: {
+      quantity: { min: 0.25, max: 0.25 },
+      unit: 'cup',
+      item: 'corn syrup',
+      note: 'for that extra sticky, sugary sheen',
+    },
+  },
+  {
+    text: '1/2 stick (4 oz) unsalted butter, melted',
+    expected: {
+      quantity: { min: 0.5, max: 0.5 },
+      unit: 'stick',
+      item: 'unsalted butter',
+      note: 'melted; 4 oz',
+    },
+  },
+  {
+    text: '1/4 cup heavy whipping cream',
+    expected: {
+      quantity: { min: 0.25, max: 0.25 },
+      unit: 'cup',
+      item: 'heavy whipping cream',
+      note: null,
+    },
+  },
+  {
+    text: '1 teaspoon vanilla extract (to make it taste less like pure sugar and more like... dessert Spam?)',
+    expected: {
+      quantity: { min: 1, max: 1 },
+      unit: 'teaspoon',
+      item: 'vanilla extract',
+      note: 'to make it taste less like pure sugar and more like... dessert Spam?',
+    },
+  },
+  {
+    text: '1/2 cup mini marshmallows (for textural contrast and another sugar hit)',
+    expected: {
+      quantity: { min: 0.5, max: 0.5 },
+      unit: 'cup',
+      item: 'mini marshmallows',
+      note: 'for textural contrast and another sugar hit',
+    },
+  },
+  {
+    text: 'A generous handful of sprinkles (because why not?)',
+    expected: {
+      quantity: null,
+      unit: null,
+      item: 'A generous handful of sprinkles',
+      note: 'because why not?',
+    },
+  },
+];
+
+/**
+ * @constant FORMAT_CASES
+ * @description Amount formats and edge cases not covered by the showcase.
+ */
+const FORMAT_CASES: IngredientCorpusCase[] = [
+  {
+    text: '1 1/2 cups sugar',
+    expected: {
+      quantity: { min: 1.5, max: 1.5 },
+      unit: 'cup',
+      item: 'sugar',
+      note: null,
+    },
+  },
+  {
+    text: '2-3 tbsp. butter',
+    expected: {
+      quantity: { min: 2, max: 3 },
+      unit: 'tablespoon',
+      item: 'butter',
+      note: null,
+    },
+  },
+  {
+    text: '1½ lbs bacon',
+    expected: {
+      quantity: { min: 1.5, max: 1.5 },
+      unit: 'pound',
+      item: 'bacon',
+      note: null,
+    },
+  },
+  {
+    text: 'half a cup of cream',
+    expected: {
+      quantity: { min: 0.5, max: 0.5 },
+      unit: 'cup',
+      item: 'cream',
+      note: null,
+    },
+  },
+  {
+    text: '2 to 3 fl oz rum',
+    expected: {
+      quantity: { min: 2, max: 3 },
+      unit: 'fluid ounce',
+      item: 'rum',
+      note: null,
+    },
+  },
+  {
+    text: '3 garlic cloves, minced',
+    expected: {
+      quantity: { min: 3, max: 3 },
+      unit: null,
+      item: 'garlic cloves',
+      note: 'minced',
+    },
+  },
+  {
+    text: '12oz steak',
+    expected: {
+      quantity: { min: 12, max: 12 },
+      unit: 'ounce',
+      item: 'steak',
+      note: null,
+    },
+  },
+  {
+    text: 'Salt, to taste',
+    expected: {
+      quantity: null,
+      unit: null,
+      item: 'Salt',
+      note: 'to taste',
+    },
+  },
+];
+
+/**
+ * @constant INGREDIENT_CORPUS
+ * @description The full reference corpus.
+ */
+export const INGREDIENT_CORPUS: IngredientCorpusCase[] = [...SHOWCASE_CASES, ...FORMAT_CASES];
+
+/**
+ * Parses every corpus line and reports those that don't match their expected parse.
+ * @returns {{ text: string, expected: Omit<ParsedIngredient, 'original'>, actual: ParsedIngredient }[]} The mismatches;
+ * empty when the parser handles the whole corpus.
+ */
+export function checkIngredientCorpus() {
+  return INGREDIENT_CORPUS.map(({ text, expected }) => ({ text, expected, actual: parseIngredient(text) })).filter(
+    ({ expected, actual }) =>
+      actual.quantity?.min !== expected.quantity?.min ||
+      actual.quantity?.max !== expected.quantity?.max ||
+      actual.unit !== expected.unit ||
+      actual.item !== expected.item ||
+      actual.note !== expected.note
+  );
+}
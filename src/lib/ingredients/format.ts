@@ -0,0 +1,82 @@
+/**
+ * @file src/lib/ingredients/format.ts
+ * @description Renders parsed ingredients back to text, with amounts written the way a cook would write them
+ * ("1 1/2 cups" rather than "1.5 cup").
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import type { IngredientQuantity, ParsedIngredient } from './types';
+import { findUnit } from './units';
+
+/**
+ * @constant FRACTION_DENOMINATORS
+ * @description The fractions amounts are rounded to when close enough: halves, thirds, quarters and eighths.
+ */
+const FRACTION_DENOMINATORS = [2, 3, 4, 8];
+
+/**
+ * Formats a single amount as a whole number, a mixed fraction or, failing those, a short decimal. Metric amounts are
+ * always written as decimals.
+ * @param {number} value - The amount.
+ * @param {'fraction' | 'decimal'} [style='fraction'] - How to write non-whole amounts.
+ * @returns {string} e.g. `2`, `1 1/2`, `1/3` or `0.15`.
+ */
+export function formatAmount(value: number, style: 'fraction' | 'decimal' = 'fraction'): string {
+  if (style === 'decimal') return String(Math.round(value * 100) / 100);
+  const whole = Math.floor(value);
+  const fraction = value - whole;
+  if (fraction < 0.01) return String(whole);
+  if (fraction > 0.99) return String(whole + 1);
+  for (const denominator of FRACTION_DENOMINATORS) {
+    const numerator = Math.round(fraction * denominator);
+    if (numerator > 0 && numerator < denominator && Math.abs(fraction - numerator / denominator) < 0.01) {
+      return whole ? `${whole} ${numerator}/${denominator}` : `${numerator}/${denominator}`;
+    }
+  }
+  return String(Math.round(value * 100) / 100);
+}
+
+/**
+ * Formats a quantity, which may be a range.
+ * @param {IngredientQuantity} quantity - The quantity.
+ * @param {'fraction' | 'decimal'} [style='fraction'] - How to write non-whole amounts.
+ * @returns {string} e.g. `3/4` or `2-3`.
+ */
+export function formatQuantity(quantity: IngredientQuantity, style: 'fraction' | 'decimal' = 'fraction'): string {
+  return quantity.min === quantity.max
+    ? formatAmount(quantity.min, style)
+    : `${formatAmount(quantity.min, style)}-${formatAmount(quantity.max, style)}`;
+}
+
+/**
+ * Returns the unit name to print after a quantity, pluralised for amounts over one.
+ * @param {string} unit - The canonical unit name.
+ * @param {IngredientQuantity | null} quantity - The quantity it follows.
+ * @returns {string} e.g. `cup` or `cups`.
+ */
+export function formatUnit(unit: string, quantity: IngredientQuantity | null): string {
+  const definition = findUnit(unit);
+  if (!definition) return unit;
+  return quantity && quantity.max > 1 ? definition.plural : definition.name;
+}
+
+/**
+ * Formats the amount part of an ingredient: its quantity and unit.
+ * @param {ParsedIngredient} ingredient - The ingredient.
+ * @returns {string} e.g. `1 1/2 cups`, `2`, or an empty string when the line has no amount.
+ */
+export function formatAmountWithUnit({ quantity, unit }: Pick<ParsedIngredient, 'quantity' | 'unit'>): string {
+  const style = unit && findUnit(unit)?.system === 'metric' ? 'decimal' : 'fraction';
+  return [quantity ? formatQuantity(quantity, style) : '', unit ? formatUnit(unit, quantity) : ''].filter(Boolean).join(' ');
+}
+
+/**
+ * Formats a parsed ingredient as a single line.
+ * @param {ParsedIngredient} ingredient - The ingredient.
+ * @returns {string} e.g. `1/2 cup brown sugar (packed)`.
+ */
+export function formatIngredient(ingredient: ParsedIngredient): string {
+  const line = [formatAmountWithUnit(ingredient), ingredient.item].filter(Boolean).join(' ');
+  return ingredient.note ? `${line} (${ingredient.note})` : line;
+}
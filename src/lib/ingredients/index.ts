@@ -0,0 +1,16 @@
+/**
+ * @file src/lib/ingredients/index.ts
+ * @description Entry point for structured ingredients: parsing free-text ingredient lines into quantity, unit, item and
+ * note, the recognised units, servings scaling and metric/US conversion, and formatting parsed ingredients back to text.
+ * Used by the recipe cards, and the base for shopping lists.
+ *
+ * This module has no server-only dependencies so it can be imported by client components.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+export type { IngredientQuantity, ParsedIngredient, UnitDefinition, UnitKind } from './types';
+export { parseIngredient, splitIngredientLines } from './parse';
+export { findUnit, UNITS } from './units';
+export { adjustIngredient, fromBaseQuantity, roundAmount, type AdjustOptions, type UnitSystem } from './convert';
+export { formatAmount, formatAmountWithUnit, formatIngredient, formatQuantity, formatUnit } from './format';
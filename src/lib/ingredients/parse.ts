@@ -0,0 +1,198 @@
+/**
+ * @file src/lib/ingredients/parse.ts
+ * @description Turns free-text ingredient lines, as written by the model or in the landing page showcase, into
+ * structured {@link ParsedIngredient}s: "1 1/2 cups brown sugar, packed" becomes a quantity of 1.5, the unit `cup`,
+ * the item "brown sugar" and the note "packed". Parsing never fails; anything that isn't understood stays in `item`.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import type { IngredientQuantity, ParsedIngredient } from './types';
+import { findUnit, UNIT_PATTERN } from './units';
+
+/**
+ * @constant UNICODE_FRACTIONS
+ * @description Vulgar fraction characters and their values.
+ */
+const UNICODE_FRACTIONS: Record<string, number> = {
+  '½': 1 / 2, '⅓': 1 / 3, '⅔': 2 / 3, '¼': 1 / 4, '¾': 3 / 4, '⅕': 1 / 5, '⅖': 2 / 5, '⅗': 3 / 5, '⅘': 4 / 5,
+  '⅙': 1 / 6, '⅚': 5 / 6, '⅛': 1 / 8, '⅜': 3 / 8, '⅝': 5 / 8, '⅞': 7 / 8,
+};
+
+const FRACTION_CHARS = Object.keys(UNICODE_FRACTIONS).join('');
+
+/**
+ * @constant AMOUNT
+ * @description One amount: a mixed number ("1 1/2", "1½"), a fraction, a decimal or a whole number.
+ */
+const AMOUNT = `(?:\\d+\\s+\\d+\\s*/\\s*\\d+|\\d+\\s*[${FRACTION_CHARS}]|\\d+\\s*/\\s*\\d+|\\d*\\.\\d+|\\d+|[${FRACTION_CHARS}])`;
+
+/**
+ * @constant QUANTITY_PATTERN
+ * @description An amount or a range ("2-3", "2 to 3", "1 or 2") at the start of a line.
+ */
+const QUANTITY_PATTERN = new RegExp(`^(${AMOUNT})(?:\\s*(?:-|–|—|to|or)\\s*(${AMOUNT}))?(?=\\s|$|[a-z])`, 'i');
+
+/**
+ * @constant NUMBER_WORDS
+ * @description Spelled-out amounts. "a" and "an" only count as 1 when followed by a unit ("a stick of butter"), so
+ * vague lines like "a generous handful of sprinkles" are left alone.
+ */
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11,
+  twelve: 12, half: 0.5,
+};
+
+const NUMBER_WORD_PATTERN = new RegExp(`^(${Object.keys(NUMBER_WORDS).join('|')})\\b\\s*`, 'i');
+
+/**
+ * @constant UNIT_MODIFIER_PATTERN
+ * @description Size words that can sit between the amount and the unit ("1 heaping tablespoon", "1 full slice").
+ */
+const UNIT_MODIFIER_PATTERN = /^(heaping|heaped|level|scant|generous|full|rounded|good|big|large|small)\s+/i;
+
+/**
+ * @constant PREPARATION_WORDS
+ * @description Words that start a preparation note after a comma ("eggs, beaten") but don't end in -ed or -en.
+ */
+const PREPARATION_WORDS = new Set([
+  'optional', 'optionally', 'preferably', 'ideally', 'divided', 'to', 'at', 'plus', 'cut', 'thinly', 'finely',
+  'roughly', 'coarsely', 'cubed', 'ground', 'cold', 'warm', 'hot', 'room', 'as', 'about', 'or', 'if',
+]);
+
+/**
+ * Converts one amount string, e.g. "1 1/2", "1½", "3/4" or ".5", to a number.
+ * @param {string} text - The amount as written.
+ * @returns {number} The value; NaN if it can't be read (e.g. a zero denominator).
+ */
+function amountValue(text: string): number {
+  const compact = text.trim().replace(/\s*\/\s*/g, '/');
+  const mixed = compact.match(/^(\d+)\s+(\d+)\/(\d+)$/);
+  if (mixed) return Number(mixed[1]) + Number(mixed[2]) / Number(mixed[3]);
+  const unicode = compact.match(new RegExp(`^(\\d*)\\s*([${FRACTION_CHARS}])$`));
+  if (unicode) return Number(unicode[1] || 0) + UNICODE_FRACTIONS[unicode[2]];
+  const fraction = compact.match(/^(\d+)\/(\d+)$/);
+  if (fraction) return Number(fraction[2]) === 0 ? NaN : Number(fraction[1]) / Number(fraction[2]);
+  return Number(compact);
+}
+
+/**
+ * Reads the quantity at the start of a line.
+ * @param {string} text - The line, with bullets and parentheticals already removed.
+ * @returns {{ quantity: IngredientQuantity, rest: string, word: string | null } | null} The quantity, the text after it,
+ * and the number word it was spelled as (if any); null if the line doesn't start with a quantity.
+ */
+function readQuantity(text: string): { quantity: IngredientQuantity; rest: string; word: string | null } | null {
+  const numeric = text.match(QUANTITY_PATTERN);
+  if (numeric) {
+    const min = amountValue(numeric[1]);
+    const max = numeric[2] ? amountValue(numeric[2]) : min;
+    if (!Number.isFinite(min) || !Number.isFinite(max) || min <= 0 || max < min) return null;
+    return { quantity: { min, max }, rest: text.slice(numeric[0].length).trim(), word: null };
+  }
+  const word = text.match(NUMBER_WORD_PATTERN);
+  if (word) {
+    const value = NUMBER_WORDS[word[1].toLowerCase()];
+    let rest = text.slice(word[0].length);
+    // "half a cup"
+    const article = rest.match(/^(?:a|an)\s+/i);
+    if (word[1].toLowerCase() === 'half' && article) rest = rest.slice(article[0].length);
+    return { quantity: { min: value, max: value }, rest: rest.trim(), word: word[1].toLowerCase() };
+  }
+  return null;
+}
+
+/**
+ * Splits a trailing preparation note off an item at the first comma that introduces one, so "eggs, beaten" becomes
+ * "eggs" and "beaten" while "extra-large, freshly made funnel cake" stays whole.
+ * @param {string} text - The item text.
+ * @returns {{ item: string, note: string | null }} The item and the note.
+ */
+function splitPreparation(text: string): { item: string; note: string | null } {
+  let from = 0;
+  for (let comma = text.indexOf(',', from); comma !== -1; comma = text.indexOf(',', from)) {
+    const tail = text.slice(comma + 1).trim();
+    const firstWord = (tail.match(/^[a-z-]+/i)?.[0] ?? '').toLowerCase();
+    if (firstWord && (/(?:ed|en)$/.test(firstWord) || PREPARATION_WORDS.has(firstWord))) {
+      return { item: text.slice(0, comma).trim(), note: tail };
+    }
+    from = comma + 1;
+  }
+  return { item: text, note: null };
+}
+
+/**
+ * Parses one ingredient line.
+ * @param {string} line - e.g. "1 can (12 oz) Spam, preferably the \"Less Sodium\" kind".
+ * @returns {ParsedIngredient} The structured ingredient. Lines without an amount have a null quantity and unit.
+ * @example
+ * parseIngredient('2 large eggs, beaten')
+ * // { original: '2 large eggs, beaten', quantity: { min: 2, max: 2 }, unit: null, item: 'large eggs', note: 'beaten' }
+ */
+export function parseIngredient(line: string): ParsedIngredient {
+  const notes: string[] = [];
+  const parenNotes: string[] = [];
+  let text = line.trim().replace(/^[-*•]\s+/, '');
+
+  const optional = text.match(/^optional\s*:\s*/i);
+  if (optional) {
+    notes.push('optional');
+    text = text.slice(optional[0].length);
+  }
+  text = text
+    .replace(/\s*\(([^)]*)\)/g, (_, note: string) => {
+      if (note.trim()) parenNotes.push(note.trim());
+      return '';
+    })
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  let quantity: IngredientQuantity | null = null;
+  let unit: string | null = null;
+  const read = readQuantity(text);
+  if (read) {
+    let rest = read.rest;
+    const modifier = rest.match(UNIT_MODIFIER_PATTERN);
+    const afterModifier = modifier ? rest.slice(modifier[0].length) : rest;
+    const unitMatch = afterModifier.match(UNIT_PATTERN);
+    if (unitMatch) {
+      unit = findUnit(unitMatch[1])?.name ?? null;
+      if (modifier) notes.push(modifier[1].toLowerCase());
+      rest = afterModifier.slice(unitMatch[0].length).trim().replace(/^of\s+/i, '');
+    } else {
+      rest = rest.replace(/^of\s+/i, '');
+    }
+    // A bare "a"/"an" without a unit is just an article: "a generous handful of sprinkles".
+    if (unit || (read.word !== 'a' && read.word !== 'an')) {
+      quantity = read.quantity;
+      text = rest;
+    }
+  }
+
+  const { item: withPurpose, note: preparation } = splitPreparation(text);
+  if (preparation) notes.push(preparation);
+  const purpose = withPurpose.match(/\s+(for\s+.+)$/i);
+  if (purpose) notes.push(purpose[1]);
+  const item = (purpose ? withPurpose.slice(0, purpose.index) : withPurpose).replace(/[\s,.;:]+$/, '').trim();
+
+  const allNotes = [...notes, ...parenNotes];
+  return {
+    original: line,
+    quantity,
+    unit,
+    item,
+    note: allNotes.length ? allNotes.join('; ') : null,
+  };
+}
+
+/**
+ * Splits a block of ingredient text, such as a showcase recipe's `ingredientsText`, into trimmed, non-empty lines.
+ * @param {string} text - Newline-separated ingredients.
+ * @returns {string[]} The lines.
+ */
+export function splitIngredientLines(text: string): string[] {
+  return text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
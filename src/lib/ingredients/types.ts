@@ -0,0 +1,61 @@
+/**
+ * @file src/lib/ingredients/types.ts
+ * @description Shared shapes for structured ingredients: the parsed form of an ingredient line such as
+ * "1/2 cup brown sugar, packed", and the unit definitions it is parsed against.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+/**
+ * An amount, or a range of amounts such as "2-3". A single amount has `min === max`.
+ * @interface IngredientQuantity
+ * @property {number} min - The amount, or the low end of a range.
+ * @property {number} max - The amount, or the high end of a range.
+ */
+export interface IngredientQuantity {
+  min: number;
+  max: number;
+}
+
+/**
+ * What a unit measures. Volume and mass units can be converted between systems; counts (cans, sticks, pinches) cannot.
+ * @typedef {'volume' | 'mass' | 'count'} UnitKind
+ */
+export type UnitKind = 'volume' | 'mass' | 'count';
+
+/**
+ * A unit of measure the parser recognises.
+ * @interface UnitDefinition
+ * @property {string} name - Canonical singular name, e.g. `tablespoon`.
+ * @property {string} plural - Plural name, e.g. `tablespoons`.
+ * @property {string[]} aliases - Other spellings and abbreviations, lowercase and without trailing periods.
+ * @property {UnitKind} kind - What the unit measures.
+ * @property {'metric' | 'imperial' | null} system - The measurement system, or null for counts.
+ * @property {number | null} toBase - Size in millilitres (volume) or grams (mass); null for counts.
+ */
+export interface UnitDefinition {
+  name: string;
+  plural: string;
+  aliases: string[];
+  kind: UnitKind;
+  system: 'metric' | 'imperial' | null;
+  toBase: number | null;
+}
+
+/**
+ * A parsed ingredient line. Lines without a recognisable amount ("A generous handful of sprinkles") still parse,
+ * with `quantity` and `unit` set to null, so callers can always fall back to `original`.
+ * @interface ParsedIngredient
+ * @property {string} original - The line exactly as written.
+ * @property {IngredientQuantity | null} quantity - The amount, if the line starts with one.
+ * @property {string | null} unit - The canonical unit name (see `UnitDefinition.name`), if any.
+ * @property {string} item - What the ingredient is, e.g. `brown sugar`.
+ * @property {string | null} note - Preparation and other remarks, e.g. `packed`, joined with "; ".
+ */
+export interface ParsedIngredient {
+  original: string;
+  quantity: IngredientQuantity | null;
+  unit: string | null;
+  item: string;
+  note: string | null;
+}
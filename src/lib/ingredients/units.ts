@@ -0,0 +1,92 @@
+/**
+ * @file src/lib/ingredients/units.ts
+ * @description The units of measure recognised in ingredient lines, with their abbreviations and sizes. Volumes are
+ * sized in millilitres and masses in grams so amounts can later be converted between unit systems.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import type { UnitDefinition } from './types';
+
+/**
+ * @constant UNITS
+ * @description Every recognised unit. US customary sizes are used for cups, pints, quarts and gallons.
+ */
+export const UNITS: UnitDefinition[] = [
+  { name: 'teaspoon', plural: 'teaspoons', aliases: ['tsp', 'tsps', 'tspn'], kind: 'volume', system: 'imperial', toBase: 4.92892 },
+  { name: 'tablespoon', plural: 'tablespoons', aliases: ['tbsp', 'tbsps', 'tbs', 'tbl'], kind: 'volume', system: 'imperial', toBase: 14.7868 },
+  { name: 'fluid ounce', plural: 'fluid ounces', aliases: ['fl oz', 'fl. oz', 'floz'], kind: 'volume', system: 'imperial', toBase: 29.5735 },
+  { name: 'cup', plural: 'cups', aliases: ['c'], kind: 'volume', system: 'imperial', toBase: 236.588 },
+  { name: 'pint', plural: 'pints', aliases: ['pt', 'pts'], kind: 'volume', system: 'imperial', toBase: 473.176 },
+  { name: 'quart', plural: 'quarts', aliases: ['qt', 'qts'], kind: 'volume', system: 'imperial', toBase: 946.353 },
+  { name: 'gallon', plural: 'gallons', aliases: ['gal', 'gals'], kind: 'volume', system: 'imperial', toBase: 3785.41 },
+  { name: 'milliliter', plural: 'milliliters', aliases: ['ml', 'millilitre', 'millilitres'], kind: 'volume', system: 'metric', toBase: 1 },
+  { name: 'liter', plural: 'liters', aliases: ['l', 'litre', 'litres'], kind: 'volume', system: 'metric', toBase: 1000 },
+  { name: 'ounce', plural: 'ounces', aliases: ['oz'], kind: 'mass', system: 'imperial', toBase: 28.3495 },
+  { name: 'pound', plural: 'pounds', aliases: ['lb', 'lbs'], kind: 'mass', system: 'imperial', toBase: 453.592 },
+  { name: 'gram', plural: 'grams', aliases: ['g', 'gr', 'gramme', 'grammes'], kind: 'mass', system: 'metric', toBase: 1 },
+  { name: 'kilogram', plural: 'kilograms', aliases: ['kg', 'kgs', 'kilo', 'kilos'], kind: 'mass', system: 'metric', toBase: 1000 },
+  ...[
+    ['stick', 'sticks'],
+    ['can', 'cans'],
+    ['slice', 'slices'],
+    ['scoop', 'scoops'],
+    ['sleeve', 'sleeves'],
+    ['clove', 'cloves'],
+    ['pinch', 'pinches'],
+    ['dash', 'dashes'],
+    ['sprinkle', 'sprinkles'],
+    ['drizzle', 'drizzles'],
+    ['splash', 'splashes'],
+    ['package', 'packages'],
+    ['packet', 'packets'],
+    ['bag', 'bags'],
+    ['box', 'boxes'],
+    ['jar', 'jars'],
+    ['bottle', 'bottles'],
+    ['bunch', 'bunches'],
+    ['piece', 'pieces'],
+    ['block', 'blocks'],
+    ['bar', 'bars'],
+    ['strip', 'strips'],
+    ['sprig', 'sprigs'],
+    ['head', 'heads'],
+    ['drop', 'drops'],
+  ].map(([name, plural]): UnitDefinition => ({
+    name,
+    plural,
+    aliases: name === 'package' ? ['pkg', 'pkgs'] : [],
+    kind: 'count',
+    system: null,
+    toBase: null,
+  })),
+];
+
+/**
+ * @constant UNIT_LOOKUP
+ * @description Every spelling (name, plural and aliases) mapped to its unit.
+ */
+const UNIT_LOOKUP = new Map<string, UnitDefinition>(
+  UNITS.flatMap((unit) => [unit.name, unit.plural, ...unit.aliases].map((spelling) => [spelling, unit] as const))
+);
+
+/**
+ * @constant UNIT_PATTERN
+ * @description Matches any unit spelling at the start of a string, longest first so "fl oz" wins over "fl".
+ */
+export const UNIT_PATTERN = new RegExp(
+  `^(${[...UNIT_LOOKUP.keys()]
+    .sort((a, b) => b.length - a.length)
+    .map((spelling) => spelling.replace(/[.]/g, '\\.').replace(/ /g, '\\s+'))
+    .join('|')})\\.?(?=\\s|$|,)`,
+  'i'
+);
+
+/**
+ * Looks up a unit by any of its spellings.
+ * @param {string} spelling - e.g. `Tbsp`, `cups` or `fl. oz`.
+ * @returns {UnitDefinition | null} The unit, or null if it isn't recognised.
+ */
+export function findUnit(spelling: string): UnitDefinition | null {
+  return UNIT_LOOKUP.get(spelling.toLowerCase().replace(/\s+/g, ' ').replace(/\.$/, '')) ?? null;
+}
@@ -0,0 +1,55 @@
+/**
+ * @file src/lib/mail/file.ts
+ * @description Mail transport that writes each message to disk as an `.eml` file instead of sending it. The default in
+ * development: sign-in links can be opened straight from `.data/mail`, or the file opened in any mail client.
+ * @requires fs/promises For writing message files.
+ * @requires path For resolving the mail directory.
+ * @requires crypto - Node's crypto module, for unique file names and MIME boundaries.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import { randomBytes } from 'crypto';
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import type { MailTransport } from './types';
+
+/**
+ * Creates a file mail transport.
+ * @param {string} [dir] - The output directory. Defaults to `MAIL_FILE_DIR`, then `.data/mail` under the working directory.
+ * @returns {MailTransport} The transport.
+ */
+export function createFileMailTransport(dir = process.env.MAIL_FILE_DIR || path.join(process.cwd(), '.data', 'mail')): MailTransport {
+  return {
+    name: 'file',
+
+    async send({ from, to, subject, text, html, headers: extraHeaders = {} }) {
+      await mkdir(dir, { recursive: true });
+      const id = `${new Date().toISOString().replace(/[:.]/g, '-')}-${randomBytes(4).toString('hex')}`;
+      const headers = [`From: ${from}`, `To: ${to}`, `Subject: ${subject}`, `Date: ${new Date().toUTCString()}`, 'MIME-Version: 1.0'];
+      headers.push(...Object.entries(extraHeaders).map(([name, value]) => `${name}: ${value}`));
+      let body: string;
+      if (html) {
+        const boundary = `rw-${randomBytes(8).toString('hex')}`;
+        headers.push(`Content-Type: multipart/alternative; boundary="${boundary}"`);
+        body = [
+          `--${boundary}`,
+          'Content-Type: text/plain; charset=utf-8',
+          '',
+          text,
+          `--${boundary}`,
+          'Content-Type: text/html; charset=utf-8',
+          '',
+          html,
+          `--${boundary}--`,
+        ].join('\r\n');
+      } else {
+        headers.push('Content-Type: text/plain; charset=utf-8');
+        body = text;
+      }
+      const file = path.join(dir, `${id}.eml`);
+      await writeFile(file, `${headers.join('\r\n')}\r\n\r\n${body}\r\n`);
+      console.log(`Mail to ${to} written to ${file}`);
+    },
+  };
+}
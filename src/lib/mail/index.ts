@@ -0,0 +1,75 @@
+/**
+ * @file src/lib/mail/index.ts
+ * @description Entry point for outgoing email. Selects the transport from `MAIL_TRANSPORT` ("file" by default, or
+ * "console"), unless one has been registered with {@link registerMailTransport}, which is how a real delivery service
+ * is plugged in for production. The file and console transports never deliver anything, so in production sending
+ * fails until a transport is registered rather than sign-in links quietly piling up on the server's disk.
+ *
+ * Configuration:
+ * - `MAIL_TRANSPORT`: `file` (default) writes `.eml` files to `MAIL_FILE_DIR` (`.data/mail`); `console` logs messages.
+ *   Development only.
+ * - `MAIL_FROM`: the sender address (default `RecipeWreck <no-reply@recipewreck.local>`).
+ * @requires ./file File transport.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import { createFileMailTransport } from './file';
+import type { MailMessage, MailTransport } from './types';
+
+export type { MailMessage, MailTransport } from './types';
+
+/**
+ * Augment the globalThis type so a transport registered at startup is visible to every route bundle.
+ */
+declare global {
+  // eslint-disable-next-line no-var
+  var mail_transport: MailTransport | undefined;
+}
+
+/**
+ * Registers the transport used for all outgoing mail. Replaces any previously registered transport.
+ * @param {MailTransport | null} transport - The transport, or null to fall back to `MAIL_TRANSPORT`.
+ * @example
+ * registerMailTransport({
+ *   name: 'postmark',
+ *   send: async (message) => { await postmark.sendEmail({ From: message.from, To: message.to, ... }); },
+ * });
+ */
+export function registerMailTransport(transport: MailTransport | null): void {
+  globalThis.mail_transport = transport ?? undefined;
+}
+
+/**
+ * Returns the transport in use.
+ * @returns {MailTransport} The registered transport, or the one selected by `MAIL_TRANSPORT`.
+ * @throws {Error} In production, if no transport has been registered; otherwise if `MAIL_TRANSPORT` names an unknown
+ * backend.
+ */
+export function getMailTransport(): MailTransport {
+  if (globalThis.mail_transport) return globalThis.mail_transport;
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('No mail transport registered; call registerMailTransport with a delivery service in production');
+  }
+  const backend = process.env.MAIL_TRANSPORT || 'file';
+  if (backend === 'file') return createFileMailTransport();
+  if (backend === 'console') {
+    return {
+      name: 'console',
+      send: async (message) => console.log('Mail:', JSON.stringify(message, null, 2)),
+    };
+  }
+  throw new Error(`Unknown MAIL_TRANSPORT backend: ${backend}`);
+}
+
+/**
+ * Sends an email through the configured transport.
+ * @async
+ * @param {MailMessage} message - The message.
+ * @returns {Promise<void>}
+ * @throws {Error} If the transport fails.
+ */
+export async function sendMail(message: MailMessage): Promise<void> {
+  const from = process.env.MAIL_FROM || 'RecipeWreck <no-reply@recipewreck.local>';
+  await getMailTransport().send({ ...message, from });
+}
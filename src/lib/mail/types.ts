@@ -0,0 +1,39 @@
+/**
+ * @file src/lib/mail/types.ts
+ * @description Shared contracts for outgoing email: the message and the transport interface every backend implements.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+/**
+ * An outgoing email.
+ * @interface MailMessage
+ * @property {string} to - The recipient address.
+ * @property {string} subject - The subject line.
+ * @property {string} text - The plain-text body.
+ * @property {string} [html] - An optional HTML body.
+ * @property {Record<string, string>} [headers] - Extra headers, e.g. `List-Unsubscribe`.
+ */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * A mail backend.
+ * @interface MailTransport
+ */
+export interface MailTransport {
+  /** Backend name, used in logs. */
+  name: string;
+  /**
+   * Delivers a message, or hands it to a delivery service.
+   * @param {MailMessage & { from: string }} message - The message, with the sender filled in.
+   * @returns {Promise<void>}
+   * @throws {Error} If the message could not be sent.
+   */
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
@@ -0,0 +1,108 @@
+/**
+ * @file src/lib/mealPlan/ics.ts
+ * @description iCalendar (RFC 5545) export of a meal plan: one event per filled slot at that meal's usual time, so the
+ * week's horrors show up in any calendar app. Times are "floating" (no time zone), meaning breakfast is at 8:00 wherever
+ * the calendar is.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import { addDays } from './week';
+import type { MealPlan, PlanMeal } from './types';
+
+/**
+ * @constant MEAL_TIMES
+ * @description When each meal's event starts (`HHMM`) and how long it lasts, in minutes.
+ */
+const MEAL_TIMES: Record<PlanMeal, { start: string; minutes: number }> = {
+  breakfast: { start: '0800', minutes: 30 },
+  lunch: { start: '1230', minutes: 45 },
+  snack: { start: '1530', minutes: 15 },
+  dinner: { start: '1830', minutes: 60 },
+};
+
+/**
+ * Escapes text for an iCalendar property value.
+ * @param {string} value - The raw text.
+ * @returns {string} The escaped text.
+ */
+const escapeText = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+/**
+ * Folds a content line to at most 75 octets per line, as RFC 5545 requires, without splitting a UTF-8 character.
+ * @param {string} line - The unfolded line.
+ * @returns {string} The folded line, continuation lines starting with a space.
+ */
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length ? 74 : 75;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+/**
+ * Formats a floating local date-time.
+ * @param {string} date - The day, `YYYY-MM-DD`.
+ * @param {string} time - The time, `HHMM`.
+ * @param {number} [addMinutes=0] - Minutes to add; must not cross midnight.
+ * @returns {string} e.g. `20261019T083000`.
+ */
+const localDateTime = (date: string, time: string, addMinutes = 0): string => {
+  const minutes = Number(time.slice(0, 2)) * 60 + Number(time.slice(2)) + addMinutes;
+  const hh = String(Math.floor(minutes / 60)).padStart(2, '0');
+  const mm = String(minutes % 60).padStart(2, '0');
+  return `${date.replace(/-/g, '')}T${hh}${mm}00`;
+};
+
+/**
+ * Renders a plan as an iCalendar file.
+ * @param {MealPlan} plan - The plan.
+ * @param {object} options - Export options.
+ * @param {string} options.origin - The site origin, for links back to each recipe, e.g. `https://recipewreck.com`.
+ * @param {Date} [options.now=new Date()] - The export time, stamped on every event.
+ * @returns {string} The `.ics` file contents, with CRLF line endings.
+ */
+export function mealPlanToIcs(plan: MealPlan, { origin, now = new Date() }: { origin: string; now?: Date }): string {
+  const stamp = now.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//RecipeWreck//Meal Planner//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(`RecipeWreck week of ${plan.weekStart}`)}`,
+  ];
+  for (const { day, meal, recipe } of plan.slots) {
+    const date = addDays(plan.weekStart, day);
+    const { start, minutes } = MEAL_TIMES[meal];
+    const url = recipe.slug ? `${origin}/r/${recipe.slug}` : null;
+    const description = [
+      'Ingredients:',
+      ...recipe.ingredients.map((line) => `- ${line}`),
+      ...(url ? ['', url] : []),
+    ].join('\n');
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${plan.weekStart}-${day}-${meal}-${recipe.id}@recipewreck`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${localDateTime(date, start)}`,
+      `DTEND:${localDateTime(date, start, minutes)}`,
+      `SUMMARY:${escapeText(`${meal[0].toUpperCase()}${meal.slice(1)}: ${recipe.title}`)}`,
+      `DESCRIPTION:${escapeText(description)}`,
+      ...(url ? [`URL:${url}`] : []),
+      'END:VEVENT'
+    );
+  }
+  lines.push('END:VCALENDAR');
+  return `${lines.map(foldLine).join('\r\n')}\r\n`;
+}
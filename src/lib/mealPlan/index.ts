@@ -0,0 +1,14 @@
+/**
+ * @file src/lib/mealPlan/index.ts
+ * @description Entry point for weekly meal plans: the slot grid, week arithmetic, the weekly nutrition roll-up and the
+ * iCalendar export. Stored plans are read and written through `@/lib/mealPlans`.
+ *
+ * This module has no server-only dependencies so it can be imported by client components.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+export { PLAN_MEALS, type MealPlan, type MealPlanRecipe, type MealPlanSlot, type PlanMeal, type WeeklyNutrition } from './types';
+export { addDays, DAY_NAMES, isWeekStart, weekStartOf } from './week';
+export { summarizeWeekNutrition } from './nutrition';
+export { mealPlanToIcs } from './ics';
@@ -0,0 +1,52 @@
+/**
+ * @file src/lib/mealPlan/nutrition.ts
+ * @description Weekly nutrition roll-up for meal plans, built on the per-recipe estimator. Each filled slot counts as one
+ * serving; calories take the higher of the estimate and the recipe's own figure, as the Wreck Score does.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import { DAILY_VALUES, estimateNutrition, type Nutrient, type NutritionTotals } from '@/lib/nutrition';
+import type { MealPlan, WeeklyNutrition } from './types';
+
+const NUTRIENTS = Object.keys(DAILY_VALUES) as Nutrient[];
+
+/**
+ * @returns {NutritionTotals} All-zero totals.
+ */
+const emptyTotals = (): NutritionTotals => ({ calories: 0, fat: 0, sugar: 0, sodium: 0 });
+
+/**
+ * Adds up a week's nutrition.
+ * @param {Pick<MealPlan, 'slots'>} plan - The plan.
+ * @returns {WeeklyNutrition} The totals, per-day breakdown and how many weeks of each daily value it amounts to.
+ * @example
+ * summarizeWeekNutrition(plan).weeksOfDailyValue.sodium // 3.2, i.e. over three weeks of sodium in seven days
+ */
+export function summarizeWeekNutrition({ slots }: Pick<MealPlan, 'slots'>): WeeklyNutrition {
+  const days = Array.from({ length: 7 }, emptyTotals);
+  let unestimated = 0;
+
+  for (const { day, recipe } of slots) {
+    const estimate = estimateNutrition(recipe.ingredients, recipe.servings);
+    const serving = { ...estimate.perServing, calories: Math.max(estimate.perServing.calories, recipe.calories ?? 0) };
+    for (const nutrient of NUTRIENTS) days[day][nutrient] += serving[nutrient];
+    unestimated += estimate.unestimated.length;
+  }
+
+  const total = emptyTotals();
+  for (const dayTotals of days) {
+    for (const nutrient of NUTRIENTS) total[nutrient] += dayTotals[nutrient];
+  }
+  const dailyAverage = emptyTotals();
+  const weeksOfDailyValue = emptyTotals();
+  for (const nutrient of NUTRIENTS) {
+    dailyAverage[nutrient] = total[nutrient] / 7;
+    weeksOfDailyValue[nutrient] = Math.round((total[nutrient] / (DAILY_VALUES[nutrient] * 7)) * 10) / 10;
+  }
+
+  const worstDay = slots.length
+    ? days.reduce((worst, dayTotals, i) => (dayTotals.calories > days[worst].calories ? i : worst), 0)
+    : -1;
+  return { total, days, dailyAverage, weeksOfDailyValue, worstDay, unestimated };
+}
@@ -0,0 +1,85 @@
+/**
+ * @file src/lib/mealPlan/types.ts
+ * @description Shared shapes for weekly meal plans: the slots of the 7-day grid and the recipes filling them.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import type { NutritionTotals } from '@/lib/nutrition';
+
+/**
+ * @constant PLAN_MEALS
+ * @description The meal slots of each day, in grid order. Each is also a recipe meal type, which is what a slot
+ * generates with.
+ */
+export const PLAN_MEALS = ['breakfast', 'lunch', 'dinner', 'snack'] as const;
+
+/**
+ * @typedef {typeof PLAN_MEALS[number]} PlanMeal
+ */
+export type PlanMeal = (typeof PLAN_MEALS)[number];
+
+/**
+ * The parts of a stored recipe a plan needs: enough to link to it, export it and add up its nutrition.
+ * @interface MealPlanRecipe
+ * @property {string} id - The recipe id.
+ * @property {string} title - The recipe title.
+ * @property {string | null} slug - The permalink slug.
+ * @property {number | null} calories - The recipe's own calories per serving, if known.
+ * @property {number | null} servings - How many servings the ingredients make, if known.
+ * @property {string[]} ingredients - The ingredient lines.
+ */
+export interface MealPlanRecipe {
+  id: string;
+  title: string;
+  slug: string | null;
+  calories: number | null;
+  servings: number | null;
+  ingredients: string[];
+}
+
+/**
+ * A filled slot. A slot is one serving of its recipe.
+ * @interface MealPlanSlot
+ * @property {number} day - Day of the week, 0 (Monday) to 6 (Sunday).
+ * @property {PlanMeal} meal - The meal slot.
+ * @property {MealPlanRecipe} recipe - The recipe in it.
+ */
+export interface MealPlanSlot {
+  day: number;
+  meal: PlanMeal;
+  recipe: MealPlanRecipe;
+}
+
+/**
+ * One week's plan. Empty slots are simply absent.
+ * @interface MealPlan
+ * @property {string} weekStart - The Monday the week starts on, as `YYYY-MM-DD`.
+ * @property {MealPlanSlot[]} slots - The filled slots.
+ * @property {string | null} updatedAt - ISO timestamp of the last change, or null if the week has never been planned.
+ */
+export interface MealPlan {
+  weekStart: string;
+  slots: MealPlanSlot[];
+  updatedAt: string | null;
+}
+
+/**
+ * A week's nutrition, added up one serving per filled slot.
+ * @interface WeeklyNutrition
+ * @property {NutritionTotals} total - The whole week.
+ * @property {NutritionTotals[]} days - Each day, Monday first.
+ * @property {NutritionTotals} dailyAverage - The total divided by seven.
+ * @property {Record<keyof NutritionTotals, number>} weeksOfDailyValue - How many weeks of each daily value the plan
+ * eats, e.g. 3.2 weeks of sodium.
+ * @property {number} worstDay - Index of the day with the most calories, or -1 for an empty plan.
+ * @property {number} unestimated - Ingredient lines that couldn't be estimated, across all slots.
+ */
+export interface WeeklyNutrition {
+  total: NutritionTotals;
+  days: NutritionTotals[];
+  dailyAverage: NutritionTotals;
+  weeksOfDailyValue: Record<keyof NutritionTotals, number>;
+  worstDay: number;
+  unestimated: number;
+}
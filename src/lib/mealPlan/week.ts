@@ -0,0 +1,61 @@
+/**
+ * @file src/lib/mealPlan/week.ts
+ * @description Calendar helpers for plan weeks. Weeks start on Monday and are identified by that date as `YYYY-MM-DD`.
+ * Dates are handled as calendar days in UTC, so a week id means the same days in every time zone.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+/**
+ * @constant DAY_NAMES
+ * @description Day names in plan order.
+ */
+export const DAY_NAMES = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'] as const;
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Parses a `YYYY-MM-DD` date.
+ * @param {string} value - The date.
+ * @returns {Date | null} Midnight UTC on that day, or null if the value isn't a real date.
+ */
+const parseDate = (value: string): Date | null => {
+  const match = DATE_PATTERN.exec(value);
+  if (!match) return null;
+  const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  return date.toISOString().slice(0, 10) === value ? date : null;
+};
+
+/**
+ * Returns the Monday of the week containing a local date, e.g. today in the visitor's browser.
+ * @param {Date} [date=new Date()] - Any day in the week.
+ * @returns {string} The week id, `YYYY-MM-DD`.
+ */
+export function weekStartOf(date: Date = new Date()): string {
+  const monday = new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+  monday.setUTCDate(monday.getUTCDate() - ((monday.getUTCDay() + 6) % 7));
+  return monday.toISOString().slice(0, 10);
+}
+
+/**
+ * Checks that a value is a week id: a real date that falls on a Monday.
+ * @param {string} value - The candidate.
+ * @returns {boolean} Whether it is a valid week id.
+ */
+export function isWeekStart(value: string): boolean {
+  return parseDate(value)?.getUTCDay() === 1;
+}
+
+/**
+ * Returns the date a number of days after a week's Monday.
+ * @param {string} weekStart - The week id.
+ * @param {number} days - Days to add; negative values go back, so `-7` is the previous week.
+ * @returns {string} The date, `YYYY-MM-DD`.
+ * @throws {RangeError} If `weekStart` isn't a date.
+ */
+export function addDays(weekStart: string, days: number): string {
+  const date = parseDate(weekStart);
+  if (!date) throw new RangeError(`Invalid date "${weekStart}"`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
@@ -0,0 +1,142 @@
+/**
+ * @file src/lib/mealPlans.ts
+ * @description Data access helpers for stored meal plans, mirroring `@/lib/recipes`. Plans are owned by a signed-in user
+ * or, for anonymous visitors, by their device cookie; every helper takes the owner so one visitor can never read or
+ * change another's plan.
+ * @requires mongoose - For ObjectId validation.
+ * @requires @/lib/mongodb Database connection utility
+ * @requires @/models/MealPlan MealPlan Mongoose model
+ * @requires @/models/Recipe Recipe Mongoose model, for the planned recipes.
+ * @requires @/lib/mealPlan For the plan types.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import { isValidObjectId, Types } from 'mongoose';
+import dbConnect from '@/lib/mongodb';
+import MealPlanModel, { type IMealPlan } from '@/models/MealPlan';
+import Recipe from '@/models/Recipe';
+import type { MealPlan, MealPlanRecipe, PlanMeal } from '@/lib/mealPlan';
+
+/**
+ * Who a plan belongs to. Signed-in users are identified by `userID`; anonymous visitors by `deviceId`.
+ * @interface PlanOwner
+ * @property {string | null} userID - The signed-in user, if any.
+ * @property {string} deviceId - The device cookie.
+ */
+export interface PlanOwner {
+  userID: string | null;
+  deviceId: string;
+}
+
+/**
+ * MongoDB duplicate-key error code, raised if two requests create the same owner's week at once.
+ */
+const DUPLICATE_KEY_ERROR = 11000;
+
+/**
+ * Builds the query fields that select an owner's plans.
+ * @param {PlanOwner} owner - The owner.
+ * @returns {{ userID: string | null, deviceId: string | null }} The fields.
+ */
+const ownerFilter = ({ userID, deviceId }: PlanOwner) => (userID ? { userID, deviceId: null } : { userID: null, deviceId });
+
+/**
+ * Joins a plan document with its recipes. Slots whose recipe has since been deleted are dropped.
+ * @async
+ * @param {string} weekStart - The week id.
+ * @param {IMealPlan | null} doc - The stored plan, if any.
+ * @returns {Promise<MealPlan>} The client-facing plan.
+ */
+async function toMealPlan(weekStart: string, doc: IMealPlan | null): Promise<MealPlan> {
+  if (!doc) return { weekStart, slots: [], updatedAt: null };
+  const recipes = await Recipe.find({ _id: { $in: doc.slots.map((slot) => slot.recipeId) } }).select(
+    'title slug calories servings ingredients'
+  );
+  const byId = new Map<string, MealPlanRecipe>(
+    recipes.map((recipe) => [
+      String(recipe._id),
+      {
+        id: String(recipe._id),
+        title: recipe.title,
+        slug: recipe.slug ?? null,
+        calories: recipe.calories ?? null,
+        servings: recipe.servings ?? null,
+        ingredients: recipe.ingredients,
+      },
+    ])
+  );
+  return {
+    weekStart,
+    slots: doc.slots.flatMap(({ day, meal, recipeId }) => {
+      const recipe = byId.get(String(recipeId));
+      return recipe ? [{ day, meal, recipe }] : [];
+    }),
+    updatedAt: doc.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Fetches an owner's plan for a week.
+ * @async
+ * @param {PlanOwner} owner - The owner.
+ * @param {string} weekStart - The week id (a Monday, `YYYY-MM-DD`).
+ * @returns {Promise<MealPlan>} The plan; an empty one if the week hasn't been planned.
+ */
+export async function getMealPlan(owner: PlanOwner, weekStart: string): Promise<MealPlan> {
+  await dbConnect();
+  return toMealPlan(weekStart, await MealPlanModel.findOne({ ...ownerFilter(owner), weekStart }));
+}
+
+/**
+ * Fills or clears one slot of an owner's week, creating the plan if needed.
+ * @async
+ * @param {PlanOwner} owner - The owner.
+ * @param {object} slot - The slot to change.
+ * @param {string} slot.weekStart - The week id.
+ * @param {number} slot.day - Day of the week, 0 (Monday) to 6 (Sunday).
+ * @param {PlanMeal} slot.meal - The meal slot.
+ * @param {string | null} slot.recipeId - The recipe to put in it, or null to clear it.
+ * @returns {Promise<MealPlan | null>} The updated plan, or null if the recipe id is malformed or unknown.
+ */
+export async function setMealPlanSlot(
+  owner: PlanOwner,
+  { weekStart, day, meal, recipeId }: { weekStart: string; day: number; meal: PlanMeal; recipeId: string | null }
+): Promise<MealPlan | null> {
+  if (recipeId && !isValidObjectId(recipeId)) return null;
+  await dbConnect();
+  if (recipeId && !(await Recipe.exists({ _id: recipeId }))) return null;
+
+  const filter = { ...ownerFilter(owner), weekStart };
+  const filled = recipeId ? [{ day, meal, recipeId: new Types.ObjectId(recipeId) }] : [];
+  // Drop whatever is in the slot and append the new recipe in one pipeline update, so overlapping requests can't leave
+  // a slot holding two recipes. Pipeline updates skip Mongoose's casting and `createdAt`, hence the ObjectId above and
+  // the explicit `createdAt` for upserts.
+  const update = [
+    {
+      $set: {
+        slots: {
+          $concatArrays: [
+            {
+              $filter: {
+                input: { $ifNull: ['$slots', []] },
+                cond: { $not: [{ $and: [{ $eq: ['$$this.day', day] }, { $eq: ['$$this.meal', meal] }] }] },
+              },
+            },
+            filled,
+          ],
+        },
+        createdAt: { $ifNull: ['$createdAt', '$$NOW'] },
+      },
+    },
+  ];
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const doc = await MealPlanModel.findOneAndUpdate(filter, update, { upsert: true, new: true });
+      return toMealPlan(weekStart, doc);
+    } catch (err) {
+      // Two first writes to the same week can both try the upsert; the loser retries against the winner's plan.
+      if ((err as { code?: number }).code !== DUPLICATE_KEY_ERROR || attempt >= 1) throw err;
+    }
+  }
+}
@@ -0,0 +1,200 @@
+/**
+ * @file src/lib/moderation/index.ts
+ * @description The moderation pipeline for recipe generation. Routes call {@link moderatePrompt} before any provider is
+ * invoked and {@link moderateRecipe} after the output is parsed, before an image is generated or anything is stored.
+ * Each check runs the enabled pattern rule sets first, then the registered classifier (if any). Every decision is
+ * written to the moderation log for review.
+ *
+ * Classifier hook: call {@link registerModerationClassifier} once at startup (e.g. from `instrumentation.ts`) to plug in
+ * a hosted moderation model. A failing classifier is logged and skipped; the pattern rules still apply.
+ * @requires next/server For building 422 responses.
+ * @requires @/lib/mongodb Database connection utility
+ * @requires @/models/ModerationLog ModerationLog Mongoose model
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import { NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import ModerationLog from '@/models/ModerationLog';
+import type { GeneratedRecipe } from '@/lib/recipe';
+import { CATEGORY_MESSAGES, getEnabledRuleSets } from './rules';
+import type { ClassifierVerdict, ModerationClassifier, ModerationDecision, ModerationStage } from './types';
+
+export type {
+  ModerationCategory,
+  ModerationClassifier,
+  ModerationDecision,
+  ModerationRejection,
+  ModerationStage,
+} from './types';
+
+/**
+ * Who triggered a check, recorded alongside the decision.
+ * @interface ModerationContext
+ * @property {string | null} [userID] - The signed-in user.
+ * @property {string | null} [deviceId] - The anonymous device id.
+ * @property {string | null} [ip] - The client IP address.
+ */
+export interface ModerationContext {
+  userID?: string | null;
+  deviceId?: string | null;
+  ip?: string | null;
+}
+
+/**
+ * Augment the globalThis type so a classifier registered at startup is visible to every route bundle.
+ */
+declare global {
+  // eslint-disable-next-line no-var
+  var moderation_classifier: ModerationClassifier | undefined;
+}
+
+/**
+ * Registers the classifier run after the pattern rules. Replaces any previously registered classifier.
+ * @param {ModerationClassifier | null} classifier - The classifier, or null to remove it.
+ * @example
+ * registerModerationClassifier(async ({ text }) => {
+ *   const result = await myModerationApi.check(text);
+ *   return { flagged: result.flagged, category: 'hate', score: result.score };
+ * });
+ */
+export function registerModerationClassifier(classifier: ModerationClassifier | null): void {
+  globalThis.moderation_classifier = classifier ?? undefined;
+}
+
+/**
+ * Writes a decision to the moderation log. Runs in the background so a slow or unavailable database never delays
+ * generation; blocked decisions are also written to the server log so they are never lost entirely.
+ * @param {ModerationDecision} decision - The decision.
+ * @param {string} text - The checked text.
+ * @param {string[]} ruleSets - The enabled rule sets.
+ * @param {number | null} score - The classifier score, if any.
+ * @param {ModerationContext} context - Who triggered the check.
+ */
+function logDecision(
+  decision: ModerationDecision,
+  text: string,
+  ruleSets: string[],
+  score: number | null,
+  context: ModerationContext
+): void {
+  if (!decision.allowed) {
+    console.warn(
+      'Moderation blocked',
+      JSON.stringify({
+        stage: decision.stage,
+        source: decision.source,
+        ruleId: decision.ruleId,
+        category: decision.rejection?.category,
+        text: text.slice(0, 200),
+      })
+    );
+  }
+  const write = async () => {
+    await dbConnect();
+    await ModerationLog.create({
+      stage: decision.stage,
+      allowed: decision.allowed,
+      source: decision.source,
+      ruleId: decision.ruleId,
+      category: decision.rejection?.category ?? null,
+      score,
+      ruleSets,
+      text: text.slice(0, 2000),
+      userID: context.userID ?? null,
+      deviceId: context.deviceId ?? null,
+      ip: context.ip ?? null,
+    });
+  };
+  write().catch((err) => console.error('Failed to write moderation log', err));
+}
+
+/**
+ * Runs the moderation pipeline on a piece of text.
+ * @async
+ * @param {ModerationStage} stage - The stage being checked.
+ * @param {string} text - The text.
+ * @param {ModerationContext} [context={}] - Who triggered the check.
+ * @returns {Promise<ModerationDecision>} The decision.
+ */
+export async function moderate(stage: ModerationStage, text: string, context: ModerationContext = {}): Promise<ModerationDecision> {
+  const ruleSets = getEnabledRuleSets();
+  const ruleSetNames = ruleSets.map((set) => set.name);
+
+  for (const rule of ruleSets.flatMap((set) => set.rules)) {
+    if (rule.stages.includes(stage) && rule.pattern.test(text)) {
+      const decision: ModerationDecision = {
+        allowed: false,
+        stage,
+        source: 'rules',
+        ruleId: rule.id,
+        rejection: { stage, category: rule.category, reason: CATEGORY_MESSAGES[rule.category] },
+      };
+      logDecision(decision, text, ruleSetNames, null, context);
+      return decision;
+    }
+  }
+
+  let verdict: ClassifierVerdict | null = null;
+  if (globalThis.moderation_classifier) {
+    try {
+      verdict = await globalThis.moderation_classifier({ stage, text });
+    } catch (err) {
+      console.error('Moderation classifier failed; relying on rules only', err);
+    }
+  }
+
+  const decision: ModerationDecision = verdict?.flagged
+    ? {
+        allowed: false,
+        stage,
+        source: 'classifier',
+        ruleId: null,
+        rejection: {
+          stage,
+          category: verdict.category ?? 'blocklist',
+          reason: CATEGORY_MESSAGES[verdict.category ?? 'blocklist'],
+        },
+      }
+    : { allowed: true, stage, source: null, ruleId: null, rejection: null };
+  logDecision(decision, text, ruleSetNames, verdict?.score ?? null, context);
+  return decision;
+}
+
+/**
+ * Checks a user's prompt before generation.
+ * @async
+ * @param {string} prompt - The prompt.
+ * @param {ModerationContext} [context] - Who sent it.
+ * @returns {Promise<ModerationDecision>} The decision.
+ */
+export const moderatePrompt = (prompt: string, context?: ModerationContext): Promise<ModerationDecision> =>
+  moderate('prompt', prompt, context);
+
+/**
+ * Checks a parsed recipe before its image is generated or it is stored. Every text field is checked, since the image
+ * prompt is built from the title and ingredients.
+ * @async
+ * @param {GeneratedRecipe} recipe - The recipe.
+ * @param {ModerationContext} [context] - Who requested it.
+ * @returns {Promise<ModerationDecision>} The decision.
+ */
+export const moderateRecipe = (recipe: GeneratedRecipe, context?: ModerationContext): Promise<ModerationDecision> =>
+  moderate(
+    'output',
+    [recipe.title, recipe.description, ...recipe.ingredients, ...recipe.steps, ...recipe.tags, ...recipe.associatedDiseases].join('\n'),
+    context
+  );
+
+/**
+ * Builds the 422 response for a blocked request.
+ * @param {ModerationDecision} decision - The blocking decision.
+ * @returns {NextResponse} `{ error, rejection: { stage, category, reason } }`.
+ */
+export function moderationRejectedResponse(decision: ModerationDecision): NextResponse {
+  return NextResponse.json(
+    { error: decision.rejection?.reason ?? 'Request blocked', rejection: decision.rejection },
+    { status: 422 }
+  );
+}
@@ -0,0 +1,194 @@
+/**
+ * @file src/lib/moderation/rules.ts
+ * @description Built-in moderation rule sets and the user-facing message for each category.
+ *
+ * Rule sets (enable with `MODERATION_RULESETS`, comma-separated; default `safety,food-only,injection`):
+ * - `safety`: self-harm, violence, hate, sexual content, hard drugs and genuinely toxic "ingredients". Applies to both
+ *   the prompt and the generated recipe.
+ * - `food-only`: prompts asking for something other than a recipe (poems, code, essays). Prompt stage only.
+ * - `injection`: attempts to override the generator's instructions, persona or output format. Prompt stage only. The
+ *   prompt is also sent as delimited data (see `@/lib/generation/prompts`), so this is a second layer, not the only one.
+ * - `blocklist`: extra terms from `MODERATION_BLOCKLIST` (comma-separated), so operators can block slurs or names
+ *   without committing them to the repo. Enabled automatically when the variable is set.
+ *
+ * Patterns are deliberately narrow. The product *is* deep-fried, sugar-coated and cardiologist-baiting, so words like
+ * "heart attack", "death by chocolate" or "naked burrito" must keep working.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import type { ModerationCategory, ModerationRule, ModerationRuleSet } from './types';
+
+const BOTH: ModerationRule['stages'] = ['prompt', 'output'];
+
+/**
+ * @constant SAFETY_RULES
+ * @description Content that is harmful in earnest, whatever the framing.
+ */
+const SAFETY_RULES: ModerationRuleSet = {
+  name: 'safety',
+  rules: [
+    {
+      id: 'self-harm',
+      category: 'self-harm',
+      stages: BOTH,
+      pattern: /\b(suicid\w*|kill(ing)? my ?self|end(ing)? (it all|my (own )?life)|self[- ]?harm\w*|cut(ting)? my ?self|want(ing)? to die)\b/i,
+    },
+    {
+      id: 'harm-others',
+      category: 'violence',
+      stages: BOTH,
+      // Targets are spelled out: "kill my diet" and "poison my arteries" are on-brand and must stay allowed.
+      pattern: /\b((poison(ing)?|kill(ing)?|murder(ing)?) (someone|somebody|people|him|her|them|my (wife|husband|partner|boss|neighbou?r|mom|dad|family|roommate|kids?))|pipe bomb|(build|make) a bomb)\b/i,
+    },
+    {
+      id: 'hate-groups',
+      category: 'hate',
+      stages: BOTH,
+      pattern: /\b(nazi\w*|hitler|kkk|white power|ethnic cleansing|(hate|kill|exterminate|gas) (all )?(the )?(jews|muslims|christians|blacks|whites|asians|mexicans|gays|immigrants))\b/i,
+    },
+    {
+      id: 'sexual',
+      category: 'sexual',
+      stages: BOTH,
+      pattern: /\b(porn\w*|nsfw|erotic\w*|nude|nudity|sex act\w*)\b/i,
+    },
+    {
+      id: 'hard-drugs',
+      category: 'drugs',
+      stages: BOTH,
+      pattern: /\b(meth(amphetamine)?|cocaine|heroin|fentanyl|lsd|mdma)\b/i,
+    },
+    {
+      id: 'toxic-ingredients',
+      category: 'dangerous-ingredient',
+      stages: BOTH,
+      pattern: /\b(bleach|tide pods?|laundry detergent|drain cleaner|antifreeze|rat poison|motor oil|gasoline|lighter fluid|mercury|cyanide|arsenic|ricin|rubbing alcohol)\b/i,
+    },
+  ],
+};
+
+/**
+ * @constant FOOD_ONLY_RULES
+ * @description Prompts that use the generator for something other than a recipe.
+ */
+const FOOD_ONLY_RULES: ModerationRuleSet = {
+  name: 'food-only',
+  rules: [
+    {
+      id: 'non-recipe-request',
+      category: 'non-food',
+      stages: ['prompt'],
+      pattern: /\b(write|compose|draft|give) (me )?(an? )?(poem|essay|story|song|lyrics|haiku|email|letter|cover letter|resume|script|program|code)\b/i,
+    },
+  ],
+};
+
+/**
+ * @constant INJECTION_RULES
+ * @description Instruction-override attempts: "ignore previous instructions", persona swaps, prompt extraction,
+ * delimiter spoofing and output-format hijacks.
+ */
+const INJECTION_RULES: ModerationRuleSet = {
+  name: 'injection',
+  rules: [
+    {
+      id: 'ignore-instructions',
+      category: 'prompt-injection',
+      stages: ['prompt'],
+      pattern: /\b(ignore|disregard|forget|override|bypass)\b.{0,40}\b(instructions?|prompts?|rules|directions|guidelines)\b/i,
+    },
+    {
+      id: 'persona-override',
+      category: 'prompt-injection',
+      stages: ['prompt'],
+      pattern: /\b(you are now|from now on,? (you|respond|answer)|pretend (to be|you are)|role-?play as|your new (role|persona|instructions)|developer mode|jailbreak\w*|do anything now)\b/i,
+    },
+    {
+      id: 'prompt-extraction',
+      category: 'prompt-injection',
+      stages: ['prompt'],
+      pattern: /\b(system prompt|system instructions?|(reveal|print|show|repeat|output) (me )?(your|the|these) (instructions|prompt|rules))\b/i,
+    },
+    {
+      id: 'delimiter-spoofing',
+      category: 'prompt-injection',
+      stages: ['prompt'],
+      pattern: /<\s*\/?\s*(recipe_subject|system|instructions?|user|assistant)\s*>/i,
+    },
+    {
+      id: 'format-override',
+      category: 'prompt-injection',
+      stages: ['prompt'],
+      pattern: /\b(respond|reply|answer|output)\b.{0,20}\b(only )?(in|with|as)\b.{0,20}\b(xml|yaml|markdown|html|code|plain text)\b/i,
+    },
+  ],
+};
+
+/**
+ * Escapes a literal term for use in a RegExp.
+ * @param {string} term - The term.
+ * @returns {string} The escaped term.
+ */
+const escapeRegExp = (term: string): string => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Builds the `blocklist` rule set from `MODERATION_BLOCKLIST`.
+ * @param {string | undefined} value - Comma-separated terms.
+ * @returns {ModerationRuleSet | null} The rule set, or null if no terms are configured.
+ */
+const buildBlocklistRules = (value: string | undefined): ModerationRuleSet | null => {
+  const terms = (value ?? '').split(',').map((term) => term.trim()).filter(Boolean);
+  if (terms.length === 0) return null;
+  return {
+    name: 'blocklist',
+    rules: [
+      {
+        id: 'blocklist',
+        category: 'blocklist',
+        stages: BOTH,
+        pattern: new RegExp(`\\b(${terms.map(escapeRegExp).join('|')})\\b`, 'i'),
+      },
+    ],
+  };
+};
+
+const BUILT_IN_RULE_SETS: Record<string, ModerationRuleSet> = {
+  [SAFETY_RULES.name]: SAFETY_RULES,
+  [FOOD_ONLY_RULES.name]: FOOD_ONLY_RULES,
+  [INJECTION_RULES.name]: INJECTION_RULES,
+};
+
+/**
+ * Returns the rule sets enabled by the environment.
+ * @returns {ModerationRuleSet[]} The enabled rule sets, in configuration order. Unknown names are ignored with a warning.
+ */
+export function getEnabledRuleSets(): ModerationRuleSet[] {
+  const names = (process.env.MODERATION_RULESETS ?? 'safety,food-only,injection').split(',').map((name) => name.trim()).filter(Boolean);
+  const sets: ModerationRuleSet[] = [];
+  for (const name of names) {
+    const set = BUILT_IN_RULE_SETS[name];
+    if (set) sets.push(set);
+    else if (name !== 'blocklist') console.warn(`Unknown moderation rule set "${name}" ignored.`);
+  }
+  const blocklist = buildBlocklistRules(process.env.MODERATION_BLOCKLIST);
+  if (blocklist) sets.push(blocklist);
+  return sets;
+}
+
+/**
+ * @constant CATEGORY_MESSAGES
+ * @description What the user is told for each category. Kept in-voice where that is appropriate, and plain where it isn't.
+ */
+export const CATEGORY_MESSAGES: Record<ModerationCategory, string> = {
+  'self-harm':
+    "We can't help with that. If you're thinking about hurting yourself, please reach out to someone you trust or a local crisis line.",
+  violence: "RecipeWreck only hurts the person eating it, voluntarily. We won't help with harming anyone.",
+  hate: "Hateful content isn't on the menu.",
+  sexual: 'Keep it in the kitchen. Sexual content is not supported.',
+  drugs: "We wreck diets, not lives. Illegal drugs aren't an ingredient.",
+  'dangerous-ingredient': "That's actually poisonous, not just unhealthy. Pick something edible, however unwise.",
+  'non-food': 'RecipeWreck only makes recipes. Describe a dish and we will ruin it for you.',
+  'prompt-injection': 'Nice try. RecipeWreck takes food orders, not new instructions.',
+  blocklist: "That prompt contains a term we don't allow.",
+};
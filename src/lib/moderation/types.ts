@@ -0,0 +1,117 @@
+/**
+ * @file src/lib/moderation/types.ts
+ * @description Shared contracts for the moderation pipeline: rules, rule sets, the classifier hook and the decisions
+ * returned to routes. The product is allowed to be outrageously unhealthy; moderation exists to stop content that is
+ * harmful in earnest (self-harm, hate, real poisons) or not a recipe at all.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+/**
+ * Where in the pipeline a check runs: on the user's prompt before generation, or on the parsed recipe after it.
+ * @typedef {'prompt' | 'output'} ModerationStage
+ */
+export type ModerationStage = 'prompt' | 'output';
+
+/**
+ * What a blocked input was flagged for.
+ * @typedef {string} ModerationCategory
+ */
+export type ModerationCategory =
+  | 'self-harm'
+  | 'violence'
+  | 'hate'
+  | 'sexual'
+  | 'drugs'
+  | 'dangerous-ingredient'
+  | 'non-food'
+  | 'prompt-injection'
+  | 'blocklist';
+
+/**
+ * A single pattern rule.
+ * @interface ModerationRule
+ * @property {string} id - Stable id, recorded in the moderation log.
+ * @property {ModerationCategory} category - What a match means.
+ * @property {ModerationStage[]} stages - The stages the rule applies to.
+ * @property {RegExp} pattern - Case-insensitive pattern matched against the text.
+ */
+export interface ModerationRule {
+  id: string;
+  category: ModerationCategory;
+  stages: ModerationStage[];
+  pattern: RegExp;
+}
+
+/**
+ * A named group of rules, enabled as a unit through `MODERATION_RULESETS`.
+ * @interface ModerationRuleSet
+ * @property {string} name - The rule set name.
+ * @property {ModerationRule[]} rules - Its rules.
+ */
+export interface ModerationRuleSet {
+  name: string;
+  rules: ModerationRule[];
+}
+
+/**
+ * The text handed to a classifier.
+ * @interface ModerationInput
+ * @property {ModerationStage} stage - The stage being checked.
+ * @property {string} text - The prompt, or the recipe flattened to text.
+ */
+export interface ModerationInput {
+  stage: ModerationStage;
+  text: string;
+}
+
+/**
+ * A classifier's verdict. Return `{ flagged: false }` (or null) to allow.
+ * @interface ClassifierVerdict
+ * @property {boolean} flagged - Whether the text should be blocked.
+ * @property {ModerationCategory} [category] - What it was flagged for.
+ * @property {number} [score] - The classifier's confidence, recorded in the log.
+ */
+export interface ClassifierVerdict {
+  flagged: boolean;
+  category?: ModerationCategory;
+  score?: number;
+}
+
+/**
+ * A pluggable classifier, e.g. a hosted moderation model. Runs after the pattern rules, only if they allowed the text.
+ * @callback ModerationClassifier
+ * @param {ModerationInput} input - The text to classify.
+ * @returns {Promise<ClassifierVerdict | null>} The verdict.
+ */
+export type ModerationClassifier = (input: ModerationInput) => Promise<ClassifierVerdict | null>;
+
+/**
+ * The user-facing part of a block, returned to the client as `rejection`.
+ * @interface ModerationRejection
+ * @property {ModerationStage} stage - Whether the prompt or the generated recipe was blocked.
+ * @property {ModerationCategory} category - What it was flagged for.
+ * @property {string} reason - A message suitable for showing to the user.
+ */
+export interface ModerationRejection {
+  stage: ModerationStage;
+  category: ModerationCategory;
+  reason: string;
+}
+
+/**
+ * The outcome of a moderation check.
+ * @interface ModerationDecision
+ * @property {boolean} allowed - Whether the text passed.
+ * @property {ModerationStage} stage - The stage checked.
+ * @property {'rules' | 'classifier' | null} source - What blocked it, or null if allowed.
+ * @property {string | null} ruleId - The matching rule, for rule blocks.
+ * @property {ModerationRejection | null} rejection - The user-facing rejection, or null if allowed.
+ */
+export interface ModerationDecision {
+  allowed: boolean;
+  stage: ModerationStage;
+  source: 'rules' | 'classifier' | null;
+  ruleId: string | null;
+  rejection: ModerationRejection | null;
+}
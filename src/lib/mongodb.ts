@@ -45,16 +45,11 @@ if (globalThis.mongoose_cache) {
   globalThis.mongoose_cache = cached;
 }
 
-// Retrieve MongoDB connection string from environment variables
+// Retrieve MongoDB connection string from environment variables.
+// A missing URI is reported when dbConnect is called rather than at import time, so routes that only
+// optionally persist data (e.g. /api/generate with the offline provider) still load without a database.
 const MONGODB_URI = process.env.MONGODB_URI;
 
-// Throw an error if MONGODB_URI is not defined
-if (!MONGODB_URI) {
-  throw new Error(
-    'Please define the MONGODB_URI environment variable inside .env.local'
-  );
-}
-
 /**
  * Establishes a connection to MongoDB using the connection string from environment variables.
  * Implements connection caching to reuse existing connections and prevent multiple connections.
@@ -0,0 +1,144 @@
+/**
+ * @file src/lib/nutrition/index.ts
+ * @description Offline nutrition estimation "for comedic effect". Each ingredient line is parsed, matched to a food in
+ * the bundled nutrient table and weighed from its quantity and unit; the totals are divided by the recipe's servings.
+ * Lines that can't be matched or measured are skipped and reported, so the label can admit what it left out.
+ *
+ * This module has no server-only dependencies so it can be imported by client components.
+ * @requires @/lib/ingredients For parsing ingredient lines and unit sizes.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import { findUnit, parseIngredient, type ParsedIngredient } from '@/lib/ingredients';
+import { FOODS } from './table';
+import type { FoodEntry, Nutrient, NutritionEstimate, NutritionTotals } from './types';
+
+export type { FoodEntry, Nutrient, NutritionEstimate, NutritionTotals } from './types';
+
+/**
+ * @constant DAILY_VALUES
+ * @description FDA reference daily values used for the label's percentages (2,000 kcal diet). The FDA sets no value for
+ * total sugars, so the 50 g added-sugars limit stands in for it.
+ */
+export const DAILY_VALUES: NutritionTotals = { calories: 2000, fat: 78, sugar: 50, sodium: 2300 };
+
+/**
+ * @constant COUNT_UNIT_GRAMS
+ * @description Default weights for count units, used when a food doesn't define its own (see `FoodEntry.unitGrams`).
+ */
+const COUNT_UNIT_GRAMS: Record<string, number> = {
+  stick: 113, can: 340, slice: 30, scoop: 70, sleeve: 150, clove: 5, pinch: 0.4, dash: 0.6, sprinkle: 2, drizzle: 15,
+  splash: 15, package: 300, packet: 30, bag: 300, box: 400, jar: 400, bottle: 500, bunch: 100, piece: 50, block: 225,
+  bar: 45, strip: 12, sprig: 1, head: 500, drop: 0.05,
+};
+
+/**
+ * @constant FRYING_ABSORPTION
+ * @description The share of a deep-frying bath that ends up in the food. A gallon of peanut oil is horrifying enough
+ * without pretending anyone drinks it.
+ */
+const FRYING_ABSORPTION = 0.15;
+
+/**
+ * @constant FRYING_BATH_GRAMS
+ * @description Frying fats above this weight (about two cups) are assumed to be a frying bath even if the line
+ * doesn't say so.
+ */
+const FRYING_BATH_GRAMS = 450;
+
+/**
+ * @constant KEYWORD_PATTERNS
+ * @description Every food keyword as a whole-word pattern that also accepts a plural.
+ */
+const KEYWORD_PATTERNS = FOODS.flatMap((food) =>
+  food.keywords.map((keyword) => ({
+    food,
+    keyword,
+    pattern: new RegExp(`(?:^|[^a-z])${keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?:s|es)?(?![a-z])`, 'i'),
+  }))
+);
+
+/**
+ * Finds the food an ingredient item refers to. The match that ends latest wins, since the last noun names the food
+ * ("chocolate fudge brownie ice cream" is ice cream); ties go to the longest keyword ("unsalted butter" over "butter").
+ * @param {string} item - The ingredient's item text.
+ * @returns {FoodEntry | null} The food, or null if nothing matches.
+ */
+export function matchFood(item: string): FoodEntry | null {
+  let best: { food: FoodEntry; end: number; length: number } | null = null;
+  for (const { food, keyword, pattern } of KEYWORD_PATTERNS) {
+    const match = pattern.exec(item);
+    if (!match) continue;
+    const end = match.index + match[0].length;
+    if (!best || end > best.end || (end === best.end && keyword.length > best.length)) {
+      best = { food, end, length: keyword.length };
+    }
+  }
+  return best?.food ?? null;
+}
+
+/**
+ * Works out how many grams of a food an ingredient line calls for. Ranges are costed at their upper end: this is
+ * RecipeWreck, so assume the worst. Frying baths only count the oil the food absorbs.
+ * @param {ParsedIngredient} ingredient - The parsed line.
+ * @param {FoodEntry} food - The matched food.
+ * @returns {number | null} The weight in grams, or null if the line has no amount.
+ */
+export function ingredientGrams(ingredient: ParsedIngredient, food: FoodEntry): number | null {
+  if (!ingredient.quantity) return null;
+  const amount = ingredient.quantity.max;
+  const unit = ingredient.unit ? findUnit(ingredient.unit) : null;
+  let grams: number;
+  if (!unit) grams = amount * (food.pieceGrams ?? 100);
+  else if (unit.kind === 'mass') grams = amount * (unit.toBase as number);
+  else if (unit.kind === 'volume') grams = amount * (unit.toBase as number) * (food.density ?? 1);
+  else grams = amount * (food.unitGrams?.[unit.name] ?? COUNT_UNIT_GRAMS[unit.name] ?? 100);
+
+  const forFrying = /\bfry|\bfrying/i.test(`${ingredient.item} ${ingredient.note ?? ''}`);
+  return food.fryingFat && (forFrying || grams > FRYING_BATH_GRAMS) ? grams * FRYING_ABSORPTION : grams;
+}
+
+/**
+ * Estimates a recipe's nutrition from its ingredient lines.
+ * @param {string[]} ingredients - The ingredient lines, as written.
+ * @param {number | null} servings - How many servings the recipe makes; unknown counts as one.
+ * @returns {NutritionEstimate} The totals, per-serving values and the lines that were left out.
+ * @example
+ * estimateNutrition(['1 stick butter', '1 cup sugar'], 2).perServing.calories // ~733
+ */
+export function estimateNutrition(ingredients: string[], servings: number | null): NutritionEstimate {
+  const total: NutritionTotals = { calories: 0, fat: 0, sugar: 0, sodium: 0 };
+  const unestimated: string[] = [];
+
+  for (const line of ingredients) {
+    const ingredient = parseIngredient(line);
+    const food = matchFood(ingredient.item);
+    const grams = food ? ingredientGrams(ingredient, food) : null;
+    if (!food || grams === null) {
+      unestimated.push(line);
+      continue;
+    }
+    for (const nutrient of Object.keys(total) as Nutrient[]) {
+      total[nutrient] += (food.per100g[nutrient] * grams) / 100;
+    }
+  }
+
+  const divisor = servings && servings > 0 ? servings : 1;
+  const perServing = Object.fromEntries(
+    (Object.keys(total) as Nutrient[]).map((nutrient) => [nutrient, Math.round(total[nutrient] / divisor)])
+  ) as unknown as NutritionTotals;
+  for (const nutrient of Object.keys(total) as Nutrient[]) total[nutrient] = Math.round(total[nutrient]);
+
+  return { total, perServing, servings: divisor, unestimated };
+}
+
+/**
+ * Returns an amount as a percentage of its daily value.
+ * @param {Nutrient} nutrient - The nutrient.
+ * @param {number} amount - The amount per serving.
+ * @returns {number} The rounded percentage; happily above 100.
+ */
+export function percentDailyValue(nutrient: Nutrient, amount: number): number {
+  return Math.round((amount / DAILY_VALUES[nutrient]) * 100);
+}
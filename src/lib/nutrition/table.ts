@@ -0,0 +1,90 @@
+/**
+ * @file src/lib/nutrition/table.ts
+ * @description The bundled nutrient table: approximate values per 100 g for the foods RecipeWreck recipes lean on,
+ * rounded from USDA FoodData Central. Precision is not the point (the label is a joke), but the numbers should be in
+ * the right ballpark so the joke lands on the recipe and not on the maths.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import type { FoodEntry } from './types';
+
+/**
+ * @constant FOODS
+ * @description Every food the estimator knows. Ingredient items are matched by keyword; the longest matching keyword
+ * wins, so "unsalted butter" beats "butter" and "peanut butter" beats both.
+ */
+export const FOODS: FoodEntry[] = [
+  // Fats and oils
+  { name: 'Oil', keywords: ['oil'], per100g: { calories: 884, fat: 100, sugar: 0, sodium: 0 }, density: 0.92, fryingFat: true },
+  { name: 'Lard', keywords: ['lard', 'shortening', 'bacon grease', 'tallow'], per100g: { calories: 902, fat: 100, sugar: 0, sodium: 0 }, density: 0.9, fryingFat: true },
+  { name: 'Butter', keywords: ['butter', 'ghee'], per100g: { calories: 717, fat: 81, sugar: 0.1, sodium: 643 }, density: 0.91, unitGrams: { stick: 113 } },
+  { name: 'Unsalted butter', keywords: ['unsalted butter'], per100g: { calories: 717, fat: 81, sugar: 0.1, sodium: 11 }, density: 0.91, unitGrams: { stick: 113 } },
+  { name: 'Mayonnaise', keywords: ['mayonnaise', 'mayo', 'aioli'], per100g: { calories: 680, fat: 75, sugar: 0.6, sodium: 635 }, density: 0.91 },
+  { name: 'Peanut butter', keywords: ['peanut butter'], per100g: { calories: 588, fat: 50, sugar: 9, sodium: 429 }, density: 1.09 },
+  { name: 'Hazelnut spread', keywords: ['nutella', 'hazelnut spread', 'chocolate spread'], per100g: { calories: 539, fat: 31, sugar: 57, sodium: 41 }, density: 1.2 },
+  { name: 'Ranch dressing', keywords: ['ranch', 'dressing'], per100g: { calories: 430, fat: 44, sugar: 5, sodium: 900 }, density: 1 },
+
+  // Dairy
+  { name: 'Cheese', keywords: ['cheese', 'cheddar', 'mozzarella', 'parmesan', 'queso', 'velveeta'], per100g: { calories: 403, fat: 33, sugar: 0.5, sodium: 621 }, density: 0.45, unitGrams: { slice: 21, block: 225 } },
+  { name: 'Cream cheese', keywords: ['cream cheese'], per100g: { calories: 342, fat: 34, sugar: 3.2, sodium: 321 }, density: 1, unitGrams: { block: 226, package: 226 } },
+  { name: 'Cheesecake', keywords: ['cheesecake'], per100g: { calories: 321, fat: 22.5, sugar: 25.5, sodium: 438 }, pieceGrams: 1000, unitGrams: { slice: 125 } },
+  { name: 'Heavy cream', keywords: ['cream', 'heavy cream', 'whipping cream', 'double cream'], per100g: { calories: 340, fat: 36, sugar: 2.9, sodium: 27 }, density: 1 },
+  { name: 'Whipped cream', keywords: ['whipped cream', 'whipped topping', 'cool whip'], per100g: { calories: 257, fat: 22, sugar: 12.5, sodium: 130 }, density: 0.25, unitGrams: { can: 200 } },
+  { name: 'Sour cream', keywords: ['sour cream'], per100g: { calories: 198, fat: 19, sugar: 3.4, sodium: 31 }, density: 1 },
+  { name: 'Ice cream', keywords: ['ice cream', 'gelato'], per100g: { calories: 207, fat: 11, sugar: 21, sodium: 80 }, density: 0.55, unitGrams: { scoop: 70 } },
+  { name: 'Milk', keywords: ['milk'], per100g: { calories: 61, fat: 3.3, sugar: 5, sodium: 43 }, density: 1.03 },
+  { name: 'Condensed milk', keywords: ['condensed milk'], per100g: { calories: 321, fat: 8.7, sugar: 54, sodium: 127 }, density: 1.3, unitGrams: { can: 397 } },
+  { name: 'Egg', keywords: ['egg', 'egg yolk'], per100g: { calories: 143, fat: 9.5, sugar: 0.4, sodium: 142 }, density: 1.03, pieceGrams: 50 },
+
+  // Sugars and sweets
+  { name: 'Sugar', keywords: ['sugar', 'granulated sugar', 'white sugar'], per100g: { calories: 387, fat: 0, sugar: 100, sodium: 1 }, density: 0.85 },
+  { name: 'Brown sugar', keywords: ['brown sugar'], per100g: { calories: 380, fat: 0, sugar: 97, sodium: 28 }, density: 0.93 },
+  { name: 'Powdered sugar', keywords: ['powdered sugar', 'icing sugar', "confectioners' sugar", 'confectioners sugar'], per100g: { calories: 389, fat: 0, sugar: 98, sodium: 2 }, density: 0.5, unitGrams: { sprinkle: 5 } },
+  { name: 'Syrup', keywords: ['syrup', 'corn syrup', 'maple syrup', 'molasses'], per100g: { calories: 286, fat: 0, sugar: 76, sodium: 62 }, density: 1.38 },
+  { name: 'Honey', keywords: ['honey'], per100g: { calories: 304, fat: 0, sugar: 82, sodium: 4 }, density: 1.42 },
+  { name: 'Chocolate', keywords: ['chocolate', 'chocolate chips', 'cocoa'], per100g: { calories: 546, fat: 31, sugar: 48, sodium: 24 }, density: 0.7, unitGrams: { bar: 45 } },
+  { name: 'Chocolate shell', keywords: ['chocolate shell', 'magic shell', 'shell sauce'], per100g: { calories: 600, fat: 45, sugar: 45, sodium: 20 }, density: 1.1 },
+  { name: 'Fudge sauce', keywords: ['fudge', 'chocolate sauce', 'hot fudge', 'caramel', 'caramel sauce', 'dulce de leche'], per100g: { calories: 360, fat: 10, sugar: 60, sodium: 300 }, density: 1.3 },
+  { name: 'Frosting', keywords: ['frosting', 'icing', 'buttercream', 'glaze'], per100g: { calories: 397, fat: 17, sugar: 60, sodium: 180 }, density: 1, unitGrams: { can: 450 } },
+  { name: 'Marshmallows', keywords: ['marshmallow', 'mini marshmallows', 'marshmallow fluff'], per100g: { calories: 318, fat: 0.2, sugar: 58, sodium: 80 }, density: 0.21, pieceGrams: 7 },
+  { name: 'Sprinkles', keywords: ['sprinkles', 'nonpareils', 'jimmies'], per100g: { calories: 389, fat: 5, sugar: 80, sodium: 20 }, density: 0.8 },
+  { name: 'Candy', keywords: ['candy', 'gummy', 'gummies', 'skittles', "m&m's", 'm&ms', 'candy bar', 'snickers', 'twix'], per100g: { calories: 450, fat: 15, sugar: 70, sodium: 150 }, density: 0.7, pieceGrams: 50 },
+  { name: 'Cookies', keywords: ['cookie', 'oreo', 'oreos', 'biscuit'], per100g: { calories: 480, fat: 20, sugar: 42, sodium: 380 }, density: 0.45, pieceGrams: 11, unitGrams: { sleeve: 150, package: 400 } },
+  { name: 'Doughnut', keywords: ['doughnut', 'donut', 'krispy kreme'], per100g: { calories: 452, fat: 25, sugar: 23, sodium: 326 }, pieceGrams: 60 },
+  { name: 'Funnel cake', keywords: ['funnel cake'], per100g: { calories: 345, fat: 20, sugar: 18, sodium: 300 }, pieceGrams: 220 },
+  { name: 'Cake', keywords: ['cake', 'pound cake', 'brownie', 'brownies', 'cupcake', 'twinkie', 'twinkies'], per100g: { calories: 420, fat: 20, sugar: 40, sodium: 300 }, pieceGrams: 70, unitGrams: { slice: 80 } },
+  { name: 'Pie crust', keywords: ['pie crust', 'puff pastry', 'pastry'], per100g: { calories: 527, fat: 33, sugar: 3, sodium: 480 }, pieceGrams: 250 },
+
+  // Starches and snacks
+  { name: 'Flour', keywords: ['flour', 'all-purpose flour', 'breading', 'batter mix', 'pancake mix'], per100g: { calories: 364, fat: 1, sugar: 0.3, sodium: 2 }, density: 0.53 },
+  { name: 'Crackers', keywords: ['crackers', 'cracker', 'ritz', 'graham cracker'], per100g: { calories: 500, fat: 25, sugar: 7, sodium: 850 }, density: 0.35, pieceGrams: 3, unitGrams: { sleeve: 113 } },
+  { name: 'Bread', keywords: ['bread', 'bun', 'buns', 'roll', 'tortilla', 'bagel', 'croissant', 'toast', 'texas toast'], per100g: { calories: 280, fat: 5, sugar: 5, sodium: 490 }, pieceGrams: 50, unitGrams: { slice: 30 } },
+  { name: 'Chips', keywords: ['chips', 'potato chips', 'tortilla chips', 'doritos', 'cheetos', 'fritos', 'crisps'], per100g: { calories: 536, fat: 35, sugar: 1, sodium: 525 }, density: 0.1, unitGrams: { bag: 280 } },
+  { name: 'French fries', keywords: ['fries', 'french fries', 'tater tots', 'hash browns'], per100g: { calories: 312, fat: 15, sugar: 0.3, sodium: 210 }, density: 0.4, unitGrams: { bag: 900 } },
+  { name: 'Pasta', keywords: ['pasta', 'macaroni', 'noodles', 'spaghetti', 'ramen'], per100g: { calories: 371, fat: 1.5, sugar: 2.7, sodium: 6 }, density: 0.45, unitGrams: { box: 454, package: 454, packet: 85 } },
+  { name: 'Rice', keywords: ['rice'], per100g: { calories: 365, fat: 0.7, sugar: 0.1, sodium: 5 }, density: 0.85 },
+  { name: 'Cereal', keywords: ['cereal', 'froot loops', 'cap\'n crunch', 'frosted flakes', 'cornflakes'], per100g: { calories: 390, fat: 4, sugar: 35, sodium: 450 }, density: 0.12 },
+  { name: 'Pizza', keywords: ['pizza'], per100g: { calories: 266, fat: 10, sugar: 3.6, sodium: 598 }, pieceGrams: 900, unitGrams: { slice: 107 } },
+
+  // Meat
+  { name: 'Bacon', keywords: ['bacon', 'bacon bits', 'pancetta'], per100g: { calories: 541, fat: 42, sugar: 1.4, sodium: 1717 }, density: 0.5, pieceGrams: 12, unitGrams: { slice: 12, strip: 12, package: 454 } },
+  { name: 'Spam', keywords: ['spam', 'luncheon meat'], per100g: { calories: 315, fat: 27, sugar: 1.5, sodium: 1411 }, unitGrams: { can: 340, slice: 56 } },
+  { name: 'Sausage', keywords: ['sausage', 'hot dog', 'hot dogs', 'bratwurst', 'chorizo', 'pepperoni', 'salami'], per100g: { calories: 301, fat: 27, sugar: 1, sodium: 1000 }, pieceGrams: 60, unitGrams: { slice: 3, package: 454 } },
+  { name: 'Beef', keywords: ['beef', 'steak', 'ground beef', 'burger', 'patty', 'patties', 'brisket'], per100g: { calories: 250, fat: 15, sugar: 0, sodium: 72 }, pieceGrams: 200 },
+  { name: 'Pork', keywords: ['pork', 'ham', 'pork belly', 'ribs'], per100g: { calories: 300, fat: 24, sugar: 0, sodium: 600 }, pieceGrams: 200, unitGrams: { slice: 28 } },
+  { name: 'Chicken', keywords: ['chicken', 'chicken nuggets', 'nuggets', 'wings', 'tenders'], per100g: { calories: 260, fat: 16, sugar: 0, sodium: 400 }, pieceGrams: 150 },
+
+  // Sauces, seasonings and drinks
+  { name: 'Salt', keywords: ['salt', 'sea salt', 'kosher salt'], per100g: { calories: 0, fat: 0, sugar: 0, sodium: 38758 }, density: 1.2 },
+  { name: 'Soy sauce', keywords: ['soy sauce'], per100g: { calories: 53, fat: 0.6, sugar: 0.4, sodium: 5493 }, density: 1.15 },
+  { name: 'Ketchup', keywords: ['ketchup', 'catsup'], per100g: { calories: 101, fat: 0.1, sugar: 22, sodium: 907 }, density: 1.15 },
+  { name: 'Barbecue sauce', keywords: ['barbecue sauce', 'bbq sauce'], per100g: { calories: 172, fat: 0.6, sugar: 33, sodium: 1027 }, density: 1.15 },
+  { name: 'Cheese sauce', keywords: ['cheese sauce', 'nacho cheese', 'cheez whiz'], per100g: { calories: 180, fat: 14, sugar: 2, sodium: 1100 }, density: 1.05, unitGrams: { can: 425, jar: 425 } },
+  { name: 'Gravy', keywords: ['gravy'], per100g: { calories: 60, fat: 3, sugar: 1, sodium: 550 }, density: 1.05 },
+  { name: 'Vanilla extract', keywords: ['vanilla', 'vanilla extract'], per100g: { calories: 288, fat: 0.1, sugar: 12.7, sodium: 9 }, density: 0.88 },
+  { name: 'Soda', keywords: ['soda', 'cola', 'coke', 'pepsi', 'mountain dew', 'root beer', 'sprite'], per100g: { calories: 42, fat: 0, sugar: 10.6, sodium: 4 }, density: 1.04, unitGrams: { can: 355, bottle: 591 } },
+  { name: 'Energy drink', keywords: ['energy drink', 'red bull', 'monster'], per100g: { calories: 45, fat: 0, sugar: 11, sodium: 80 }, density: 1.06, unitGrams: { can: 473 } },
+  { name: 'Beer', keywords: ['beer', 'lager', 'ale', 'stout'], per100g: { calories: 43, fat: 0, sugar: 0, sodium: 4 }, density: 1.01, unitGrams: { can: 355, bottle: 355 } },
+  { name: 'Liquor', keywords: ['rum', 'vodka', 'bourbon', 'whiskey', 'whisky', 'tequila', 'gin', 'liqueur', 'brandy'], per100g: { calories: 231, fat: 0, sugar: 0, sodium: 1 }, density: 0.95, unitGrams: { bottle: 710 } },
+];
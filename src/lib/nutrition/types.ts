@@ -0,0 +1,63 @@
+/**
+ * @file src/lib/nutrition/types.ts
+ * @description Shared shapes for the offline nutrition estimator: the bundled per-food nutrient data and the estimate
+ * rendered on the parody nutrition label.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+/**
+ * The nutrients the estimator tracks.
+ * @interface NutritionTotals
+ * @property {number} calories - Energy in kcal.
+ * @property {number} fat - Total fat in grams.
+ * @property {number} sugar - Total sugars in grams.
+ * @property {number} sodium - Sodium in milligrams.
+ */
+export interface NutritionTotals {
+  calories: number;
+  fat: number;
+  sugar: number;
+  sodium: number;
+}
+
+/**
+ * @typedef {keyof NutritionTotals} Nutrient
+ */
+export type Nutrient = keyof NutritionTotals;
+
+/**
+ * A food in the bundled nutrient table.
+ * @interface FoodEntry
+ * @property {string} name - Display name.
+ * @property {string[]} keywords - Lowercase words or phrases that identify the food in an ingredient's item text.
+ * @property {NutritionTotals} per100g - Nutrients per 100 grams.
+ * @property {number} [density] - Grams per millilitre, for volume measures. Defaults to 1.
+ * @property {number} [pieceGrams] - Grams per item when the line has no unit ("2 large eggs").
+ * @property {Record<string, number>} [unitGrams] - Grams per count unit when it differs from the default ("1 can" of Spam).
+ * @property {boolean} [fryingFat] - Whether the food is used as a frying medium, of which only the absorbed part is eaten.
+ */
+export interface FoodEntry {
+  name: string;
+  keywords: string[];
+  per100g: NutritionTotals;
+  density?: number;
+  pieceGrams?: number;
+  unitGrams?: Record<string, number>;
+  fryingFat?: boolean;
+}
+
+/**
+ * A recipe's estimated nutrition.
+ * @interface NutritionEstimate
+ * @property {NutritionTotals} total - The whole recipe.
+ * @property {NutritionTotals} perServing - One serving.
+ * @property {number} servings - The servings the total was divided by.
+ * @property {string[]} unestimated - Ingredient lines that couldn't be matched or measured, as written.
+ */
+export interface NutritionEstimate {
+  total: NutritionTotals;
+  perServing: NutritionTotals;
+  servings: number;
+  unestimated: string[];
+}
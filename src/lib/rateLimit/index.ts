@@ -0,0 +1,275 @@
+/**
+ * @file src/lib/rateLimit/index.ts
+ * @description Rate limiting for the generation endpoints, which spend paid Gemini and Imagen quota on every call.
+ * Two limits apply to every key: a sliding window (at most N generations in any W milliseconds) and a daily cap that
+ * resets at midnight UTC. The daily cap comes with the caller's identity, since it depends on their access tier. Signed-in users are limited per account; anonymous visitors per device cookie *and* per IP,
+ * with the IP limits scaled up because several people can share one address. Both of those can still be rotated by a
+ * determined client, so all anonymous generations together also share one daily cap that can't be.
+ *
+ * The same store also backs {@link consumeThrottle}, a plain sliding-window throttle for forms that can be abused
+ * without spending quota, such as sign-in attempts and emails sent on request.
+ *
+ * Configuration:
+ * - `RATE_LIMIT_STORE`: `memory` (default) or `mongo`.
+ * - `RATE_LIMIT_WINDOW_MS` / `RATE_LIMIT_WINDOW_MAX`: the sliding window, default 3 generations per 60 seconds.
+ * - `RATE_LIMIT_ANONYMOUS_DAILY_MAX`: the daily cap shared by every anonymous visitor, default 500.
+ * @requires next/server For building 429 responses.
+ * @requires ./memory In-memory store.
+ * @requires ./mongo MongoDB store.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import { NextResponse } from 'next/server';
+import { createMemoryRateLimitStore } from './memory';
+import { createMongoRateLimitStore } from './mongo';
+import type { RateLimitIdentity, RateLimitStatus, RateLimitStore } from './types';
+
+export type { RateLimitIdentity, RateLimitStatus, RateLimitStore } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * @constant IP_LIMIT_MULTIPLIER
+ * @description IP keys get this many times the per-device limits, so a shared office or campus address is not locked
+ * out by a few visitors, while one person cycling cookies still hits a ceiling.
+ */
+const IP_LIMIT_MULTIPLIER = 3;
+
+/**
+ * Reads a positive integer from the environment.
+ * @param {string | undefined} value - The raw value.
+ * @param {number} fallback - The default.
+ * @returns {number} The parsed value, or the default if missing or invalid.
+ */
+const envInt = (value: string | undefined, fallback: number): number => {
+  const parsed = Number.parseInt(value ?? '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+/**
+ * Reads the limits from the environment on each call, so tests and scripts can change them without a restart.
+ * @returns {{ windowMs: number, windowMax: number, anonymousDailyMax: number }} The per-device window and the shared
+ * anonymous cap.
+ */
+const getLimits = () => ({
+  windowMs: envInt(process.env.RATE_LIMIT_WINDOW_MS, 60_000),
+  windowMax: envInt(process.env.RATE_LIMIT_WINDOW_MAX, 3),
+  anonymousDailyMax: envInt(process.env.RATE_LIMIT_ANONYMOUS_DAILY_MAX, 500),
+});
+
+/**
+ * Augment the globalThis type so the in-memory store survives hot reloads and is shared by every route bundle.
+ */
+declare global {
+  // eslint-disable-next-line no-var
+  var rate_limit_memory_store: RateLimitStore | undefined;
+}
+
+/**
+ * Returns the configured store.
+ * @returns {RateLimitStore} The store selected by `RATE_LIMIT_STORE`.
+ * @throws {Error} If `RATE_LIMIT_STORE` names an unknown backend.
+ */
+export function getRateLimitStore(): RateLimitStore {
+  const backend = process.env.RATE_LIMIT_STORE || 'memory';
+  if (backend === 'mongo') return createMongoRateLimitStore();
+  if (backend !== 'memory') throw new Error(`Unknown RATE_LIMIT_STORE backend: ${backend}`);
+  globalThis.rate_limit_memory_store ??= createMemoryRateLimitStore();
+  return globalThis.rate_limit_memory_store;
+}
+
+/**
+ * Lists the keys a request is counted against, with the limits for each. The shared anonymous key has no window of its
+ * own; it only caps the day.
+ * @param {RateLimitIdentity} identity - The caller.
+ * @returns {{ key: string, dailyMax: number, windowMax: number }[]} The keys.
+ */
+const keysFor = (identity: RateLimitIdentity): { key: string; dailyMax: number; windowMax: number }[] => {
+  const { windowMax, anonymousDailyMax } = getLimits();
+  const { dailyMax } = identity;
+  return identity.userID
+    ? [{ key: `user:${identity.userID}`, dailyMax, windowMax }]
+    : [
+        { key: `device:${identity.deviceId}`, dailyMax, windowMax },
+        { key: `ip:${identity.ip}`, dailyMax: dailyMax * IP_LIMIT_MULTIPLIER, windowMax: windowMax * IP_LIMIT_MULTIPLIER },
+        { key: 'anonymous', dailyMax: anonymousDailyMax, windowMax: Infinity },
+      ];
+};
+
+/**
+ * Returns the next midnight UTC.
+ * @param {number} now - Epoch milliseconds.
+ * @returns {number} Epoch milliseconds.
+ */
+const nextUtcMidnight = (now: number): number => {
+  const date = new Date(now);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1);
+};
+
+/**
+ * Evaluates the limits for a caller without recording anything.
+ * @async
+ * @param {RateLimitIdentity} identity - The caller.
+ * @param {number} [now=Date.now()] - The current time.
+ * @returns {Promise<RateLimitStatus>} The decision and remaining quota.
+ * @throws {Error} If the store is unavailable.
+ */
+export async function getRateLimitStatus(identity: RateLimitIdentity, now = Date.now()): Promise<RateLimitStatus> {
+  const { windowMs } = getLimits();
+  const { dailyMax } = identity;
+  const resetAt = nextUtcMidnight(now);
+  const dayStart = resetAt - DAY_MS;
+  const windowStart = now - windowMs;
+  const store = getRateLimitStore();
+
+  const status: RateLimitStatus = { allowed: true, reason: null, limit: dailyMax, remaining: dailyMax, retryAfter: 0, resetAt };
+  for (const { key, dailyMax: keyDailyMax, windowMax } of keysFor(identity)) {
+    const hits = await store.getHits(key, Math.min(windowStart, dayStart));
+    const dayHits = hits.filter((at) => at >= dayStart).length;
+    const windowHits = hits.filter((at) => at > windowStart).sort((a, b) => a - b);
+
+    if (keyDailyMax - dayHits < status.remaining) {
+      status.limit = keyDailyMax;
+      status.remaining = Math.max(0, keyDailyMax - dayHits);
+    }
+
+    let blockedFor = 0;
+    let reason: RateLimitStatus['reason'] = null;
+    if (dayHits >= keyDailyMax) {
+      blockedFor = resetAt - now;
+      reason = 'daily';
+    } else if (windowHits.length >= windowMax) {
+      // The window frees up when the oldest hit that keeps it full slides out.
+      blockedFor = windowHits[windowHits.length - windowMax] + windowMs - now;
+      reason = 'window';
+    }
+    if (reason && blockedFor / 1000 > status.retryAfter) {
+      status.allowed = false;
+      status.reason = reason;
+      status.retryAfter = Math.max(1, Math.ceil(blockedFor / 1000));
+    }
+  }
+  return status;
+}
+
+/**
+ * Checks the limits and, if the caller is allowed, records a generation against every key.
+ * Check and record are not atomic, so a burst of simultaneous requests can overshoot by a request or two; the limiter
+ * is there to stop sustained abuse, not to meter exactly.
+ * @async
+ * @param {RateLimitIdentity} identity - The caller.
+ * @returns {Promise<RateLimitStatus>} The decision; `remaining` already accounts for this request when allowed.
+ * @throws {Error} If the store is unavailable.
+ */
+export async function consumeRateLimit(identity: RateLimitIdentity): Promise<RateLimitStatus> {
+  const now = Date.now();
+  const status = await getRateLimitStatus(identity, now);
+  if (!status.allowed) return status;
+
+  const { windowMs } = getLimits();
+  const store = getRateLimitStore();
+  // Keep hits until they can no longer count towards either limit.
+  const ttlMs = Math.max(windowMs, DAY_MS);
+  for (const { key } of keysFor(identity)) {
+    await store.addHit(key, now, ttlMs);
+  }
+  return { ...status, remaining: Math.max(0, status.remaining - 1) };
+}
+
+/**
+ * Builds the standard rate limit response headers.
+ * @param {RateLimitStatus} status - The limiter decision.
+ * @returns {Record<string, string>} `X-RateLimit-*` headers, plus `Retry-After` when blocked.
+ */
+export function rateLimitHeaders(status: RateLimitStatus): Record<string, string> {
+  const headers: Record<string, string> = {
+    'X-RateLimit-Limit': String(status.limit),
+    'X-RateLimit-Remaining': String(status.remaining),
+    'X-RateLimit-Reset': String(Math.ceil(status.resetAt / 1000)),
+  };
+  if (!status.allowed) headers['Retry-After'] = String(status.retryAfter);
+  return headers;
+}
+
+/**
+ * Consumes one generation for a caller, failing open: if the store is unavailable the error is logged and the request
+ * is let through, because an outage of the limiter should not take generation down with it.
+ * @async
+ * @param {RateLimitIdentity} identity - The caller.
+ * @returns {Promise<RateLimitStatus | null>} The decision, or null if the store failed.
+ */
+export async function tryConsumeRateLimit(identity: RateLimitIdentity): Promise<RateLimitStatus | null> {
+  try {
+    return await consumeRateLimit(identity);
+  } catch (err) {
+    console.error('Rate limiter unavailable, allowing request', err);
+    return null;
+  }
+}
+
+/**
+ * Builds the 429 response for a blocked request.
+ * @param {RateLimitStatus} status - The blocking decision.
+ * @returns {NextResponse} `{ error, reason, retryAfter, limit, remaining }` with `Retry-After` and `X-RateLimit-*` headers.
+ */
+export function rateLimitExceededResponse(status: RateLimitStatus): NextResponse {
+  const error = status.reason === 'daily' ? 'Daily generation limit reached' : 'Too many generations, slow down';
+  return NextResponse.json(
+    { error, reason: status.reason, retryAfter: status.retryAfter, limit: status.limit, remaining: status.remaining },
+    { status: 429, headers: rateLimitHeaders(status) }
+  );
+}
+
+/**
+ * A sliding-window limit on one key, for {@link consumeThrottle}.
+ * @interface ThrottleRule
+ * @property {string} key - The key, namespaced by action, e.g. `login:ip:203.0.113.7`.
+ * @property {number} max - Attempts allowed per window.
+ * @property {number} windowMs - The window length.
+ */
+export interface ThrottleRule {
+  key: string;
+  max: number;
+  windowMs: number;
+}
+
+/**
+ * Counts an attempt against every rule, unless one of them is already exhausted. Blocked attempts aren't recorded, so
+ * a client that keeps retrying is let back in once the window slides on. Fails open like {@link tryConsumeRateLimit}.
+ * @async
+ * @param {ThrottleRule[]} rules - The limits the attempt counts against.
+ * @returns {Promise<number>} Seconds until the attempt would be allowed, or 0 if it was allowed.
+ */
+export async function consumeThrottle(rules: ThrottleRule[]): Promise<number> {
+  const now = Date.now();
+  try {
+    const store = getRateLimitStore();
+    let blockedFor = 0;
+    for (const { key, max, windowMs } of rules) {
+      const hits = (await store.getHits(key, now - windowMs)).sort((a, b) => a - b);
+      if (hits.length >= max) blockedFor = Math.max(blockedFor, hits[hits.length - max] + windowMs - now);
+    }
+    if (blockedFor > 0) return Math.max(1, Math.ceil(blockedFor / 1000));
+
+    for (const { key, windowMs } of rules) {
+      await store.addHit(key, now, windowMs);
+    }
+    return 0;
+  } catch (err) {
+    console.error('Rate limiter unavailable, allowing request', err);
+    return 0;
+  }
+}
+
+/**
+ * Builds the 429 response for a throttled attempt.
+ * @param {number} retryAfter - Seconds until the next attempt is allowed, from {@link consumeThrottle}.
+ * @returns {NextResponse} `{ error, retryAfter }` with a `Retry-After` header.
+ */
+export function throttledResponse(retryAfter: number): NextResponse {
+  return NextResponse.json(
+    { error: 'Too many attempts, try again later', retryAfter },
+    { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+  );
+}
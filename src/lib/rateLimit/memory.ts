@@ -0,0 +1,54 @@
+/**
+ * @file src/lib/rateLimit/memory.ts
+ * @description In-memory rate limit store. Counts are per server process and lost on restart, so it suits development and
+ * single-instance deployments; use the MongoDB store when running several instances.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import type { RateLimitStore } from './types';
+
+/**
+ * @constant SWEEP_INTERVAL_MS
+ * @description How often every key is swept for expired hits. Keys that are never written again (a rotated cookie or
+ * address) would otherwise stay in memory for good.
+ */
+const SWEEP_INTERVAL_MS = 60_000;
+
+/**
+ * Creates an in-memory store. Expired hits are pruned whenever a key is written, and keys left with no live hits are
+ * dropped by a sweep that runs at most once per {@link SWEEP_INTERVAL_MS}.
+ * @returns {RateLimitStore} The store.
+ */
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const hits = new Map<string, { at: number; expiresAt: number }[]>();
+  let lastSweep = 0;
+
+  /**
+   * Drops expired hits from every key, and keys with none left.
+   * @param {number} now - Epoch milliseconds.
+   */
+  const sweep = (now: number) => {
+    lastSweep = now;
+    for (const [key, keyHits] of hits) {
+      const live = keyHits.filter((hit) => hit.expiresAt > now);
+      if (live.length === 0) hits.delete(key);
+      else if (live.length < keyHits.length) hits.set(key, live);
+    }
+  };
+
+  return {
+    name: 'memory',
+
+    async getHits(key: string, since: number): Promise<number[]> {
+      return (hits.get(key) ?? []).filter((hit) => hit.at >= since).map((hit) => hit.at);
+    },
+
+    async addHit(key: string, at: number, ttlMs: number): Promise<void> {
+      if (at - lastSweep >= SWEEP_INTERVAL_MS) sweep(at);
+      const live = (hits.get(key) ?? []).filter((hit) => hit.expiresAt > at);
+      live.push({ at, expiresAt: at + ttlMs });
+      hits.set(key, live);
+    },
+  };
+}
@@ -0,0 +1,34 @@
+/**
+ * @file src/lib/rateLimit/mongo.ts
+ * @description MongoDB rate limit store, shared by every server instance. Hits are stored in the `ratelimithits`
+ * collection and expire through a TTL index.
+ * @requires @/lib/mongodb Database connection utility
+ * @requires @/models/RateLimitHit RateLimitHit Mongoose model
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import dbConnect from '@/lib/mongodb';
+import RateLimitHit from '@/models/RateLimitHit';
+import type { RateLimitStore } from './types';
+
+/**
+ * Creates a MongoDB-backed store.
+ * @returns {RateLimitStore} The store.
+ */
+export function createMongoRateLimitStore(): RateLimitStore {
+  return {
+    name: 'mongo',
+
+    async getHits(key: string, since: number): Promise<number[]> {
+      await dbConnect();
+      const docs = await RateLimitHit.find({ key, at: { $gte: new Date(since) } }).select('at').lean();
+      return docs.map((doc) => doc.at.getTime());
+    },
+
+    async addHit(key: string, at: number, ttlMs: number): Promise<void> {
+      await dbConnect();
+      await RateLimitHit.create({ key, at: new Date(at), expiresAt: new Date(at + ttlMs) });
+    },
+  };
+}
@@ -0,0 +1,66 @@
+/**
+ * @file src/lib/rateLimit/types.ts
+ * @description Shared contracts for the generation rate limiter: the storage backend interface, the identity a request is
+ * limited by, and the decision returned to routes.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+/**
+ * Who a request is counted against. Signed-in users are limited by account; anonymous visitors by both their device
+ * cookie and their IP address, so clearing cookies does not reset the limit.
+ * @interface RateLimitIdentity
+ * @property {string | null} userID - The signed-in user, if any.
+ * @property {string} deviceId - The anonymous device id from the `rw_device` cookie.
+ * @property {string} ip - The client IP address, or `unknown`.
+ * @property {number} dailyMax - The caller's daily cap, from their tier (see `@/lib/tiers`).
+ */
+export interface RateLimitIdentity {
+  userID: string | null;
+  deviceId: string;
+  ip: string;
+  dailyMax: number;
+}
+
+/**
+ * A storage backend for the sliding-window log. Each successful generation is recorded as a timestamped hit per key.
+ * @interface RateLimitStore
+ */
+export interface RateLimitStore {
+  /** Backend name, used in logs. */
+  name: string;
+  /**
+   * Returns the hit timestamps for a key at or after `since`.
+   * @param {string} key - The limit key, e.g. `device:abc`.
+   * @param {number} since - Epoch milliseconds.
+   * @returns {Promise<number[]>} The hit timestamps, in any order.
+   */
+  getHits(key: string, since: number): Promise<number[]>;
+  /**
+   * Records a hit.
+   * @param {string} key - The limit key.
+   * @param {number} at - Epoch milliseconds.
+   * @param {number} ttlMs - How long the hit needs to be kept; stores may drop it afterwards.
+   * @returns {Promise<void>}
+   */
+  addHit(key: string, at: number, ttlMs: number): Promise<void>;
+}
+
+/**
+ * The limiter's decision for a request, also used to show the remaining quota in the UI.
+ * @interface RateLimitStatus
+ * @property {boolean} allowed - Whether another generation is allowed right now.
+ * @property {'window' | 'daily' | null} reason - Which limit blocked the request, or null if allowed.
+ * @property {number} limit - The daily cap for the most restrictive key.
+ * @property {number} remaining - Generations left today for the most restrictive key.
+ * @property {number} retryAfter - Seconds until another generation is allowed (0 if allowed).
+ * @property {number} resetAt - Epoch milliseconds when the daily count resets (next UTC midnight).
+ */
+export interface RateLimitStatus {
+  allowed: boolean;
+  reason: 'window' | 'daily' | null;
+  limit: number;
+  remaining: number;
+  retryAfter: number;
+  resetAt: number;
+}
@@ -0,0 +1,373 @@
+/**
+ * @file src/lib/recipe.ts
+ * @description Shared recipe contract for RecipeWreck. Defines the full recipe record described in
+ * `zContext_Information/Recipe Card Data.md`, the zod schema used to validate model output, and the
+ * legacy free-text parser that is kept as a fallback when the model ignores the JSON instruction.
+ *
+ * This module has no server-only dependencies so the types can be shared with client components.
+ * @requires zod For validating the JSON returned by the language model.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import { z } from "zod"; // Library for schema validation.
+
+/**
+ * @constant MEAL_TYPES
+ * @description The meal categories a recipe can belong to, as listed in `Recipe Card Data.md`.
+ */
+export const MEAL_TYPES = [
+  "breakfast",
+  "lunch",
+  "dinner",
+  "snack",
+  "dessert",
+  "appetizer",
+  "side dish",
+  "sauce or condiment",
+] as const;
+
+/**
+ * @typedef {string} MealType
+ * @description One of the values in {@link MEAL_TYPES}.
+ */
+export type MealType = (typeof MEAL_TYPES)[number];
+
+/**
+ * @constant MAX_SERVINGS
+ * @description The most servings a recipe can be generated for or scaled to.
+ */
+export const MAX_SERVINGS = 24;
+
+/**
+ * @constant REMIX_DIRECTIONS
+ * @description Suggested remix directions offered as one-click options on `RecipeCard`. Users can also type their own.
+ */
+export const REMIX_DIRECTIONS = [
+  "more deep-fried",
+  "breakfast version",
+  "make it worse",
+  "dessert version",
+  "extra cheese",
+  "gas station edition",
+] as const;
+
+/**
+ * @constant RecipeSchema
+ * @description Zod schema for the structured recipe the language model must return.
+ * Mirrors the Gemini `responseSchema` sent by `/api/generate`; anything that fails this schema is
+ * treated as non-JSON output and handed to {@link parseRecipe} instead.
+ */
+export const RecipeSchema = z.object({
+  title: z.string().trim().min(1).max(200),
+  description: z.string().trim().max(1000),
+  mealType: z.enum(MEAL_TYPES),
+  calories: z.number().int().nonnegative(),
+  servings: z.number().int().min(1).max(MAX_SERVINGS),
+  associatedDiseases: z.array(z.string().trim().min(1)),
+  tags: z.array(z.string().trim().toLowerCase().min(1)),
+  ingredients: z.array(z.string().trim().min(1)).min(1),
+  steps: z.array(z.string().trim().min(1)).min(1),
+});
+
+/**
+ * @typedef {object} GeneratedRecipe
+ * @description The recipe text produced by the generator, before an image is attached.
+ * `mealType`, `calories` and `servings` are `null` when the recipe came from the free-text fallback parser,
+ * which cannot reliably recover them.
+ */
+export interface GeneratedRecipe {
+  title: string;
+  description: string;
+  mealType: MealType | null;
+  calories: number | null;
+  servings: number | null;
+  associatedDiseases: string[];
+  tags: string[];
+  ingredients: string[];
+  steps: string[];
+}
+
+/**
+ * @function parseRecipe
+ * @description Parses the raw text output from the language model to extract the recipe's title, ingredients, and steps.
+ * It handles variations in formatting, such as Markdown, and organizes the content into a structured object.
+ * Expects the text block to contain "Title:", "Ingredients:", and "Steps:" sections.
+ * @param {string} raw - The raw string output from the language model.
+ * @returns {{ title: string, ingredients: string[], steps: string[] }} An object containing the parsed recipe details.
+ */
+export const parseRecipe = (raw: string) => {
+  let title = "Untitled Wreck";
+  const ingredients: string[] = [];
+  const steps: string[] = [];
+
+  // Split the response into lines, keep non-empty ones
+  const lines = raw.split("\n").map((l) => l.trim()).filter(Boolean);
+  let mode: "none" | "ingredients" | "steps" = "none";
+
+  // Iterate through each line, stripping common Markdown decorations first so
+  // that headings like "**Title:**" are recognised the same as "Title:"
+  for (const line of lines) {
+    const clean = line.replace(/[*_`]/g, "").trim();
+    const lower = clean.toLowerCase();
+    if (lower.startsWith("title:")) {
+      title = clean.slice(6).trim();
+      mode = "none";
+      continue;
+    }
+    if (lower.startsWith("ingredients")) {
+      mode = "ingredients";
+      continue;
+    }
+    if (lower.startsWith("steps")) {
+      mode = "steps";
+      continue;
+    }
+
+    if (mode === "ingredients") {
+      ingredients.push(clean.replace(/^[-*]\s*/, ""));
+    } else if (mode === "steps") {
+      steps.push(clean.replace(/^\d+\.\s*/, ""));
+    }
+  }
+
+  return { title, ingredients, steps };
+};
+
+/**
+ * @function parseRecipeOutput
+ * @description Converts the raw model output into a {@link GeneratedRecipe}.
+ * The output is first treated as JSON (tolerating a surrounding Markdown code fence) and validated
+ * against {@link RecipeSchema}. If it is not valid JSON or does not match the schema, the text is
+ * handed to {@link parseRecipe} and the fields it cannot recover are left empty.
+ * @param {string} raw - The raw string output from the language model.
+ * @returns {{ recipe: GeneratedRecipe, structured: boolean }} The parsed recipe and whether it came from validated JSON.
+ */
+export const parseRecipeOutput = (raw: string): { recipe: GeneratedRecipe; structured: boolean } => {
+  const unfenced = raw.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+  try {
+    const result = RecipeSchema.safeParse(JSON.parse(unfenced));
+    if (result.success) {
+      return { recipe: result.data, structured: true };
+    }
+    console.warn("Recipe JSON failed schema validation, falling back to text parser:", result.error.flatten());
+  } catch {
+    // Not JSON at all; fall through to the free-text parser.
+  }
+
+  const { title, ingredients, steps } = parseRecipe(raw);
+  return {
+    recipe: {
+      title,
+      description: "",
+      mealType: null,
+      calories: null,
+      servings: null,
+      associatedDiseases: [],
+      tags: [],
+      ingredients,
+      steps,
+    },
+    structured: false,
+  };
+};
+
+/**
+ * @constant CONTRACT_LEAK_MARKERS
+ * @description Fragments of the generation instructions that must never appear in a recipe. If one does, the model
+ * has been talked into echoing its instructions or the user-data delimiters, and the output is rejected.
+ */
+const CONTRACT_LEAK_MARKERS = ["recipe_subject", "system instruction", "these instructions", "recipewreck's recipe writer"];
+
+/**
+ * @function validateRecipeContract
+ * @description Checks that a parsed recipe still honours the recipe contract before it is shown on a `RecipeCard`:
+ * a real title, at least one ingredient and step, sane lengths, and no leaked instructions. This is the last line of
+ * defence against prompt injection and plain malformed output; callers retry or reject on failure.
+ * @param {GeneratedRecipe} recipe - The parsed recipe.
+ * @returns {string[]} The contract violations; empty if the recipe is valid.
+ */
+export const validateRecipeContract = (recipe: GeneratedRecipe): string[] => {
+  const issues: string[] = [];
+  const lines = [recipe.title, recipe.description, ...recipe.ingredients, ...recipe.steps, ...recipe.tags, ...recipe.associatedDiseases];
+
+  if (!recipe.title.trim() || recipe.title === "Untitled Wreck") issues.push("missing title");
+  if (recipe.title.length > 200) issues.push("title too long");
+  if (recipe.description.length > 1000) issues.push("description too long");
+  if (recipe.ingredients.length === 0) issues.push("no ingredients");
+  if (recipe.steps.length === 0) issues.push("no steps");
+  if (recipe.ingredients.length > 60 || recipe.steps.length > 60) issues.push("too many ingredients or steps");
+  if (lines.some((line) => line.length > 500)) issues.push("line too long");
+  if (recipe.calories !== null && (!Number.isInteger(recipe.calories) || recipe.calories < 0 || recipe.calories > 100_000)) {
+    issues.push("implausible calories");
+  }
+  if (recipe.servings !== null && (!Number.isInteger(recipe.servings) || recipe.servings < 1 || recipe.servings > MAX_SERVINGS)) {
+    issues.push("implausible servings");
+  }
+  const text = lines.join("\n").toLowerCase();
+  if (CONTRACT_LEAK_MARKERS.some((marker) => text.includes(marker))) issues.push("leaked instructions");
+
+  return issues;
+};
+
+/**
+ * @typedef {object} RecipeStreamEvent
+ * @description A single piece of a recipe recognised while the model output is still streaming in.
+ * - `title`: the recipe title line.
+ * - `details`: one of the metadata lines (description, meal type, calories, servings, diseases or tags).
+ * - `ingredient` / `step`: a complete ingredient or instruction line, with its zero-based position.
+ */
+export type RecipeStreamEvent =
+  | { type: "title"; title: string }
+  | { type: "details"; details: Partial<Pick<GeneratedRecipe, "description" | "mealType" | "calories" | "servings" | "associatedDiseases" | "tags">> }
+  | { type: "ingredient"; index: number; text: string }
+  | { type: "step"; index: number; text: string };
+
+/**
+ * @constant STREAM_FORMAT_INSTRUCTIONS
+ * @description The line-oriented text format requested when streaming. JSON cannot be rendered until it is
+ * complete, so the streaming endpoint asks for labelled lines instead and parses them with
+ * {@link createRecipeStreamParser} as they arrive. The metadata lines come before the lists so the card header
+ * can be filled in first.
+ */
+export const STREAM_FORMAT_INSTRUCTIONS = `Use exactly this format, one item per line:
+
+Title: <creative title>
+Description: <one or two sentences>
+Meal Type: <one of ${MEAL_TYPES.join(", ")}>
+Calories: <estimated calories per serving, digits only>
+Servings: <number of servings, digits only>
+Associated Diseases: <comma-separated list>
+Tags: <comma-separated lowercase tags>
+Ingredients:
+- <ingredient 1 with quantity>
+- <ingredient 2 with quantity>
+Steps:
+1. <step 1>
+2. <step 2>`;
+
+/**
+ * @function splitList
+ * @description Splits a comma-separated metadata value into trimmed, non-empty entries.
+ * @param {string} value - The raw value after the label.
+ * @returns {string[]} The individual entries.
+ */
+const splitList = (value: string) =>
+  value
+    .split(",")
+    .map((v) => v.trim())
+    .filter(Boolean);
+
+/**
+ * @function createRecipeStreamParser
+ * @description Creates an incremental parser for recipe text in the {@link STREAM_FORMAT_INSTRUCTIONS} format.
+ * Text chunks may split lines arbitrarily, so incomplete trailing lines are buffered until the next newline
+ * (or until `finish` is called). Each recognised line is reported through `onEvent` immediately.
+ * Heading detection follows {@link parseRecipe}, so Markdown decorations around labels are ignored.
+ * @param {(event: RecipeStreamEvent) => void} onEvent - Called for every recognised recipe fragment.
+ * @returns {{ push: (chunk: string) => void, finish: () => GeneratedRecipe }} `push` feeds streamed text;
+ * `finish` flushes the buffer and returns the assembled recipe.
+ * @example
+ * const parser = createRecipeStreamParser((event) => console.log(event));
+ * parser.push("Title: Deep-Fried Cheesecake\nIngre");
+ * parser.push("dients:\n- 1 cheesecake\n");
+ * const recipe = parser.finish();
+ */
+export const createRecipeStreamParser = (onEvent: (event: RecipeStreamEvent) => void) => {
+  const recipe: GeneratedRecipe = {
+    title: "Untitled Wreck",
+    description: "",
+    mealType: null,
+    calories: null,
+    servings: null,
+    associatedDiseases: [],
+    tags: [],
+    ingredients: [],
+    steps: [],
+  };
+  let buffer = "";
+  let mode: "none" | "ingredients" | "steps" = "none";
+
+  const handleLine = (line: string) => {
+    const clean = line.replace(/[*_`]/g, "").trim();
+    if (!clean) return;
+    const lower = clean.toLowerCase();
+    const value = clean.slice(clean.indexOf(":") + 1).trim();
+
+    if (lower.startsWith("title:")) {
+      recipe.title = value;
+      mode = "none";
+      onEvent({ type: "title", title: value });
+      return;
+    }
+    if (lower.startsWith("description:")) {
+      recipe.description = value;
+      onEvent({ type: "details", details: { description: value } });
+      return;
+    }
+    if (lower.startsWith("meal type:")) {
+      const mealType = MEAL_TYPES.find((m) => m === value.toLowerCase()) ?? null;
+      recipe.mealType = mealType;
+      if (mealType) onEvent({ type: "details", details: { mealType } });
+      return;
+    }
+    if (lower.startsWith("calories:")) {
+      const calories = parseInt(value.replace(/[^\d]/g, ""), 10);
+      if (!Number.isNaN(calories)) {
+        recipe.calories = calories;
+        onEvent({ type: "details", details: { calories } });
+      }
+      return;
+    }
+    if (lower.startsWith("servings:")) {
+      const servings = parseInt(value.replace(/[^\d]/g, ""), 10);
+      if (servings >= 1 && servings <= MAX_SERVINGS) {
+        recipe.servings = servings;
+        onEvent({ type: "details", details: { servings } });
+      }
+      return;
+    }
+    if (lower.startsWith("associated diseases:")) {
+      recipe.associatedDiseases = splitList(value);
+      onEvent({ type: "details", details: { associatedDiseases: recipe.associatedDiseases } });
+      return;
+    }
+    if (lower.startsWith("tags:")) {
+      recipe.tags = splitList(value.toLowerCase());
+      onEvent({ type: "details", details: { tags: recipe.tags } });
+      return;
+    }
+    if (lower.startsWith("ingredients")) {
+      mode = "ingredients";
+      return;
+    }
+    if (lower.startsWith("steps")) {
+      mode = "steps";
+      return;
+    }
+
+    if (mode === "ingredients") {
+      const text = clean.replace(/^[-*]\s*/, "");
+      onEvent({ type: "ingredient", index: recipe.ingredients.length, text });
+      recipe.ingredients.push(text);
+    } else if (mode === "steps") {
+      const text = clean.replace(/^\d+\.\s*/, "");
+      onEvent({ type: "step", index: recipe.steps.length, text });
+      recipe.steps.push(text);
+    }
+  };
+
+  return {
+    push(chunk: string) {
+      buffer += chunk;
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+      lines.forEach(handleLine);
+    },
+    finish(): GeneratedRecipe {
+      handleLine(buffer);
+      buffer = "";
+      return recipe;
+    },
+  };
+};
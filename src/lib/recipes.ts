@@ -0,0 +1,284 @@
+/**
+ * @file src/lib/recipes.ts
+ * @description Data access helpers for stored recipes. API routes and server components go through these functions
+ * instead of touching the `Recipe` model directly, so the stored shape (`instructions`, inline `image`) is mapped to the
+ * client-facing shape used by `RecipeCard` (`steps`, `imageUrl`) in exactly one place.
+ * @requires mongoose - For ObjectId validation.
+ * @requires @/lib/mongodb Database connection utility
+ * @requires @/models/Recipe Recipe Mongoose model
+ * @requires @/lib/slug For permalink slugs.
+ * @requires @/lib/images For image URLs.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import { isValidObjectId } from 'mongoose';
+import dbConnect from '@/lib/mongodb';
+import Recipe, { type IRecipe } from '@/models/Recipe';
+import { imageUrl, type StoredImage } from '@/lib/images';
+import type { GeneratedRecipe } from '@/lib/recipe';
+import { buildRecipeSlug, generateShortId, parseShortId } from '@/lib/slug';
+
+/**
+ * The client-facing representation of a stored recipe.
+ * Matches `PromptResult` so stored recipes can be rendered by `RecipeCard` unchanged.
+ * @interface StoredRecipe
+ * @extends GeneratedRecipe
+ * @property {string} id - The recipe's database id.
+ * @property {string | null} slug - The permalink slug (`/r/<slug>`), or null for recipes stored before permalinks existed.
+ * @property {string | null} userID - The owning user, or null for anonymous generations.
+ * @property {string} userPrompt - The prompt the recipe was generated from.
+ * @property {string | null} imageId - The cover image's id in the image store, or null if there is no image.
+ * @property {string} imageUrl - The cover image URL (`/api/images/<id>`), or an empty string.
+ * @property {string | null} parentId - The recipe this one was remixed from, or null for an original.
+ * @property {string | null} remixDirection - The remix direction, e.g. "make it worse", or null for an original.
+ * @property {string} createdAt - ISO creation timestamp.
+ * @property {string} updatedAt - ISO last-update timestamp.
+ */
+export interface StoredRecipe extends GeneratedRecipe {
+  id: string;
+  slug: string | null;
+  userID: string | null;
+  userPrompt: string;
+  imageId: string | null;
+  imageUrl: string;
+  parentId: string | null;
+  remixDirection: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * A stored recipe as shown to anyone other than its owner: without the owning user or the prompt it came from.
+ * @typedef {object} PublicRecipe
+ */
+export type PublicRecipe = Omit<StoredRecipe, 'userID' | 'userPrompt'>;
+
+/**
+ * Strips the owner-only fields from a stored recipe.
+ * @param {StoredRecipe} recipe - The recipe.
+ * @returns {PublicRecipe} The recipe without `userID` and `userPrompt`.
+ */
+export function toPublicRecipe(recipe: StoredRecipe): PublicRecipe {
+  const publicRecipe: Partial<StoredRecipe> = { ...recipe };
+  delete publicRecipe.userID;
+  delete publicRecipe.userPrompt;
+  return publicRecipe as PublicRecipe;
+}
+
+/**
+ * Maps a Recipe document to its client-facing shape.
+ * @param {IRecipe} doc - The document.
+ * @returns {StoredRecipe} The serialisable recipe.
+ */
+const toStoredRecipe = (doc: IRecipe): StoredRecipe => ({
+  id: String(doc._id),
+  slug: doc.slug ?? null,
+  userID: doc.userID ?? null,
+  userPrompt: doc.userPrompt,
+  title: doc.title,
+  description: doc.description,
+  mealType: doc.mealType ?? null,
+  calories: doc.calories ?? null,
+  servings: doc.servings ?? null,
+  associatedDiseases: doc.associatedDiseases,
+  tags: doc.tags,
+  ingredients: doc.ingredients,
+  steps: doc.instructions,
+  imageId: doc.image?.id ?? null,
+  imageUrl: doc.image ? imageUrl(doc.image.id) : '',
+  parentId: doc.parentId ? String(doc.parentId) : null,
+  remixDirection: doc.remixDirection ?? null,
+  createdAt: doc.createdAt.toISOString(),
+  updatedAt: doc.updatedAt.toISOString(),
+});
+
+/**
+ * MongoDB duplicate-key error code, raised if a generated short id collides with an existing one.
+ */
+const DUPLICATE_KEY_ERROR = 11000;
+
+/**
+ * Stores a freshly generated recipe and assigns it a permalink slug.
+ * A short id collision is astronomically unlikely, but is retried with a new id rather than failing the generation.
+ * @async
+ * @param {object} input - The generation result.
+ * @param {string} input.userPrompt - The prompt the recipe was generated from.
+ * @param {GeneratedRecipe} input.recipe - The parsed recipe text.
+ * @param {StoredImage | null} input.image - The stored cover image, if any.
+ * @param {string | null} [input.userID] - The owning user, if signed in.
+ * @param {string | null} [input.parentId] - For remixes, the recipe that was remixed. Ignored if it no longer exists.
+ * @param {string | null} [input.remixDirection] - For remixes, the direction it was remixed in.
+ * @returns {Promise<StoredRecipe>} The stored recipe.
+ * @throws {Error} If the database is unavailable or validation fails.
+ */
+export async function saveRecipe({
+  userPrompt,
+  recipe,
+  image,
+  userID = null,
+  parentId = null,
+  remixDirection = null,
+}: {
+  userPrompt: string;
+  recipe: GeneratedRecipe;
+  image: StoredImage | null;
+  userID?: string | null;
+  parentId?: string | null;
+  remixDirection?: string | null;
+}): Promise<StoredRecipe> {
+  await dbConnect();
+  const parent = parentId && isValidObjectId(parentId) ? await Recipe.findById(parentId).select('ancestors') : null;
+  for (let attempt = 0; ; attempt++) {
+    const shortId = generateShortId();
+    try {
+      const doc = await Recipe.create({
+        userID,
+        shortId,
+        slug: buildRecipeSlug(recipe.title, shortId),
+        userPrompt,
+        title: recipe.title,
+        description: recipe.description,
+        mealType: recipe.mealType,
+        ingredients: recipe.ingredients,
+        instructions: recipe.steps,
+        calories: recipe.calories,
+        servings: recipe.servings,
+        associatedDiseases: recipe.associatedDiseases,
+        tags: recipe.tags,
+        image: image ? { id: image.id, mimeType: image.mimeType } : null,
+        parentId: parent?._id ?? null,
+        ancestors: parent ? [...parent.ancestors, parent._id] : [],
+        remixDirection: parent ? remixDirection : null,
+      });
+      return toStoredRecipe(doc);
+    } catch (err) {
+      if ((err as { code?: number }).code !== DUPLICATE_KEY_ERROR || attempt >= 2) throw err;
+    }
+  }
+}
+
+/**
+ * Fetches a single recipe by id.
+ * @async
+ * @param {string} id - The recipe id.
+ * @returns {Promise<StoredRecipe | null>} The recipe, or null if the id is malformed or unknown.
+ */
+export async function getRecipe(id: string): Promise<StoredRecipe | null> {
+  if (!isValidObjectId(id)) return null;
+  await dbConnect();
+  const doc = await Recipe.findById(id);
+  return doc ? toStoredRecipe(doc) : null;
+}
+
+/**
+ * Fetches a single recipe by its permalink slug. Only the trailing short id is used for the lookup, so callers should
+ * compare the returned recipe's `slug` with the requested one and redirect to the canonical link if they differ.
+ * @async
+ * @param {string} slug - The permalink slug.
+ * @returns {Promise<StoredRecipe | null>} The recipe, or null if the slug is malformed or unknown.
+ */
+export async function getRecipeBySlug(slug: string): Promise<StoredRecipe | null> {
+  const shortId = parseShortId(slug);
+  if (!shortId) return null;
+  await dbConnect();
+  const doc = await Recipe.findOne({ shortId });
+  return doc ? toStoredRecipe(doc) : null;
+}
+
+/**
+ * Lists recipes newest first using cursor pagination.
+ * @async
+ * @param {object} [options] - Listing options.
+ * @param {number} [options.limit=20] - Page size (1–50).
+ * @param {string} [options.before] - Cursor: only return recipes older than this recipe id.
+ * @param {string} [options.userID] - Only return recipes owned by this user.
+ * @returns {Promise<{ recipes: StoredRecipe[], nextCursor: string | null }>} The page and the cursor for the next one.
+ */
+export async function listRecipes({
+  limit = 20,
+  before,
+  userID,
+}: { limit?: number; before?: string; userID?: string } = {}): Promise<{ recipes: StoredRecipe[]; nextCursor: string | null }> {
+  await dbConnect();
+  const pageSize = Math.min(Math.max(limit, 1), 50);
+  const filter: Record<string, unknown> = {};
+  if (before && isValidObjectId(before)) filter._id = { $lt: before };
+  if (userID) filter.userID = userID;
+
+  const docs = await Recipe.find(filter).sort({ _id: -1 }).limit(pageSize + 1);
+
+  const page = docs.slice(0, pageSize).map(toStoredRecipe);
+  return { recipes: page, nextCursor: docs.length > pageSize ? page[page.length - 1].id : null };
+}
+
+/**
+ * Deletes a recipe by id.
+ * @async
+ * @param {string} id - The recipe id.
+ * @returns {Promise<boolean>} True if a recipe was deleted.
+ */
+export async function deleteRecipe(id: string): Promise<boolean> {
+  if (!isValidObjectId(id)) return false;
+  await dbConnect();
+  const res = await Recipe.deleteOne({ _id: id });
+  return res.deletedCount > 0;
+}
+
+/**
+ * A recipe in a family tree, as rendered by `RecipeFamilyTree`.
+ * @interface RecipeFamilyNode
+ * @property {string} id - The recipe id.
+ * @property {string | null} slug - The permalink slug.
+ * @property {string} title - The recipe title.
+ * @property {string | null} remixDirection - How it was remixed from its parent, or null for the original.
+ * @property {RecipeFamilyNode[]} children - Its remixes, oldest first.
+ */
+export interface RecipeFamilyNode {
+  id: string;
+  slug: string | null;
+  title: string;
+  remixDirection: string | null;
+  children: RecipeFamilyNode[];
+}
+
+/**
+ * @constant MAX_FAMILY_SIZE
+ * @description Upper bound on the recipes loaded for one family tree, so a viral original can't produce an unbounded page.
+ */
+const MAX_FAMILY_SIZE = 200;
+
+/**
+ * Loads the whole family tree a recipe belongs to: its original and every remix descended from it.
+ * @async
+ * @param {string} id - Any recipe in the family.
+ * @returns {Promise<RecipeFamilyNode | null>} The root of the tree, or null if the id is malformed or unknown.
+ */
+export async function getRecipeFamily(id: string): Promise<RecipeFamilyNode | null> {
+  if (!isValidObjectId(id)) return null;
+  await dbConnect();
+  const recipe = await Recipe.findById(id).select('ancestors');
+  if (!recipe) return null;
+
+  const rootId = recipe.ancestors[0] ?? recipe._id;
+  const docs = await Recipe.find({ $or: [{ _id: rootId }, { ancestors: rootId }] })
+    .select('slug title parentId remixDirection')
+    .sort({ _id: 1 })
+    .limit(MAX_FAMILY_SIZE);
+
+  const nodes = new Map<string, RecipeFamilyNode>();
+  for (const doc of docs) {
+    nodes.set(String(doc._id), {
+      id: String(doc._id),
+      slug: doc.slug ?? null,
+      title: doc.title,
+      remixDirection: doc.remixDirection ?? null,
+      children: [],
+    });
+  }
+  for (const doc of docs) {
+    const node = nodes.get(String(doc._id));
+    if (doc.parentId && node) nodes.get(String(doc.parentId))?.children.push(node);
+  }
+  return nodes.get(String(rootId)) ?? null;
+}
@@ -0,0 +1,188 @@
+/**
+ * @file src/lib/referrals.ts
+ * @description The waitlist queue and referral program. Every waitlist signup gets a place in the queue and a personal
+ * referral link; each friend who joins through the link and confirms their email moves the referrer up.
+ *
+ * Queue order is by `priority`: the time the member first joined, less {@link REFERRAL_BOOST_MS} per credited referral.
+ * A member's position counts only confirmed members ahead of them.
+ *
+ * Fraud checks:
+ * - Emails are compared in canonical form ({@link canonicalEmail}), so `me+1@gmail.com` and `m.e@gmail.com` are the
+ *   same person: they share one place, can't refer each other, and can't be referred twice.
+ * - Only a brand-new member can be referred; re-joining through a friend's link credits nobody.
+ * - Referrals are credited only when the friend confirms their email, so made-up addresses earn nothing.
+ * @requires @/lib/mongodb Database connection utility
+ * @requires @/models/WaitlistMember WaitlistMember Mongoose model
+ * @requires @/models/Referral Referral Mongoose model
+ * @requires @/lib/slug For referral codes.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import dbConnect from '@/lib/mongodb';
+import Referral from '@/models/Referral';
+import WaitlistMember, { type IWaitlistMember } from '@/models/WaitlistMember';
+import { generateShortId, parseShortId } from '@/lib/slug';
+
+/**
+ * @constant REFERRAL_BOOST_MS
+ * @description How far up the queue each confirmed referral moves a member: as if they had joined a week earlier.
+ */
+export const REFERRAL_BOOST_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * MongoDB duplicate-key error code, raised when two requests race to create the same member or referral, or a
+ * generated code collides.
+ */
+const DUPLICATE_KEY_ERROR = 11000;
+
+/**
+ * A member's referral status, as shown on the landing page.
+ * @interface ReferralSummary
+ * @property {string} code - Their referral code.
+ * @property {string} link - Their referral link.
+ * @property {number} position - Their place in the queue, from 1.
+ * @property {number} referrals - How many referred friends have confirmed.
+ */
+export interface ReferralSummary {
+  code: string;
+  link: string;
+  position: number;
+  referrals: number;
+}
+
+/**
+ * Reduces an email to the form used to spot duplicates: lowercased, without a `+tag`, and for Gmail without dots.
+ * @param {string} email - The address.
+ * @returns {string} The canonical address.
+ * @example
+ * canonicalEmail("M.E+wrecks@googlemail.com") // "me@gmail.com"
+ */
+export function canonicalEmail(email: string): string {
+  const at = email.lastIndexOf('@');
+  let local = email.slice(0, at).trim().toLowerCase().split('+')[0];
+  let domain = email.slice(at + 1).trim().toLowerCase();
+  if (domain === 'gmail.com' || domain === 'googlemail.com') {
+    local = local.replace(/\./g, '');
+    domain = 'gmail.com';
+  }
+  return `${local}@${domain}`;
+}
+
+/**
+ * Builds the summary for a member.
+ * @async
+ * @param {IWaitlistMember} member - The member.
+ * @param {string} origin - The site origin the link points at.
+ * @returns {Promise<ReferralSummary>} The summary.
+ */
+async function toSummary(member: IWaitlistMember, origin: string): Promise<ReferralSummary> {
+  const ahead = await WaitlistMember.countDocuments({
+    confirmedAt: { $ne: null },
+    priority: { $lt: member.priority },
+    _id: { $ne: member._id },
+  });
+  return {
+    code: member.code,
+    link: `${origin}/?ref=${member.code}`,
+    position: ahead + 1,
+    referrals: member.referralCount,
+  };
+}
+
+/**
+ * Finds a member, or adds them to the back of the queue.
+ * @async
+ * @param {string} canonical - Their canonical email.
+ * @returns {Promise<{ member: IWaitlistMember, joined: boolean }>} The member, and whether they were just added.
+ * @throws {Error} If the database is unavailable.
+ */
+async function findOrCreateMember(canonical: string): Promise<{ member: IWaitlistMember; joined: boolean }> {
+  for (let attempt = 0; ; attempt++) {
+    const existing = await WaitlistMember.findOne({ canonicalEmail: canonical });
+    if (existing) return { member: existing, joined: false };
+    try {
+      const member = await WaitlistMember.create({ canonicalEmail: canonical, code: generateShortId(), priority: Date.now() });
+      return { member, joined: true };
+    } catch (err) {
+      if ((err as { code?: number }).code !== DUPLICATE_KEY_ERROR || attempt >= 2) throw err;
+    }
+  }
+}
+
+/**
+ * Adds a signup to the queue, attributing them to the owner of `ref` if they are new and not referring themselves.
+ * Joining again keeps the existing place. Nothing is returned: the address isn't proven yet, so its place and link are
+ * only shown after confirmation, through {@link getReferralSummary}.
+ * @async
+ * @param {object} input - The signup.
+ * @param {string} input.email - The address they signed up with.
+ * @param {string | null} [input.ref] - The referral code from their link, if any.
+ * @returns {Promise<void>}
+ * @throws {Error} If the database is unavailable.
+ */
+export async function joinQueue({
+  email,
+  ref = null,
+}: {
+  email: string;
+  ref?: string | null;
+}): Promise<void> {
+  const canonical = canonicalEmail(email);
+  await dbConnect();
+  const { joined } = await findOrCreateMember(canonical);
+
+  const code = ref?.trim().toLowerCase();
+  if (joined && code && parseShortId(code) === code) {
+    const referrer = await WaitlistMember.findOne({ code });
+    if (referrer && referrer.canonicalEmail !== canonical) {
+      try {
+        await Referral.create({ code, referrerEmail: referrer.canonicalEmail, referredEmail: canonical });
+      } catch (err) {
+        if ((err as { code?: number }).code !== DUPLICATE_KEY_ERROR) throw err;
+      }
+    }
+  }
+}
+
+/**
+ * Marks a member's email as confirmed and credits whoever referred them. Safe to call repeatedly: a referral is
+ * credited at most once.
+ * @async
+ * @param {string} email - The confirmed address.
+ * @returns {Promise<void>}
+ * @throws {Error} If the database is unavailable.
+ */
+export async function confirmMember(email: string): Promise<void> {
+  const canonical = canonicalEmail(email);
+  await dbConnect();
+  await findOrCreateMember(canonical);
+  await WaitlistMember.updateOne({ canonicalEmail: canonical, confirmedAt: null }, { $set: { confirmedAt: new Date() } });
+
+  const referral = await Referral.findOneAndUpdate(
+    { referredEmail: canonical, creditedAt: null },
+    { $set: { creditedAt: new Date() } },
+    { new: true }
+  );
+  if (referral) {
+    await WaitlistMember.updateOne(
+      { canonicalEmail: referral.referrerEmail },
+      { $inc: { referralCount: 1, priority: -REFERRAL_BOOST_MS } }
+    );
+  }
+}
+
+/**
+ * Looks up a confirmed member's place and referral link. Callers must already know the address is the visitor's own,
+ * e.g. from the waitlist cookie or a manage token.
+ * @async
+ * @param {string} email - Their address.
+ * @param {string} origin - The site origin for the referral link.
+ * @returns {Promise<ReferralSummary | null>} The summary, or null if they aren't in the queue or haven't confirmed.
+ * @throws {Error} If the database is unavailable.
+ */
+export async function getReferralSummary(email: string, origin: string): Promise<ReferralSummary | null> {
+  await dbConnect();
+  const member = await WaitlistMember.findOne({ canonicalEmail: canonicalEmail(email), confirmedAt: { $ne: null } });
+  return member ? toSummary(member, origin) : null;
+}
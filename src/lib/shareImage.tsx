@@ -0,0 +1,161 @@
+/**
+ * @file src/lib/shareImage.tsx
+ * @description Renders the social card for a recipe permalink: the generated photo as the background, the recipe title,
+ * the RecipeWreck branding and a star "rating" badge styled like the `StarRating` showcase on the landing page.
+ * Used by both `opengraph-image.tsx` and `twitter-image.tsx` under `src/app/r/[slug]`.
+ * @requires next/og For rendering JSX to a PNG.
+ * @requires @/lib/recipes For loading the recipe by slug.
+ * @requires @/lib/wreckScore For the rating badge.
+ * @requires @/lib/images For reading the cover image bytes.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import { ImageResponse } from 'next/og';
+import { getRecipeBySlug, type StoredRecipe } from '@/lib/recipes';
+import { computeWreckScore } from '@/lib/wreckScore';
+import { getImageStore } from '@/lib/images';
+
+/**
+ * @constant SHARE_IMAGE_SIZE
+ * @description The recommended 1.91:1 size for Open Graph and `summary_large_image` Twitter cards.
+ */
+export const SHARE_IMAGE_SIZE = { width: 1200, height: 630 };
+
+/**
+ * @constant SHARE_IMAGE_ALT
+ * @description Alt text for the card. It has to be static, so it describes the card rather than the recipe.
+ */
+export const SHARE_IMAGE_ALT = 'A recipe wrecked by RecipeWreck';
+
+/** The polygon for a 24×24 five-pointed star. The default OG font has no ★ glyph, so stars are drawn as SVG. */
+const STAR_POINTS = '12,2 15.09,8.26 22,9.27 17,14.14 18.18,21.02 12,17.77 5.82,21.02 7,14.14 2,9.27 8.91,8.26';
+
+/**
+ * A single star, filled in the landing page's yellow-400 or outlined when empty.
+ * @param {object} props - Component props.
+ * @param {boolean} props.filled - Whether the star is filled.
+ * @returns {JSX.Element} The star.
+ */
+const Star = ({ filled }: { filled: boolean }) => (
+  <svg width="40" height="40" viewBox="0 0 24 24">
+    <polygon points={STAR_POINTS} fill={filled ? '#facc15' : 'none'} stroke="#facc15" strokeWidth="1.5" />
+  </svg>
+);
+
+/**
+ * Picks a title size that keeps long AI-generated titles within two lines.
+ * @param {string} title - The recipe title.
+ * @returns {number} The font size in pixels.
+ */
+const titleFontSize = (title: string): number => (title.length > 60 ? 52 : title.length > 35 ? 64 : 76);
+
+/**
+ * The card layout. Satori only supports flexbox, so every element with more than one child sets `display: flex`.
+ * @param {object} props - Component props.
+ * @param {StoredRecipe | null} props.recipe - The recipe, or null for the generic fallback card.
+ * @param {string | null} props.photo - The cover image as a data URI. Satori cannot fetch relative URLs, so the bytes are inlined.
+ * @returns {JSX.Element} The card.
+ */
+const ShareCard = ({ recipe, photo }: { recipe: StoredRecipe | null; photo: string | null }) => {
+  const rating = recipe ? computeWreckScore(recipe) : null;
+  const title = recipe?.title ?? 'Wreck your health, one meal at a time';
+
+  return (
+    <div
+      style={{
+        width: '100%',
+        height: '100%',
+        display: 'flex',
+        position: 'relative',
+        background: 'linear-gradient(135deg, #581c87 0%, #111827 100%)',
+        color: 'white',
+      }}
+    >
+      {photo ? (
+        // eslint-disable-next-line @next/next/no-img-element -- Satori renders plain <img> elements.
+        <img
+          src={photo}
+          alt=""
+          width={SHARE_IMAGE_SIZE.width}
+          height={SHARE_IMAGE_SIZE.height}
+          style={{ position: 'absolute', top: 0, left: 0, width: '100%', height: '100%', objectFit: 'cover' }}
+        />
+      ) : null}
+      <div
+        style={{
+          position: 'absolute',
+          top: 0,
+          left: 0,
+          width: '100%',
+          height: '100%',
+          display: 'flex',
+          flexDirection: 'column',
+          justifyContent: 'space-between',
+          padding: 56,
+          background: 'linear-gradient(180deg, rgba(17,24,39,0.1) 0%, rgba(17,24,39,0.55) 50%, rgba(17,24,39,0.95) 100%)',
+        }}
+      >
+        <div style={{ display: 'flex' }}>
+          <div
+            style={{
+              display: 'flex',
+              padding: '10px 24px',
+              borderRadius: 9999,
+              background: '#9333ea',
+              fontSize: 32,
+              fontWeight: 700,
+            }}
+          >
+            RecipeWreck
+          </div>
+        </div>
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 24 }}>
+          <div style={{ display: 'flex', fontSize: titleFontSize(title), fontWeight: 700, lineHeight: 1.1 }}>{title}</div>
+          {rating ? (
+            <div style={{ display: 'flex' }}>
+              <div
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: 16,
+                  padding: '12px 24px',
+                  borderRadius: 16,
+                  background: 'rgba(31,41,55,0.9)',
+                  border: '2px solid #374151',
+                }}
+              >
+                <div style={{ display: 'flex', gap: 4 }}>
+                  {Array.from({ length: 5 }, (_, i) => (
+                    <Star key={i} filled={i < rating.stars} />
+                  ))}
+                </div>
+                <div style={{ display: 'flex', fontSize: 28, color: '#9ca3af' }}>{rating.label}</div>
+              </div>
+            </div>
+          ) : null}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Renders the social card for a permalink slug.
+ * Unknown slugs, or a database outage, fall back to a generic branded card rather than a broken unfurl.
+ * @async
+ * @param {string} slug - The permalink slug.
+ * @returns {Promise<ImageResponse>} The PNG response.
+ */
+export async function renderRecipeShareImage(slug: string): Promise<ImageResponse> {
+  let recipe: StoredRecipe | null = null;
+  let photo: string | null = null;
+  try {
+    recipe = await getRecipeBySlug(slug);
+    const image = recipe?.imageId ? await getImageStore().get(recipe.imageId) : null;
+    photo = image ? `data:${image.mimeType};base64,${image.data.toString('base64')}` : null;
+  } catch (err) {
+    console.error(`Share image lookup failed for ${slug}`, err);
+  }
+  return new ImageResponse(<ShareCard recipe={recipe} photo={photo} />, SHARE_IMAGE_SIZE);
+}
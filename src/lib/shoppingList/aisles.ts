@@ -0,0 +1,118 @@
+/**
+ * @file src/lib/shoppingList/aisles.ts
+ * @description Store aisles and the keywords that sort ingredients into them. Matching follows the nutrition table's
+ * rule: the keyword that ends latest in the item wins, then the longest, so "peanut butter" lands in the pantry rather
+ * than next to the butter.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+/**
+ * @constant AISLES
+ * @description Every aisle, in the order a list is printed (roughly the order of a walk through the store).
+ */
+export const AISLES = [
+  'Produce',
+  'Meat & Seafood',
+  'Dairy & Eggs',
+  'Bakery',
+  'Frozen',
+  'Pantry',
+  'Baking',
+  'Spices & Seasonings',
+  'Condiments & Sauces',
+  'Snacks & Candy',
+  'Beverages',
+  'Other',
+] as const;
+
+/**
+ * @typedef {typeof AISLES[number]} Aisle
+ */
+export type Aisle = (typeof AISLES)[number];
+
+/**
+ * @constant AISLE_KEYWORDS
+ * @description Lowercase keywords per aisle. `Other` is the fallback and has none.
+ */
+const AISLE_KEYWORDS: Record<Exclude<Aisle, 'Other'>, string[]> = {
+  Produce: [
+    'lettuce', 'tomato', 'onion', 'green onion', 'scallion', 'garlic', 'potato', 'sweet potato', 'banana', 'apple', 'lemon',
+    'lime', 'orange', 'avocado', 'bell pepper', 'jalapeño', 'jalapeno', 'carrot', 'celery', 'spinach', 'kale', 'cabbage',
+    'mushroom', 'strawberry', 'strawberries', 'blueberry', 'blueberries', 'cherry', 'cherries', 'pineapple', 'cilantro',
+    'parsley', 'basil', 'mint', 'ginger', 'cucumber', 'zucchini', 'broccoli', 'cauliflower', 'pickle',
+  ],
+  'Meat & Seafood': [
+    'bacon', 'beef', 'ground beef', 'steak', 'brisket', 'chicken', 'chicken wing', 'pork', 'pork belly', 'ribs', 'sausage',
+    'chorizo', 'ham', 'turkey', 'hot dog', 'bratwurst', 'pepperoni', 'salami', 'meatball', 'shrimp', 'salmon', 'fish',
+    'lobster', 'crab',
+  ],
+  'Dairy & Eggs': [
+    'butter', 'milk', 'buttermilk', 'cream', 'heavy cream', 'whipping cream', 'sour cream', 'half-and-half', 'cheese',
+    'cheddar', 'mozzarella', 'parmesan', 'brie', 'velveeta', 'cream cheese', 'yogurt', 'egg', 'egg yolk', 'ghee',
+  ],
+  Bakery: [
+    'bread', 'white bread', 'texas toast', 'bun', 'hamburger bun', 'roll', 'bagel', 'croissant', 'tortilla', 'donut',
+    'doughnut', 'glazed donut', 'muffin', 'pita', 'brioche', 'pound cake',
+  ],
+  Frozen: ['ice cream', 'tater tot', 'french fries', 'frozen waffle', 'pizza rolls', 'frozen pizza', 'cool whip'],
+  Pantry: [
+    'oil', 'vegetable oil', 'canola oil', 'olive oil', 'peanut oil', 'shortening', 'lard', 'cooking spray', 'rice', 'pasta',
+    'noodle', 'ramen', 'macaroni', 'spaghetti', 'bean', 'peanut butter', 'honey', 'syrup', 'maple syrup', 'broth', 'stock',
+    'soup', 'oats', 'cereal', 'nutella', 'jam', 'jelly', 'cracker', 'breadcrumb', 'bread crumb', 'panko', 'spam',
+  ],
+  Baking: [
+    'flour', 'sugar', 'brown sugar', 'powdered sugar', 'baking soda', 'baking powder', 'yeast', 'vanilla', 'vanilla extract',
+    'chocolate chip', 'cocoa', 'sprinkles', 'marshmallow', 'corn syrup', 'cornstarch', 'frosting', 'cake mix',
+    'food coloring', 'condensed milk', 'evaporated milk', 'pie crust', 'graham cracker',
+  ],
+  'Spices & Seasonings': [
+    'salt', 'pepper', 'black pepper', 'paprika', 'cinnamon', 'cumin', 'chili powder', 'garlic powder', 'onion powder',
+    'oregano', 'nutmeg', 'cayenne', 'seasoning', 'msg', 'bouillon', 'red pepper flakes',
+  ],
+  'Condiments & Sauces': [
+    'ketchup', 'mustard', 'mayonnaise', 'mayo', 'sauce', 'hot sauce', 'bbq sauce', 'barbecue sauce', 'soy sauce', 'sriracha',
+    'ranch', 'ranch dressing', 'dressing', 'salsa', 'gravy', 'relish', 'queso', 'cheese sauce', 'chocolate sauce',
+    'caramel', 'caramel sauce', 'whipped cream',
+  ],
+  'Snacks & Candy': [
+    'chips', 'potato chips', 'tortilla chips', 'doritos', 'cheetos', 'fritos', 'candy', 'candy bar', 'chocolate', 'oreo',
+    'twinkie', 'pretzel', 'popcorn', 'gummy bear', 'skittles', 'cookie', 'peanut', 'pork rinds', 'pop-tart',
+  ],
+  Beverages: [
+    'soda', 'cola', 'coke', 'mountain dew', 'root beer', 'beer', 'wine', 'vodka', 'rum', 'bourbon', 'whiskey', 'tequila',
+    'energy drink', 'red bull', 'coffee', 'espresso', 'juice', 'lemonade', 'sweet tea', 'sprite',
+  ],
+};
+
+/**
+ * @constant KEYWORD_PATTERNS
+ * @description Every aisle keyword as a whole-word pattern that also accepts a plural.
+ */
+const KEYWORD_PATTERNS = Object.entries(AISLE_KEYWORDS).flatMap(([aisle, keywords]) =>
+  keywords.map((keyword) => ({
+    aisle: aisle as Aisle,
+    keyword,
+    pattern: new RegExp(`(?:^|[^a-z])${keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?:s|es)?(?![a-z])`, 'i'),
+  }))
+);
+
+/**
+ * Works out which aisle an ingredient is shelved in.
+ * @param {string} item - The ingredient's item text, e.g. `creamy peanut butter`.
+ * @returns {Aisle} The aisle, or `Other` if no keyword matches.
+ * @example
+ * classifyAisle('creamy peanut butter') // 'Pantry'
+ */
+export function classifyAisle(item: string): Aisle {
+  let best: { aisle: Aisle; end: number; length: number } | null = null;
+  for (const { aisle, keyword, pattern } of KEYWORD_PATTERNS) {
+    const match = pattern.exec(item);
+    if (!match) continue;
+    const end = match.index + match[0].length;
+    if (!best || end > best.end || (end === best.end && keyword.length > best.length)) {
+      best = { aisle, end, length: keyword.length };
+    }
+  }
+  return best?.aisle ?? 'Other';
+}
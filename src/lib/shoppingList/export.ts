@@ -0,0 +1,66 @@
+/**
+ * @file src/lib/shoppingList/export.ts
+ * @description Plain-text and CSV exports of a shopping list, for pasting into a notes app or opening in a spreadsheet.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import { AISLES } from './aisles';
+import { formatItemAmount } from './merge';
+import type { ShoppingList } from './types';
+
+/**
+ * @constant EXPORT_FORMATS
+ * @description The supported export formats, with their MIME types and file extensions.
+ */
+export const EXPORT_FORMATS = {
+  txt: { mimeType: 'text/plain; charset=utf-8', extension: 'txt' },
+  csv: { mimeType: 'text/csv; charset=utf-8', extension: 'csv' },
+} as const;
+
+/**
+ * @typedef {keyof typeof EXPORT_FORMATS} ExportFormat
+ */
+export type ExportFormat = keyof typeof EXPORT_FORMATS;
+
+/**
+ * Renders a list as plain text, grouped by aisle, with a checkbox per item.
+ * @param {Pick<ShoppingList, 'title' | 'recipes' | 'items'>} list - The list.
+ * @returns {string} The text, e.g. `[x] large eggs: 3` under `DAIRY & EGGS`.
+ */
+export function shoppingListToText({ title, recipes, items }: Pick<ShoppingList, 'title' | 'recipes' | 'items'>): string {
+  const lines = [title, `For: ${recipes.map((recipe) => recipe.title).join(', ')}`];
+  for (const aisle of AISLES) {
+    const aisleItems = items.filter((item) => item.aisle === aisle);
+    if (!aisleItems.length) continue;
+    lines.push('', aisle.toUpperCase());
+    for (const item of aisleItems) {
+      lines.push(`[${item.checked ? 'x' : ' '}] ${item.name}: ${formatItemAmount(item)}`);
+    }
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Quotes a CSV field when needed. Fields that a spreadsheet would run as a formula are prefixed with an apostrophe,
+ * since item names come from generated text.
+ * @param {string} value - The raw value.
+ * @returns {string} The CSV-safe field.
+ */
+const csvField = (value: string): string => {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+/**
+ * Renders a list as CSV with the columns Aisle, Item, Amount, Checked and Recipes.
+ * @param {Pick<ShoppingList, 'items'>} list - The list.
+ * @returns {string} The CSV, with CRLF line endings as RFC 4180 asks.
+ */
+export function shoppingListToCsv({ items }: Pick<ShoppingList, 'items'>): string {
+  const rows = [
+    ['Aisle', 'Item', 'Amount', 'Checked', 'Recipes'],
+    ...items.map((item) => [item.aisle, item.name, formatItemAmount(item), item.checked ? 'yes' : 'no', item.recipes.join('; ')]),
+  ];
+  return `${rows.map((row) => row.map(csvField).join(',')).join('\r\n')}\r\n`;
+}
@@ -0,0 +1,14 @@
+/**
+ * @file src/lib/shoppingList/index.ts
+ * @description Entry point for shopping lists: merging recipes' ingredients into aisle-grouped items and exporting a
+ * list as text or CSV. Stored lists are read and written through `@/lib/shoppingLists`.
+ *
+ * This module has no server-only dependencies so it can be imported by client components.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+export type { ShoppingAmount, ShoppingList, ShoppingListItem, ShoppingListRecipe } from './types';
+export { AISLES, classifyAisle, type Aisle } from './aisles';
+export { formatItemAmount, mergeIngredients, normalizeItemName } from './merge';
+export { EXPORT_FORMATS, shoppingListToCsv, shoppingListToText, type ExportFormat } from './export';
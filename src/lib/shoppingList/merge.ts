@@ -0,0 +1,177 @@
+/**
+ * @file src/lib/shoppingList/merge.ts
+ * @description Merges the ingredients of several recipes into one shopping list. Lines for the same item are combined,
+ * and their quantities are added up whenever the units are compatible: volumes with volumes and weights with weights
+ * (converted through millilitres and grams), counts of the same unit with each other. Amounts that can't be combined,
+ * like sticks and cups of butter, stay side by side on the same item.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import {
+  findUnit,
+  formatAmountWithUnit,
+  fromBaseQuantity,
+  parseIngredient,
+  roundAmount,
+  type IngredientQuantity,
+  type UnitSystem,
+} from '@/lib/ingredients';
+import { AISLES, classifyAisle } from './aisles';
+import type { ShoppingAmount, ShoppingListItem } from './types';
+
+/**
+ * @constant SIZE_WORDS
+ * @description Leading size words ignored when deciding whether two lines are the same item, so "2 large eggs" and
+ * "3 eggs" merge.
+ */
+const SIZE_WORDS = new Set(['large', 'small', 'medium', 'big', 'jumbo', 'extra-large', 'whole']);
+
+/**
+ * @constant UNMEASURED_SUFFIX
+ * @description Trailing phrases that stand in for an amount, e.g. "Salt to taste".
+ */
+const UNMEASURED_SUFFIX = /[\s,]+(?:to taste|as needed|as desired|if desired)$/i;
+
+/**
+ * @constant COMBINING_DIACRITICS
+ * @description Accents split off by NFKD, e.g. the tilde of "ñ". Only this block is stripped: other scripts' combining
+ * marks, like the voicing marks of Japanese kana, change the word, so they are recomposed instead.
+ */
+const COMBINING_DIACRITICS = /[\u0300-\u036f]/g;
+
+/**
+ * Normalises an item name for merging: lowercase, no accents, punctuation or leading size words, last word singular.
+ * Letters and digits of any script are kept, so "jalapeño" and "jalapeno" merge and "味噌" stays "味噌".
+ * @param {string} item - The ingredient's item text.
+ * @returns {string} The merge key, hyphenated so it doubles as the item id, e.g. `egg` or `brown-sugar`. Empty if the
+ * item has no letters or digits.
+ */
+export function normalizeItemName(item: string): string {
+  const words = item
+    .normalize('NFKD')
+    .replace(COMBINING_DIACRITICS, '')
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}\s-]/gu, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+  while (words.length > 1 && SIZE_WORDS.has(words[0])) words.shift();
+  if (words.length) {
+    words[words.length - 1] = words[words.length - 1]
+      .replace(/ies$/, 'y')
+      .replace(/(ch|sh|x|o)es$/, '$1')
+      .replace(/([^s])s$/, '$1');
+  }
+  return words.join('-');
+}
+
+/**
+ * One amount being accumulated. Volumes and weights are summed in millilitres or grams.
+ */
+interface AmountTotal {
+  kind: 'volume' | 'mass' | 'count';
+  unit: string | null;
+  system: UnitSystem | null;
+  total: IngredientQuantity;
+}
+
+/**
+ * An item being accumulated.
+ */
+interface ItemTotal {
+  id: string;
+  name: string;
+  amounts: Map<string, AmountTotal>;
+  unmeasured: boolean;
+  recipes: Set<string>;
+}
+
+/**
+ * Merges recipes' ingredient lines into shopping list items, sorted by aisle and then by name.
+ * @param {{ title: string, ingredients: string[] }[]} recipes - The recipes to shop for.
+ * @param {UnitSystem | null} [system=null] - The system to express combined volumes and weights in, or null to use the
+ * system of each amount's first line.
+ * @returns {ShoppingListItem[]} The items, all unchecked.
+ * @example
+ * mergeIngredients([
+ *   { title: 'A', ingredients: ['1/2 cup brown sugar', '2 large eggs'] },
+ *   { title: 'B', ingredients: ['6 tablespoons brown sugar', '1 egg'] },
+ * ])
+ * // brown sugar: 7/8 cup; large eggs: 3
+ */
+export function mergeIngredients(
+  recipes: { title: string; ingredients: string[] }[],
+  system: UnitSystem | null = null
+): ShoppingListItem[] {
+  const items = new Map<string, ItemTotal>();
+
+  for (const recipe of recipes) {
+    for (const line of recipe.ingredients) {
+      const ingredient = parseIngredient(line);
+      const name = ingredient.item.replace(UNMEASURED_SUFFIX, '') || line.trim();
+      // A name with no letters or digits, like an emoji, still gets its own item rather than vanishing from the list.
+      const id = normalizeItemName(name) || name.toLowerCase().replace(/\s+/g, '-');
+      if (!id) continue; // A blank line.
+
+      let item = items.get(id);
+      if (!item) {
+        item = { id, name, amounts: new Map(), unmeasured: false, recipes: new Set() };
+        items.set(id, item);
+      } else if (!item.amounts.size && ingredient.quantity) {
+        // Prefer the wording of a measured line: "salt" over the "Salt" of "Salt to taste".
+        item.name = name;
+      }
+      item.recipes.add(recipe.title);
+
+      if (!ingredient.quantity) {
+        item.unmeasured = true;
+        continue;
+      }
+      const unit = ingredient.unit ? findUnit(ingredient.unit) : null;
+      const measured = unit && unit.kind !== 'count' && unit.toBase !== null && unit.system !== null;
+      const key = measured ? unit.kind : `count:${unit?.name ?? ''}`;
+      const factor = measured ? (unit.toBase as number) : 1;
+
+      const existing = item.amounts.get(key);
+      if (existing) {
+        existing.total.min += ingredient.quantity.min * factor;
+        existing.total.max += ingredient.quantity.max * factor;
+      } else {
+        item.amounts.set(key, {
+          kind: measured ? (unit.kind as 'volume' | 'mass') : 'count',
+          unit: unit?.name ?? null,
+          system: measured ? unit.system : null,
+          total: { min: ingredient.quantity.min * factor, max: ingredient.quantity.max * factor },
+        });
+      }
+    }
+  }
+
+  return [...items.values()]
+    .map((item): ShoppingListItem => ({
+      id: item.id,
+      name: item.name,
+      aisle: classifyAisle(item.name),
+      amounts: [...item.amounts.values()].map(({ kind, unit, system: amountSystem, total }): ShoppingAmount =>
+        kind === 'count'
+          ? { quantity: { min: roundAmount(total.min, null), max: roundAmount(total.max, null) }, unit }
+          : fromBaseQuantity(total, kind, system ?? amountSystem ?? 'imperial')
+      ),
+      unmeasured: item.unmeasured,
+      recipes: [...item.recipes],
+      checked: false,
+    }))
+    .sort((a, b) => AISLES.indexOf(a.aisle) - AISLES.indexOf(b.aisle) || a.name.localeCompare(b.name));
+}
+
+/**
+ * Formats an item's combined amounts for display.
+ * @param {Pick<ShoppingListItem, 'amounts' | 'unmeasured'>} item - The item.
+ * @returns {string} e.g. `2 sticks + 1/2 cup`, `1 cup + as needed`, `as needed`.
+ */
+export function formatItemAmount({ amounts, unmeasured }: Pick<ShoppingListItem, 'amounts' | 'unmeasured'>): string {
+  const parts = amounts.map((amount) => formatAmountWithUnit(amount));
+  if (unmeasured) parts.push('as needed');
+  return parts.join(' + ');
+}
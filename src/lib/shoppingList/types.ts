@@ -0,0 +1,74 @@
+/**
+ * @file src/lib/shoppingList/types.ts
+ * @description Shared shapes for shopping lists: merged items grouped by aisle, and the stored list they belong to.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import type { IngredientQuantity } from '@/lib/ingredients';
+import type { Aisle } from './aisles';
+
+/**
+ * One combined amount of an item. An item can have several when its lines use units that don't convert into each other,
+ * e.g. `2 sticks` and `1/2 cup` of butter.
+ * @interface ShoppingAmount
+ * @property {IngredientQuantity} quantity - The amount, which may be a range.
+ * @property {string | null} unit - The canonical unit name, or null for a plain count ("3 eggs").
+ */
+export interface ShoppingAmount {
+  quantity: IngredientQuantity;
+  unit: string | null;
+}
+
+/**
+ * A merged shopping list item.
+ * @interface ShoppingListItem
+ * @property {string} id - Stable id within the list, derived from the normalised item name.
+ * @property {string} name - The item, as first written, e.g. `large eggs`.
+ * @property {Aisle} aisle - The store aisle it is grouped under.
+ * @property {ShoppingAmount[]} amounts - The combined amounts, one per incompatible unit.
+ * @property {boolean} unmeasured - Whether some line called for it without an amount ("salt to taste").
+ * @property {string[]} recipes - Titles of the recipes that use it.
+ * @property {boolean} checked - Whether it has been checked off.
+ */
+export interface ShoppingListItem {
+  id: string;
+  name: string;
+  aisle: Aisle;
+  amounts: ShoppingAmount[];
+  unmeasured: boolean;
+  recipes: string[];
+  checked: boolean;
+}
+
+/**
+ * A recipe a shopping list was built from.
+ * @interface ShoppingListRecipe
+ * @property {string} id - The recipe id.
+ * @property {string} title - The recipe title.
+ * @property {string | null} slug - The recipe's permalink slug.
+ */
+export interface ShoppingListRecipe {
+  id: string;
+  title: string;
+  slug: string | null;
+}
+
+/**
+ * A stored, shareable shopping list.
+ * @interface ShoppingList
+ * @property {string} id - The list's short id; the list is shared at `/shopping-list/<id>`.
+ * @property {string} title - The list title.
+ * @property {ShoppingListRecipe[]} recipes - The recipes it was built from.
+ * @property {ShoppingListItem[]} items - The merged items, in aisle order.
+ * @property {string} createdAt - ISO creation timestamp.
+ * @property {string} updatedAt - ISO last-update timestamp.
+ */
+export interface ShoppingList {
+  id: string;
+  title: string;
+  recipes: ShoppingListRecipe[];
+  items: ShoppingListItem[];
+  createdAt: string;
+  updatedAt: string;
+}
@@ -0,0 +1,134 @@
+/**
+ * @file src/lib/shoppingLists.ts
+ * @description Data access helpers for stored shopping lists, mirroring `@/lib/recipes`: routes and pages go through these
+ * functions, and the stored shape (`itemId`, `recipeId`) is mapped to the client-facing `ShoppingList` in one place.
+ * @requires mongoose - For ObjectId validation.
+ * @requires @/lib/mongodb Database connection utility
+ * @requires @/models/ShoppingList ShoppingList Mongoose model
+ * @requires @/models/Recipe Recipe Mongoose model, for the source recipes.
+ * @requires @/lib/shoppingList For merging ingredients.
+ * @requires @/lib/slug For short ids.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import { isValidObjectId } from 'mongoose';
+import dbConnect from '@/lib/mongodb';
+import Recipe from '@/models/Recipe';
+import ShoppingListModel, { type IShoppingList } from '@/models/ShoppingList';
+import { mergeIngredients, type ShoppingList } from '@/lib/shoppingList';
+import type { UnitSystem } from '@/lib/ingredients';
+import { generateShortId, parseShortId } from '@/lib/slug';
+
+/**
+ * @constant MAX_SHOPPING_LIST_RECIPES
+ * @description The most recipes one list can be built from.
+ */
+export const MAX_SHOPPING_LIST_RECIPES = 20;
+
+/**
+ * Maps a ShoppingList document to its client-facing shape.
+ * @param {IShoppingList} doc - The document.
+ * @returns {ShoppingList} The serialisable list.
+ */
+const toShoppingList = (doc: IShoppingList): ShoppingList => ({
+  id: doc.shortId,
+  title: doc.title,
+  recipes: doc.recipes.map((recipe) => ({ id: String(recipe.recipeId), title: recipe.title, slug: recipe.slug ?? null })),
+  items: doc.items.map((item) => ({
+    id: item.itemId,
+    name: item.name,
+    aisle: item.aisle,
+    amounts: item.amounts.map(({ quantity, unit }) => ({ quantity: { min: quantity.min, max: quantity.max }, unit: unit ?? null })),
+    unmeasured: item.unmeasured,
+    recipes: item.recipes,
+    checked: item.checked,
+  })),
+  createdAt: doc.createdAt.toISOString(),
+  updatedAt: doc.updatedAt.toISOString(),
+});
+
+/**
+ * MongoDB duplicate-key error code, raised if a generated short id collides with an existing one.
+ */
+const DUPLICATE_KEY_ERROR = 11000;
+
+/**
+ * Builds and stores a shopping list from stored recipes.
+ * @async
+ * @param {object} input - The list to create.
+ * @param {string[]} input.recipeIds - The recipes to shop for, in display order. Duplicates are ignored.
+ * @param {string} [input.title] - The list title. Defaults to "Shopping list".
+ * @param {UnitSystem | null} [input.system] - The unit system for combined amounts, or null to follow the recipes.
+ * @param {string | null} [input.userID] - The creating user, if signed in.
+ * @returns {Promise<ShoppingList | null>} The stored list, or null if any recipe id is malformed or unknown.
+ * @throws {Error} If the database is unavailable or validation fails.
+ */
+export async function createShoppingList({
+  recipeIds,
+  title = 'Shopping list',
+  system = null,
+  userID = null,
+}: {
+  recipeIds: string[];
+  title?: string;
+  system?: UnitSystem | null;
+  userID?: string | null;
+}): Promise<ShoppingList | null> {
+  const ids = [...new Set(recipeIds)];
+  if (!ids.length || !ids.every((id) => isValidObjectId(id))) return null;
+  await dbConnect();
+  const docs = await Recipe.find({ _id: { $in: ids } }).select('title slug ingredients');
+  if (docs.length !== ids.length) return null;
+  const byId = new Map(docs.map((doc) => [String(doc._id), doc]));
+  const recipes = ids.flatMap((id) => byId.get(id) ?? []);
+
+  const items = mergeIngredients(recipes, system);
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const doc = await ShoppingListModel.create({
+        shortId: generateShortId(),
+        userID,
+        title,
+        recipes: recipes.map((recipe) => ({ recipeId: recipe._id, title: recipe.title, slug: recipe.slug ?? null })),
+        items: items.map(({ id, ...item }) => ({ itemId: id, ...item })),
+      });
+      return toShoppingList(doc);
+    } catch (err) {
+      if ((err as { code?: number }).code !== DUPLICATE_KEY_ERROR || attempt >= 2) throw err;
+    }
+  }
+}
+
+/**
+ * Fetches a shopping list by its short id.
+ * @async
+ * @param {string} id - The list's short id.
+ * @returns {Promise<ShoppingList | null>} The list, or null if the id is malformed or unknown.
+ */
+export async function getShoppingList(id: string): Promise<ShoppingList | null> {
+  if (parseShortId(id) !== id) return null;
+  await dbConnect();
+  const doc = await ShoppingListModel.findOne({ shortId: id });
+  return doc ? toShoppingList(doc) : null;
+}
+
+/**
+ * Checks an item off, or un-checks it. Only the one item is updated, so two people shopping from the same list don't
+ * overwrite each other's ticks.
+ * @async
+ * @param {string} id - The list's short id.
+ * @param {string} itemId - The item id.
+ * @param {boolean} checked - The new state.
+ * @returns {Promise<ShoppingList | null>} The updated list, or null if the list or item doesn't exist.
+ */
+export async function setShoppingListItemChecked(id: string, itemId: string, checked: boolean): Promise<ShoppingList | null> {
+  if (parseShortId(id) !== id) return null;
+  await dbConnect();
+  const doc = await ShoppingListModel.findOneAndUpdate(
+    { shortId: id, 'items.itemId': itemId },
+    { $set: { 'items.$.checked': checked } },
+    { new: true }
+  );
+  return doc ? toShoppingList(doc) : null;
+}
@@ -0,0 +1,71 @@
+/**
+ * @file src/lib/signing.ts
+ * @description Signed, expiring tokens for state we hand to the browser or put in emailed links without storing it, e.g.
+ * the waitlist cookie. A token is `<base64url JSON payload>.<base64url HMAC-SHA256>`; the payload is readable by the
+ * holder, so nothing secret goes in it.
+ *
+ * The key comes from `APP_SECRET`, which must be set in production. Development falls back to a fixed key.
+ * @requires crypto - Node's crypto module, for HMAC.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * @constant DEVELOPMENT_SECRET
+ * @description Key used outside production when `APP_SECRET` is unset. Tokens signed with it are worthless anywhere
+ * else, which is the point.
+ */
+const DEVELOPMENT_SECRET = 'recipewreck-development-only';
+
+/**
+ * Returns the signing key.
+ * @returns {string} The key.
+ * @throws {Error} In production, if `APP_SECRET` is not set.
+ */
+function getSecret(): string {
+  const secret = process.env.APP_SECRET;
+  if (secret) return secret;
+  if (process.env.NODE_ENV === 'production') throw new Error('Missing APP_SECRET');
+  return DEVELOPMENT_SECRET;
+}
+
+/**
+ * Computes the signature for an encoded payload.
+ * @param {string} encoded - The base64url payload.
+ * @returns {Buffer} The HMAC.
+ */
+const signatureFor = (encoded: string): Buffer => createHmac('sha256', getSecret()).update(encoded).digest();
+
+/**
+ * Signs a payload.
+ * @template T
+ * @param {T} payload - Any JSON-serialisable object. `exp` is reserved.
+ * @param {number} ttlMs - How long the token stays valid.
+ * @returns {string} The token.
+ */
+export function signPayload<T extends object>(payload: T, ttlMs: number): string {
+  const encoded = Buffer.from(JSON.stringify({ ...payload, exp: Date.now() + ttlMs })).toString('base64url');
+  return `${encoded}.${signatureFor(encoded).toString('base64url')}`;
+}
+
+/**
+ * Verifies a token and returns its payload.
+ * @template T
+ * @param {string | null | undefined} token - The token.
+ * @returns {T | null} The payload, or null if the token is malformed, tampered with or expired.
+ */
+export function verifySignedPayload<T extends object>(token: string | null | undefined): T | null {
+  const [encoded, signature, extra] = (token ?? '').split('.');
+  if (!encoded || !signature || extra !== undefined) return null;
+  const expected = signatureFor(encoded);
+  const actual = Buffer.from(signature, 'base64url');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+  try {
+    const { exp, ...payload } = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+    return typeof exp === 'number' && exp > Date.now() ? (payload as T) : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * @file src/lib/siteUrl.ts
+ * @description The site's public origin, for absolute links that leave the request: emailed links, Stripe return URLs,
+ * referral links and calendar exports. It comes from `NEXT_PUBLIC_SITE_URL` rather than the request, because the
+ * request's host is whatever the client sent in its `Host` header, and a link built from a spoofed one would carry a
+ * valid token to someone else's site.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+/**
+ * @constant DEVELOPMENT_SITE_URL
+ * @description Origin used outside production when `NEXT_PUBLIC_SITE_URL` is unset.
+ */
+const DEVELOPMENT_SITE_URL = 'http://localhost:3000';
+
+/**
+ * Returns the site's public origin.
+ * @returns {string} The origin without a trailing slash, e.g. `https://recipewreck.com`.
+ * @throws {Error} In production, if `NEXT_PUBLIC_SITE_URL` is not set or isn't a URL.
+ */
+export function getSiteOrigin(): string {
+  const configured = process.env.NEXT_PUBLIC_SITE_URL;
+  if (!configured) {
+    if (process.env.NODE_ENV === 'production') throw new Error('Missing NEXT_PUBLIC_SITE_URL');
+    return DEVELOPMENT_SITE_URL;
+  }
+  return new URL(configured).origin;
+}
@@ -0,0 +1,63 @@
+/**
+ * @file src/lib/slug.ts
+ * @description Helpers for building and resolving recipe permalinks of the form `/r/<title-slug>-<shortId>`.
+ * The short id is the stable part of the link and is what lookups use; the title part is only there to make links
+ * readable, so a link still resolves if the title portion is edited or truncated by a chat app.
+ * @requires crypto - Node's crypto module, for random short ids.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import { randomBytes } from 'crypto';
+
+/**
+ * @constant SHORT_ID_LENGTH
+ * @description Number of characters in a recipe short id. 8 base-36 characters give ~2.8 trillion combinations.
+ */
+export const SHORT_ID_LENGTH = 8;
+
+const SHORT_ID_ALPHABET = '0123456789abcdefghijklmnopqrstuvwxyz';
+
+/**
+ * Generates a random lowercase alphanumeric short id.
+ * @returns {string} A {@link SHORT_ID_LENGTH}-character id.
+ */
+export const generateShortId = (): string =>
+  Array.from(randomBytes(SHORT_ID_LENGTH), (b) => SHORT_ID_ALPHABET[b % SHORT_ID_ALPHABET.length]).join('');
+
+/**
+ * Converts a title into a URL-safe slug: lowercase ASCII words joined by hyphens, at most 60 characters.
+ * @param {string} title - The recipe title.
+ * @returns {string} The slug, or `recipe` if nothing usable remains.
+ * @example
+ * slugify("Deep-Fried Mayonnaise Mayhem!") // "deep-fried-mayonnaise-mayhem"
+ */
+export const slugify = (title: string): string => {
+  const slug = title
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60)
+    .replace(/-+$/, '');
+  return slug || 'recipe';
+};
+
+/**
+ * Builds the full permalink slug for a recipe.
+ * @param {string} title - The recipe title.
+ * @param {string} shortId - The recipe's short id.
+ * @returns {string} `<title-slug>-<shortId>`.
+ */
+export const buildRecipeSlug = (title: string, shortId: string): string => `${slugify(title)}-${shortId}`;
+
+/**
+ * Extracts the short id from a permalink slug.
+ * @param {string} slug - A slug produced by {@link buildRecipeSlug} (a bare short id is accepted too).
+ * @returns {string | null} The short id, or null if the slug does not end in one.
+ */
+export const parseShortId = (slug: string): string | null => {
+  const candidate = slug.toLowerCase().split('-').pop() ?? '';
+  return new RegExp(`^[a-z0-9]{${SHORT_ID_LENGTH}}$`).test(candidate) ? candidate : null;
+};
@@ -0,0 +1,87 @@
+/**
+ * @file src/lib/sse.ts
+ * @description Minimal Server-Sent Events helpers shared by the streaming API routes and the client components
+ * that consume them. `EventSource` only supports GET requests, so clients read the stream with `fetch` and
+ * {@link readSseStream} instead.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+/**
+ * @typedef {object} SseMessage
+ * @description A decoded SSE message.
+ * @property {string} event - The event name (defaults to "message" when the frame has no `event:` line).
+ * @property {string} data - The raw data payload, with multi-line `data:` fields joined by newlines.
+ */
+export interface SseMessage {
+  event: string;
+  data: string;
+}
+
+const encoder = new TextEncoder();
+
+/**
+ * @function encodeSseEvent
+ * @description Serialises a named event with a JSON payload into an SSE frame ready to enqueue on a stream.
+ * @param {string} event - The event name.
+ * @param {unknown} data - Any JSON-serialisable payload.
+ * @returns {Uint8Array} The encoded frame.
+ */
+export const encodeSseEvent = (event: string, data: unknown): Uint8Array =>
+  encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+/**
+ * @constant SSE_HEADERS
+ * @description Response headers for an SSE stream. `X-Accel-Buffering` stops reverse proxies (e.g. nginx, Cloud Run's
+ * front end) from buffering the response and defeating the point of streaming.
+ */
+export const SSE_HEADERS = {
+  "Content-Type": "text/event-stream; charset=utf-8",
+  "Cache-Control": "no-cache, no-transform",
+  Connection: "keep-alive",
+  "X-Accel-Buffering": "no",
+} as const;
+
+/**
+ * @async
+ * @function readSseStream
+ * @description Reads an SSE response body and invokes `onMessage` for every complete frame.
+ * Resolves when the stream ends.
+ * @param {ReadableStream<Uint8Array>} body - The `fetch` response body.
+ * @param {(message: SseMessage) => void} onMessage - Called for each decoded message, in order.
+ * @returns {Promise<void>}
+ * @example
+ * const res = await fetch("/api/generate/stream", { method: "POST", body });
+ * await readSseStream(res.body!, ({ event, data }) => console.log(event, JSON.parse(data)));
+ */
+export async function readSseStream(
+  body: ReadableStream<Uint8Array>,
+  onMessage: (message: SseMessage) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const dispatch = (frame: string) => {
+    let event = "message";
+    const data: string[] = [];
+    for (const line of frame.split("\n")) {
+      if (line.startsWith("event:")) event = line.slice(6).trim();
+      else if (line.startsWith("data:")) data.push(line.slice(5).trimStart());
+    }
+    if (data.length) onMessage({ event, data: data.join("\n") });
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, "\n");
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      dispatch(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf("\n\n");
+    }
+  }
+  if (buffer.trim()) dispatch(buffer);
+}
@@ -0,0 +1,100 @@
+/**
+ * @file src/lib/testimonial.ts
+ * @description The testimonial shape and the validation shared by the submission form, the API and the data layer.
+ * Safe to import from client components.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+/**
+ * @constant TESTIMONIAL_STATUSES
+ * @description Submissions start `pending` in the moderation queue; only `approved` ones are shown.
+ */
+export const TESTIMONIAL_STATUSES = ['pending', 'approved', 'rejected'] as const;
+
+/**
+ * @typedef {typeof TESTIMONIAL_STATUSES[number]} TestimonialStatus
+ */
+export type TestimonialStatus = (typeof TESTIMONIAL_STATUSES)[number];
+
+/**
+ * @constant TESTIMONIAL_QUOTE_MAX_LENGTH
+ * @description Longest quote accepted. Testimonials are one-liners; this is a tweet's worth.
+ */
+export const TESTIMONIAL_QUOTE_MAX_LENGTH = 280;
+
+/**
+ * @constant TESTIMONIAL_AUTHOR_MAX_LENGTH
+ * @description Longest display name accepted.
+ */
+export const TESTIMONIAL_AUTHOR_MAX_LENGTH = 60;
+
+/**
+ * @constant AVATAR_HOSTS
+ * @description Hosts avatars may be loaded from. Avatars are shown to every visitor, so arbitrary URLs would let a
+ * submitter track them or swap in a different image after approval.
+ */
+export const AVATAR_HOSTS = [
+  'gravatar.com',
+  'www.gravatar.com',
+  'secure.gravatar.com',
+  'avatars.githubusercontent.com',
+  'pbs.twimg.com',
+  'i.imgur.com',
+];
+
+/**
+ * A testimonial.
+ * @interface Testimonial
+ * @property {string} id - The testimonial id.
+ * @property {string} quote - What they said.
+ * @property {string} author - The display name.
+ * @property {string | null} handle - A social handle, e.g. `@pyro_gourmet`.
+ * @property {string | null} avatarUrl - An avatar from one of the {@link AVATAR_HOSTS}.
+ * @property {{ id: string, title: string, slug: string | null }} recipe - The recipe it's about.
+ * @property {TestimonialStatus} status - Where it is in moderation.
+ * @property {number | null} featuredRank - Position among featured testimonials (lowest first), or null if not featured.
+ * @property {string} createdAt - ISO submission timestamp.
+ */
+export interface Testimonial {
+  id: string;
+  quote: string;
+  author: string;
+  handle: string | null;
+  avatarUrl: string | null;
+  recipe: { id: string; title: string; slug: string | null };
+  status: TestimonialStatus;
+  featuredRank: number | null;
+  createdAt: string;
+}
+
+/**
+ * Validates a social handle and normalises it to `@name`.
+ * @param {string} input - The handle, with or without the `@`.
+ * @returns {string | null} The handle, or null unless it is 1–30 letters, digits or underscores.
+ * @example
+ * normalizeHandle("pyro_gourmet") // "@pyro_gourmet"
+ */
+export function normalizeHandle(input: string): string | null {
+  const name = input.trim().replace(/^@/, '');
+  return /^[A-Za-z0-9_]{1,30}$/.test(name) ? `@${name}` : null;
+}
+
+/**
+ * Validates an avatar URL.
+ * @param {string} input - The URL.
+ * @returns {string | null} The normalised URL, or null unless it is an https URL on one of the {@link AVATAR_HOSTS}.
+ */
+export function normalizeAvatarUrl(input: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(input.trim());
+  } catch {
+    return null;
+  }
+  if (url.protocol !== 'https:' || url.username || url.password || url.port || !AVATAR_HOSTS.includes(url.hostname)) {
+    return null;
+  }
+  const normalized = url.toString();
+  return normalized.length <= 500 ? normalized : null;
+}
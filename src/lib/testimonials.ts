@@ -0,0 +1,168 @@
+/**
+ * @file src/lib/testimonials.ts
+ * @description Data access helpers for testimonials: submission, the moderation queue and the approved list shown on
+ * the landing page. Approved testimonials are ordered featured first (by `featuredRank`), then newest first.
+ * @requires mongoose - For ObjectId validation.
+ * @requires @/lib/mongodb Database connection utility
+ * @requires @/models/Testimonial Testimonial Mongoose model
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import { isValidObjectId } from 'mongoose';
+import dbConnect from '@/lib/mongodb';
+import TestimonialModel, { type ITestimonial } from '@/models/Testimonial';
+import type { StoredRecipe } from '@/lib/recipes';
+import type { Testimonial, TestimonialStatus } from '@/lib/testimonial';
+
+/**
+ * @constant MAX_TESTIMONIALS_PAGE
+ * @description The most testimonials returned by one listing.
+ */
+export const MAX_TESTIMONIALS_PAGE = 50;
+
+/**
+ * MongoDB duplicate-key error code, raised when a user reviews the same recipe twice.
+ */
+const DUPLICATE_KEY_ERROR = 11000;
+
+/**
+ * Maps a Testimonial document to its client-facing shape.
+ * @param {ITestimonial} doc - The document.
+ * @returns {Testimonial} The serialisable testimonial.
+ */
+const toTestimonial = (doc: ITestimonial): Testimonial => ({
+  id: String(doc._id),
+  quote: doc.quote,
+  author: doc.author,
+  handle: doc.handle ?? null,
+  avatarUrl: doc.avatarUrl ?? null,
+  recipe: { id: String(doc.recipeId), title: doc.recipeTitle, slug: doc.recipeSlug ?? null },
+  status: doc.status,
+  featuredRank: doc.featuredRank ?? null,
+  createdAt: doc.createdAt.toISOString(),
+});
+
+/**
+ * Clamps a requested page size.
+ * @param {number} limit - The requested size.
+ * @returns {number} A size between 1 and {@link MAX_TESTIMONIALS_PAGE}.
+ */
+const pageSize = (limit: number): number => Math.min(Math.max(limit, 1), MAX_TESTIMONIALS_PAGE);
+
+/**
+ * Submits a testimonial to the moderation queue.
+ * @async
+ * @param {object} input - The submission.
+ * @param {StoredRecipe} input.recipe - The recipe it's about.
+ * @param {string} input.userID - The submitting user.
+ * @param {string} input.quote - What they said.
+ * @param {string} input.author - Their display name.
+ * @param {string | null} [input.handle] - A social handle, already validated with `normalizeHandle`.
+ * @param {string | null} [input.avatarUrl] - An avatar URL, already validated with `normalizeAvatarUrl`.
+ * @returns {Promise<Testimonial | null>} The pending testimonial, or null if the user already reviewed this recipe.
+ * @throws {Error} If the database is unavailable or validation fails.
+ */
+export async function createTestimonial({
+  recipe,
+  userID,
+  quote,
+  author,
+  handle = null,
+  avatarUrl = null,
+}: {
+  recipe: StoredRecipe;
+  userID: string;
+  quote: string;
+  author: string;
+  handle?: string | null;
+  avatarUrl?: string | null;
+}): Promise<Testimonial | null> {
+  await dbConnect();
+  try {
+    const doc = await TestimonialModel.create({
+      recipeId: recipe.id,
+      recipeTitle: recipe.title,
+      recipeSlug: recipe.slug ?? null,
+      userID,
+      quote,
+      author,
+      handle,
+      avatarUrl,
+    });
+    return toTestimonial(doc);
+  } catch (err) {
+    if ((err as { code?: number }).code === DUPLICATE_KEY_ERROR) return null;
+    throw err;
+  }
+}
+
+/**
+ * Lists approved testimonials for display: featured ones in rank order, then the rest, newest first.
+ * @async
+ * @param {number} [limit=12] - How many to return (1–50).
+ * @returns {Promise<Testimonial[]>} The testimonials.
+ * @throws {Error} If the database is unavailable.
+ */
+export async function listApprovedTestimonials(limit = 12): Promise<Testimonial[]> {
+  await dbConnect();
+  const size = pageSize(limit);
+  const featured = await TestimonialModel.find({ status: 'approved', featuredRank: { $ne: null } })
+    .sort({ featuredRank: 1, createdAt: -1 })
+    .limit(size);
+  const rest =
+    featured.length < size
+      ? await TestimonialModel.find({ status: 'approved', featuredRank: null })
+          .sort({ createdAt: -1 })
+          .limit(size - featured.length)
+      : [];
+  return [...featured, ...rest].map(toTestimonial);
+}
+
+/**
+ * Lists testimonials for the moderation queue. Pending ones come oldest first, so the queue is worked in order;
+ * approved ones in display order; rejected ones most recently rejected first.
+ * @async
+ * @param {TestimonialStatus} status - Which testimonials to list.
+ * @param {number} [limit=50] - How many to return (1–50).
+ * @returns {Promise<Testimonial[]>} The testimonials.
+ * @throws {Error} If the database is unavailable.
+ */
+export async function listTestimonialsForModeration(status: TestimonialStatus, limit = MAX_TESTIMONIALS_PAGE): Promise<Testimonial[]> {
+  if (status === 'approved') return listApprovedTestimonials(limit);
+  await dbConnect();
+  const docs = await TestimonialModel.find({ status })
+    .sort(status === 'pending' ? { createdAt: 1 } : { moderatedAt: -1 })
+    .limit(pageSize(limit));
+  return docs.map(toTestimonial);
+}
+
+/**
+ * Approves, rejects or (re)ranks a testimonial. Only approved testimonials can be featured: anything else has its rank
+ * cleared.
+ * @async
+ * @param {string} id - The testimonial id.
+ * @param {object} changes - What to change.
+ * @param {TestimonialStatus} [changes.status] - The new status.
+ * @param {number | null} [changes.featuredRank] - The new featured position, or null to unfeature.
+ * @param {string} moderatorID - The admin making the change.
+ * @returns {Promise<Testimonial | null>} The updated testimonial, or null if the id is malformed or unknown.
+ * @throws {Error} If the database is unavailable.
+ */
+export async function moderateTestimonial(
+  id: string,
+  { status, featuredRank }: { status?: TestimonialStatus; featuredRank?: number | null },
+  moderatorID: string
+): Promise<Testimonial | null> {
+  if (!isValidObjectId(id)) return null;
+  await dbConnect();
+  const doc = await TestimonialModel.findById(id);
+  if (!doc) return null;
+  if (status) doc.status = status;
+  if (featuredRank !== undefined) doc.featuredRank = featuredRank;
+  if (doc.status !== 'approved') doc.featuredRank = null;
+  doc.moderatedBy = moderatorID;
+  doc.moderatedAt = new Date();
+  await doc.save();
+  return toTestimonial(doc);
+}
@@ -0,0 +1,45 @@
+/**
+ * @file src/lib/tiers/index.ts
+ * @description The access tiers and what each one unlocks. The plans are plain data so the generator UI can explain the
+ * limits; the server works out a visitor's tier (see `@/lib/access`) and enforces them.
+ *
+ * This module has no server-only dependencies so it can be imported by client components.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import { TIERS, type Tier, type TierFeature, type TierPlan } from './types';
+
+export type { Tier, TierFeature, TierPlan } from './types';
+export { TIER_FEATURES, TIERS } from './types';
+
+/**
+ * @constant TIER_PLANS
+ * @description The plan for each tier.
+ */
+export const TIER_PLANS: Record<Tier, TierPlan> = {
+  anonymous: { tier: 'anonymous', label: 'Guest', dailyGenerations: 5, features: { remix: false, hdImages: false } },
+  waitlist: { tier: 'waitlist', label: 'Waitlist', dailyGenerations: 10, features: { remix: true, hdImages: false } },
+  free: { tier: 'free', label: 'Free account', dailyGenerations: 20, features: { remix: true, hdImages: false } },
+  lifetime: { tier: 'lifetime', label: 'Lifetime', dailyGenerations: 100, features: { remix: true, hdImages: true } },
+};
+
+/**
+ * @constant FEATURE_LABELS
+ * @description How each feature is described in upgrade prompts.
+ */
+export const FEATURE_LABELS: Record<TierFeature, string> = {
+  remix: 'Remixing',
+  hdImages: 'HD images',
+};
+
+/**
+ * Returns the lowest tier that unlocks a feature.
+ * @param {TierFeature} feature - The feature.
+ * @returns {Tier} The tier; `lifetime` has everything.
+ * @example
+ * requiredTierFor('remix') // 'waitlist'
+ */
+export function requiredTierFor(feature: TierFeature): Tier {
+  return TIERS.find((tier) => TIER_PLANS[tier].features[feature]) ?? 'lifetime';
+}
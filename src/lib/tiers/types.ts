@@ -0,0 +1,49 @@
+/**
+ * @file src/lib/tiers/types.ts
+ * @description Shared shapes for access tiers: who a visitor is to us, and what that lets them do.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+/**
+ * @constant TIERS
+ * @description Access tiers, lowest first.
+ * - `anonymous`: no account, not on the waitlist.
+ * - `waitlist`: no account, but joined the waitlist from this browser.
+ * - `free`: signed in.
+ * - `lifetime`: signed in with a paid lifetime entitlement.
+ */
+export const TIERS = ['anonymous', 'waitlist', 'free', 'lifetime'] as const;
+
+/**
+ * @typedef {'anonymous' | 'waitlist' | 'free' | 'lifetime'} Tier
+ */
+export type Tier = (typeof TIERS)[number];
+
+/**
+ * @constant TIER_FEATURES
+ * @description Features that depend on the tier.
+ * - `remix`: remixing a recipe through `/api/remix`.
+ * - `hdImages`: full-quality recipe images instead of compressed ones.
+ */
+export const TIER_FEATURES = ['remix', 'hdImages'] as const;
+
+/**
+ * @typedef {'remix' | 'hdImages'} TierFeature
+ */
+export type TierFeature = (typeof TIER_FEATURES)[number];
+
+/**
+ * What a tier gets.
+ * @interface TierPlan
+ * @property {Tier} tier - The tier.
+ * @property {string} label - Display name.
+ * @property {number} dailyGenerations - Generations per UTC day, remixes included.
+ * @property {Record<TierFeature, boolean>} features - Which features are unlocked.
+ */
+export interface TierPlan {
+  tier: Tier;
+  label: string;
+  dailyGenerations: number;
+  features: Record<TierFeature, boolean>;
+}
@@ -0,0 +1,26 @@
+/**
+ * @file src/lib/waitlist/index.ts
+ * @description The launch waitlist: double opt-in subscriptions, topic preferences and unsubscribes, stored with an
+ * email-list provider (MailerLite in production, MongoDB in development).
+ *
+ * Environment:
+ * - `EMAIL_LIST_PROVIDER`: `mailerlite` or `local`. Defaults to `mailerlite` when `MAILERLITE_API_KEY` is set.
+ * - `MAILERLITE_API_KEY`, `MAILERLITE_GROUP_ID`, `MAILERLITE_LAUNCH_GROUP_ID`, `MAILERLITE_WEEKLY_WRECKS_GROUP_ID`: see
+ *   `./mailerlite`.
+ *
+ * With the local provider and the default file mail transport, the confirmation email lands in `.data/mail`.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+export type { EmailListProvider, Subscriber, SubscriberStatus, SubscriberUpdate, WaitlistTopic } from './types';
+export { SUBSCRIBER_STATUSES, TOPIC_LABELS, WAITLIST_TOPICS } from './types';
+export { getEmailListProvider } from './provider';
+export {
+  confirmSubscription,
+  createManageToken,
+  getSubscription,
+  requestSubscription,
+  unsubscribe,
+  updatePreferences,
+} from './subscriptions';
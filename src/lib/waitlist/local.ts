@@ -0,0 +1,50 @@
+/**
+ * @file src/lib/waitlist/local.ts
+ * @description Email-list provider that keeps subscribers in MongoDB. The default in development, so the opt-in flow
+ * works without a MailerLite account; messages themselves go through `@/lib/mail`.
+ * @requires @/lib/mongodb Database connection utility
+ * @requires @/models/WaitlistSubscriber WaitlistSubscriber Mongoose model
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import dbConnect from '@/lib/mongodb';
+import WaitlistSubscriber, { type IWaitlistSubscriber } from '@/models/WaitlistSubscriber';
+import type { EmailListProvider, Subscriber } from './types';
+
+/**
+ * Maps a stored subscriber to the provider shape.
+ * @param {IWaitlistSubscriber} doc - The document.
+ * @returns {Subscriber} The subscriber.
+ */
+const toSubscriber = (doc: IWaitlistSubscriber): Subscriber => ({
+  email: doc.email,
+  status: doc.status,
+  topics: [...doc.topics],
+});
+
+/**
+ * Creates the MongoDB email-list provider.
+ * @returns {EmailListProvider} The provider.
+ */
+export function createLocalEmailListProvider(): EmailListProvider {
+  return {
+    name: 'local',
+
+    async find(email) {
+      await dbConnect();
+      const doc = await WaitlistSubscriber.findOne({ email });
+      return doc ? toSubscriber(doc) : null;
+    },
+
+    async save(email, { status, topics, confirmedAt }) {
+      await dbConnect();
+      const doc = await WaitlistSubscriber.findOneAndUpdate(
+        { email },
+        { $set: { status, topics, ...(confirmedAt ? { confirmedAt } : {}) } },
+        { upsert: true, new: true, runValidators: true }
+      );
+      return toSubscriber(doc);
+    },
+  };
+}
@@ -0,0 +1,121 @@
+/**
+ * @file src/lib/waitlist/mailerlite.ts
+ * @description Email-list provider backed by MailerLite. Every subscriber joins the waitlist group; each topic is a
+ * further group, so membership of a topic's group is the subscriber's choice of that topic. Our `pending` status is
+ * MailerLite's `unconfirmed`, and bounced or junk addresses read back as `unsubscribed`.
+ *
+ * Environment: `MAILERLITE_API_KEY`, `MAILERLITE_GROUP_ID` (the waitlist group), and one group per topic:
+ * `MAILERLITE_LAUNCH_GROUP_ID` and `MAILERLITE_WEEKLY_WRECKS_GROUP_ID`.
+ * @requires mailerlite/mailerlite-nodejs - The official MailerLite Node.js SDK.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import MailerLite from '@mailerlite/mailerlite-nodejs';
+import { WAITLIST_TOPICS, type EmailListProvider, type Subscriber, type SubscriberStatus, type WaitlistTopic } from './types';
+
+/**
+ * @constant TOPIC_GROUP_ENV
+ * @description The environment variable holding each topic's group id.
+ */
+const TOPIC_GROUP_ENV: Record<WaitlistTopic, string> = {
+  launch: 'MAILERLITE_LAUNCH_GROUP_ID',
+  weeklyWrecks: 'MAILERLITE_WEEKLY_WRECKS_GROUP_ID',
+};
+
+/**
+ * @constant TO_MAILERLITE_STATUS
+ * @description Our statuses in MailerLite's terms.
+ */
+const TO_MAILERLITE_STATUS = { pending: 'unconfirmed', active: 'active', unsubscribed: 'unsubscribed' } as const;
+
+/**
+ * Reads a required environment variable.
+ * @param {string} name - The variable.
+ * @returns {string} Its value.
+ * @throws {Error} If it is not set.
+ */
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) throw new Error(`Missing ${name}`);
+  return value;
+}
+
+/**
+ * Formats a date the way MailerLite's API expects, e.g. `2026-10-19 14:03:00` (UTC).
+ * @param {Date} date - The date.
+ * @returns {string} The formatted date.
+ */
+const toMailerLiteDate = (date: Date): string => date.toISOString().slice(0, 19).replace('T', ' ');
+
+/**
+ * Checks whether a MailerLite SDK error is a 404, which is how `find` reports an unknown address.
+ * @param {unknown} err - The error.
+ * @returns {boolean} True for a 404.
+ */
+const isNotFound = (err: unknown): boolean =>
+  (err as { response?: { status?: number } } | null)?.response?.status === 404;
+
+/**
+ * Creates the MailerLite email-list provider.
+ * @returns {EmailListProvider} The provider.
+ * @throws {Error} If the API key or any group id is not configured.
+ */
+export function createMailerLiteEmailListProvider(): EmailListProvider {
+  const client = new MailerLite({ api_key: requireEnv('MAILERLITE_API_KEY') });
+  const waitlistGroup = requireEnv('MAILERLITE_GROUP_ID');
+  const topicGroups = Object.fromEntries(
+    WAITLIST_TOPICS.map((topic) => [topic, requireEnv(TOPIC_GROUP_ENV[topic])])
+  ) as Record<WaitlistTopic, string>;
+
+  /**
+   * Maps a MailerLite subscriber to the provider shape.
+   * @param {object} data - The subscriber from the API.
+   * @returns {Subscriber} The subscriber.
+   */
+  const toSubscriber = (data: { email: string; status: string; groups?: { id: string }[] }): Subscriber => {
+    const groups = new Set((data.groups ?? []).map((group) => group.id));
+    const status: SubscriberStatus =
+      data.status === 'active' ? 'active' : data.status === 'unconfirmed' ? 'pending' : 'unsubscribed';
+    return {
+      email: data.email.toLowerCase(),
+      status,
+      topics: WAITLIST_TOPICS.filter((topic) => groups.has(topicGroups[topic])),
+    };
+  };
+
+  return {
+    name: 'mailerlite',
+
+    async find(email) {
+      try {
+        const response = await client.subscribers.find(email);
+        return toSubscriber(response.data.data);
+      } catch (err) {
+        if (isNotFound(err)) return null;
+        throw err;
+      }
+    },
+
+    async save(email, { status, topics, confirmedAt }) {
+      // createOrUpdate only ever adds groups, so dropped topics are unassigned separately.
+      const response = await client.subscribers.createOrUpdate({
+        email,
+        status: TO_MAILERLITE_STATUS[status],
+        groups: [waitlistGroup, ...topics.map((topic) => topicGroups[topic])],
+        ...(confirmedAt ? { opted_in_at: toMailerLiteDate(confirmedAt) } : {}),
+      });
+      const subscriber = response.data.data;
+      const dropped = WAITLIST_TOPICS.filter((topic) => !topics.includes(topic)).map((topic) => topicGroups[topic]);
+      const remaining = [];
+      for (const group of subscriber.groups ?? []) {
+        if (dropped.includes(group.id)) {
+          await client.groups.unAssignSubscriber(subscriber.id, group.id);
+        } else {
+          remaining.push(group);
+        }
+      }
+      return toSubscriber({ ...subscriber, groups: remaining });
+    },
+  };
+}
@@ -0,0 +1,33 @@
+/**
+ * @file src/lib/waitlist/provider.ts
+ * @description Selects the email-list backend from `EMAIL_LIST_PROVIDER`: "mailerlite", or "local" (MongoDB). When
+ * unset, MailerLite is used if `MAILERLITE_API_KEY` is configured and the local list otherwise.
+ * @requires ./local MongoDB provider.
+ * @requires ./mailerlite MailerLite provider.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import { createLocalEmailListProvider } from './local';
+import { createMailerLiteEmailListProvider } from './mailerlite';
+import type { EmailListProvider } from './types';
+
+let provider: EmailListProvider | null = null;
+
+/**
+ * Returns the configured email-list provider, creating it on first use.
+ * @returns {EmailListProvider} The provider.
+ * @throws {Error} If `EMAIL_LIST_PROVIDER` names an unknown backend, or the chosen backend isn't configured.
+ */
+export function getEmailListProvider(): EmailListProvider {
+  if (provider) return provider;
+  const backend = process.env.EMAIL_LIST_PROVIDER || (process.env.MAILERLITE_API_KEY ? 'mailerlite' : 'local');
+  if (backend === 'local') {
+    provider = createLocalEmailListProvider();
+  } else if (backend === 'mailerlite') {
+    provider = createMailerLiteEmailListProvider();
+  } else {
+    throw new Error(`Unknown EMAIL_LIST_PROVIDER backend: ${backend}`);
+  }
+  return provider;
+}
@@ -0,0 +1,199 @@
+/**
+ * @file src/lib/waitlist/subscriptions.ts
+ * @description The waitlist's double opt-in flow. Joining saves a `pending` subscriber and emails a signed confirmation
+ * link; following it makes them `active`. Every email also carries a signed manage link for the preferences page and
+ * one-click unsubscribe. Neither link is stored: possession of a valid signature is the proof of inbox access.
+ * @requires @/lib/mail For sending the emails.
+ * @requires @/lib/signing For the confirmation and manage tokens.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import { sendMail } from '@/lib/mail';
+import { signPayload, verifySignedPayload } from '@/lib/signing';
+import { getEmailListProvider } from './provider';
+import { WAITLIST_TOPICS, type Subscriber, type WaitlistTopic } from './types';
+
+/**
+ * @constant CONFIRM_TOKEN_TTL_MS
+ * @description How long a confirmation link works: 7 days.
+ */
+const CONFIRM_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * @constant MANAGE_TOKEN_TTL_MS
+ * @description How long a manage link works: one year, so old emails can still unsubscribe.
+ */
+const MANAGE_TOKEN_TTL_MS = 365 * 24 * 60 * 60 * 1000;
+
+/**
+ * @typedef {'confirm' | 'manage'} TokenPurpose
+ * @description Signed into each token so a manage link can't be replayed as a confirmation and vice versa.
+ */
+type TokenPurpose = 'confirm' | 'manage';
+
+/**
+ * Signs a waitlist token.
+ * @param {string} email - The subscriber.
+ * @param {TokenPurpose} purpose - What the token is for.
+ * @returns {string} The token.
+ */
+const signToken = (email: string, purpose: TokenPurpose): string =>
+  signPayload({ email, purpose }, purpose === 'confirm' ? CONFIRM_TOKEN_TTL_MS : MANAGE_TOKEN_TTL_MS);
+
+/**
+ * Verifies a waitlist token.
+ * @param {string | null | undefined} token - The token.
+ * @param {TokenPurpose} purpose - The purpose it must have been issued for.
+ * @returns {string | null} The subscriber's email, or null if the token is invalid, expired or for something else.
+ */
+function verifyToken(token: string | null | undefined, purpose: TokenPurpose): string | null {
+  const payload = verifySignedPayload<{ email?: unknown; purpose?: unknown }>(token);
+  return payload && payload.purpose === purpose && typeof payload.email === 'string' ? payload.email : null;
+}
+
+/**
+ * Issues a manage token for the preferences page and unsubscribe route.
+ * @param {string} email - The subscriber.
+ * @returns {string} The token.
+ */
+export const createManageToken = (email: string): string => signToken(email, 'manage');
+
+/**
+ * Builds the links that go in every waitlist email.
+ * @param {string} origin - The site origin, e.g. `https://recipewreck.com`.
+ * @param {string} email - The subscriber.
+ * @returns {{ preferences: string, unsubscribe: string }} The preferences page and the one-click unsubscribe endpoint.
+ */
+function manageLinks(origin: string, email: string): { preferences: string; unsubscribe: string } {
+  const token = encodeURIComponent(createManageToken(email));
+  return {
+    preferences: `${origin}/email-preferences?token=${token}`,
+    unsubscribe: `${origin}/api/subscribe/unsubscribe?token=${token}`,
+  };
+}
+
+/**
+ * Starts a subscription. New, pending and unsubscribed addresses get a confirmation email; addresses that are already
+ * active get a reminder with their preferences link instead of a second confirmation.
+ * @async
+ * @param {object} input - The request.
+ * @param {string} input.email - The address, lowercased.
+ * @param {WaitlistTopic[]} [input.topics] - Topics to start with. Defaults to the subscriber's current topics, or all.
+ * @param {string} input.origin - The site origin the links point at.
+ * @returns {Promise<void>}
+ * @throws {Error} If the email-list provider or the mail transport fails.
+ */
+export async function requestSubscription({
+  email,
+  topics,
+  origin,
+}: {
+  email: string;
+  topics?: WaitlistTopic[];
+  origin: string;
+}): Promise<void> {
+  const provider = getEmailListProvider();
+  const existing = await provider.find(email);
+  const links = manageLinks(origin, email);
+  const headers = {
+    'List-Unsubscribe': `<${links.unsubscribe}>`,
+    'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+  };
+
+  if (existing?.status === 'active') {
+    await sendMail({
+      to: email,
+      subject: "You're already on the RecipeWreck waitlist",
+      text: [
+        "Good news: you're already on the list. To change what we send you, visit:",
+        '',
+        links.preferences,
+      ].join('\n'),
+      html: `<p>Good news: you're already on the list.</p><p><a href="${links.preferences}">Change what we send you</a></p>`,
+      headers,
+    });
+    return;
+  }
+
+  await provider.save(email, { status: 'pending', topics: topics ?? existing?.topics ?? [...WAITLIST_TOPICS] });
+  const confirm = `${origin}/email-preferences/confirm?token=${encodeURIComponent(signToken(email, 'confirm'))}`;
+  await sendMail({
+    to: email,
+    subject: 'Confirm your spot on the RecipeWreck waitlist',
+    text: [
+      'Click the link below to confirm you want RecipeWreck emails. It expires in 7 days.',
+      '',
+      confirm,
+      '',
+      "If you didn't sign up, ignore this email and you won't hear from us again.",
+    ].join('\n'),
+    html: `<p>Click the link below to confirm you want RecipeWreck emails. It expires in 7 days.</p><p><a href="${confirm}">Confirm my spot</a></p><p>If you didn't sign up, ignore this email and you won't hear from us again.</p>`,
+    headers,
+  });
+}
+
+/**
+ * Confirms a subscription from the emailed link. Only a `pending` address is activated: confirmation tokens aren't
+ * stored, so an old link must not re-subscribe an address that has since unsubscribed. Joining again starts a fresh
+ * `pending` signup.
+ * @async
+ * @param {string} token - The confirmation token.
+ * @returns {Promise<Subscriber | null>} The active subscriber, or null if the token is invalid or expired or the address
+ * isn't pending.
+ * @throws {Error} If the email-list provider fails.
+ */
+export async function confirmSubscription(token: string): Promise<Subscriber | null> {
+  const email = verifyToken(token, 'confirm');
+  if (!email) return null;
+  const provider = getEmailListProvider();
+  const existing = await provider.find(email);
+  if (existing?.status === 'active') return existing;
+  if (existing?.status !== 'pending') return null;
+  return provider.save(email, {
+    status: 'active',
+    topics: existing.topics.length ? existing.topics : [...WAITLIST_TOPICS],
+    confirmedAt: new Date(),
+  });
+}
+
+/**
+ * Loads a subscriber for the preferences page.
+ * @async
+ * @param {string} token - The manage token.
+ * @returns {Promise<Subscriber | null>} The subscriber, or null if the token is invalid or the address isn't listed.
+ * @throws {Error} If the email-list provider fails.
+ */
+export async function getSubscription(token: string): Promise<Subscriber | null> {
+  const email = verifyToken(token, 'manage');
+  return email ? getEmailListProvider().find(email) : null;
+}
+
+/**
+ * Saves a subscriber's topics. Choosing at least one topic (re)activates the subscription; choosing none unsubscribes.
+ * @async
+ * @param {string} token - The manage token.
+ * @param {WaitlistTopic[]} topics - The topics to keep.
+ * @returns {Promise<Subscriber | null>} The saved subscriber, or null if the token is invalid.
+ * @throws {Error} If the email-list provider fails.
+ */
+export async function updatePreferences(token: string, topics: WaitlistTopic[]): Promise<Subscriber | null> {
+  const email = verifyToken(token, 'manage');
+  if (!email) return null;
+  return getEmailListProvider().save(email, { status: topics.length ? 'active' : 'unsubscribed', topics });
+}
+
+/**
+ * Unsubscribes from everything. Topics are kept, so resubscribing from the preferences page restores them.
+ * @async
+ * @param {string} token - The manage token.
+ * @returns {Promise<Subscriber | null>} The unsubscribed subscriber, or null if the token is invalid.
+ * @throws {Error} If the email-list provider fails.
+ */
+export async function unsubscribe(token: string): Promise<Subscriber | null> {
+  const email = verifyToken(token, 'manage');
+  if (!email) return null;
+  const provider = getEmailListProvider();
+  const existing = await provider.find(email);
+  return provider.save(email, { status: 'unsubscribed', topics: existing?.topics ?? [] });
+}
@@ -0,0 +1,88 @@
+/**
+ * @file src/lib/waitlist/types.ts
+ * @description Shared contracts for the waitlist: the email topics, subscriber states and the email-list provider
+ * interface every backend implements. Safe to import from client components.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+/**
+ * @constant WAITLIST_TOPICS
+ * @description What a subscriber can choose to hear about.
+ */
+export const WAITLIST_TOPICS = ['launch', 'weeklyWrecks'] as const;
+
+/**
+ * @typedef {typeof WAITLIST_TOPICS[number]} WaitlistTopic
+ */
+export type WaitlistTopic = (typeof WAITLIST_TOPICS)[number];
+
+/**
+ * @constant TOPIC_LABELS
+ * @description How each topic is described on the preferences page.
+ */
+export const TOPIC_LABELS: Record<WaitlistTopic, { label: string; description: string }> = {
+  launch: { label: 'Launch news', description: 'The day RecipeWreck goes live, and the occasional big feature.' },
+  weeklyWrecks: { label: 'Weekly wrecks', description: "A weekly roundup of the week's most ill-advised recipes." },
+};
+
+/**
+ * @constant SUBSCRIBER_STATUSES
+ * @description `pending` until the address is confirmed, then `active`, or `unsubscribed`.
+ */
+export const SUBSCRIBER_STATUSES = ['pending', 'active', 'unsubscribed'] as const;
+
+/**
+ * @typedef {typeof SUBSCRIBER_STATUSES[number]} SubscriberStatus
+ */
+export type SubscriberStatus = (typeof SUBSCRIBER_STATUSES)[number];
+
+/**
+ * A waitlist subscriber.
+ * @interface Subscriber
+ * @property {string} email - The address, lowercased.
+ * @property {SubscriberStatus} status - Where they are in the opt-in flow.
+ * @property {WaitlistTopic[]} topics - What they want to hear about.
+ */
+export interface Subscriber {
+  email: string;
+  status: SubscriberStatus;
+  topics: WaitlistTopic[];
+}
+
+/**
+ * A change to a subscriber.
+ * @interface SubscriberUpdate
+ * @property {SubscriberStatus} status - The new status.
+ * @property {WaitlistTopic[]} topics - The new topics.
+ * @property {Date} [confirmedAt] - When the address was confirmed; set only by the confirmation step.
+ */
+export interface SubscriberUpdate {
+  status: SubscriberStatus;
+  topics: WaitlistTopic[];
+  confirmedAt?: Date;
+}
+
+/**
+ * An email-list backend.
+ * @interface EmailListProvider
+ */
+export interface EmailListProvider {
+  /** Backend name, used in logs. */
+  name: string;
+  /**
+   * Looks up a subscriber.
+   * @param {string} email - The address, lowercased.
+   * @returns {Promise<Subscriber | null>} The subscriber, or null if the address isn't on the list.
+   * @throws {Error} If the backend fails.
+   */
+  find(email: string): Promise<Subscriber | null>;
+  /**
+   * Creates or updates a subscriber.
+   * @param {string} email - The address, lowercased.
+   * @param {SubscriberUpdate} update - The new state.
+   * @returns {Promise<Subscriber>} The saved subscriber.
+   * @throws {Error} If the backend fails.
+   */
+  save(email: string, update: SubscriberUpdate): Promise<Subscriber>;
+}
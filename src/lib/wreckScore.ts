@@ -0,0 +1,197 @@
+/**
+ * @file src/lib/wreckScore.ts
+ * @description The Wreck Score: an explainable 0–5 rating of how thoroughly a recipe wrecks your health, shown as stars
+ * with a caption in the voice of the landing page showcase ("Rated 'Absolutely Horrifying'"). Higher is worse.
+ *
+ * The score is the sum of independent factors, each reported with its points and a short explanation so the card can
+ * show why a recipe scored what it did:
+ * - Ingredients: one step per indulgent ingredient (fats, sugar bombs, ultra-processed foods), up to 1.5.
+ * - Cooking methods: deep-frying, candying, butter-basting and friends, up to 1.5.
+ * - Calories per serving: up to 1 at 2,000 kcal.
+ * - Fat, sugar and sodium: up to 0.5 each at 300% of the daily value.
+ *
+ * This module has no server-only dependencies so it can be imported by client components.
+ * @requires @/lib/nutrition For the estimated macros.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import type { GeneratedRecipe } from '@/lib/recipe';
+import { estimateNutrition, percentDailyValue, type Nutrient } from '@/lib/nutrition';
+
+/**
+ * One contribution to a Wreck Score.
+ * @interface WreckScoreFactor
+ * @property {string} id - Stable identifier, e.g. `methods`.
+ * @property {string} label - Display name, e.g. `Cooking methods`.
+ * @property {number} points - The points it adds, rounded to two decimals.
+ * @property {number} maxPoints - The most it can add.
+ * @property {string} detail - Why, e.g. `Deep-fried, candied`.
+ */
+export interface WreckScoreFactor {
+  id: string;
+  label: string;
+  points: number;
+  maxPoints: number;
+  detail: string;
+}
+
+/**
+ * A recipe's Wreck Score.
+ * @interface WreckScore
+ * @property {number} score - From 0 to 5, to one decimal.
+ * @property {number} stars - Whole stars from 0 to 5.
+ * @property {string} label - The caption, e.g. `Rated 'A Cry for Help'`.
+ * @property {string} description - A one-line verdict for the tier.
+ * @property {WreckScoreFactor[]} factors - The breakdown, in the order above.
+ */
+export interface WreckScore {
+  score: number;
+  stars: number;
+  label: string;
+  description: string;
+  factors: WreckScoreFactor[];
+}
+
+/**
+ * @constant WRECK_TIERS
+ * @description Captions by minimum score, highest first. The top three reuse the landing page showcase ratings.
+ */
+export const WRECK_TIERS = [
+  { min: 4.5, name: 'Absolutely Horrifying', description: 'A medical event disguised as a meal.' },
+  { min: 3.75, name: 'A Cry for Help', description: 'Your arteries have filed a formal complaint.' },
+  { min: 3, name: 'Diabetically Daring', description: 'Bold, sticky and deeply irresponsible.' },
+  { min: 2, name: 'Deeply Unwise', description: 'Delicious in the way bad decisions usually are.' },
+  { min: 1, name: 'Mildly Concerning', description: 'Your doctor would sigh, but not call anyone.' },
+  { min: 0, name: 'Suspiciously Reasonable', description: 'Are you sure this came from RecipeWreck?' },
+] as const;
+
+/**
+ * @constant INDULGENT_INGREDIENTS
+ * @description Ingredient categories that count towards the score. Each ingredient line counts once.
+ */
+const INDULGENT_INGREDIENTS = [
+  {
+    name: 'fat',
+    pattern: /\b(butter|lard|shortening|ghee|mayo|mayonnaise|bacon|oil|cream cheese|heavy cream|whipping cream|cheese)\b/i,
+  },
+  {
+    name: 'sugar',
+    pattern:
+      /\b(sugar|syrup|cand(y|ied)|frosting|icing|marshmallows?|fudge|caramel|sprinkles|nutella|chocolate|ice cream|oreos?|cookies?|doughnuts?|donuts?|cheesecake|funnel cake)\b/i,
+  },
+  {
+    name: 'processed',
+    pattern: /\b(spam|hot dogs?|velveeta|cheez|chips|doritos|cheetos|nuggets|pop-?tarts?|twinkies?|crackers)\b/i,
+  },
+];
+
+/**
+ * @constant INGREDIENT_POINTS
+ * @description Points per indulgent ingredient, and the cap.
+ */
+const INGREDIENT_POINTS = { each: 0.25, max: 1.5 };
+
+/**
+ * @constant COOKING_METHODS
+ * @description Techniques detected in the steps (and ingredients, for "candied bacon"), with their points.
+ */
+const COOKING_METHODS = [
+  { name: 'Deep-fried', points: 1, pattern: /\b(deep[- ]?fr(y|ies|ied|ying)|fr(y|ies|ied|ying))\b/i },
+  { name: 'Candied', points: 0.5, pattern: /\b(cand(y|ied|ying)|carameli[sz](e|ed|ing))\b/i },
+  { name: 'Butter-basted', points: 0.5, pattern: /\b(bast(e|es|ed|ing)\b[^.]*\bbutter|butter[- ]bast(e|ed|ing))\b/i },
+  { name: 'Smothered', points: 0.25, pattern: /\b(smother|drown|drench|slather)(s|ed|ing)?\b/i },
+  { name: 'Stuffed', points: 0.25, pattern: /\bstuff(s|ed|ing)?\b/i },
+];
+
+/**
+ * @constant METHOD_POINTS_MAX
+ * @description The cap on cooking method points.
+ */
+const METHOD_POINTS_MAX = 1.5;
+
+/**
+ * @constant CALORIE_POINTS_AT
+ * @description Calories per serving that earn the full point.
+ */
+const CALORIE_POINTS_AT = 2000;
+
+/**
+ * @constant MACRO_FACTORS
+ * @description The macro factors, each worth up to 0.5 at 300% of the daily value.
+ */
+const MACRO_FACTORS: { nutrient: Exclude<Nutrient, 'calories'>; label: string; unit: string }[] = [
+  { nutrient: 'fat', label: 'Fat', unit: 'g' },
+  { nutrient: 'sugar', label: 'Sugar', unit: 'g' },
+  { nutrient: 'sodium', label: 'Sodium', unit: 'mg' },
+];
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Computes a recipe's Wreck Score and its breakdown.
+ * Calories come from the nutrition estimate or the recipe's own figure, whichever is higher.
+ * @param {Pick<GeneratedRecipe, 'ingredients' | 'steps' | 'calories' | 'servings'>} recipe - The recipe to score.
+ * @returns {WreckScore} The score.
+ * @example
+ * computeWreckScore({ ingredients: ['1 gallon peanut oil', '1 stick butter'], steps: ['Deep-fry the butter.'], calories: 2400, servings: 1 })
+ * // { score: 3.1, stars: 3, label: "Rated 'Diabetically Daring'", ... }
+ */
+export function computeWreckScore(
+  recipe: Pick<GeneratedRecipe, 'ingredients' | 'steps' | 'calories' | 'servings'>
+): WreckScore {
+  const factors: WreckScoreFactor[] = [];
+
+  const indulgent = recipe.ingredients.filter((line) => INDULGENT_INGREDIENTS.some(({ pattern }) => pattern.test(line)));
+  factors.push({
+    id: 'ingredients',
+    label: 'Ingredients',
+    points: round2(Math.min(INGREDIENT_POINTS.max, indulgent.length * INGREDIENT_POINTS.each)),
+    maxPoints: INGREDIENT_POINTS.max,
+    detail: indulgent.length
+      ? `${indulgent.length} of ${recipe.ingredients.length} ingredients are fats, sugar bombs or ultra-processed`
+      : 'Nothing obviously indulgent',
+  });
+
+  const text = [...recipe.ingredients, ...recipe.steps].join('\n');
+  const methods = COOKING_METHODS.filter(({ pattern }) => pattern.test(text));
+  factors.push({
+    id: 'methods',
+    label: 'Cooking methods',
+    points: round2(Math.min(METHOD_POINTS_MAX, methods.reduce((sum, { points }) => sum + points, 0))),
+    maxPoints: METHOD_POINTS_MAX,
+    detail: methods.length ? methods.map(({ name }) => name).join(', ') : 'No frying, candying or basting',
+  });
+
+  const nutrition = estimateNutrition(recipe.ingredients, recipe.servings);
+  const calories = Math.max(nutrition.perServing.calories, recipe.calories ?? 0);
+  factors.push({
+    id: 'calories',
+    label: 'Calories',
+    points: round2(Math.min(1, calories / CALORIE_POINTS_AT)),
+    maxPoints: 1,
+    detail: `${calories.toLocaleString()} kcal per serving`,
+  });
+
+  for (const { nutrient, label, unit } of MACRO_FACTORS) {
+    const amount = nutrition.perServing[nutrient];
+    const percent = percentDailyValue(nutrient, amount);
+    factors.push({
+      id: nutrient,
+      label,
+      points: round2(Math.min(0.5, (percent / 300) * 0.5)),
+      maxPoints: 0.5,
+      detail: `${amount.toLocaleString()}${unit} per serving (${percent.toLocaleString()}% DV)`,
+    });
+  }
+
+  const score = Math.round(Math.min(5, factors.reduce((sum, { points }) => sum + points, 0)) * 10) / 10;
+  const tier = WRECK_TIERS.find(({ min }) => score >= min) ?? WRECK_TIERS[WRECK_TIERS.length - 1];
+  return {
+    score,
+    stars: Math.round(score),
+    label: `Rated '${tier.name}'`,
+    description: tier.description,
+    factors,
+  };
+}
@@ -0,0 +1,48 @@
+/**
+ * @file src/models/Entitlement.ts
+ * @description Mongoose model for paid entitlements such as lifetime access. Entitlements are keyed by email as well as
+ * account, because Checkout is open to visitors who haven't signed up yet: the grant waits under their email until they
+ * sign in with it.
+ * @requires mongoose - MongoDB object modeling tool
+ * @requires @/lib/billing/types For the entitlement keys.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import mongoose, { Document, Model, Schema } from 'mongoose';
+import { ENTITLEMENT_KEYS, type EntitlementKey } from '@/lib/billing/types';
+
+/**
+ * Interface describing an Entitlement document.
+ * @interface IEntitlement
+ * @extends Document
+ * @property {string} email - The buyer's email, lowercased.
+ * @property {string | null} userID - The buyer's account, if known when granted.
+ * @property {EntitlementKey} key - What the entitlement unlocks.
+ * @property {string} source - The Checkout session id that paid for it.
+ * @property {Date} grantedAt - When it was granted.
+ */
+export interface IEntitlement extends Document {
+  email: string;
+  userID: string | null;
+  key: EntitlementKey;
+  source: string;
+  grantedAt: Date;
+}
+
+const EntitlementSchema = new Schema<IEntitlement>({
+  email: { type: String, required: true, lowercase: true, trim: true },
+  userID: { type: String, default: null, index: true },
+  key: { type: String, enum: ENTITLEMENT_KEYS, required: true },
+  source: { type: String, required: true },
+  grantedAt: { type: Date, required: true },
+});
+
+// One grant per email and key, so a repeated webhook can't grant twice.
+EntitlementSchema.index({ email: 1, key: 1 }, { unique: true });
+
+// Reuse the compiled model across hot reloads in development.
+const Entitlement: Model<IEntitlement> =
+  (mongoose.models.Entitlement as Model<IEntitlement>) || mongoose.model<IEntitlement>('Entitlement', EntitlementSchema);
+
+export default Entitlement;
@@ -0,0 +1,57 @@
+/**
+ * @file src/models/LoginToken.ts
+ * @description Mongoose model for magic-link sign-in tokens. As with sessions, only a hash of the token is stored.
+ * Tokens are single use and short-lived; a TTL index removes them after they expire. A token sent to confirm a
+ * sign-up also carries the new account's password hash and name, so the account only exists once the email is proven.
+ * @requires mongoose - MongoDB object modeling tool
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+/**
+ * Interface describing a LoginToken document.
+ * @interface ILoginToken
+ * @extends Document
+ * @property {string} tokenHash - SHA-256 of the token, hex.
+ * @property {string} email - The address the link was sent to, lowercased.
+ * @property {string} next - Where to send the user after signing in (a path on this site).
+ * @property {string | null} passwordHash - For sign-up confirmations, the password chosen at sign-up; otherwise null.
+ * @property {string | null} name - For sign-up confirmations, the display name given at sign-up, if any.
+ * @property {Date} expiresAt - When the link stops working.
+ * @property {Date | null} usedAt - When the link was used, or null if it hasn't been.
+ * @property {Date} createdAt - Creation timestamp (managed by Mongoose).
+ */
+export interface ILoginToken extends Document {
+  tokenHash: string;
+  email: string;
+  next: string;
+  passwordHash: string | null;
+  name: string | null;
+  expiresAt: Date;
+  usedAt: Date | null;
+  createdAt: Date;
+}
+
+const LoginTokenSchema = new Schema<ILoginToken>(
+  {
+    tokenHash: { type: String, required: true, unique: true },
+    email: { type: String, required: true, lowercase: true, trim: true, index: true },
+    next: { type: String, default: '/' },
+    passwordHash: { type: String, default: null },
+    name: { type: String, default: null },
+    expiresAt: { type: Date, required: true },
+    usedAt: { type: Date, default: null },
+  },
+  { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+// MongoDB deletes tokens once they expire.
+LoginTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Reuse the compiled model across hot reloads in development.
+const LoginToken: Model<ILoginToken> =
+  (mongoose.models.LoginToken as Model<ILoginToken>) || mongoose.model<ILoginToken>('LoginToken', LoginTokenSchema);
+
+export default LoginToken;
@@ -0,0 +1,73 @@
+/**
+ * @file src/models/MealPlan.ts
+ * @description Mongoose model for weekly meal plans. Each document is one owner's week; slots only reference recipes, so
+ * a plan always shows a recipe's current title and ingredients.
+ * @requires mongoose - MongoDB object modeling tool
+ * @requires @/lib/mealPlan For the meal slots.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+import { PLAN_MEALS, type PlanMeal } from '@/lib/mealPlan';
+
+/**
+ * Interface for a filled slot.
+ * @interface IMealPlanSlot
+ * @property {number} day - Day of the week, 0 (Monday) to 6 (Sunday).
+ * @property {PlanMeal} meal - The meal slot.
+ * @property {Types.ObjectId} recipeId - The recipe in it.
+ */
+export interface IMealPlanSlot {
+  day: number;
+  meal: PlanMeal;
+  recipeId: Types.ObjectId;
+}
+
+/**
+ * Interface describing a MealPlan document. Plans belong to a signed-in user, or to an anonymous device until then.
+ * @interface IMealPlan
+ * @extends Document
+ * @property {string | null} userID - The owning user, or null for an anonymous plan.
+ * @property {string | null} deviceId - The owning device, for anonymous plans.
+ * @property {string} weekStart - The Monday the week starts on, `YYYY-MM-DD`.
+ * @property {IMealPlanSlot[]} slots - The filled slots.
+ * @property {Date} createdAt - Creation timestamp (managed by Mongoose).
+ * @property {Date} updatedAt - Last update timestamp (managed by Mongoose).
+ */
+export interface IMealPlan extends Document {
+  userID: string | null;
+  deviceId: string | null;
+  weekStart: string;
+  slots: IMealPlanSlot[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const MealPlanSlotSchema = new Schema<IMealPlanSlot>(
+  {
+    day: { type: Number, required: true, min: 0, max: 6 },
+    meal: { type: String, enum: PLAN_MEALS, required: true },
+    recipeId: { type: Schema.Types.ObjectId, ref: 'Recipe', required: true },
+  },
+  { _id: false }
+);
+
+const MealPlanSchema = new Schema<IMealPlan>(
+  {
+    userID: { type: String, default: null },
+    deviceId: { type: String, default: null },
+    weekStart: { type: String, required: true, match: /^\d{4}-\d{2}-\d{2}$/ },
+    slots: { type: [MealPlanSlotSchema], default: [] },
+  },
+  { timestamps: true }
+);
+
+// One plan per owner and week.
+MealPlanSchema.index({ userID: 1, deviceId: 1, weekStart: 1 }, { unique: true });
+
+// Reuse the compiled model across hot reloads in development.
+const MealPlan: Model<IMealPlan> =
+  (mongoose.models.MealPlan as Model<IMealPlan>) || mongoose.model<IMealPlan>('MealPlan', MealPlanSchema);
+
+export default MealPlan;
@@ -0,0 +1,69 @@
+/**
+ * @file src/models/ModerationLog.ts
+ * @description Mongoose model recording every moderation decision, allowed or blocked, so rule sets and classifier
+ * thresholds can be reviewed against real traffic.
+ * @requires mongoose - MongoDB object modeling tool
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import mongoose, { Document, Model, Schema } from 'mongoose';
+import type { ModerationCategory, ModerationStage } from '@/lib/moderation/types';
+
+/**
+ * Interface describing a ModerationLog document.
+ * @interface IModerationLog
+ * @extends Document
+ * @property {ModerationStage} stage - `prompt` or `output`.
+ * @property {boolean} allowed - Whether the text passed.
+ * @property {'rules' | 'classifier' | null} source - What blocked it, or null if allowed.
+ * @property {string | null} ruleId - The matching rule, for rule blocks.
+ * @property {ModerationCategory | null} category - What it was flagged for.
+ * @property {number | null} score - The classifier score, if a classifier ran.
+ * @property {string[]} ruleSets - The rule sets that were enabled.
+ * @property {string} text - The checked text, truncated to 2000 characters.
+ * @property {string | null} userID - The signed-in user, if any.
+ * @property {string | null} deviceId - The anonymous device id, if any.
+ * @property {string | null} ip - The client IP address.
+ * @property {Date} createdAt - When the decision was made.
+ */
+export interface IModerationLog extends Document {
+  stage: ModerationStage;
+  allowed: boolean;
+  source: 'rules' | 'classifier' | null;
+  ruleId: string | null;
+  category: ModerationCategory | null;
+  score: number | null;
+  ruleSets: string[];
+  text: string;
+  userID: string | null;
+  deviceId: string | null;
+  ip: string | null;
+  createdAt: Date;
+}
+
+const ModerationLogSchema = new Schema<IModerationLog>(
+  {
+    stage: { type: String, enum: ['prompt', 'output'], required: true },
+    allowed: { type: Boolean, required: true, index: true },
+    source: { type: String, enum: ['rules', 'classifier', null], default: null },
+    ruleId: { type: String, default: null },
+    category: { type: String, default: null },
+    score: { type: Number, default: null },
+    ruleSets: { type: [String], default: [] },
+    text: { type: String, required: true, maxlength: 2000 },
+    userID: { type: String, default: null },
+    deviceId: { type: String, default: null },
+    ip: { type: String, default: null },
+  },
+  { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+ModerationLogSchema.index({ createdAt: -1 });
+
+// Reuse the compiled model across hot reloads in development.
+const ModerationLog: Model<IModerationLog> =
+  (mongoose.models.ModerationLog as Model<IModerationLog>) ||
+  mongoose.model<IModerationLog>('ModerationLog', ModerationLogSchema);
+
+export default ModerationLog;
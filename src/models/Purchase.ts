@@ -0,0 +1,72 @@
+/**
+ * @file src/models/Purchase.ts
+ * @description Mongoose model for Stripe Checkout purchases, one per Checkout session. Written only by the Stripe
+ * webhook, so a purchase exists once Stripe has told us about it, not when the visitor is redirected back.
+ * @requires mongoose - MongoDB object modeling tool
+ * @requires @/lib/billing/types For the product and status values.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import mongoose, { Document, Model, Schema } from 'mongoose';
+import { BILLING_PRODUCTS, PURCHASE_STATUSES, type BillingProduct, type PurchaseStatus } from '@/lib/billing/types';
+
+/**
+ * Interface describing a Purchase document.
+ * @interface IPurchase
+ * @extends Document
+ * @property {string} stripeSessionId - The Checkout session id (`cs_...`); unique, which makes webhook retries safe.
+ * @property {string | null} stripePaymentIntentId - The payment intent, once there is one.
+ * @property {string | null} stripeCustomerId - The Stripe customer, if Checkout created one.
+ * @property {string} email - The buyer's email, lowercased.
+ * @property {string | null} userID - The buyer's account, if they were signed in.
+ * @property {BillingProduct} product - What was bought.
+ * @property {number} amountTotal - The amount charged, in the currency's minor unit.
+ * @property {string} currency - The ISO currency code, lowercase.
+ * @property {PurchaseStatus} status - Whether the payment has settled.
+ * @property {boolean} livemode - Whether this was a live-mode payment.
+ * @property {string} lastEventId - The most recent webhook event applied.
+ * @property {Date | null} clearedNoticeSentAt - When the buyer was emailed that a delayed payment cleared, if they were.
+ * @property {Date} createdAt - Creation timestamp (managed by Mongoose).
+ * @property {Date} updatedAt - Last update timestamp (managed by Mongoose).
+ */
+export interface IPurchase extends Document {
+  stripeSessionId: string;
+  stripePaymentIntentId: string | null;
+  stripeCustomerId: string | null;
+  email: string;
+  userID: string | null;
+  product: BillingProduct;
+  amountTotal: number;
+  currency: string;
+  status: PurchaseStatus;
+  livemode: boolean;
+  lastEventId: string;
+  clearedNoticeSentAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PurchaseSchema = new Schema<IPurchase>(
+  {
+    stripeSessionId: { type: String, required: true, unique: true },
+    stripePaymentIntentId: { type: String, default: null },
+    stripeCustomerId: { type: String, default: null },
+    email: { type: String, required: true, lowercase: true, trim: true, index: true },
+    userID: { type: String, default: null, index: true },
+    product: { type: String, enum: BILLING_PRODUCTS, required: true },
+    amountTotal: { type: Number, required: true },
+    currency: { type: String, required: true },
+    status: { type: String, enum: PURCHASE_STATUSES, required: true },
+    livemode: { type: Boolean, default: false },
+    lastEventId: { type: String, required: true },
+    clearedNoticeSentAt: { type: Date, default: null },
+  },
+  { timestamps: true }
+);
+
+// Reuse the compiled model across hot reloads in development.
+const Purchase: Model<IPurchase> =
+  (mongoose.models.Purchase as Model<IPurchase>) || mongoose.model<IPurchase>('Purchase', PurchaseSchema);
+
+export default Purchase;
@@ -0,0 +1,40 @@
+/**
+ * @file src/models/RateLimitHit.ts
+ * @description Mongoose model for the MongoDB rate limit store: one document per counted generation. A TTL index removes
+ * hits once they can no longer affect any limit.
+ * @requires mongoose - MongoDB object modeling tool
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+/**
+ * Interface describing a RateLimitHit document.
+ * @interface IRateLimitHit
+ * @extends Document
+ * @property {string} key - The limit key, e.g. `user:<id>`, `device:<id>` or `ip:<address>`.
+ * @property {Date} at - When the hit was recorded.
+ * @property {Date} expiresAt - When MongoDB may delete the hit.
+ */
+export interface IRateLimitHit extends Document {
+  key: string;
+  at: Date;
+  expiresAt: Date;
+}
+
+const RateLimitHitSchema = new Schema<IRateLimitHit>({
+  key: { type: String, required: true },
+  at: { type: Date, required: true },
+  expiresAt: { type: Date, required: true },
+});
+
+RateLimitHitSchema.index({ key: 1, at: -1 });
+RateLimitHitSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Reuse the compiled model across hot reloads in development.
+const RateLimitHit: Model<IRateLimitHit> =
+  (mongoose.models.RateLimitHit as Model<IRateLimitHit>) ||
+  mongoose.model<IRateLimitHit>('RateLimitHit', RateLimitHitSchema);
+
+export default RateLimitHit;
@@ -0,0 +1,109 @@
+/**
+ * @file src/models/Recipe.ts
+ * @description Mongoose model for generated recipes. Covers the fields listed in `zContext_Information/Recipe Card Data.md`
+ * so that every successful generation can be stored and revisited instead of disappearing on refresh.
+ * @requires mongoose - MongoDB object modeling tool
+ * @requires @/lib/recipe For the allowed meal types.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+import { MEAL_TYPES, type MealType } from '@/lib/recipe';
+
+/**
+ * Interface for the cover image reference. The bytes live in the image store (see `@/lib/images`) and are served from
+ * `/api/images/[id]`, which keeps recipe documents small.
+ * @interface IRecipeImage
+ * @property {string} id - The content-addressed image id.
+ * @property {string} mimeType - The image MIME type, e.g. `image/png`.
+ */
+export interface IRecipeImage {
+  id: string;
+  mimeType: string;
+}
+
+/**
+ * Interface describing a Recipe document.
+ * @interface IRecipe
+ * @extends Document
+ * @property {string | null} userID - The owning user, or null for anonymous generations.
+ * @property {string} shortId - Random, unique short id; the stable part of the recipe's permalink.
+ * @property {string} slug - Human-readable permalink slug (`<title-slug>-<shortId>`), served at `/r/[slug]`.
+ * @property {string} userPrompt - The prompt the recipe was generated from.
+ * @property {string} title - The recipe title.
+ * @property {string} description - A short blurb describing the dish.
+ * @property {MealType | null} mealType - The meal category, if known.
+ * @property {string[]} ingredients - Ingredient lines, as generated.
+ * @property {string[]} instructions - Instruction steps, in order.
+ * @property {number | null} calories - Estimated calories per serving, if known.
+ * @property {number | null} servings - How many servings the ingredient quantities make, if known.
+ * @property {string[]} associatedDiseases - Health conditions the dish is (comedically) associated with.
+ * @property {string[]} tags - Short lowercase tags.
+ * @property {IRecipeImage | null} image - Reference to the cover image, if one was generated.
+ * @property {Types.ObjectId | null} parentId - The recipe this one was remixed from, or null for an original.
+ * @property {Types.ObjectId[]} ancestors - Every recipe above this one in its family tree, root first. Lets a whole
+ * family be fetched with one query on the root id.
+ * @property {string | null} remixDirection - The direction the parent was remixed in, e.g. "more deep-fried".
+ * @property {Date} createdAt - Creation timestamp (managed by Mongoose).
+ * @property {Date} updatedAt - Last update timestamp (managed by Mongoose).
+ */
+export interface IRecipe extends Document {
+  userID: string | null;
+  shortId: string;
+  slug: string;
+  userPrompt: string;
+  title: string;
+  description: string;
+  mealType: MealType | null;
+  ingredients: string[];
+  instructions: string[];
+  calories: number | null;
+  servings: number | null;
+  associatedDiseases: string[];
+  tags: string[];
+  image: IRecipeImage | null;
+  parentId: Types.ObjectId | null;
+  ancestors: Types.ObjectId[];
+  remixDirection: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const RecipeImageSchema = new Schema<IRecipeImage>(
+  {
+    id: { type: String, required: true },
+    mimeType: { type: String, required: true },
+  },
+  { _id: false }
+);
+
+const RecipeSchema = new Schema<IRecipe>(
+  {
+    userID: { type: String, default: null, index: true },
+    // Sparse so recipes stored before permalinks existed do not collide on a missing value.
+    shortId: { type: String, unique: true, sparse: true },
+    slug: { type: String },
+    userPrompt: { type: String, required: true, maxlength: 500 },
+    title: { type: String, required: true, trim: true, maxlength: 200 },
+    description: { type: String, default: '', maxlength: 1000 },
+    mealType: { type: String, enum: [...MEAL_TYPES, null], default: null },
+    ingredients: { type: [String], default: [] },
+    instructions: { type: [String], default: [] },
+    calories: { type: Number, default: null, min: 0 },
+    servings: { type: Number, default: null, min: 1 },
+    associatedDiseases: { type: [String], default: [] },
+    tags: { type: [String], default: [], index: true },
+    image: { type: RecipeImageSchema, default: null },
+    parentId: { type: Schema.Types.ObjectId, ref: 'Recipe', default: null, index: true },
+    ancestors: { type: [Schema.Types.ObjectId], default: [], index: true },
+    remixDirection: { type: String, default: null, maxlength: 100 },
+  },
+  { timestamps: true }
+);
+
+// Reuse the compiled model across hot reloads in development.
+const Recipe: Model<IRecipe> =
+  (mongoose.models.Recipe as Model<IRecipe>) || mongoose.model<IRecipe>('Recipe', RecipeSchema);
+
+export default Recipe;
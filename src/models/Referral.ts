@@ -0,0 +1,44 @@
+/**
+ * @file src/models/Referral.ts
+ * @description Mongoose model for referral edges: who invited whom. An edge is recorded when a new member joins with a
+ * referral code and credited once the friend confirms their email. Each canonical email can be referred only once.
+ * @requires mongoose - MongoDB object modeling tool
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+/**
+ * Interface describing a Referral document.
+ * @interface IReferral
+ * @extends Document
+ * @property {string} code - The referral code used.
+ * @property {string} referrerEmail - The referrer's canonical email.
+ * @property {string} referredEmail - The friend's canonical email.
+ * @property {Date | null} creditedAt - When the friend confirmed and the referrer moved up, or null while pending.
+ * @property {Date} createdAt - When the friend joined (managed by Mongoose).
+ */
+export interface IReferral extends Document {
+  code: string;
+  referrerEmail: string;
+  referredEmail: string;
+  creditedAt: Date | null;
+  createdAt: Date;
+}
+
+const ReferralSchema = new Schema<IReferral>(
+  {
+    code: { type: String, required: true },
+    referrerEmail: { type: String, required: true, index: true },
+    referredEmail: { type: String, required: true, unique: true },
+    creditedAt: { type: Date, default: null },
+  },
+  { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+// Reuse the compiled model across hot reloads in development.
+const Referral: Model<IReferral> =
+  (mongoose.models.Referral as Model<IReferral>) || mongoose.model<IReferral>('Referral', ReferralSchema);
+
+export default Referral;
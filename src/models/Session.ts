@@ -0,0 +1,52 @@
+/**
+ * @file src/models/Session.ts
+ * @description Mongoose model for sign-in sessions. The session cookie holds a random token; only its SHA-256 hash is
+ * stored, so a leaked database can't be used to sign in. Expired sessions are removed by a TTL index.
+ * @requires mongoose - MongoDB object modeling tool
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+/**
+ * Interface describing a Session document.
+ * @interface ISession
+ * @extends Document
+ * @property {string} tokenHash - SHA-256 of the session token, hex.
+ * @property {string} userID - The signed-in user.
+ * @property {Date} expiresAt - When the session stops working.
+ * @property {string | null} ip - The IP address it was created from.
+ * @property {string | null} userAgent - The browser it was created from.
+ * @property {Date} createdAt - Creation timestamp (managed by Mongoose).
+ * @property {Date} updatedAt - Last update timestamp (managed by Mongoose).
+ */
+export interface ISession extends Document {
+  tokenHash: string;
+  userID: string;
+  expiresAt: Date;
+  ip: string | null;
+  userAgent: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SessionSchema = new Schema<ISession>(
+  {
+    tokenHash: { type: String, required: true, unique: true },
+    userID: { type: String, required: true, index: true },
+    expiresAt: { type: Date, required: true },
+    ip: { type: String, default: null },
+    userAgent: { type: String, default: null, maxlength: 500 },
+  },
+  { timestamps: true }
+);
+
+// MongoDB deletes sessions once they expire.
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Reuse the compiled model across hot reloads in development.
+const Session: Model<ISession> =
+  (mongoose.models.Session as Model<ISession>) || mongoose.model<ISession>('Session', SessionSchema);
+
+export default Session;
@@ -0,0 +1,130 @@
+/**
+ * @file src/models/ShoppingList.ts
+ * @description Mongoose model for shopping lists built from stored recipes. Lists are shared by link, so the merged items
+ * are stored rather than recomputed: checking an item off is visible to everyone who has the link.
+ * @requires mongoose - MongoDB object modeling tool
+ * @requires @/lib/shoppingList For the aisles.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+import { AISLES, type Aisle } from '@/lib/shoppingList';
+
+/**
+ * Interface for a combined amount. See `ShoppingAmount`.
+ * @interface IShoppingAmount
+ * @property {{ min: number, max: number }} quantity - The amount, which may be a range.
+ * @property {string | null} unit - The canonical unit name, or null for a plain count.
+ */
+export interface IShoppingAmount {
+  quantity: { min: number; max: number };
+  unit: string | null;
+}
+
+/**
+ * Interface for a merged item. See `ShoppingListItem`.
+ * @interface IShoppingListItem
+ * @property {string} itemId - Stable id within the list (the normalised item name).
+ * @property {string} name - The item, as first written.
+ * @property {Aisle} aisle - The store aisle.
+ * @property {IShoppingAmount[]} amounts - The combined amounts.
+ * @property {boolean} unmeasured - Whether some line called for it without an amount.
+ * @property {string[]} recipes - Titles of the recipes that use it.
+ * @property {boolean} checked - Whether it has been checked off.
+ */
+export interface IShoppingListItem {
+  itemId: string;
+  name: string;
+  aisle: Aisle;
+  amounts: IShoppingAmount[];
+  unmeasured: boolean;
+  recipes: string[];
+  checked: boolean;
+}
+
+/**
+ * Interface for a source recipe, copied onto the list so it still reads correctly if the recipe is deleted.
+ * @interface IShoppingListRecipe
+ * @property {Types.ObjectId} recipeId - The recipe id.
+ * @property {string} title - The recipe title.
+ * @property {string | null} slug - The recipe's permalink slug.
+ */
+export interface IShoppingListRecipe {
+  recipeId: Types.ObjectId;
+  title: string;
+  slug: string | null;
+}
+
+/**
+ * Interface describing a ShoppingList document.
+ * @interface IShoppingList
+ * @extends Document
+ * @property {string} shortId - Random, unique short id; the list is shared at `/shopping-list/<shortId>`.
+ * @property {string | null} userID - The user who created it, or null if anonymous.
+ * @property {string} title - The list title.
+ * @property {IShoppingListRecipe[]} recipes - The recipes it was built from.
+ * @property {IShoppingListItem[]} items - The merged items, in aisle order.
+ * @property {Date} createdAt - Creation timestamp (managed by Mongoose).
+ * @property {Date} updatedAt - Last update timestamp (managed by Mongoose).
+ */
+export interface IShoppingList extends Document {
+  shortId: string;
+  userID: string | null;
+  title: string;
+  recipes: IShoppingListRecipe[];
+  items: IShoppingListItem[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ShoppingAmountSchema = new Schema<IShoppingAmount>(
+  {
+    quantity: {
+      min: { type: Number, required: true, min: 0 },
+      max: { type: Number, required: true, min: 0 },
+    },
+    unit: { type: String, default: null },
+  },
+  { _id: false }
+);
+
+const ShoppingListItemSchema = new Schema<IShoppingListItem>(
+  {
+    itemId: { type: String, required: true },
+    name: { type: String, required: true, maxlength: 500 },
+    aisle: { type: String, enum: AISLES, required: true },
+    amounts: { type: [ShoppingAmountSchema], default: [] },
+    unmeasured: { type: Boolean, default: false },
+    recipes: { type: [String], default: [] },
+    checked: { type: Boolean, default: false },
+  },
+  { _id: false }
+);
+
+const ShoppingListRecipeSchema = new Schema<IShoppingListRecipe>(
+  {
+    recipeId: { type: Schema.Types.ObjectId, ref: 'Recipe', required: true },
+    title: { type: String, required: true },
+    slug: { type: String, default: null },
+  },
+  { _id: false }
+);
+
+const ShoppingListSchema = new Schema<IShoppingList>(
+  {
+    shortId: { type: String, required: true, unique: true },
+    userID: { type: String, default: null, index: true },
+    title: { type: String, required: true, trim: true, maxlength: 100 },
+    recipes: { type: [ShoppingListRecipeSchema], default: [] },
+    items: { type: [ShoppingListItemSchema], default: [] },
+  },
+  { timestamps: true }
+);
+
+// Reuse the compiled model across hot reloads in development.
+const ShoppingList: Model<IShoppingList> =
+  (mongoose.models.ShoppingList as Model<IShoppingList>) ||
+  mongoose.model<IShoppingList>('ShoppingList', ShoppingListSchema);
+
+export default ShoppingList;
@@ -0,0 +1,83 @@
+/**
+ * @file src/models/Testimonial.ts
+ * @description Mongoose model for user testimonials about recipes. Submissions wait in a moderation queue; approved
+ * ones are shown on the landing page, featured ones first.
+ * @requires mongoose - MongoDB object modeling tool
+ * @requires @/lib/testimonial For the statuses and length limits.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+import {
+  TESTIMONIAL_AUTHOR_MAX_LENGTH,
+  TESTIMONIAL_QUOTE_MAX_LENGTH,
+  TESTIMONIAL_STATUSES,
+  type TestimonialStatus,
+} from '@/lib/testimonial';
+
+/**
+ * Interface describing a Testimonial document.
+ * @interface ITestimonial
+ * @extends Document
+ * @property {Types.ObjectId} recipeId - The recipe it's about.
+ * @property {string} recipeTitle - The recipe title when submitted.
+ * @property {string | null} recipeSlug - The recipe's permalink slug, if it has one.
+ * @property {string} userID - The submitting user.
+ * @property {string} quote - What they said.
+ * @property {string} author - Their display name.
+ * @property {string | null} handle - A validated social handle.
+ * @property {string | null} avatarUrl - A validated avatar URL.
+ * @property {TestimonialStatus} status - `pending`, `approved` or `rejected`.
+ * @property {number | null} featuredRank - Position among featured testimonials, lowest first; null if not featured.
+ * @property {string | null} moderatedBy - The admin who last approved, rejected or featured it.
+ * @property {Date | null} moderatedAt - When that happened.
+ * @property {Date} createdAt - Submission timestamp (managed by Mongoose).
+ * @property {Date} updatedAt - Last update timestamp (managed by Mongoose).
+ */
+export interface ITestimonial extends Document {
+  recipeId: Types.ObjectId;
+  recipeTitle: string;
+  recipeSlug: string | null;
+  userID: string;
+  quote: string;
+  author: string;
+  handle: string | null;
+  avatarUrl: string | null;
+  status: TestimonialStatus;
+  featuredRank: number | null;
+  moderatedBy: string | null;
+  moderatedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TestimonialSchema = new Schema<ITestimonial>(
+  {
+    recipeId: { type: Schema.Types.ObjectId, ref: 'Recipe', required: true },
+    recipeTitle: { type: String, required: true },
+    recipeSlug: { type: String, default: null },
+    userID: { type: String, required: true },
+    quote: { type: String, required: true, trim: true, maxlength: TESTIMONIAL_QUOTE_MAX_LENGTH },
+    author: { type: String, required: true, trim: true, maxlength: TESTIMONIAL_AUTHOR_MAX_LENGTH },
+    handle: { type: String, default: null },
+    avatarUrl: { type: String, default: null, maxlength: 500 },
+    status: { type: String, enum: TESTIMONIAL_STATUSES, default: 'pending' },
+    featuredRank: { type: Number, default: null },
+    moderatedBy: { type: String, default: null },
+    moderatedAt: { type: Date, default: null },
+  },
+  { timestamps: true }
+);
+
+// Serves both the landing page list and the moderation queue.
+TestimonialSchema.index({ status: 1, featuredRank: 1, createdAt: -1 });
+
+// One testimonial per user per recipe.
+TestimonialSchema.index({ userID: 1, recipeId: 1 }, { unique: true });
+
+// Reuse the compiled model across hot reloads in development.
+const Testimonial: Model<ITestimonial> =
+  (mongoose.models.Testimonial as Model<ITestimonial>) || mongoose.model<ITestimonial>('Testimonial', TestimonialSchema);
+
+export default Testimonial;
@@ -0,0 +1,49 @@
+/**
+ * @file src/models/User.ts
+ * @description Mongoose model for user accounts. Accounts sign in with an email and password, with a magic link, or
+ * both; an account created by a magic link has no password until one is set.
+ * @requires mongoose - MongoDB object modeling tool
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+/**
+ * Interface describing a User document.
+ * @interface IUser
+ * @extends Document
+ * @property {string} email - The sign-in email, lowercased.
+ * @property {string | null} passwordHash - The scrypt password hash (see `@/lib/auth/password`), or null for
+ * magic-link-only accounts.
+ * @property {string | null} name - An optional display name.
+ * @property {Date | null} emailVerifiedAt - When the email was proven by following a magic link, if ever.
+ * @property {Date | null} lastLoginAt - The most recent sign-in.
+ * @property {Date} createdAt - Creation timestamp (managed by Mongoose).
+ * @property {Date} updatedAt - Last update timestamp (managed by Mongoose).
+ */
+export interface IUser extends Document {
+  email: string;
+  passwordHash: string | null;
+  name: string | null;
+  emailVerifiedAt: Date | null;
+  lastLoginAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const UserSchema = new Schema<IUser>(
+  {
+    email: { type: String, required: true, unique: true, lowercase: true, trim: true, maxlength: 254 },
+    passwordHash: { type: String, default: null },
+    name: { type: String, default: null, trim: true, maxlength: 80 },
+    emailVerifiedAt: { type: Date, default: null },
+    lastLoginAt: { type: Date, default: null },
+  },
+  { timestamps: true }
+);
+
+// Reuse the compiled model across hot reloads in development.
+const User: Model<IUser> = (mongoose.models.User as Model<IUser>) || mongoose.model<IUser>('User', UserSchema);
+
+export default User;
@@ -0,0 +1,51 @@
+/**
+ * @file src/models/WaitlistMember.ts
+ * @description Mongoose model for places in the waitlist queue. Members are keyed by canonical email (see
+ * `@/lib/referrals`), so address variants such as `me+2@gmail.com` share one place and one referral code.
+ * @requires mongoose - MongoDB object modeling tool
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+/**
+ * Interface describing a WaitlistMember document.
+ * @interface IWaitlistMember
+ * @extends Document
+ * @property {string} canonicalEmail - The member's canonical email.
+ * @property {string} code - Their referral code.
+ * @property {number} priority - Queue order, lower first: the join time in ms, less a boost per credited referral.
+ * @property {number} referralCount - How many referred friends have confirmed.
+ * @property {Date | null} confirmedAt - When they confirmed their email; unconfirmed members don't hold anyone back.
+ * @property {Date} createdAt - When they joined (managed by Mongoose).
+ */
+export interface IWaitlistMember extends Document {
+  canonicalEmail: string;
+  code: string;
+  priority: number;
+  referralCount: number;
+  confirmedAt: Date | null;
+  createdAt: Date;
+}
+
+const WaitlistMemberSchema = new Schema<IWaitlistMember>(
+  {
+    canonicalEmail: { type: String, required: true, unique: true },
+    code: { type: String, required: true, unique: true },
+    priority: { type: Number, required: true },
+    referralCount: { type: Number, default: 0 },
+    confirmedAt: { type: Date, default: null },
+  },
+  { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+// Position lookups count confirmed members ahead in the queue.
+WaitlistMemberSchema.index({ confirmedAt: 1, priority: 1 });
+
+// Reuse the compiled model across hot reloads in development.
+const WaitlistMember: Model<IWaitlistMember> =
+  (mongoose.models.WaitlistMember as Model<IWaitlistMember>) ||
+  mongoose.model<IWaitlistMember>('WaitlistMember', WaitlistMemberSchema);
+
+export default WaitlistMember;
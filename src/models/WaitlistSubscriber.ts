@@ -0,0 +1,48 @@
+/**
+ * @file src/models/WaitlistSubscriber.ts
+ * @description Mongoose model for waitlist subscribers, used by the local email-list provider in development.
+ * @requires mongoose - MongoDB object modeling tool
+ * @requires @/lib/waitlist/types For the topics and statuses.
+ * @author Cascade
+ * @date 2026-10-19
+ */
+
+import mongoose, { Document, Model, Schema } from 'mongoose';
+import { SUBSCRIBER_STATUSES, WAITLIST_TOPICS, type SubscriberStatus, type WaitlistTopic } from '@/lib/waitlist/types';
+
+/**
+ * Interface describing a WaitlistSubscriber document.
+ * @interface IWaitlistSubscriber
+ * @extends Document
+ * @property {string} email - The address, lowercased.
+ * @property {SubscriberStatus} status - `pending`, `active` or `unsubscribed`.
+ * @property {WaitlistTopic[]} topics - What they want to hear about.
+ * @property {Date | null} confirmedAt - When the address was confirmed.
+ * @property {Date} createdAt - Creation timestamp (managed by Mongoose).
+ * @property {Date} updatedAt - Last update timestamp (managed by Mongoose).
+ */
+export interface IWaitlistSubscriber extends Document {
+  email: string;
+  status: SubscriberStatus;
+  topics: WaitlistTopic[];
+  confirmedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WaitlistSubscriberSchema = new Schema<IWaitlistSubscriber>(
+  {
+    email: { type: String, required: true, unique: true, lowercase: true, trim: true },
+    status: { type: String, enum: SUBSCRIBER_STATUSES, required: true },
+    topics: { type: [{ type: String, enum: WAITLIST_TOPICS }], default: [] },
+    confirmedAt: { type: Date, default: null },
+  },
+  { timestamps: true }
+);
+
+// Reuse the compiled model across hot reloads in development.
+const WaitlistSubscriber: Model<IWaitlistSubscriber> =
+  (mongoose.models.WaitlistSubscriber as Model<IWaitlistSubscriber>) ||
+  mongoose.model<IWaitlistSubscriber>('WaitlistSubscriber', WaitlistSubscriberSchema);
+
+export default WaitlistSubscriber;